@@ -2,6 +2,7 @@ import { Module, NestModule, MiddlewareConsumer } from '@nestjs/common';
 import { AuthModule } from './modules/auth/auth.module';
 import { DatabaseModule } from './database/database.module';
 import { LoggerMiddleware } from './middleware/logger.middleware';
+import { RequestIdMiddleware } from './middleware/request-id.middleware';
 import { ScheduleModule } from '@nestjs/schedule';
 import { SystemLogsModule } from './modules/system-logs/system-logs.module';
 import { NotificationsModule } from './modules/notifications/notifications.module';
@@ -13,6 +14,13 @@ import { NewsModule } from './modules/news/news.module';
 import { VideoModule } from './video/video.module';
 import { PanelistModule } from './panelist/panelist.module';
 import { InformationModule } from './information/information.module';
+import { AttendanceModule } from './modules/attendance/attendance.module';
+import { AgendaModule } from './modules/agenda/agenda.module';
+import { BroadcastsModule } from './modules/broadcasts/broadcasts.module';
+import { SessionsModule } from './modules/sessions/sessions.module';
+import { LockoutModule } from './modules/lockout/lockout.module';
+import { AuditModule } from './modules/audit/audit.module';
+import { EmailTemplatesModule } from './modules/email-templates/email-templates.module';
 @Module({
   imports: [
     ConfigModule.forRoot({
@@ -30,12 +38,19 @@ import { InformationModule } from './information/information.module';
     VideoModule,
     PanelistModule,
     InformationModule,
+    AttendanceModule,
+    AgendaModule,
+    BroadcastsModule,
+    SessionsModule,
+    LockoutModule,
+    AuditModule,
+    EmailTemplatesModule,
   ],
   controllers: [],
   providers: [],
 })
 export class AppModule implements NestModule {
   configure(consumer: MiddlewareConsumer) {
-    consumer.apply(LoggerMiddleware).forRoutes('*');
+    consumer.apply(RequestIdMiddleware, LoggerMiddleware).forRoutes('*');
   }
 }
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+import { Permission } from '../enums/permission.enum';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+/**
+ * Require the caller to hold every listed permission through their roles
+ */
+export const RequirePermissions = (...permissions: Permission[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
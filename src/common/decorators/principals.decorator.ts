@@ -0,0 +1,19 @@
+import { SetMetadata } from '@nestjs/common';
+import { PrincipalType } from '../enums/principal-type.enum';
+
+export const PRINCIPALS_KEY = 'principals';
+export const OWN_DELEGATE_PARAM_KEY = 'ownDelegateParam';
+
+/**
+ * Account types allowed on a route. Routes without this decorator only
+ * accept staff tokens.
+ */
+export const Principals = (...principals: PrincipalType[]) =>
+  SetMetadata(PRINCIPALS_KEY, principals);
+
+/**
+ * Restrict delegate tokens to requests whose route param matches their own
+ * delegate ID. Staff are unaffected.
+ */
+export const OwnDelegate = (param = 'id') =>
+  SetMetadata(OWN_DELEGATE_PARAM_KEY, param);
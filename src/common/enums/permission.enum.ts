@@ -0,0 +1,33 @@
+// Fine-grained permissions checked per route by PermissionsGuard.
+// Roles are granted permissions in role.enum.ts.
+export enum Permission {
+  USERS_READ = 'users:read',
+  USERS_MANAGE = 'users:manage',
+  USERS_DELETE = 'users:delete',
+  ACCOUNTS_UNLOCK = 'accounts:unlock',
+  SECURITY_MANAGE = 'security:manage',
+
+  DELEGATES_READ = 'delegates:read',
+  DELEGATES_UPDATE = 'delegates:update',
+  DELEGATES_DELETE = 'delegates:delete',
+  DELEGATES_APPROVE = 'delegates:approve',
+  DELEGATES_IMPORT = 'delegates:import',
+  DELEGATES_EXPORT = 'delegates:export',
+  CHECK_IN = 'check-in:perform',
+  ATTENDANCE_READ = 'attendance:read',
+  BADGES_MANAGE = 'badges:manage',
+
+  EVENTS_MANAGE = 'events:manage',
+  EVENTS_CANCEL = 'events:cancel',
+  BROADCASTS_READ = 'broadcasts:read',
+  NOTIFICATIONS_SEND = 'notifications:send',
+
+  NEWS_MANAGE = 'news:manage',
+  PANELISTS_MANAGE = 'panelists:manage',
+  VIDEOS_MODERATE = 'videos:moderate',
+  INFORMATION_MANAGE = 'information:manage',
+  EMAIL_TEMPLATES_MANAGE = 'email-templates:manage',
+
+  SYSTEM_LOGS_READ = 'system-logs:read',
+  AUDIT_READ = 'audit:read',
+}
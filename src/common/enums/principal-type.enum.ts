@@ -0,0 +1,5 @@
+// Kind of account a request is authenticated as
+export enum PrincipalType {
+  STAFF = 'staff',
+  DELEGATE = 'delegate',
+}
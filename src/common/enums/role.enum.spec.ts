@@ -0,0 +1,38 @@
+import { Permission } from './permission.enum';
+import { Role, permissionsForRoles } from './role.enum';
+
+describe('permissionsForRoles', () => {
+  it('grants admins every permission', () => {
+    expect([...permissionsForRoles([Role.ADMIN])].sort()).toEqual(
+      Object.values(Permission).sort(),
+    );
+  });
+
+  it('combines the permissions of several roles', () => {
+    const granted = permissionsForRoles([Role.CHECK_IN_STAFF, Role.HR]);
+
+    expect(granted.has(Permission.CHECK_IN)).toBe(true);
+    expect(granted.has(Permission.USERS_MANAGE)).toBe(true);
+    expect(granted.has(Permission.DELEGATES_APPROVE)).toBe(false);
+  });
+
+  it('keeps check-in staff to check-in and attendance', () => {
+    expect([...permissionsForRoles([Role.CHECK_IN_STAFF])].sort()).toEqual(
+      [Permission.ATTENDANCE_READ, Permission.CHECK_IN].sort(),
+    );
+  });
+
+  it('keeps event cancellation with admins', () => {
+    const holders = Object.values(Role).filter((role) =>
+      permissionsForRoles([role]).has(Permission.EVENTS_CANCEL),
+    );
+
+    expect(holders).toEqual([Role.ADMIN]);
+  });
+
+  it('grants nothing for unknown or missing roles', () => {
+    expect(permissionsForRoles(['superuser']).size).toBe(0);
+    expect(permissionsForRoles(undefined).size).toBe(0);
+    expect(permissionsForRoles([Role.EMPLOYEE, Role.FINANCE]).size).toBe(0);
+  });
+});
@@ -0,0 +1,53 @@
+import { Permission } from './permission.enum';
+
+export enum Role {
+  ADMIN = 'admin',
+  REGISTRATION_OFFICER = 'registration_officer',
+  CONTENT_EDITOR = 'content_editor',
+  CHECK_IN_STAFF = 'check_in_staff',
+  HR = 'hr',
+  FINANCE = 'finance',
+  EMPLOYEE = 'employee',
+}
+
+// Admins implicitly hold every permission
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  [Role.ADMIN]: Object.values(Permission),
+  [Role.REGISTRATION_OFFICER]: [
+    Permission.DELEGATES_READ,
+    Permission.DELEGATES_UPDATE,
+    Permission.DELEGATES_APPROVE,
+    Permission.DELEGATES_IMPORT,
+    Permission.DELEGATES_EXPORT,
+    Permission.CHECK_IN,
+    Permission.ATTENDANCE_READ,
+    Permission.BADGES_MANAGE,
+    Permission.BROADCASTS_READ,
+    Permission.NOTIFICATIONS_SEND,
+  ],
+  [Role.CONTENT_EDITOR]: [
+    Permission.NEWS_MANAGE,
+    Permission.PANELISTS_MANAGE,
+    Permission.VIDEOS_MODERATE,
+    Permission.INFORMATION_MANAGE,
+    Permission.EMAIL_TEMPLATES_MANAGE,
+  ],
+  [Role.CHECK_IN_STAFF]: [Permission.CHECK_IN, Permission.ATTENDANCE_READ],
+  [Role.HR]: [Permission.USERS_READ, Permission.USERS_MANAGE],
+  [Role.FINANCE]: [],
+  [Role.EMPLOYEE]: [],
+};
+
+/**
+ * Union of the permissions granted by a set of roles; unknown roles grant
+ * nothing
+ */
+export function permissionsForRoles(roles: string[] = []): Set<Permission> {
+  const permissions = new Set<Permission>();
+  for (const role of roles) {
+    for (const permission of ROLE_PERMISSIONS[role as Role] || []) {
+      permissions.add(permission);
+    }
+  }
+  return permissions;
+}
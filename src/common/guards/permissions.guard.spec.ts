@@ -0,0 +1,160 @@
+import { ExecutionContext, ForbiddenException, Type } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PermissionsGuard } from './permissions.guard';
+import { Role } from '../enums/role.enum';
+import { PrincipalType } from '../enums/principal-type.enum';
+import { DelegatesController } from '../../modules/delegates/delegate.controller';
+import { KioskController } from '../../modules/delegates/kiosk.controller';
+import { AttendanceController } from '../../modules/attendance/attendance.controller';
+import { EventsController } from '../../modules/events/event.controller';
+import { NewsController } from '../../modules/news/news.controller';
+import { PanelistController } from '../../panelist/panelist.controller';
+import { VideoController } from '../../video/video.controller';
+import { AuthController } from '../../modules/auth/auth.controller';
+import { AgendaController } from '../../modules/agenda/agenda.controller';
+
+function contextFor(
+  controller: Type<unknown>,
+  handler: string,
+  request: object,
+): ExecutionContext {
+  return {
+    getClass: () => controller,
+    getHandler: () => controller.prototype[handler],
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext;
+}
+
+function staff(...roles: Role[]) {
+  return { user: { roles }, principalType: PrincipalType.STAFF };
+}
+
+describe('PermissionsGuard', () => {
+  const guard = new PermissionsGuard(new Reflector());
+
+  // Each route with a staff role that must be refused and one that must pass
+  const routes: [string, Type<unknown>, string, Role[], Role][] = [
+    [
+      'delegate approval',
+      DelegatesController,
+      'approve',
+      [Role.CHECK_IN_STAFF, Role.CONTENT_EDITOR, Role.HR],
+      Role.REGISTRATION_OFFICER,
+    ],
+    [
+      'delegate rejection',
+      DelegatesController,
+      'reject',
+      [Role.CHECK_IN_STAFF, Role.CONTENT_EDITOR, Role.HR],
+      Role.REGISTRATION_OFFICER,
+    ],
+    [
+      'check-in',
+      DelegatesController,
+      'checkIn',
+      [Role.CONTENT_EDITOR, Role.HR, Role.FINANCE],
+      Role.CHECK_IN_STAFF,
+    ],
+    [
+      'check-in scan',
+      DelegatesController,
+      'scanCheckIn',
+      [Role.CONTENT_EDITOR, Role.HR, Role.FINANCE],
+      Role.CHECK_IN_STAFF,
+    ],
+    [
+      'kiosk sync',
+      KioskController,
+      'sync',
+      [Role.CONTENT_EDITOR, Role.HR, Role.FINANCE],
+      Role.CHECK_IN_STAFF,
+    ],
+    [
+      'session entry',
+      AttendanceController,
+      'recordEntry',
+      [Role.CONTENT_EDITOR, Role.HR, Role.FINANCE],
+      Role.CHECK_IN_STAFF,
+    ],
+    [
+      'bookmark counts',
+      AgendaController,
+      'getBookmarkCounts',
+      [Role.CONTENT_EDITOR, Role.HR, Role.FINANCE],
+      Role.CHECK_IN_STAFF,
+    ],
+    [
+      'event cancellation',
+      EventsController,
+      'cancelEvent',
+      [Role.REGISTRATION_OFFICER, Role.CONTENT_EDITOR, Role.CHECK_IN_STAFF],
+      Role.ADMIN,
+    ],
+    [
+      'news bulk update',
+      NewsController,
+      'bulkUpdate',
+      [Role.REGISTRATION_OFFICER, Role.CHECK_IN_STAFF, Role.HR],
+      Role.CONTENT_EDITOR,
+    ],
+    [
+      'panelist confirmation',
+      PanelistController,
+      'confirmParticipation',
+      [Role.REGISTRATION_OFFICER, Role.CHECK_IN_STAFF, Role.HR],
+      Role.CONTENT_EDITOR,
+    ],
+    [
+      'video moderation',
+      VideoController,
+      'update',
+      [Role.REGISTRATION_OFFICER, Role.CHECK_IN_STAFF, Role.HR],
+      Role.CONTENT_EDITOR,
+    ],
+  ];
+
+  describe.each(routes)('%s', (_, controller, handler, refused, allowed) => {
+    it.each(refused)('refuses %s', (role) => {
+      expect(() =>
+        guard.canActivate(contextFor(controller, handler, staff(role))),
+      ).toThrow(ForbiddenException);
+    });
+
+    it('refuses staff without roles', () => {
+      expect(() =>
+        guard.canActivate(contextFor(controller, handler, staff())),
+      ).toThrow(ForbiddenException);
+    });
+
+    it(`allows ${allowed}`, () => {
+      expect(
+        guard.canActivate(contextFor(controller, handler, staff(allowed))),
+      ).toBe(true);
+    });
+  });
+
+  it('allows staff with any role on routes without permissions', () => {
+    expect(
+      guard.canActivate(
+        contextFor(AuthController, 'getProfile', staff(Role.EMPLOYEE)),
+      ),
+    ).toBe(true);
+  });
+
+  it('allows public routes without a user', () => {
+    expect(
+      guard.canActivate(contextFor(DelegatesController, 'login', {})),
+    ).toBe(true);
+  });
+
+  it('leaves delegate tokens to JwtAuthGuard', () => {
+    expect(
+      guard.canActivate(
+        contextFor(DelegatesController, 'downloadBadge', {
+          user: { _id: 'delegate' },
+          principalType: PrincipalType.DELEGATE,
+        }),
+      ),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,46 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { IS_PUBLIC_KEY } from '../../modules/auth/decorators/public.decorator';
+import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+import { Permission } from '../enums/permission.enum';
+import { permissionsForRoles } from '../enums/role.enum';
+import { PrincipalType } from '../enums/principal-type.enum';
+
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    const required = this.reflector.getAllAndOverride<Permission[]>(
+      PERMISSIONS_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (isPublic || !required || required.length === 0) {
+      return true;
+    }
+
+    const { user, principalType } = context.switchToHttp().getRequest();
+    // Delegates hold no roles; their access is limited by @Principals and
+    // @OwnDelegate in JwtAuthGuard instead
+    if (principalType === PrincipalType.DELEGATE) {
+      return true;
+    }
+
+    const granted = permissionsForRoles(user?.roles);
+    const missing = required.filter((permission) => !granted.has(permission));
+    if (missing.length > 0) {
+      throw new ForbiddenException(`Missing permission: ${missing.join(', ')}`);
+    }
+    return true;
+  }
+}
@@ -28,6 +28,10 @@ import { InformationService } from './information.service';
 import { Information } from './entities/information.entity';
 import { CreateInformationDto } from './dto/create-information.dto';
 import { Public } from 'src/modules/auth/decorators/public.decorator';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { Permission } from '../common/enums/permission.enum';
+import { Principals } from '../common/decorators/principals.decorator';
+import { PrincipalType } from '../common/enums/principal-type.enum';
 
 @ApiTags('Information')
 @ApiBearerAuth()
@@ -36,6 +40,7 @@ export class InformationController {
   constructor(private readonly informationService: InformationService) {}
 
   @Post()
+  @RequirePermissions(Permission.INFORMATION_MANAGE)
   @UseInterceptors(AnyFilesInterceptor())
   @ApiConsumes('multipart/form-data')
   @ApiOperation({ summary: 'Create event information' })
@@ -412,6 +417,7 @@ export class InformationController {
   }
 
   @Get(':id')
+  @Principals(PrincipalType.STAFF, PrincipalType.DELEGATE)
   @ApiOperation({ summary: 'Get delegate information by ID' })
   @ApiParam({ name: 'id', description: 'Delegate information ID' })
   @ApiResponse({
@@ -432,6 +438,7 @@ export class InformationController {
   }
 
   @Patch(':id')
+  @RequirePermissions(Permission.INFORMATION_MANAGE)
   @ApiOperation({ summary: 'Update delegate information by ID' })
   @ApiParam({ name: 'id', description: 'Delegate information ID' })
   @ApiResponse({
@@ -451,6 +458,7 @@ export class InformationController {
   }
 
   @Delete(':id')
+  @RequirePermissions(Permission.INFORMATION_MANAGE)
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({ summary: 'Delete delegate information by ID' })
   @ApiParam({ name: 'id', description: 'Delegate information ID' })
@@ -0,0 +1,20 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// Tags every request with an ID, reusing one set by a proxy, so audit
+// entries and logs can be tied back to the request that caused them
+@Injectable()
+export class RequestIdMiddleware implements NestMiddleware {
+  use(request: Request, response: Response, next: NextFunction): void {
+    const incoming = request.get(REQUEST_ID_HEADER);
+    const requestId =
+      incoming && /^[\w.-]{1,100}$/.test(incoming) ? incoming : randomUUID();
+
+    (request as Request & { requestId: string }).requestId = requestId;
+    response.setHeader(REQUEST_ID_HEADER, requestId);
+    next();
+  }
+}
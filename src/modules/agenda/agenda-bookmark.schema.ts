@@ -0,0 +1,38 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+// Agenda Bookmark Schema
+// A session from Event.agenda saved to a delegate's personal agenda
+@Schema({
+  timestamps: true,
+  collection: 'agenda_bookmarks',
+})
+export class AgendaBookmark {
+  @Prop({ type: Types.ObjectId, ref: 'Delegate', required: true })
+  delegateId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Event', required: true })
+  eventId: Types.ObjectId;
+
+  @Prop({ required: true, trim: true })
+  sessionId: string;
+
+  @Prop({ required: true, min: 0 })
+  reminderMinutes: number;
+
+  @Prop()
+  reminderAt: Date;
+
+  @Prop()
+  reminderJobId: string;
+}
+
+export type AgendaBookmarkDocument = AgendaBookmark & Document;
+export const AgendaBookmarkSchema =
+  SchemaFactory.createForClass(AgendaBookmark);
+
+AgendaBookmarkSchema.index(
+  { delegateId: 1, eventId: 1, sessionId: 1 },
+  { unique: true },
+);
+AgendaBookmarkSchema.index({ eventId: 1, sessionId: 1 });
@@ -0,0 +1,130 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiBody,
+  ApiOkResponse,
+  ApiCreatedResponse,
+  ApiNoContentResponse,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { AgendaService } from './agenda.service';
+import {
+  BookmarkSessionDto,
+  MyAgendaDto,
+  SessionBookmarkCountDto,
+} from './dto/agenda-bookmark.dto';
+import {
+  OwnDelegate,
+  Principals,
+} from '../../common/decorators/principals.decorator';
+import { PrincipalType } from '../../common/enums/principal-type.enum';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../../common/enums/permission.enum';
+
+@ApiTags('My Agenda')
+@ApiBearerAuth()
+@Controller('agenda')
+export class AgendaController {
+  private readonly logger = new Logger(AgendaController.name);
+
+  constructor(private readonly agendaService: AgendaService) {}
+
+  @Get('delegates/:delegateId')
+  @Principals(PrincipalType.DELEGATE)
+  @OwnDelegate('delegateId')
+  @ApiOperation({
+    summary: "Get a delegate's personal agenda",
+    description:
+      'Returns bookmarked sessions in chronological order. Overlapping sessions are listed in `clashesWith`.',
+  })
+  @ApiParam({ name: 'delegateId', description: 'Delegate ID' })
+  @ApiOkResponse({ description: 'Agenda retrieved', type: MyAgendaDto })
+  @ApiBadRequestResponse({ description: 'Delegate is not approved' })
+  @ApiNotFoundResponse({ description: 'Delegate not found' })
+  async getMyAgenda(
+    @Param('delegateId') delegateId: string,
+  ): Promise<MyAgendaDto> {
+    this.logger.log(`GET /agenda/delegates/${delegateId}`);
+    return this.agendaService.getMyAgenda(delegateId);
+  }
+
+  @Post('delegates/:delegateId/sessions')
+  @Principals(PrincipalType.DELEGATE)
+  @OwnDelegate('delegateId')
+  @ApiOperation({
+    summary: 'Bookmark a session',
+    description:
+      'Adds a session to the delegate agenda and schedules a reminder push. Bookmarking again updates the reminder.',
+  })
+  @ApiParam({ name: 'delegateId', description: 'Delegate ID' })
+  @ApiBody({ type: BookmarkSessionDto })
+  @ApiCreatedResponse({
+    description: 'Session bookmarked; returns the updated agenda',
+    type: MyAgendaDto,
+  })
+  @ApiBadRequestResponse({ description: 'Delegate is not approved' })
+  @ApiNotFoundResponse({ description: 'Delegate or session not found' })
+  async addBookmark(
+    @Param('delegateId') delegateId: string,
+    @Body() bookmarkDto: BookmarkSessionDto,
+  ): Promise<MyAgendaDto> {
+    this.logger.log(
+      `POST /agenda/delegates/${delegateId}/sessions - Bookmarking ${bookmarkDto.sessionId}`,
+    );
+    return this.agendaService.addBookmark(delegateId, bookmarkDto);
+  }
+
+  @Delete('delegates/:delegateId/sessions/:sessionId')
+  @Principals(PrincipalType.DELEGATE)
+  @OwnDelegate('delegateId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove a bookmarked session' })
+  @ApiParam({ name: 'delegateId', description: 'Delegate ID' })
+  @ApiParam({ name: 'sessionId', description: 'Agenda session ID' })
+  @ApiNoContentResponse({ description: 'Bookmark removed' })
+  @ApiNotFoundResponse({ description: 'Bookmark not found' })
+  async removeBookmark(
+    @Param('delegateId') delegateId: string,
+    @Param('sessionId') sessionId: string,
+  ): Promise<void> {
+    this.logger.log(
+      `DELETE /agenda/delegates/${delegateId}/sessions/${sessionId}`,
+    );
+    return this.agendaService.removeBookmark(delegateId, sessionId);
+  }
+
+  @Get('events/:eventId/bookmark-counts')
+  @RequirePermissions(Permission.ATTENDANCE_READ)
+  @ApiOperation({
+    summary: 'Get bookmark counts per session',
+    description:
+      'Aggregate number of delegates who saved each agenda session, for room allocation.',
+  })
+  @ApiParam({ name: 'eventId', description: 'Event ID' })
+  @ApiOkResponse({
+    description: 'Counts retrieved',
+    type: [SessionBookmarkCountDto],
+  })
+  @ApiBadRequestResponse({ description: 'Invalid event ID format' })
+  @ApiNotFoundResponse({ description: 'Event not found' })
+  async getBookmarkCounts(
+    @Param('eventId') eventId: string,
+  ): Promise<SessionBookmarkCountDto[]> {
+    this.logger.log(`GET /agenda/events/${eventId}/bookmark-counts`);
+    return this.agendaService.getBookmarkCounts(eventId);
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Delegate, DelegateSchema } from '../delegates/delegates.schema';
+import { Event, EventSchema } from '../events/events.schema';
+import { QueuesModule } from '../queues/queues.module';
+import { AgendaBookmark, AgendaBookmarkSchema } from './agenda-bookmark.schema';
+import { AgendaService } from './agenda.service';
+import { AgendaController } from './agenda.controller';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: AgendaBookmark.name, schema: AgendaBookmarkSchema },
+    ]),
+    MongooseModule.forFeature([
+      { name: Delegate.name, schema: DelegateSchema },
+    ]),
+    MongooseModule.forFeature([{ name: Event.name, schema: EventSchema }]),
+    QueuesModule,
+  ],
+  controllers: [AgendaController],
+  providers: [AgendaService],
+})
+export class AgendaModule {}
@@ -0,0 +1,337 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { Model, Types } from 'mongoose';
+import {
+  AgendaBookmark,
+  AgendaBookmarkDocument,
+} from './agenda-bookmark.schema';
+import {
+  BookmarkSessionDto,
+  BookmarkedSessionDto,
+  MyAgendaDto,
+  SessionBookmarkCountDto,
+} from './dto/agenda-bookmark.dto';
+import { Event, EventDocument } from '../events/events.schema';
+import {
+  Delegate,
+  DelegateDocument,
+  DelegateStatus,
+} from '../delegates/delegates.schema';
+import { NOTIFICATION_QUEUE } from '../queues/constants';
+import { NotificationCategory } from '../notifications/schemas/notification-preference.schema';
+
+type AgendaSession = EventDocument['agenda'][number]['sessions'][number];
+
+const DEFAULT_REMINDER_MINUTES = 15;
+
+@Injectable()
+export class AgendaService {
+  private readonly logger = new Logger(AgendaService.name);
+
+  constructor(
+    @InjectModel(AgendaBookmark.name)
+    private readonly bookmarkModel: Model<AgendaBookmarkDocument>,
+    @InjectModel(Event.name)
+    private readonly eventModel: Model<EventDocument>,
+    @InjectModel(Delegate.name)
+    private readonly delegateModel: Model<DelegateDocument>,
+    @InjectQueue(NOTIFICATION_QUEUE) private readonly notificationQueue: Queue,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // ======================================================
+  // DELEGATE AGENDA
+  // ======================================================
+
+  /**
+   * Return the delegate's bookmarked sessions in chronological order,
+   * flagging any that overlap
+   */
+  async getMyAgenda(delegateId: string): Promise<MyAgendaDto> {
+    const { delegate, event } = await this.findDelegateAndEvent(delegateId);
+
+    const bookmarks = await this.bookmarkModel
+      .find({ delegateId: delegate._id, eventId: event._id })
+      .lean()
+      .exec();
+
+    const sessionsById = new Map(
+      this.flattenAgenda(event).map((s) => [s.sessionId, s]),
+    );
+    const saved = bookmarks
+      // Sessions removed from the agenda after bookmarking are dropped
+      .filter((bookmark) => sessionsById.has(bookmark.sessionId))
+      .map((bookmark) => ({
+        bookmark,
+        session: sessionsById.get(bookmark.sessionId),
+      }))
+      .sort(
+        (a, b) =>
+          new Date(a.session.startTime).getTime() -
+          new Date(b.session.startTime).getTime(),
+      );
+
+    const sessions: BookmarkedSessionDto[] = saved.map(
+      ({ bookmark, session }) => ({
+        sessionId: session.sessionId,
+        title: session.title,
+        sessionType: session.sessionType,
+        room: session.room,
+        startTime: session.startTime,
+        endTime: session.endTime,
+        reminderMinutes: bookmark.reminderMinutes,
+        reminderAt: bookmark.reminderAt,
+        clashesWith: this.findClashes(
+          session,
+          saved.map((s) => s.session),
+        ),
+      }),
+    );
+
+    return {
+      delegateId: delegate._id.toString(),
+      eventId: event._id.toString(),
+      hasClashes: sessions.some((s) => s.clashesWith.length > 0),
+      sessions,
+    };
+  }
+
+  /**
+   * Save a session to the delegate's agenda and (re)schedule its reminder.
+   * Clashing sessions are allowed but reported back.
+   */
+  async addBookmark(
+    delegateId: string,
+    bookmarkDto: BookmarkSessionDto,
+  ): Promise<MyAgendaDto> {
+    const { delegate, event } = await this.findDelegateAndEvent(delegateId);
+    const session = this.flattenAgenda(event).find(
+      (s) => s.sessionId === bookmarkDto.sessionId,
+    );
+    if (!session) {
+      throw new NotFoundException(
+        `Session ${bookmarkDto.sessionId} not found in the event agenda`,
+      );
+    }
+
+    const reminderMinutes =
+      bookmarkDto.reminderMinutes ?? this.defaultReminderMinutes();
+    const reminderAt = await this.scheduleReminder(
+      delegate,
+      session,
+      reminderMinutes,
+    );
+
+    await this.bookmarkModel
+      .findOneAndUpdate(
+        {
+          delegateId: delegate._id,
+          eventId: event._id,
+          sessionId: session.sessionId,
+        },
+        {
+          $set: {
+            reminderMinutes,
+            reminderAt,
+            reminderJobId: reminderAt
+              ? this.reminderJobId(delegate._id.toString(), session.sessionId)
+              : undefined,
+          },
+        },
+        { upsert: true, new: true },
+      )
+      .exec();
+
+    this.logger.log(
+      `Delegate ${delegateId} bookmarked session ${session.sessionId}`,
+    );
+    return this.getMyAgenda(delegateId);
+  }
+
+  async removeBookmark(delegateId: string, sessionId: string): Promise<void> {
+    if (!Types.ObjectId.isValid(delegateId)) {
+      throw new BadRequestException('Invalid delegate ID format');
+    }
+
+    const bookmark = await this.bookmarkModel
+      .findOneAndDelete({
+        delegateId: new Types.ObjectId(delegateId),
+        sessionId,
+      })
+      .exec();
+    if (!bookmark) {
+      throw new NotFoundException(
+        `Session ${sessionId} is not in this delegate's agenda`,
+      );
+    }
+
+    if (bookmark.reminderJobId) {
+      await this.notificationQueue.remove(bookmark.reminderJobId);
+    }
+    this.logger.log(`Delegate ${delegateId} removed session ${sessionId}`);
+  }
+
+  // ======================================================
+  // ORGANIZER STATISTICS
+  // ======================================================
+
+  /**
+   * Number of delegates who bookmarked each session, in agenda order
+   */
+  async getBookmarkCounts(eventId: string): Promise<SessionBookmarkCountDto[]> {
+    if (!Types.ObjectId.isValid(eventId)) {
+      throw new BadRequestException('Invalid event ID format');
+    }
+
+    const event = await this.eventModel
+      .findById(new Types.ObjectId(eventId))
+      .exec();
+    if (!event) {
+      throw new NotFoundException(`Event with ID ${eventId} not found`);
+    }
+
+    const counts = await this.bookmarkModel
+      .aggregate<{
+        _id: string;
+        bookmarks: number;
+      }>([
+        { $match: { eventId: event._id } },
+        { $group: { _id: '$sessionId', bookmarks: { $sum: 1 } } },
+      ])
+      .exec();
+    const countsBySession = new Map(counts.map((c) => [c._id, c.bookmarks]));
+
+    return this.flattenAgenda(event).map((session) => ({
+      sessionId: session.sessionId,
+      title: session.title,
+      room: session.room,
+      roomCapacity: session.roomCapacity,
+      startTime: session.startTime,
+      bookmarks: countsBySession.get(session.sessionId) ?? 0,
+    }));
+  }
+
+  // ======================================================
+  // HELPERS
+  // ======================================================
+
+  private async findDelegateAndEvent(
+    delegateId: string,
+  ): Promise<{ delegate: DelegateDocument; event: EventDocument }> {
+    if (!Types.ObjectId.isValid(delegateId)) {
+      throw new BadRequestException('Invalid delegate ID format');
+    }
+
+    const delegate = await this.delegateModel
+      .findById(new Types.ObjectId(delegateId))
+      .exec();
+    if (!delegate) {
+      throw new NotFoundException(`Delegate with ID ${delegateId} not found`);
+    }
+    if (
+      delegate.status !== DelegateStatus.APPROVED &&
+      delegate.status !== DelegateStatus.CHECKED_IN
+    ) {
+      throw new BadRequestException(
+        `Delegate cannot build an agenda. Current status: ${delegate.status}`,
+      );
+    }
+
+    const event = await this.eventModel.findById(delegate.eventId).exec();
+    if (!event) {
+      throw new NotFoundException(
+        `Event with ID ${delegate.eventId} not found`,
+      );
+    }
+    return { delegate, event };
+  }
+
+  private flattenAgenda(event: EventDocument): AgendaSession[] {
+    return (event.agenda || []).flatMap((day) => day.sessions || []);
+  }
+
+  // Two sessions clash when their [startTime, endTime) ranges overlap
+  private findClashes(
+    session: AgendaSession,
+    others: AgendaSession[],
+  ): string[] {
+    const start = new Date(session.startTime).getTime();
+    const end = new Date(session.endTime).getTime();
+
+    return others
+      .filter(
+        (other) =>
+          other.sessionId !== session.sessionId &&
+          new Date(other.startTime).getTime() < end &&
+          start < new Date(other.endTime).getTime(),
+      )
+      .map((other) => other.sessionId);
+  }
+
+  private defaultReminderMinutes(): number {
+    const configured = Number(
+      this.configService.get<string>('AGENDA_REMINDER_MINUTES'),
+    );
+    return Number.isFinite(configured) && configured >= 0
+      ? configured
+      : DEFAULT_REMINDER_MINUTES;
+  }
+
+  private reminderJobId(delegateId: string, sessionId: string): string {
+    return `agenda-reminder-${delegateId}-${sessionId}`;
+  }
+
+  /**
+   * Replace any pending reminder for this bookmark. Returns when the new
+   * reminder fires, or undefined when none is scheduled.
+   */
+  private async scheduleReminder(
+    delegate: DelegateDocument,
+    session: AgendaSession,
+    reminderMinutes: number,
+  ): Promise<Date | undefined> {
+    const jobId = this.reminderJobId(
+      delegate._id.toString(),
+      session.sessionId,
+    );
+    // BullMQ ignores adds for an existing jobId, so drop the old one first
+    await this.notificationQueue.remove(jobId);
+
+    if (reminderMinutes === 0) {
+      return undefined;
+    }
+
+    const reminderAt = new Date(
+      new Date(session.startTime).getTime() - reminderMinutes * 60 * 1000,
+    );
+    const delay = reminderAt.getTime() - Date.now();
+    if (delay <= 0) {
+      return undefined;
+    }
+
+    await this.notificationQueue.add(
+      'send-push-notification',
+      {
+        delegateId: delegate._id.toString(),
+        title: 'Session Starting Soon',
+        body: `"${session.title}" starts in ${reminderMinutes} minutes${session.room ? ` in ${session.room}` : ''}.`,
+        category: NotificationCategory.AGENDA,
+      },
+      {
+        jobId,
+        delay,
+        removeOnComplete: true,
+        removeOnFail: true,
+      },
+    );
+    return reminderAt;
+  }
+}
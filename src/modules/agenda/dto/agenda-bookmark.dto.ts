@@ -0,0 +1,104 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsInt,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+// Bookmark Session DTO
+export class BookmarkSessionDto {
+  @ApiProperty({
+    description: 'ID of the agenda session to bookmark',
+    example: 'session-001',
+  })
+  @IsString()
+  @IsNotEmpty()
+  sessionId: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Minutes before the session starts to send a reminder push. Defaults to the server setting; 0 disables the reminder.',
+    example: 15,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(24 * 60)
+  reminderMinutes?: number;
+}
+
+// Response DTOs for documentation
+export class BookmarkedSessionDto {
+  @ApiProperty({ example: 'session-001' })
+  sessionId: string;
+
+  @ApiProperty({ example: 'Opening Keynote' })
+  title: string;
+
+  @ApiPropertyOptional({ example: 'keynote' })
+  sessionType?: string;
+
+  @ApiPropertyOptional({ example: 'Hall B' })
+  room?: string;
+
+  @ApiProperty({ example: '2025-06-15T09:00:00.000Z' })
+  startTime: Date;
+
+  @ApiProperty({ example: '2025-06-15T10:30:00.000Z' })
+  endTime: Date;
+
+  @ApiProperty({ example: 15 })
+  reminderMinutes: number;
+
+  @ApiPropertyOptional({
+    description: 'When the reminder push is scheduled, if any',
+    example: '2025-06-15T08:45:00.000Z',
+  })
+  reminderAt?: Date;
+
+  @ApiProperty({
+    description: 'Other bookmarked sessions whose time range overlaps',
+    example: ['session-004'],
+    type: [String],
+  })
+  clashesWith: string[];
+}
+
+export class MyAgendaDto {
+  @ApiProperty({ example: '60d5ecb74f4d2c001f5e4b2a' })
+  delegateId: string;
+
+  @ApiProperty({ example: '60f7b3b3b3b3b3b3b3b3b3b3' })
+  eventId: string;
+
+  @ApiProperty({ description: 'Whether any bookmarks overlap' })
+  hasClashes: boolean;
+
+  @ApiProperty({ type: [BookmarkedSessionDto] })
+  sessions: BookmarkedSessionDto[];
+}
+
+export class SessionBookmarkCountDto {
+  @ApiProperty({ example: 'session-001' })
+  sessionId: string;
+
+  @ApiProperty({ example: 'Opening Keynote' })
+  title: string;
+
+  @ApiPropertyOptional({ example: 'Hall B' })
+  room?: string;
+
+  @ApiPropertyOptional({ example: 120 })
+  roomCapacity?: number;
+
+  @ApiPropertyOptional({ example: '2025-06-15T09:00:00.000Z' })
+  startTime?: Date;
+
+  @ApiProperty({ example: 87 })
+  bookmarks: number;
+}
@@ -0,0 +1,159 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Req,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiBody,
+  ApiOkResponse,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiConflictResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { AttendanceService } from './attendance.service';
+import {
+  AttendanceReportDto,
+  SessionAttendanceResponseDto,
+  SessionScanDto,
+} from './dto/session-attendance.dto';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../../common/enums/permission.enum';
+import { Principals } from '../../common/decorators/principals.decorator';
+import { PrincipalType } from '../../common/enums/principal-type.enum';
+import { AuthenticatedRequest } from '../auth/interfaces/auth.interface';
+
+@ApiTags('Session Attendance')
+@ApiBearerAuth()
+@Controller('attendance')
+export class AttendanceController {
+  private readonly logger = new Logger(AttendanceController.name);
+
+  constructor(private readonly attendanceService: AttendanceService) {}
+
+  @Post('events/:eventId/sessions/:sessionId/entry')
+  @Principals(PrincipalType.STAFF, PrincipalType.DELEGATE)
+  @RequirePermissions(Permission.CHECK_IN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Scan a delegate into a session',
+    description:
+      'Staff send either a signed badge QR or a delegate ID. Delegates scan themselves in from the app and need no body. Rejects the entry when the room is at capacity.',
+  })
+  @ApiParam({ name: 'eventId', description: 'Event ID' })
+  @ApiParam({ name: 'sessionId', description: 'Agenda session ID' })
+  @ApiBody({ type: SessionScanDto })
+  @ApiOkResponse({
+    description: 'Entry recorded',
+    type: SessionAttendanceResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid badge or delegate not eligible for the event',
+  })
+  @ApiNotFoundResponse({ description: 'Event, session or delegate not found' })
+  @ApiConflictResponse({
+    description: 'Room at capacity or delegate already inside',
+  })
+  async recordEntry(
+    @Param('eventId') eventId: string,
+    @Param('sessionId') sessionId: string,
+    @Body() scanDto: SessionScanDto,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<SessionAttendanceResponseDto> {
+    this.logger.log(
+      `POST /attendance/events/${eventId}/sessions/${sessionId}/entry - Recording entry`,
+    );
+    return this.attendanceService.recordEntry(
+      eventId,
+      sessionId,
+      this.scanFor(scanDto, req),
+      this.scannerOf(req),
+      req,
+    );
+  }
+
+  @Post('events/:eventId/sessions/:sessionId/exit')
+  @Principals(PrincipalType.STAFF, PrincipalType.DELEGATE)
+  @RequirePermissions(Permission.CHECK_IN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Scan a delegate out of a session' })
+  @ApiParam({ name: 'eventId', description: 'Event ID' })
+  @ApiParam({ name: 'sessionId', description: 'Agenda session ID' })
+  @ApiBody({ type: SessionScanDto })
+  @ApiOkResponse({
+    description: 'Exit recorded',
+    type: SessionAttendanceResponseDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Invalid badge or delegate not eligible for the event',
+  })
+  @ApiNotFoundResponse({
+    description: 'Event, session or open visit not found',
+  })
+  async recordExit(
+    @Param('eventId') eventId: string,
+    @Param('sessionId') sessionId: string,
+    @Body() scanDto: SessionScanDto,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<SessionAttendanceResponseDto> {
+    this.logger.log(
+      `POST /attendance/events/${eventId}/sessions/${sessionId}/exit - Recording exit`,
+    );
+    return this.attendanceService.recordExit(
+      eventId,
+      sessionId,
+      this.scanFor(scanDto, req),
+      this.scannerOf(req),
+      req,
+    );
+  }
+
+  @Get('events/:eventId/report')
+  @RequirePermissions(Permission.ATTENDANCE_READ)
+  @ApiOperation({
+    summary: 'Get the session attendance report for an event',
+    description:
+      'Returns headcounts per agenda session and the registered delegates who did not attend any session.',
+  })
+  @ApiParam({ name: 'eventId', description: 'Event ID' })
+  @ApiOkResponse({
+    description: 'Report generated',
+    type: AttendanceReportDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid event ID format' })
+  @ApiNotFoundResponse({ description: 'Event not found' })
+  async getReport(
+    @Param('eventId') eventId: string,
+  ): Promise<AttendanceReportDto> {
+    this.logger.log(`GET /attendance/events/${eventId}/report`);
+    return this.attendanceService.getReport(eventId);
+  }
+
+  // Delegates can only scan themselves, whatever the body says
+  private scanFor(
+    scanDto: SessionScanDto,
+    req: AuthenticatedRequest,
+  ): SessionScanDto {
+    const { principalType, user } = req;
+    return principalType === PrincipalType.DELEGATE
+      ? { delegateId: user._id.toString() }
+      : scanDto;
+  }
+
+  // The staff member at the door; delegates scanning themselves have none
+  private scannerOf(req: AuthenticatedRequest): string | undefined {
+    const { principalType, user } = req;
+    return principalType === PrincipalType.STAFF
+      ? user._id.toString()
+      : undefined;
+  }
+}
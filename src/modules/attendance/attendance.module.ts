@@ -0,0 +1,38 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { SystemLogsService } from '../system-logs/services/system-logs.service';
+import {
+  SystemLog,
+  SystemLogSchema,
+} from '../system-logs/schemas/system-log.schema';
+import { Delegate, DelegateSchema } from '../delegates/delegates.schema';
+import { Event, EventSchema } from '../events/events.schema';
+import { BadgeModule } from '../badge/badge.module';
+import {
+  SessionAttendance,
+  SessionAttendanceSchema,
+  SessionOccupancy,
+  SessionOccupancySchema,
+} from './attendance.schema';
+import { AttendanceService } from './attendance.service';
+import { AttendanceController } from './attendance.controller';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: SessionAttendance.name, schema: SessionAttendanceSchema },
+      { name: SessionOccupancy.name, schema: SessionOccupancySchema },
+    ]),
+    MongooseModule.forFeature([
+      { name: Delegate.name, schema: DelegateSchema },
+    ]),
+    MongooseModule.forFeature([{ name: Event.name, schema: EventSchema }]),
+    MongooseModule.forFeature([
+      { name: SystemLog.name, schema: SystemLogSchema },
+    ]),
+    BadgeModule,
+  ],
+  controllers: [AttendanceController],
+  providers: [SystemLogsService, AttendanceService],
+})
+export class AttendanceModule {}
@@ -0,0 +1,80 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export enum AttendanceSource {
+  BADGE_SCAN = 'badge_scan',
+  SELF = 'self',
+}
+
+// Session Attendance Schema
+// One document per visit of a delegate to an agenda session. A visit stays
+// open (isOpen) until the delegate scans out, and open visits count towards
+// the room occupancy.
+@Schema({
+  timestamps: true,
+  collection: 'session_attendance',
+})
+export class SessionAttendance {
+  @Prop({ type: Types.ObjectId, ref: 'Event', required: true })
+  eventId: Types.ObjectId;
+
+  @Prop({ required: true, trim: true })
+  sessionId: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Delegate', required: true })
+  delegateId: Types.ObjectId;
+
+  @Prop()
+  room: string;
+
+  @Prop({ required: true })
+  entryTime: Date;
+
+  @Prop()
+  exitTime: Date;
+
+  @Prop({ default: true })
+  isOpen: boolean;
+
+  @Prop({ type: String, enum: AttendanceSource, required: true })
+  source: AttendanceSource;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  scannedBy: Types.ObjectId;
+}
+
+export type SessionAttendanceDocument = SessionAttendance & Document;
+export const SessionAttendanceSchema =
+  SchemaFactory.createForClass(SessionAttendance);
+
+SessionAttendanceSchema.index({ eventId: 1, sessionId: 1, isOpen: 1 });
+// A delegate can only have one open visit per session
+SessionAttendanceSchema.index(
+  { eventId: 1, sessionId: 1, delegateId: 1 },
+  { unique: true, partialFilterExpression: { isOpen: true } },
+);
+SessionAttendanceSchema.index({ delegateId: 1, entryTime: -1 });
+
+// Session Occupancy Schema
+// Delegates currently inside each session. Seats are taken and released with
+// atomic updates so concurrent scans cannot overfill the room.
+@Schema({
+  timestamps: true,
+  collection: 'session_occupancy',
+})
+export class SessionOccupancy {
+  @Prop({ type: Types.ObjectId, ref: 'Event', required: true })
+  eventId: Types.ObjectId;
+
+  @Prop({ required: true, trim: true })
+  sessionId: string;
+
+  @Prop({ default: 0, min: 0 })
+  count: number;
+}
+
+export type SessionOccupancyDocument = SessionOccupancy & Document;
+export const SessionOccupancySchema =
+  SchemaFactory.createForClass(SessionOccupancy);
+
+SessionOccupancySchema.index({ eventId: 1, sessionId: 1 }, { unique: true });
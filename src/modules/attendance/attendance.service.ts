@@ -0,0 +1,405 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Request } from 'express';
+import {
+  AttendanceSource,
+  SessionAttendance,
+  SessionAttendanceDocument,
+  SessionOccupancy,
+  SessionOccupancyDocument,
+} from './attendance.schema';
+import {
+  AttendanceReportDto,
+  SessionAttendanceResponseDto,
+  SessionScanDto,
+} from './dto/session-attendance.dto';
+import { Event, EventDocument } from '../events/events.schema';
+import {
+  Delegate,
+  DelegateDocument,
+  DelegateStatus,
+} from '../delegates/delegates.schema';
+import { BadgeSignatureService } from '../badge/badge-signature.service';
+import { SystemLogsService } from '../system-logs/services/system-logs.service';
+import { LogSeverity } from '../system-logs/schemas/system-log.schema';
+
+type AgendaSession = EventDocument['agenda'][number]['sessions'][number];
+
+@Injectable()
+export class AttendanceService {
+  private readonly logger = new Logger(AttendanceService.name);
+
+  constructor(
+    @InjectModel(SessionAttendance.name)
+    private readonly attendanceModel: Model<SessionAttendanceDocument>,
+    @InjectModel(SessionOccupancy.name)
+    private readonly occupancyModel: Model<SessionOccupancyDocument>,
+    @InjectModel(Event.name)
+    private readonly eventModel: Model<EventDocument>,
+    @InjectModel(Delegate.name)
+    private readonly delegateModel: Model<DelegateDocument>,
+    private readonly badgeSignatureService: BadgeSignatureService,
+    private readonly systemLogsService: SystemLogsService,
+  ) {}
+
+  // ======================================================
+  // SCANNING
+  // ======================================================
+
+  /**
+   * Record a delegate entering a session, enforcing the room capacity.
+   * `scannedBy` is the staff member at the door, if any.
+   */
+  async recordEntry(
+    eventId: string,
+    sessionId: string,
+    scanDto: SessionScanDto,
+    scannedBy?: string,
+    req?: Request,
+  ): Promise<SessionAttendanceResponseDto> {
+    const { event, session } = await this.findSession(eventId, sessionId);
+    const { delegate, source } = await this.resolveDelegate(
+      event,
+      scanDto,
+      scannedBy,
+      req,
+    );
+
+    // Checked before taking a seat so a full room doesn't mask it
+    const inside = await this.attendanceModel
+      .exists({
+        eventId: event._id,
+        sessionId,
+        delegateId: delegate._id,
+        isOpen: true,
+      })
+      .exec();
+    if (inside) {
+      throw new ConflictException('Delegate is already inside this session');
+    }
+
+    const occupancy = await this.takeSeat(event._id as Types.ObjectId, session);
+
+    try {
+      const attendance = await this.attendanceModel.create({
+        eventId: event._id,
+        sessionId,
+        delegateId: delegate._id,
+        room: session.room,
+        entryTime: new Date(),
+        isOpen: true,
+        source,
+        scannedBy: scannedBy ? new Types.ObjectId(scannedBy) : undefined,
+      });
+
+      this.logger.log(
+        `Delegate ${delegate._id} entered session ${sessionId} of event ${eventId}`,
+      );
+      return this.toResponse(attendance, delegate, session, occupancy);
+    } catch (error) {
+      await this.releaseSeat(event._id as Types.ObjectId, sessionId);
+      if (error.code === 11000) {
+        throw new ConflictException('Delegate is already inside this session');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Close the delegate's open visit to a session
+   */
+  async recordExit(
+    eventId: string,
+    sessionId: string,
+    scanDto: SessionScanDto,
+    scannedBy?: string,
+    req?: Request,
+  ): Promise<SessionAttendanceResponseDto> {
+    const { event, session } = await this.findSession(eventId, sessionId);
+    const { delegate } = await this.resolveDelegate(
+      event,
+      scanDto,
+      scannedBy,
+      req,
+    );
+
+    const attendance = await this.attendanceModel
+      .findOneAndUpdate(
+        {
+          eventId: event._id,
+          sessionId,
+          delegateId: delegate._id,
+          isOpen: true,
+        },
+        { $set: { isOpen: false, exitTime: new Date() } },
+        { new: true },
+      )
+      .exec();
+
+    if (!attendance) {
+      throw new NotFoundException(
+        'Delegate has not been scanned into this session',
+      );
+    }
+
+    const occupancy = await this.releaseSeat(
+      event._id as Types.ObjectId,
+      sessionId,
+    );
+    this.logger.log(
+      `Delegate ${delegate._id} left session ${sessionId} of event ${eventId}`,
+    );
+    return this.toResponse(attendance, delegate, session, occupancy);
+  }
+
+  // ======================================================
+  // REPORTING
+  // ======================================================
+
+  /**
+   * Per-session headcounts plus the registered delegates who attended nothing
+   */
+  async getReport(eventId: string): Promise<AttendanceReportDto> {
+    const event = await this.findEvent(eventId);
+
+    const stats = await this.attendanceModel
+      .aggregate<{
+        _id: string;
+        delegates: Types.ObjectId[];
+        entries: number;
+        currentlyInside: number;
+      }>([
+        { $match: { eventId: event._id } },
+        {
+          $group: {
+            _id: '$sessionId',
+            delegates: { $addToSet: '$delegateId' },
+            entries: { $sum: 1 },
+            currentlyInside: { $sum: { $cond: ['$isOpen', 1, 0] } },
+          },
+        },
+      ])
+      .exec();
+    const statsBySession = new Map(stats.map((s) => [s._id, s]));
+
+    const sessions = this.flattenAgenda(event).map((session) => {
+      const sessionStats = statsBySession.get(session.sessionId);
+      const headcount = sessionStats?.delegates.length ?? 0;
+      return {
+        sessionId: session.sessionId,
+        title: session.title,
+        sessionType: session.sessionType,
+        room: session.room,
+        startTime: session.startTime,
+        roomCapacity: session.roomCapacity,
+        headcount,
+        entries: sessionStats?.entries ?? 0,
+        currentlyInside: sessionStats?.currentlyInside ?? 0,
+        utilization: session.roomCapacity
+          ? Math.round((headcount / session.roomCapacity) * 100)
+          : undefined,
+      };
+    });
+
+    const attendeeIds = new Set(
+      stats.flatMap((s) => s.delegates.map((id) => id.toString())),
+    );
+    const registered = await this.delegateModel
+      .find({
+        eventId: event._id,
+        status: { $in: [DelegateStatus.APPROVED, DelegateStatus.CHECKED_IN] },
+      })
+      .select('firstName lastName email hasCheckedIn')
+      .sort({ lastName: 1, firstName: 1 })
+      .lean()
+      .exec();
+
+    const noShows = registered
+      .filter((delegate) => !attendeeIds.has(delegate._id.toString()))
+      .map((delegate) => ({
+        id: delegate._id.toString(),
+        firstName: delegate.firstName,
+        lastName: delegate.lastName,
+        email: delegate.email,
+        hasCheckedIn: delegate.hasCheckedIn,
+      }));
+
+    return {
+      eventId: event._id.toString(),
+      eventYear: event.eventYear,
+      registeredDelegates: registered.length,
+      sessionAttendees: registered.length - noShows.length,
+      sessions,
+      noShows,
+    };
+  }
+
+  // ======================================================
+  // HELPERS
+  // ======================================================
+
+  private async findEvent(eventId: string): Promise<EventDocument> {
+    if (!Types.ObjectId.isValid(eventId)) {
+      throw new BadRequestException('Invalid event ID format');
+    }
+
+    const event = await this.eventModel
+      .findById(new Types.ObjectId(eventId))
+      .exec();
+    if (!event) {
+      throw new NotFoundException(`Event with ID ${eventId} not found`);
+    }
+    return event;
+  }
+
+  private async findSession(
+    eventId: string,
+    sessionId: string,
+  ): Promise<{ event: EventDocument; session: AgendaSession }> {
+    const event = await this.findEvent(eventId);
+    const session = this.flattenAgenda(event).find(
+      (s) => s.sessionId === sessionId,
+    );
+    if (!session) {
+      throw new NotFoundException(
+        `Session ${sessionId} not found in the event agenda`,
+      );
+    }
+    return { event, session };
+  }
+
+  private flattenAgenda(event: EventDocument): AgendaSession[] {
+    return (event.agenda || []).flatMap((day) => day.sessions || []);
+  }
+
+  private async resolveDelegate(
+    event: EventDocument,
+    scanDto: SessionScanDto,
+    scannedBy: string | undefined,
+    req?: Request,
+  ): Promise<{ delegate: DelegateDocument; source: AttendanceSource }> {
+    let delegateId = scanDto.delegateId;
+    let source = AttendanceSource.SELF;
+
+    if (scanDto.qrData) {
+      const payload = this.badgeSignatureService.verify(scanDto.qrData);
+      if (!payload) {
+        await this.systemLogsService.createLog(
+          'Forged Badge Scanned',
+          `Badge with an invalid signature was scanned at a session of event ${event.eventYear}`,
+          LogSeverity.WARNING,
+          scannedBy,
+          req,
+        );
+        throw new BadRequestException('Badge signature is invalid');
+      }
+      delegateId = payload.delegateId;
+      source = AttendanceSource.BADGE_SCAN;
+    }
+
+    if (!delegateId) {
+      throw new BadRequestException('Either qrData or delegateId is required');
+    }
+
+    const delegate = await this.delegateModel
+      .findById(new Types.ObjectId(delegateId))
+      .exec();
+    if (!delegate) {
+      throw new NotFoundException(`Delegate with ID ${delegateId} not found`);
+    }
+    if (!delegate.eventId?.equals(event._id as Types.ObjectId)) {
+      throw new BadRequestException(
+        'Delegate is not registered for this event',
+      );
+    }
+    if (
+      delegate.status !== DelegateStatus.APPROVED &&
+      delegate.status !== DelegateStatus.CHECKED_IN
+    ) {
+      throw new BadRequestException(
+        `Delegate cannot attend sessions. Current status: ${delegate.status}`,
+      );
+    }
+
+    return { delegate, source };
+  }
+
+  /**
+   * Count the delegate in, refusing once the room is full. Returns the
+   * occupancy including them.
+   */
+  private async takeSeat(
+    eventId: Types.ObjectId,
+    session: AgendaSession,
+  ): Promise<number> {
+    try {
+      // With a full room the filter matches nothing and the upsert collides
+      // with the existing counter
+      const occupancy = await this.occupancyModel
+        .findOneAndUpdate(
+          {
+            eventId,
+            sessionId: session.sessionId,
+            ...(session.roomCapacity && {
+              count: { $lt: session.roomCapacity },
+            }),
+          },
+          { $inc: { count: 1 } },
+          { new: true, upsert: true },
+        )
+        .exec();
+      return occupancy.count;
+    } catch (error) {
+      if (error.code === 11000) {
+        throw new ConflictException(
+          `Session "${session.title}" is at full capacity (${session.roomCapacity})`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Free a seat taken by takeSeat. Returns the remaining occupancy.
+   */
+  private async releaseSeat(
+    eventId: Types.ObjectId,
+    sessionId: string,
+  ): Promise<number> {
+    const occupancy = await this.occupancyModel
+      .findOneAndUpdate(
+        { eventId, sessionId, count: { $gt: 0 } },
+        { $inc: { count: -1 } },
+        { new: true },
+      )
+      .exec();
+    return occupancy?.count ?? 0;
+  }
+
+  private toResponse(
+    attendance: SessionAttendanceDocument,
+    delegate: DelegateDocument,
+    session: AgendaSession,
+    occupancy: number,
+  ): SessionAttendanceResponseDto {
+    return {
+      id: attendance._id.toString(),
+      sessionId: attendance.sessionId,
+      delegateId: delegate._id.toString(),
+      delegateName: `${delegate.firstName} ${delegate.lastName}`,
+      room: attendance.room,
+      entryTime: attendance.entryTime,
+      exitTime: attendance.exitTime,
+      source: attendance.source,
+      occupancy,
+      roomCapacity: session.roomCapacity,
+    };
+  }
+}
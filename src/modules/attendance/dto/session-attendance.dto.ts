@@ -0,0 +1,151 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsString, IsOptional, IsNotEmpty, IsMongoId } from 'class-validator';
+import { AttendanceSource } from '../attendance.schema';
+
+// Session Scan DTO
+export class SessionScanDto {
+  @ApiPropertyOptional({
+    description:
+      'Raw string read from the delegate badge QR code. Used when staff scan the badge at the room door.',
+    example:
+      '{"delegateId":"60d5ecb74f4d2c001f5e4b2a","eventYear":2025,"sig":"q1b0..."}',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  qrData?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'ID of the delegate. Used when delegates scan themselves in from the app.',
+    example: '60d5ecb74f4d2c001f5e4b2a',
+  })
+  @IsOptional()
+  @IsMongoId()
+  delegateId?: string;
+}
+
+// Response DTOs for documentation
+export class SessionAttendanceResponseDto {
+  @ApiProperty({ example: '60d5ecb74f4d2c001f5e4b4c' })
+  id: string;
+
+  @ApiProperty({ example: 'session-001' })
+  sessionId: string;
+
+  @ApiProperty({ example: '60d5ecb74f4d2c001f5e4b2a' })
+  delegateId: string;
+
+  @ApiProperty({ example: 'Delegate Name' })
+  delegateName: string;
+
+  @ApiPropertyOptional({ example: 'Hall B' })
+  room?: string;
+
+  @ApiProperty({ example: '2025-06-15T09:02:00.000Z' })
+  entryTime: Date;
+
+  @ApiPropertyOptional({ example: '2025-06-15T10:28:00.000Z' })
+  exitTime?: Date;
+
+  @ApiProperty({ enum: AttendanceSource })
+  source: AttendanceSource;
+
+  @ApiProperty({
+    description: 'Delegates currently inside the session',
+    example: 42,
+  })
+  occupancy: number;
+
+  @ApiPropertyOptional({ example: 120 })
+  roomCapacity?: number;
+}
+
+export class SessionAttendanceSummaryDto {
+  @ApiProperty({ example: 'session-001' })
+  sessionId: string;
+
+  @ApiProperty({ example: 'Opening Keynote' })
+  title: string;
+
+  @ApiPropertyOptional({ example: 'breakout' })
+  sessionType?: string;
+
+  @ApiPropertyOptional({ example: 'Hall B' })
+  room?: string;
+
+  @ApiPropertyOptional({ example: '2025-06-15T09:00:00.000Z' })
+  startTime?: Date;
+
+  @ApiPropertyOptional({ example: 120 })
+  roomCapacity?: number;
+
+  @ApiProperty({
+    description: 'Unique delegates who entered the session',
+    example: 96,
+  })
+  headcount: number;
+
+  @ApiProperty({ description: 'Total entry scans', example: 104 })
+  entries: number;
+
+  @ApiProperty({
+    description: 'Delegates still inside the session',
+    example: 0,
+  })
+  currentlyInside: number;
+
+  @ApiPropertyOptional({
+    description: 'Headcount as a percentage of room capacity',
+    example: 80,
+  })
+  utilization?: number;
+}
+
+export class NoShowDelegateDto {
+  @ApiProperty({ example: '60d5ecb74f4d2c001f5e4b2a' })
+  id: string;
+
+  @ApiProperty({ example: 'John' })
+  firstName: string;
+
+  @ApiProperty({ example: 'Doe' })
+  lastName: string;
+
+  @ApiProperty({ example: 'john.doe@example.com' })
+  email: string;
+
+  @ApiProperty({
+    description: 'Whether the delegate checked in at the venue entrance',
+  })
+  hasCheckedIn: boolean;
+}
+
+export class AttendanceReportDto {
+  @ApiProperty({ example: '60f7b3b3b3b3b3b3b3b3b3b3' })
+  eventId: string;
+
+  @ApiProperty({ example: 2025 })
+  eventYear: number;
+
+  @ApiProperty({
+    description: 'Approved or checked-in delegates',
+    example: 300,
+  })
+  registeredDelegates: number;
+
+  @ApiProperty({
+    description: 'Delegates who attended at least one session',
+    example: 254,
+  })
+  sessionAttendees: number;
+
+  @ApiProperty({ type: [SessionAttendanceSummaryDto] })
+  sessions: SessionAttendanceSummaryDto[];
+
+  @ApiProperty({
+    type: [NoShowDelegateDto],
+    description: 'Registered delegates who did not attend any session',
+  })
+  noShows: NoShowDelegateDto[];
+}
@@ -0,0 +1,125 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PrincipalType } from '../../common/enums/principal-type.enum';
+
+export enum AuditEntityType {
+  DELEGATE = 'delegate',
+  EVENT = 'event',
+  NEWS = 'news',
+  PANELIST = 'panelist',
+  VIDEO = 'video',
+  USER = 'user',
+  EMAIL_TEMPLATE = 'email_template',
+}
+
+export enum AuditAction {
+  CREATE = 'create',
+  UPDATE = 'update',
+  DELETE = 'delete',
+  APPROVE = 'approve',
+  REJECT = 'reject',
+  SUSPEND = 'suspend',
+  CHECK_IN = 'check_in',
+  CANCEL = 'cancel',
+  CONFIRM = 'confirm',
+  PUBLISH = 'publish',
+  ARCHIVE = 'archive',
+}
+
+// Changes made outside a request, e.g. by scheduled jobs
+export const SYSTEM_ACTOR = 'system';
+
+export class AuditChange {
+  @ApiProperty({ description: 'Dot path of the field', example: 'status' })
+  field: string;
+
+  @ApiPropertyOptional({ example: 'pending' })
+  before?: unknown;
+
+  @ApiPropertyOptional({ example: 'approved' })
+  after?: unknown;
+}
+
+// Audit Entry Schema
+// One state change to one entity. Entries are append-only: the schema
+// rejects every update and delete.
+@Schema({
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'audit_entries',
+})
+export class AuditEntry {
+  @ApiProperty({ enum: AuditEntityType })
+  @Prop({ type: String, enum: AuditEntityType, required: true })
+  entityType: AuditEntityType;
+
+  @ApiProperty({ example: '507f1f77bcf86cd799439011' })
+  @Prop({ required: true })
+  entityId: string;
+
+  @ApiProperty({ enum: AuditAction })
+  @Prop({ type: String, enum: AuditAction, required: true })
+  action: AuditAction;
+
+  @ApiProperty({
+    enum: [...Object.values(PrincipalType), SYSTEM_ACTOR],
+    example: PrincipalType.STAFF,
+  })
+  @Prop({
+    type: String,
+    enum: [...Object.values(PrincipalType), SYSTEM_ACTOR],
+    required: true,
+  })
+  actorType: PrincipalType | typeof SYSTEM_ACTOR;
+
+  @ApiPropertyOptional({ example: '507f1f77bcf86cd799439012' })
+  @Prop()
+  actorId?: string;
+
+  @ApiPropertyOptional({ example: 'jane.wanjiku@example.com' })
+  @Prop()
+  actorEmail?: string;
+
+  @ApiProperty({ type: [AuditChange] })
+  @Prop({ type: [MongooseSchema.Types.Mixed], default: [] })
+  changes: AuditChange[];
+
+  @ApiPropertyOptional({ example: '0b6f1f2e-7a53-4a43-9a0f-1c7f3e0f6a1d' })
+  @Prop()
+  requestId?: string;
+
+  @ApiPropertyOptional({ example: '41.90.64.10' })
+  @Prop()
+  ipAddress?: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export type AuditEntryDocument = AuditEntry & Document;
+export const AuditEntrySchema = SchemaFactory.createForClass(AuditEntry);
+
+AuditEntrySchema.index({ entityType: 1, entityId: 1, createdAt: -1 });
+AuditEntrySchema.index({ actorId: 1, createdAt: -1 });
+AuditEntrySchema.index({ createdAt: -1 });
+
+const MUTATING_QUERIES = [
+  'updateOne',
+  'updateMany',
+  'findOneAndUpdate',
+  'replaceOne',
+  'findOneAndReplace',
+  'deleteOne',
+  'deleteMany',
+  'findOneAndDelete',
+] as const;
+
+for (const operation of MUTATING_QUERIES) {
+  AuditEntrySchema.pre(operation, function (next) {
+    next(new Error('Audit entries are append-only'));
+  });
+}
+
+AuditEntrySchema.pre('save', function (next) {
+  next(this.isNew ? undefined : new Error('Audit entries are append-only'));
+});
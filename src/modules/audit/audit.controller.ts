@@ -0,0 +1,49 @@
+import { Controller, Get, Logger, Param, Query } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOkResponse,
+  ApiOperation,
+  ApiParam,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AuditService } from './audit.service';
+import { AuditPageDto, AuditQueryDto } from './dto/audit-query.dto';
+import { AuditEntityType } from './audit-entry.schema';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../../common/enums/permission.enum';
+
+@ApiTags('Audit')
+@ApiBearerAuth()
+@RequirePermissions(Permission.AUDIT_READ)
+@Controller('audit')
+export class AuditController {
+  private readonly logger = new Logger(AuditController.name);
+
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Search the audit trail',
+    description:
+      'Newest first. Filter by entity, actor, action and date range.',
+  })
+  @ApiOkResponse({ type: AuditPageDto })
+  async find(@Query() query: AuditQueryDto): Promise<AuditPageDto> {
+    this.logger.log(`GET /audit - Searching audit trail`);
+    return this.auditService.find(query);
+  }
+
+  @Get(':entityType/:entityId')
+  @ApiOperation({ summary: 'Get the change history of one entity' })
+  @ApiParam({ name: 'entityType', enum: AuditEntityType })
+  @ApiParam({ name: 'entityId', description: 'Entity ID' })
+  @ApiOkResponse({ type: AuditPageDto })
+  async findForEntity(
+    @Param('entityType') entityType: AuditEntityType,
+    @Param('entityId') entityId: string,
+    @Query() query: AuditQueryDto,
+  ): Promise<AuditPageDto> {
+    this.logger.log(`GET /audit/${entityType}/${entityId} - Fetching history`);
+    return this.auditService.find({ ...query, entityType, entityId });
+  }
+}
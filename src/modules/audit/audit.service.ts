@@ -0,0 +1,199 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
+import { Request } from 'express';
+import {
+  AuditAction,
+  AuditChange,
+  AuditEntityType,
+  AuditEntry,
+  AuditEntryDocument,
+  SYSTEM_ACTOR,
+} from './audit-entry.schema';
+import { AuditPageDto, AuditQueryDto } from './dto/audit-query.dto';
+
+export interface AuditRecord {
+  entityType: AuditEntityType;
+  // String or ObjectId; document _id values are untyped
+  entityId: unknown;
+  action: AuditAction;
+  // Entity state before and after the change; omit before for creations
+  // and after for deletions
+  before?: unknown;
+  after?: unknown;
+}
+
+// Never copied into the audit trail
+const IGNORED_FIELDS = new Set([
+  '_id',
+  '__v',
+  'id',
+  'createdAt',
+  'updatedAt',
+  'password',
+  'pin',
+  'resetPasswordPin',
+  'resetPasswordExpires',
+  'passwordResetToken',
+  'passwordResetExpires',
+  'loginCodeHash',
+  'loginLinkHash',
+  'twoFactorSecret',
+  'twoFactorPendingSecret',
+  'twoFactorBackupCodes',
+  'expoPushTokens',
+]);
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(
+    @InjectModel(AuditEntry.name)
+    private readonly auditModel: Model<AuditEntryDocument>,
+  ) {}
+
+  /**
+   * Append an entry for a state change. The actor, request ID and IP come
+   * from the request; without one the change is attributed to the system.
+   * Failures are logged rather than thrown so an audit outage does not
+   * undo a change that has already been saved.
+   */
+  async record(record: AuditRecord, req?: Request): Promise<void> {
+    const changes = this.diff(record.before, record.after);
+    if (record.action === AuditAction.UPDATE && changes.length === 0) {
+      return;
+    }
+
+    const request = req as Request & {
+      user?: { _id?: unknown; email?: string };
+      principalType?: string;
+      requestId?: string;
+    };
+    try {
+      await this.auditModel.create({
+        entityType: record.entityType,
+        entityId: String(record.entityId),
+        action: record.action,
+        actorType: request?.user ? request.principalType : SYSTEM_ACTOR,
+        actorId: request?.user?._id?.toString(),
+        actorEmail: request?.user?.email,
+        changes,
+        requestId: request?.requestId,
+        ipAddress: request?.ip,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to audit ${record.action} of ${record.entityType} ${record.entityId}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  async find(query: AuditQueryDto): Promise<AuditPageDto> {
+    const page = Math.max(Number(query.page) || 1, 1);
+    const limit = Math.min(Math.max(Number(query.limit) || 50, 1), 200);
+
+    const filter: FilterQuery<AuditEntryDocument> = {};
+    if (query.entityType) filter.entityType = query.entityType;
+    if (query.entityId) filter.entityId = query.entityId;
+    if (query.actorId) filter.actorId = query.actorId;
+    if (query.action) filter.action = query.action;
+    if (query.from || query.to) {
+      filter.createdAt = {};
+      if (query.from) filter.createdAt.$gte = new Date(query.from);
+      if (query.to) filter.createdAt.$lte = new Date(query.to);
+    }
+
+    const [data, total] = await Promise.all([
+      this.auditModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+      this.auditModel.countDocuments(filter).exec(),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  // ======================================================
+  // DIFFING
+  // ======================================================
+
+  /**
+   * Field-level changes between two entity snapshots. Nested objects are
+   * compared field by field; arrays, dates and references as whole values.
+   */
+  private diff(before: unknown, after: unknown): AuditChange[] {
+    const previous = this.flatten(this.toPlain(before));
+    const next = this.flatten(this.toPlain(after));
+    const fields = new Set([...previous.keys(), ...next.keys()]);
+
+    const changes: AuditChange[] = [];
+    for (const field of [...fields].sort()) {
+      const oldValue = previous.get(field);
+      const newValue = next.get(field);
+      if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+        changes.push({ field, before: oldValue, after: newValue });
+      }
+    }
+    return changes;
+  }
+
+  private toPlain(value: unknown): Record<string, unknown> {
+    if (!value || typeof value !== 'object') {
+      return {};
+    }
+    const candidate = value as { toObject?: () => Record<string, unknown> };
+    return typeof candidate.toObject === 'function'
+      ? candidate.toObject()
+      : (value as Record<string, unknown>);
+  }
+
+  private flatten(
+    source: Record<string, unknown>,
+    prefix = '',
+    into = new Map<string, unknown>(),
+  ): Map<string, unknown> {
+    for (const [key, value] of Object.entries(source)) {
+      if (!prefix && IGNORED_FIELDS.has(key)) {
+        continue;
+      }
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (this.isPlainObject(value) && '_id' in (value as object)) {
+        // Populated reference; compare by ID like an unpopulated one
+        into.set(path, this.normalize((value as { _id: unknown })._id));
+      } else if (this.isPlainObject(value)) {
+        this.flatten(value as Record<string, unknown>, path, into);
+      } else if (value !== undefined) {
+        into.set(path, this.normalize(value));
+      }
+    }
+    return into;
+  }
+
+  private isPlainObject(value: unknown): boolean {
+    return (
+      !!value &&
+      typeof value === 'object' &&
+      !Array.isArray(value) &&
+      !(value instanceof Date) &&
+      !(value instanceof Types.ObjectId) &&
+      !Buffer.isBuffer(value)
+    );
+  }
+
+  // ObjectIds and dates are stored as strings so entries stay readable
+  private normalize(value: unknown): unknown {
+    return JSON.parse(JSON.stringify(value ?? null));
+  }
+}
@@ -0,0 +1,14 @@
+export const JWT_ISSUER = 'shaf-server';
+
+// Staff and delegate tokens are signed with the same secret, so the audience
+// is what keeps one from being accepted in place of the other
+export const STAFF_JWT_AUDIENCE = 'shaf-staff';
+export const DELEGATE_JWT_AUDIENCE = 'shaf-delegate';
+
+export const STAFF_JWT_STRATEGY = 'jwt-staff';
+export const DELEGATE_JWT_STRATEGY = 'jwt-delegate';
+
+// Short-lived token handed out between the password and authenticator steps
+// of a staff login. Its audience keeps it from working as an access token.
+export const TWO_FACTOR_JWT_AUDIENCE = 'shaf-staff-2fa';
+export const TWO_FACTOR_CHALLENGE_TTL = 5 * 60;
@@ -19,7 +19,15 @@ import { AuthService } from './auth.service';
 import { CreateUserDto } from './dto/user.dto';
 import { LoginUserDto } from './dto/login.dto';
 import { RequestPasswordResetDto, ConfirmPasswordResetDto } from './dto/reset-password.dto';
-import { AuthResponse } from './interfaces/auth.interface';
+import {
+  AuthResponse,
+  TwoFactorChallengeResponse,
+} from './interfaces/auth.interface';
+import {
+  TwoFactorChallengeDto,
+  TwoFactorLoginDto,
+  TwoFactorSetupDto,
+} from './dto/two-factor.dto';
 import { Public } from './decorators/public.decorator';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { Request as ExpressRequest } from 'express';
@@ -52,7 +60,12 @@ export class AuthController {
             roles: { type: 'array', items: { type: 'string' } },
           },
         },
-        token: { type: 'string' },
+        token: { type: 'string', description: 'Access token (15 minutes)' },
+        refreshToken: {
+          type: 'string',
+          description: 'Exchange at POST /sessions/refresh',
+        },
+        expiresIn: { type: 'number', example: 900 },
       },
     },
   })
@@ -76,7 +89,8 @@ export class AuthController {
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Authenticate employee',
-    description: 'Login with email and password to receive access token',
+    description:
+      'Login with email and password to receive access token. Staff with two-factor authentication, or whose role requires it, instead receive { twoFactorRequired, enrollmentRequired, challengeToken, expiresIn } and finish at POST /auth/login/2fa.',
   })
   @ApiResponse({
     status: HttpStatus.OK,
@@ -93,7 +107,12 @@ export class AuthController {
             roles: { type: 'array', items: { type: 'string' } },
           },
         },
-        token: { type: 'string' },
+        token: { type: 'string', description: 'Access token (15 minutes)' },
+        refreshToken: {
+          type: 'string',
+          description: 'Exchange at POST /sessions/refresh',
+        },
+        expiresIn: { type: 'number', example: 900 },
       },
     },
   })
@@ -101,13 +120,69 @@ export class AuthController {
     status: HttpStatus.UNAUTHORIZED,
     description: 'Invalid credentials or inactive account',
   })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description:
+      'Too many failed attempts; retry later or ask an admin to unlock',
+  })
   async login(
     @Body() loginUserDto: LoginUserDto,
     @Req() req: ExpressRequest,
-  ): Promise<AuthResponse> {
+  ): Promise<AuthResponse | TwoFactorChallengeResponse> {
     return this.authService.login(loginUserDto, req);
   }
 
+  @Public()
+  @Post('/login/2fa')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Complete login with an authenticator or backup code',
+    description:
+      'When enrollmentRequired was returned, call POST /auth/login/2fa/setup first and send a code from the new authenticator; the response then also carries backupCodes.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Login successful; same shape as POST /auth/login',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Enrollment not started or invalid code during enrollment',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid code or expired challenge token',
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description:
+      'Too many failed attempts; retry later or ask an admin to unlock',
+  })
+  async completeTwoFactorLogin(
+    @Body() twoFactorLoginDto: TwoFactorLoginDto,
+    @Req() req: ExpressRequest,
+  ): Promise<AuthResponse> {
+    return this.authService.completeTwoFactorLogin(twoFactorLoginDto, req);
+  }
+
+  @Public()
+  @Post('/login/2fa/setup')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Enroll an authenticator during login',
+    description:
+      'For logins that returned enrollmentRequired. Scan the QR code, then complete the login at POST /auth/login/2fa.',
+  })
+  @ApiResponse({ status: HttpStatus.OK, type: TwoFactorSetupDto })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Expired challenge token',
+  })
+  async beginTwoFactorEnrollment(
+    @Body() twoFactorChallengeDto: TwoFactorChallengeDto,
+  ): Promise<TwoFactorSetupDto> {
+    return this.authService.beginTwoFactorEnrollment(twoFactorChallengeDto);
+  }
+
   @Public()
   @Post('request-password-reset')
   @HttpCode(HttpStatus.OK)
@@ -134,13 +209,18 @@ export class AuthController {
   @ApiOperation({ summary: 'Confirm password reset with token' })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'Password has been successfully reset.',
+    description:
+      'Password has been successfully reset. All existing sessions are signed out.',
     schema: { properties: { message: { type: 'string' } } },
   })
   @ApiResponse({
     status: HttpStatus.BAD_REQUEST,
     description: 'Invalid or expired token, or error processing request.',
   })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many wrong PINs; request a new PIN once the lock lifts',
+  })
   async confirmPasswordReset(
     @Body() confirmPasswordResetDto: ConfirmPasswordResetDto,
     @Req() req: ExpressRequest,
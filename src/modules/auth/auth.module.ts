@@ -8,20 +8,33 @@ import { AuthService } from './auth.service';
 import { UserController } from './user.controller';
 import { UserService } from './user.service';
 import { User, UserSchema } from './schemas/user.schema';
-import { JwtStrategy } from './strategies/jwt.strategy';
+import {
+  SecurityPolicy,
+  SecurityPolicySchema,
+} from './schemas/security-policy.schema';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorController } from './two-factor.controller';
+import { StaffJwtStrategy } from './strategies/staff-jwt.strategy';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
-import { RolesGuard } from './guards/roles.guard';
+import { PermissionsGuard } from '../../common/guards/permissions.guard';
 import { SystemLogsService } from '../system-logs/services/system-logs.service';
 import {
   SystemLog,
   SystemLogSchema,
 } from '../system-logs/schemas/system-log.schema';
 import { NotificationsModule } from '../notifications/notifications.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { LockoutModule } from '../lockout/lockout.module';
+import { AuditModule } from '../audit/audit.module';
+import { EmailTemplatesModule } from '../email-templates/email-templates.module';
 
 @Module({
   imports: [
     PassportModule.register({ defaultStrategy: 'jwt' }),
     MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
+    MongooseModule.forFeature([
+      { name: SecurityPolicy.name, schema: SecurityPolicySchema },
+    ]),
     MongooseModule.forFeature([
       { name: SystemLog.name, schema: SystemLogSchema },
     ]),
@@ -36,20 +49,25 @@ import { NotificationsModule } from '../notifications/notifications.module';
       }),
     }),
     NotificationsModule,
+    SessionsModule,
+    LockoutModule,
+    AuditModule,
+    EmailTemplatesModule,
   ],
-  controllers: [AuthController, UserController],
+  controllers: [AuthController, UserController, TwoFactorController],
   providers: [
     AuthService,
     UserService,
+    TwoFactorService,
     SystemLogsService,
-    JwtStrategy,
+    StaffJwtStrategy,
     {
       provide: 'APP_GUARD',
       useClass: JwtAuthGuard,
     },
     {
       provide: 'APP_GUARD',
-      useClass: RolesGuard,
+      useClass: PermissionsGuard,
     },
   ],
   exports: [AuthService, UserService, JwtModule],
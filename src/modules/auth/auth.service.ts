@@ -2,8 +2,9 @@ import {
   Injectable,
   UnauthorizedException,
   BadRequestException,
+  HttpException,
+  NotFoundException,
 } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
 import * as bcrypt from 'bcrypt';
 import { UserService } from './user.service';
 import { CreateUserDto } from './dto/user.dto';
@@ -13,9 +14,8 @@ import {
   ConfirmPasswordResetDto,
 } from './dto/reset-password.dto';
 import {
-  JwtPayload,
   AuthResponse,
-  TokenPayload,
+  TwoFactorChallengeResponse,
 } from './interfaces/auth.interface';
 import { User, UserDocument } from './schemas/user.schema';
 import { SystemLogsService } from '../system-logs/services/system-logs.service';
@@ -23,14 +23,38 @@ import { LogSeverity } from '../system-logs/schemas/system-log.schema';
 import { Request } from 'express';
 import { ConfigService } from '@nestjs/config';
 import { NotificationService } from '../notifications/services/notification.service';
+import { EmailTemplatesService } from '../email-templates/email-templates.service';
+import { EmailTemplateKey } from '../email-templates/email-template.schema';
+import { SessionsService } from '../sessions/sessions.service';
+import { PrincipalType } from '../../common/enums/principal-type.enum';
+import { LockoutService } from '../lockout/lockout.service';
+import { AttemptScope } from '../lockout/login-attempt.schema';
+import { TwoFactorService } from './two-factor.service';
+import { TwoFactorChallengeDto, TwoFactorLoginDto } from './dto/two-factor.dto';
+import { TWO_FACTOR_CHALLENGE_TTL } from './auth.constants';
+
+// Never returned to clients
+const SENSITIVE_USER_FIELDS = [
+  'password',
+  'pin',
+  'resetPasswordPin',
+  'resetPasswordExpires',
+  'twoFactorSecret',
+  'twoFactorPendingSecret',
+  'twoFactorBackupCodes',
+  'twoFactorLastStep',
+];
 
 @Injectable()
 export class AuthService {
   constructor(
     private readonly userService: UserService,
-    private readonly jwtService: JwtService,
+    private readonly sessionsService: SessionsService,
+    private readonly lockoutService: LockoutService,
+    private readonly twoFactorService: TwoFactorService,
     private readonly systemLogsService: SystemLogsService,
     private readonly notificationService: NotificationService,
+    private readonly emailTemplatesService: EmailTemplatesService,
     private readonly configService: ConfigService,
   ) {}
 
@@ -41,7 +65,11 @@ export class AuthService {
     try {
       const user = await this.userService.register(createUserDto);
 
-      const token = await this.generateToken(user);
+      const tokens = await this.sessionsService.issue(
+        PrincipalType.STAFF,
+        user as UserDocument,
+        req,
+      );
 
       await this.systemLogsService.createLog(
         'User Registration',
@@ -53,7 +81,7 @@ export class AuthService {
 
       return {
         user: this.sanitizeUser(user),
-        token: token.token,
+        ...tokens,
       };
     } catch (error) {
       await this.systemLogsService.createLog(
@@ -74,11 +102,22 @@ export class AuthService {
   async login(
     loginUserDto: LoginUserDto,
     req?: Request,
-  ): Promise<AuthResponse> {
+  ): Promise<AuthResponse | TwoFactorChallengeResponse> {
     try {
-      const user = await this.userService.findByEmail(loginUserDto.email, true);
+      await this.lockoutService.assertLoginAllowed(
+        PrincipalType.STAFF,
+        loginUserDto.email,
+        req,
+      );
+
+      const user = await this.findUserForAuth(loginUserDto.email);
 
       if (!user) {
+        await this.lockoutService.recordLoginFailure(
+          PrincipalType.STAFF,
+          loginUserDto.email,
+          req,
+        );
         await this.systemLogsService.createLog(
           'ShafDb Login Failed',
           `User not found with email: ${loginUserDto.email}`,
@@ -119,6 +158,11 @@ export class AuthService {
         user.password,
       );
       if (!isValidPassword) {
+        await this.lockoutService.recordLoginFailure(
+          PrincipalType.STAFF,
+          loginUserDto.email,
+          req,
+        );
         await this.systemLogsService.createLog(
           'ShafDb Invalid Password',
           `Invalid password for user: ${user.firstName} ${user.lastName} (${user.email})`,
@@ -129,7 +173,25 @@ export class AuthService {
         throw new UnauthorizedException('ShafDb: Invalid credentials.');
       }
 
-      const token = await this.generateToken(user);
+      // Failed attempts are only cleared once the second step succeeds
+      if (await this.twoFactorService.isChallengeNeeded(user)) {
+        return {
+          twoFactorRequired: true,
+          enrollmentRequired: !user.twoFactorEnabled,
+          challengeToken: this.twoFactorService.issueChallenge(user),
+          expiresIn: TWO_FACTOR_CHALLENGE_TTL,
+        };
+      }
+
+      await this.lockoutService.recordLoginSuccess(
+        PrincipalType.STAFF,
+        loginUserDto.email,
+      );
+      const tokens = await this.sessionsService.issue(
+        PrincipalType.STAFF,
+        user as UserDocument,
+        req,
+      );
 
       await this.systemLogsService.createLog(
         'ShafDb User Login',
@@ -141,10 +203,10 @@ export class AuthService {
 
       return {
         user: this.sanitizeUser(user),
-        token: token.token,
+        ...tokens,
       };
     } catch (error) {
-      if (!(error instanceof UnauthorizedException)) {
+      if (!(error instanceof HttpException)) {
         await this.systemLogsService.createLog(
           'Login Error',
           `Unexpected error during login: ${error.message}`,
@@ -157,6 +219,99 @@ export class AuthService {
     }
   }
 
+  /**
+   * Second login step for staff with two-factor authentication. Users that
+   * a policy forces to enroll confirm their new authenticator here instead.
+   */
+  async completeTwoFactorLogin(
+    twoFactorLoginDto: TwoFactorLoginDto,
+    req?: Request,
+  ): Promise<AuthResponse> {
+    const user = await this.twoFactorService.resolveChallenge(
+      twoFactorLoginDto.challengeToken,
+    );
+    await this.lockoutService.assertLoginAllowed(
+      PrincipalType.STAFF,
+      user.email,
+      req,
+    );
+
+    let backupCodes: string[];
+    if (user.twoFactorEnabled) {
+      if (
+        !(await this.twoFactorService.verifyCode(
+          user,
+          twoFactorLoginDto.code,
+          req,
+        ))
+      ) {
+        await this.lockoutService.recordLoginFailure(
+          PrincipalType.STAFF,
+          user.email,
+          req,
+        );
+        await this.systemLogsService.createLog(
+          'ShafDb Invalid Two-Factor Code',
+          `Invalid two-factor code for user: ${user.firstName} ${user.lastName} (${user.email})`,
+          LogSeverity.WARNING,
+          user.employeeId?.toString(),
+          req,
+        );
+        throw new UnauthorizedException('ShafDb: Invalid authenticator code.');
+      }
+    } else {
+      try {
+        ({ backupCodes } = await this.twoFactorService.enable(
+          user,
+          twoFactorLoginDto.code,
+          req,
+        ));
+      } catch (error) {
+        await this.lockoutService.recordLoginFailure(
+          PrincipalType.STAFF,
+          user.email,
+          req,
+        );
+        throw error;
+      }
+    }
+
+    await this.lockoutService.recordLoginSuccess(
+      PrincipalType.STAFF,
+      user.email,
+    );
+    const tokens = await this.sessionsService.issue(
+      PrincipalType.STAFF,
+      user,
+      req,
+    );
+
+    await this.systemLogsService.createLog(
+      'ShafDb User Login',
+      `User ${user.firstName} ${user.lastName} (${user.email}) logged in successfully for ShafDb with two-factor authentication.`,
+      LogSeverity.INFO,
+      user.employeeId?.toString(),
+      req,
+    );
+
+    return {
+      user: this.sanitizeUser(user),
+      ...tokens,
+      ...(backupCodes && { backupCodes }),
+    };
+  }
+
+  /**
+   * Enrollment for staff that must set up two-factor authentication before
+   * their first login completes
+   */
+  async beginTwoFactorEnrollment(twoFactorChallengeDto: TwoFactorChallengeDto) {
+    const user = await this.twoFactorService.resolveChallenge(
+      twoFactorChallengeDto.challengeToken,
+    );
+    return this.twoFactorService.beginSetup(user);
+  }
+
   async requestPasswordReset(
     requestPasswordResetDto: RequestPasswordResetDto,
     req?: Request,
@@ -186,11 +341,16 @@ export class AuthService {
       user.resetPasswordExpires = expiryDate;
       await (user as UserDocument).save();
 
-      const resetMessage = `Your ShafDb password reset PIN is: ${resetPin}. This PIN will expire in 10 minutes. Please keep this PIN secure and do not share it with anyone.`;
-      await this.notificationService.sendRegistrationPassword(
-        user.phoneNumber,
+      if (user.phoneNumber) {
+        await this.notificationService.sendSMS(
+          user.phoneNumber,
+          `Your ShafDb password reset PIN is: ${resetPin}. This PIN will expire in 10 minutes. Please keep this PIN secure and do not share it with anyone.`,
+        );
+      }
+      await this.emailTemplatesService.send(
         user.email,
-        resetMessage,
+        EmailTemplateKey.PASSWORD_RESET_PIN,
+        { pin: resetPin, expiresInMinutes: 10 },
       );
 
       await this.systemLogsService.createLog(
@@ -224,12 +384,22 @@ export class AuthService {
     req?: Request,
   ): Promise<{ message: string }> {
     try {
-      const user = await this.userService.findByEmail(
+      await this.lockoutService.assertCodeAllowed(
+        AttemptScope.RESET_PIN,
+        PrincipalType.STAFF,
         confirmPasswordResetDto.email,
-        true,
+        req,
       );
 
+      const user = await this.findUserForAuth(confirmPasswordResetDto.email);
+
       if (!user || !user.resetPasswordPin || !user.resetPasswordExpires) {
+        await this.lockoutService.recordCodeFailure(
+          AttemptScope.RESET_PIN,
+          PrincipalType.STAFF,
+          confirmPasswordResetDto.email,
+          req,
+        );
         throw new BadRequestException(
           'ShafDb: Invalid or expired password reset PIN.',
         );
@@ -249,13 +419,35 @@ export class AuthService {
       }
 
       if (user.resetPasswordPin !== confirmPasswordResetDto.resetToken) {
+        const locked = await this.lockoutService.recordCodeFailure(
+          AttemptScope.RESET_PIN,
+          PrincipalType.STAFF,
+          confirmPasswordResetDto.email,
+          req,
+        );
+        if (locked) {
+          // Force a new PIN once the lock lifts
+          user.resetPasswordPin = undefined;
+          user.resetPasswordExpires = undefined;
+          await (user as UserDocument).save();
+        }
         throw new BadRequestException('ShafDb: Invalid password reset PIN.');
       }
 
+      await this.lockoutService.clearCodeFailures(
+        AttemptScope.RESET_PIN,
+        PrincipalType.STAFF,
+        confirmPasswordResetDto.email,
+      );
       user.password = confirmPasswordResetDto.newPassword;
       user.resetPasswordPin = undefined;
       user.resetPasswordExpires = undefined;
       await (user as UserDocument).save();
+      await this.sessionsService.revokeAll(
+        PrincipalType.STAFF,
+        (user as UserDocument)._id.toString(),
+        'password reset',
+      );
 
       await this.systemLogsService.createLog(
         'ShafDb Password Reset Confirmed',
@@ -274,44 +466,37 @@ export class AuthService {
         undefined,
         req,
       );
-      if (error instanceof BadRequestException) throw error;
+      if (error instanceof HttpException) throw error;
       throw new BadRequestException(
         'ShafDb: Could not reset password. Please try again.',
       );
     }
   }
 
-  private async generateToken(user: User): Promise<TokenPayload> {
-    const payload: JwtPayload = {
-      sub: (user as UserDocument)._id.toString(),
-      email: user.email,
-      roles: user.roles,
-    };
-
-    // For 1 year: 365 days * 24 hours * 60 minutes * 60 seconds
-    const token = this.jwtService.sign(payload, {
-      expiresIn: 365 * 24 * 60 * 60,
-    });
-
-    return {
-      token,
-      expiresIn: 365 * 24 * 60 * 60,
-    };
+  /**
+   * findByEmail throws when nothing matches; login and password reset treat
+   * an unknown email like a wrong password
+   */
+  private async findUserForAuth(email: string): Promise<UserDocument | null> {
+    try {
+      return await this.userService.findByEmail(email, true);
+    } catch (error) {
+      if (error instanceof NotFoundException) return null;
+      throw error;
+    }
   }
 
   /**
    * Remove sensitive information from user object
    */
   sanitizeUser(user: User | UserDocument): Partial<User> {
-    const userObj = 'toObject' in user ? user.toObject() : user;
+    const sanitizedUser = {
+      ...('toObject' in user ? user.toObject() : user),
+    };
     // Ensure all sensitive fields are excluded
-    const {
-      password,
-      pin,
-      resetPasswordPin,
-      resetPasswordExpires,
-      ...sanitizedUser
-    } = userObj as any;
+    for (const field of SENSITIVE_USER_FIELDS) {
+      delete sanitizedUser[field];
+    }
     return sanitizedUser;
   }
 
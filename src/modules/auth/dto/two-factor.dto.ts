@@ -0,0 +1,96 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsEnum,
+  IsJWT,
+  IsNotEmpty,
+  IsString,
+  Length,
+} from 'class-validator';
+import { Role } from '../../../common/enums/role.enum';
+
+// Two-Factor Code DTO
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    description: 'Six-digit authenticator code, or an unused backup code',
+    example: '492039',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Length(6, 20)
+  code: string;
+}
+
+// Two-Factor Challenge DTO
+export class TwoFactorChallengeDto {
+  @ApiProperty({ description: 'challengeToken returned by POST /auth/login' })
+  @IsJWT()
+  challengeToken: string;
+}
+
+// Two-Factor Login DTO
+export class TwoFactorLoginDto extends TwoFactorChallengeDto {
+  @ApiProperty({
+    description: 'Six-digit authenticator code, or an unused backup code',
+    example: '492039',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Length(6, 20)
+  code: string;
+}
+
+// Update Two-Factor Policy DTO
+export class UpdateTwoFactorPolicyDto {
+  @ApiProperty({
+    enum: Role,
+    isArray: true,
+    description: 'Staff roles that must use two-factor authentication',
+    example: [Role.ADMIN],
+  })
+  @IsArray()
+  @IsEnum(Role, { each: true })
+  requiredRoles: Role[];
+}
+
+// Response DTOs for documentation
+export class TwoFactorSetupDto {
+  @ApiProperty({
+    description: 'Base32 secret for manual entry',
+    example: 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP',
+  })
+  secret: string;
+
+  @ApiProperty({
+    example:
+      'otpauth://totp/ShafDb:jane.wanjiku%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=ShafDb',
+  })
+  otpauthUrl: string;
+
+  @ApiProperty({ description: 'PNG data URL of the otpauth QR code' })
+  qrCode: string;
+}
+
+export class TwoFactorBackupCodesDto {
+  @ApiProperty({
+    description: 'Single-use codes; shown once, store them safely',
+    example: ['3f9a1-c07d2', '8b4e0-19fa6'],
+  })
+  backupCodes: string[];
+}
+
+export class TwoFactorStatusDto {
+  @ApiProperty({ example: true })
+  enabled: boolean;
+
+  @ApiProperty({ description: 'Required by one of your roles', example: true })
+  required: boolean;
+
+  @ApiProperty({ example: 8 })
+  backupCodesRemaining: number;
+}
+
+export class TwoFactorPolicyDto {
+  @ApiProperty({ enum: Role, isArray: true, example: [Role.ADMIN] })
+  requiredRoles: Role[];
+}
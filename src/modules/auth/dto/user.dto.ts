@@ -12,6 +12,7 @@ import {
   IsArray,
 } from 'class-validator';
 import { Type } from 'class-transformer';
+import { Role } from '../../../common/enums/role.enum';
 
 
 
@@ -68,13 +69,15 @@ export class CreateUserDto {
   password: string;
 
   @ApiProperty({
-    description: 'Roles assigned in the app',
-    example: ['employee'],
-    enum: ['employee', 'admin', 'hr', 'finance'],
+    description:
+      'Roles assigned in the app. Ignored on self-registration; granted by an administrator.',
+    example: [Role.EMPLOYEE],
+    enum: Role,
+    isArray: true,
   })
   @IsOptional()
   @IsArray()
-  @IsEnum(['employee', 'admin', 'hr', 'finance'], { each: true })
+  @IsEnum(Role, { each: true })
   roles?: string[];
 
   @ApiProperty({
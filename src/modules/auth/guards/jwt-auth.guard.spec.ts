@@ -0,0 +1,140 @@
+import { ExecutionContext, ForbiddenException, Type } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Types } from 'mongoose';
+import { JwtAuthGuard } from './jwt-auth.guard';
+import { PrincipalType } from '../../../common/enums/principal-type.enum';
+import { DelegatesController } from '../../delegates/delegate.controller';
+import { KioskController } from '../../delegates/kiosk.controller';
+import { AttendanceController } from '../../attendance/attendance.controller';
+import { EventsController } from '../../events/event.controller';
+import { NewsController } from '../../news/news.controller';
+import { PanelistController } from '../../../panelist/panelist.controller';
+import { VideoController } from '../../../video/video.controller';
+import { AgendaController } from '../../agenda/agenda.controller';
+
+function contextFor(
+  controller: Type<unknown>,
+  handler: string,
+  request: object,
+): ExecutionContext {
+  return {
+    getClass: () => controller,
+    getHandler: () => controller.prototype[handler],
+    switchToHttp: () => ({ getRequest: () => request }),
+  } as unknown as ExecutionContext;
+}
+
+describe('JwtAuthGuard', () => {
+  const guard = new JwtAuthGuard(new Reflector());
+  const delegateId = new Types.ObjectId();
+  let authenticate: jest.SpyInstance;
+
+  function delegate(params: Record<string, string> = {}) {
+    return {
+      user: { _id: delegateId },
+      principalType: PrincipalType.DELEGATE,
+      params,
+    };
+  }
+
+  beforeEach(() => {
+    // Token verification is passport's job; only the checks after it are
+    // under test
+    authenticate = jest
+      .spyOn(Object.getPrototypeOf(JwtAuthGuard.prototype), 'canActivate')
+      .mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    authenticate.mockRestore();
+  });
+
+  describe('delegate tokens on staff routes', () => {
+    const staffRoutes: [string, Type<unknown>, string][] = [
+      ['delegate list', DelegatesController, 'findAll'],
+      ['delegate approval', DelegatesController, 'approve'],
+      ['delegate rejection', DelegatesController, 'reject'],
+      ['check-in', DelegatesController, 'checkIn'],
+      ['kiosk sync', KioskController, 'sync'],
+      ['attendance report', AttendanceController, 'getReport'],
+      ['bookmark counts', AgendaController, 'getBookmarkCounts'],
+      ['event cancellation', EventsController, 'cancelEvent'],
+      ['news bulk update', NewsController, 'bulkUpdate'],
+      ['panelist confirmation', PanelistController, 'confirmParticipation'],
+      ['video moderation', VideoController, 'update'],
+    ];
+
+    it.each(staffRoutes)('refuses %s', async (_, controller, handler) => {
+      await expect(
+        guard.canActivate(
+          contextFor(controller, handler, delegate({ id: String(delegateId) })),
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('delegate tokens on their own records', () => {
+    it('allows their own badge', async () => {
+      await expect(
+        guard.canActivate(
+          contextFor(
+            DelegatesController,
+            'downloadBadge',
+            delegate({ id: String(delegateId) }),
+          ),
+        ),
+      ).resolves.toBe(true);
+    });
+
+    it("refuses another delegate's badge", async () => {
+      await expect(
+        guard.canActivate(
+          contextFor(
+            DelegatesController,
+            'downloadBadge',
+            delegate({ id: String(new Types.ObjectId()) }),
+          ),
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it("refuses another delegate's profile update", async () => {
+      await expect(
+        guard.canActivate(
+          contextFor(
+            DelegatesController,
+            'update',
+            delegate({ id: String(new Types.ObjectId()) }),
+          ),
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('allows scanning themselves into a session', async () => {
+      await expect(
+        guard.canActivate(
+          contextFor(AttendanceController, 'recordEntry', delegate()),
+        ),
+      ).resolves.toBe(true);
+    });
+  });
+
+  it("allows staff tokens on any delegate's records", async () => {
+    await expect(
+      guard.canActivate(
+        contextFor(DelegatesController, 'downloadBadge', {
+          user: { _id: new Types.ObjectId(), roles: [] },
+          principalType: PrincipalType.STAFF,
+          params: { id: String(delegateId) },
+        }),
+      ),
+    ).resolves.toBe(true);
+  });
+
+  it('skips authentication on public routes', async () => {
+    await expect(
+      guard.canActivate(contextFor(DelegatesController, 'login', {})),
+    ).resolves.toBe(true);
+    expect(authenticate).not.toHaveBeenCalled();
+  });
+});
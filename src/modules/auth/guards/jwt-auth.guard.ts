@@ -1,15 +1,32 @@
-import { Injectable, ExecutionContext } from '@nestjs/common';
+import {
+  Injectable,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { Reflector } from '@nestjs/core';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { DELEGATE_JWT_STRATEGY, STAFF_JWT_STRATEGY } from '../auth.constants';
+import {
+  OWN_DELEGATE_PARAM_KEY,
+  PRINCIPALS_KEY,
+} from '../../../common/decorators/principals.decorator';
+import { PrincipalType } from '../../../common/enums/principal-type.enum';
 
+/**
+ * Accepts staff and delegate tokens, then checks the authenticated
+ * principal against the route's @Principals and @OwnDelegate metadata
+ */
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {
+export class JwtAuthGuard extends AuthGuard([
+  STAFF_JWT_STRATEGY,
+  DELEGATE_JWT_STRATEGY,
+]) {
   constructor(private reflector: Reflector) {
     super();
   }
 
-  canActivate(context: ExecutionContext) {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
       context.getHandler(),
       context.getClass(),
@@ -19,6 +36,34 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       return true;
     }
 
-    return super.canActivate(context);
+    await super.canActivate(context);
+
+    const request = context.switchToHttp().getRequest();
+    const principals = this.reflector.getAllAndOverride<PrincipalType[]>(
+      PRINCIPALS_KEY,
+      [context.getHandler(), context.getClass()],
+    ) || [PrincipalType.STAFF];
+
+    if (!principals.includes(request.principalType)) {
+      throw new ForbiddenException(
+        `This endpoint is not available to ${request.principalType} accounts`,
+      );
+    }
+
+    const ownParam = this.reflector.getAllAndOverride<string>(
+      OWN_DELEGATE_PARAM_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (
+      request.principalType === PrincipalType.DELEGATE &&
+      ownParam &&
+      request.params[ownParam] !== request.user._id.toString()
+    ) {
+      throw new ForbiddenException(
+        'Delegates can only access their own records',
+      );
+    }
+
+    return true;
   }
 }
@@ -1,17 +1,43 @@
-import { User } from '../schemas/user.schema';
+import { Request } from 'express';
+import { User, UserDocument } from '../schemas/user.schema';
+import { DelegateDocument } from '../../delegates/delegates.schema';
+import { PrincipalType } from '../../../common/enums/principal-type.enum';
 
 export interface JwtPayload {
   sub: string;
   email: string;
   roles: string[];
+  sid?: string;
 }
 
 export interface AuthResponse {
   user: Partial<User>;
   token: string;
+  refreshToken: string;
+  expiresIn: number;
+  // Only when two-factor enrollment was completed during this login
+  backupCodes?: string[];
+}
+
+// Returned by staff login instead of tokens when a second step is needed
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  // The user has no authenticator yet and must enroll before signing in
+  enrollmentRequired: boolean;
+  challengeToken: string;
+  expiresIn: number;
 }
 
 export interface TokenPayload {
   token: string;
   expiresIn: number;
 }
+
+// What the staff and delegate JWT strategies attach to the request
+export interface AuthenticatedRequest extends Request {
+  user: UserDocument | DelegateDocument;
+  principalType: PrincipalType;
+  sessionId?: string;
+  // Only set for delegate tokens
+  tokenExpiresAt?: Date;
+}
@@ -0,0 +1,27 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { Role } from '../../../common/enums/role.enum';
+
+export const DEFAULT_SECURITY_POLICY_KEY = 'default';
+
+// Security Policy Schema
+// Staff login rules set by admins. A single document keyed 'default'.
+@Schema({
+  timestamps: true,
+  collection: 'security_policies',
+})
+export class SecurityPolicy {
+  @Prop({ required: true, unique: true, default: DEFAULT_SECURITY_POLICY_KEY })
+  key: string;
+
+  // Staff holding any of these roles must use two-factor authentication
+  @Prop({ type: [String], enum: Role, default: [] })
+  twoFactorRequiredRoles: Role[];
+
+  @Prop()
+  updatedBy: string;
+}
+
+export type SecurityPolicyDocument = SecurityPolicy & Document;
+export const SecurityPolicySchema =
+  SchemaFactory.createForClass(SecurityPolicy);
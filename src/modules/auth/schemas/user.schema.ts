@@ -2,6 +2,7 @@ import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
 import { ApiProperty } from '@nestjs/swagger';
 import * as bcrypt from 'bcrypt';
+import { Role } from '../../../common/enums/role.enum';
 
 export type UserDocument = User & Document;
 
@@ -72,12 +73,14 @@ export class User {
 
   @ApiProperty({
     description: 'Roles assigned in the app',
-    example: ['employee'],
+    example: [Role.EMPLOYEE],
+    enum: Role,
+    isArray: true,
   })
   @Prop({
     type: [String],
-    default: ['employee'],
-    enum: ['employee', 'admin', 'hr', 'finance'],
+    default: [Role.EMPLOYEE],
+    enum: Role,
   })
   roles: string[];
 
@@ -127,6 +130,29 @@ export class User {
   })
   @Prop({ type: [String], required: false, default: [] })
   expoPushTokens?: string[];
+
+  @ApiProperty({
+    description: 'Whether login requires an authenticator code',
+    example: false,
+  })
+  @Prop({ default: false })
+  twoFactorEnabled: boolean;
+
+  // Base32 TOTP secret, set once enrollment is confirmed
+  @Prop({ select: false })
+  twoFactorSecret?: string;
+
+  // Secret shown during enrollment, until the first code is confirmed
+  @Prop({ select: false })
+  twoFactorPendingSecret?: string;
+
+  // SHA-256 hashes of the unused backup codes
+  @Prop({ type: [String], select: false, default: [] })
+  twoFactorBackupCodes?: string[];
+
+  // Last accepted TOTP time step, so a code cannot be replayed
+  @Prop({ select: false })
+  twoFactorLastStep?: number;
 }
 
 export const UserSchema = SchemaFactory.createForClass(User);
@@ -3,23 +3,38 @@ import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
 import { UserService } from '../user.service';
-import { AuthService } from '../auth.service';
+import { SessionsService } from '../../sessions/sessions.service';
+import {
+  JWT_ISSUER,
+  STAFF_JWT_AUDIENCE,
+  STAFF_JWT_STRATEGY,
+} from '../auth.constants';
+import { PrincipalType } from '../../../common/enums/principal-type.enum';
 
 @Injectable()
-export class JwtStrategy extends PassportStrategy(Strategy) {
+export class StaffJwtStrategy extends PassportStrategy(
+  Strategy,
+  STAFF_JWT_STRATEGY,
+) {
   constructor(
     private configService: ConfigService,
     private userService: UserService,
-    private authService: AuthService,
+    private sessionsService: SessionsService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
       secretOrKey: configService.get<string>('JWT_SECRET'),
+      audience: STAFF_JWT_AUDIENCE,
+      issuer: JWT_ISSUER,
+      passReqToCallback: true,
     });
   }
 
-  async validate(payload: any) {
+  async validate(req: any, payload: any) {
+    if (!(await this.sessionsService.isActive(payload.sid))) {
+      throw new UnauthorizedException('Session has expired or been revoked');
+    }
     const user = await this.userService.findById(payload.sub);
     if (!user) {
       throw new UnauthorizedException('User not found');
@@ -27,6 +42,8 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     if (user.status !== 'active') {
       throw new UnauthorizedException('User account is not active');
     }
+    req.principalType = PrincipalType.STAFF;
+    req.sessionId = payload.sid;
     return user;
   }
 }
@@ -0,0 +1,179 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Put,
+  Req,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiParam,
+  ApiTags,
+} from '@nestjs/swagger';
+import { TwoFactorService } from './two-factor.service';
+import {
+  TwoFactorBackupCodesDto,
+  TwoFactorCodeDto,
+  TwoFactorPolicyDto,
+  TwoFactorSetupDto,
+  TwoFactorStatusDto,
+  UpdateTwoFactorPolicyDto,
+} from './dto/two-factor.dto';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../../common/enums/permission.enum';
+
+@ApiTags('Two-Factor Authentication')
+@ApiBearerAuth()
+@Controller('auth/2fa')
+export class TwoFactorController {
+  private readonly logger = new Logger(TwoFactorController.name);
+
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get my two-factor authentication status' })
+  @ApiOkResponse({ type: TwoFactorStatusDto })
+  async getStatus(@Req() req: any): Promise<TwoFactorStatusDto> {
+    this.logger.log(`GET /auth/2fa - Fetching two-factor status`);
+    return this.twoFactorService.getStatus(req.user._id.toString());
+  }
+
+  @Post('setup')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Start two-factor enrollment',
+    description:
+      'Returns a new secret and QR code for an authenticator app. Nothing changes until a code is confirmed at POST /auth/2fa/enable.',
+  })
+  @ApiOkResponse({ type: TwoFactorSetupDto })
+  @ApiBadRequestResponse({ description: 'Two-factor is already enabled' })
+  async setup(@Req() req: any): Promise<TwoFactorSetupDto> {
+    this.logger.log(`POST /auth/2fa/setup - Starting enrollment`);
+    return this.twoFactorService.beginSetup(req.user._id.toString());
+  }
+
+  @Post('enable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Confirm enrollment and enable two-factor authentication',
+    description: 'Returns single-use backup codes. They are shown only once.',
+  })
+  @ApiOkResponse({ type: TwoFactorBackupCodesDto })
+  @ApiBadRequestResponse({
+    description: 'Setup not started or invalid authenticator code',
+  })
+  async enable(
+    @Body() codeDto: TwoFactorCodeDto,
+    @Req() req: any,
+  ): Promise<TwoFactorBackupCodesDto> {
+    this.logger.log(`POST /auth/2fa/enable - Confirming enrollment`);
+    return this.twoFactorService.enable(
+      req.user._id.toString(),
+      codeDto.code,
+      req,
+    );
+  }
+
+  @Post('disable')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Disable two-factor authentication',
+    description: 'Not allowed when a policy requires it for one of your roles.',
+  })
+  @ApiOkResponse({ type: TwoFactorStatusDto })
+  @ApiBadRequestResponse({
+    description: 'Not enabled, required by policy, or invalid code',
+  })
+  async disable(
+    @Body() codeDto: TwoFactorCodeDto,
+    @Req() req: any,
+  ): Promise<TwoFactorStatusDto> {
+    this.logger.log(`POST /auth/2fa/disable - Disabling two-factor`);
+    return this.twoFactorService.disable(
+      req.user._id.toString(),
+      codeDto.code,
+      req,
+    );
+  }
+
+  @Post('backup-codes')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Regenerate backup codes',
+    description:
+      'Requires a current authenticator code. Previous backup codes stop working.',
+  })
+  @ApiOkResponse({ type: TwoFactorBackupCodesDto })
+  @ApiBadRequestResponse({
+    description: 'Two-factor not enabled or invalid code',
+  })
+  async regenerateBackupCodes(
+    @Body() codeDto: TwoFactorCodeDto,
+    @Req() req: any,
+  ): Promise<TwoFactorBackupCodesDto> {
+    this.logger.log(`POST /auth/2fa/backup-codes - Regenerating backup codes`);
+    return this.twoFactorService.regenerateBackupCodes(
+      req.user._id.toString(),
+      codeDto.code,
+      req,
+    );
+  }
+
+  @Get('policy')
+  @RequirePermissions(Permission.SECURITY_MANAGE)
+  @ApiOperation({ summary: 'Get the roles that must use two-factor' })
+  @ApiOkResponse({ type: TwoFactorPolicyDto })
+  async getPolicy(): Promise<TwoFactorPolicyDto> {
+    this.logger.log(`GET /auth/2fa/policy - Fetching two-factor policy`);
+    return this.twoFactorService.getPolicy();
+  }
+
+  @Put('policy')
+  @RequirePermissions(Permission.SECURITY_MANAGE)
+  @ApiOperation({
+    summary: 'Set the roles that must use two-factor',
+    description:
+      'Staff in these roles without an authenticator are made to enroll at their next login.',
+  })
+  @ApiOkResponse({ type: TwoFactorPolicyDto })
+  async updatePolicy(
+    @Body() updateDto: UpdateTwoFactorPolicyDto,
+    @Req() req: any,
+  ): Promise<TwoFactorPolicyDto> {
+    this.logger.log(`PUT /auth/2fa/policy - Updating two-factor policy`);
+    return this.twoFactorService.updatePolicy(
+      updateDto,
+      req.user._id.toString(),
+      req,
+    );
+  }
+
+  @Delete('users/:id')
+  @RequirePermissions(Permission.SECURITY_MANAGE)
+  @ApiOperation({
+    summary: "Reset a staff user's two-factor authentication",
+    description:
+      'For users who lost their authenticator and backup codes. Signs the user out everywhere.',
+  })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiOkResponse({ type: TwoFactorStatusDto })
+  @ApiBadRequestResponse({ description: 'Invalid user ID format' })
+  @ApiNotFoundResponse({ description: 'User not found' })
+  async reset(
+    @Param('id') id: string,
+    @Req() req: any,
+  ): Promise<TwoFactorStatusDto> {
+    this.logger.log(`DELETE /auth/2fa/users/${id} - Resetting two-factor`);
+    return this.twoFactorService.reset(id, req.user._id.toString(), req);
+  }
+}
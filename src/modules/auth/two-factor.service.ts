@@ -0,0 +1,523 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+import * as QRCode from 'qrcode';
+import { User, UserDocument } from './schemas/user.schema';
+import {
+  DEFAULT_SECURITY_POLICY_KEY,
+  SecurityPolicy,
+  SecurityPolicyDocument,
+} from './schemas/security-policy.schema';
+import {
+  TwoFactorBackupCodesDto,
+  TwoFactorPolicyDto,
+  TwoFactorSetupDto,
+  TwoFactorStatusDto,
+  UpdateTwoFactorPolicyDto,
+} from './dto/two-factor.dto';
+import {
+  JWT_ISSUER,
+  TWO_FACTOR_CHALLENGE_TTL,
+  TWO_FACTOR_JWT_AUDIENCE,
+} from './auth.constants';
+import { SessionsService } from '../sessions/sessions.service';
+import { SystemLogsService } from '../system-logs/services/system-logs.service';
+import { LogSeverity } from '../system-logs/schemas/system-log.schema';
+import { PrincipalType } from '../../common/enums/principal-type.enum';
+
+// RFC 6238 defaults, which every authenticator app supports
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept the previous and next code to allow for clock drift
+const TOTP_DRIFT_STEPS = 1;
+
+const BACKUP_CODE_COUNT = 10;
+
+const SECRET_FIELDS =
+  '+twoFactorSecret +twoFactorPendingSecret +twoFactorBackupCodes +twoFactorLastStep';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+interface TwoFactorChallengePayload {
+  sub: string;
+  purpose: 'two-factor';
+}
+
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+
+  constructor(
+    @InjectModel(User.name)
+    private readonly userModel: Model<UserDocument>,
+    @InjectModel(SecurityPolicy.name)
+    private readonly policyModel: Model<SecurityPolicyDocument>,
+    private readonly jwtService: JwtService,
+    private readonly configService: ConfigService,
+    private readonly sessionsService: SessionsService,
+    private readonly systemLogsService: SystemLogsService,
+  ) {}
+
+  // ======================================================
+  // LOGIN CHALLENGE
+  // ======================================================
+
+  /**
+   * Whether the user must pass a second step before tokens are issued
+   */
+  async isChallengeNeeded(user: User): Promise<boolean> {
+    return user.twoFactorEnabled || (await this.isRequiredFor(user));
+  }
+
+  issueChallenge(user: UserDocument): string {
+    const payload: TwoFactorChallengePayload = {
+      sub: user._id.toString(),
+      purpose: 'two-factor',
+    };
+    return this.jwtService.sign(payload, {
+      expiresIn: TWO_FACTOR_CHALLENGE_TTL,
+      audience: TWO_FACTOR_JWT_AUDIENCE,
+      issuer: JWT_ISSUER,
+    });
+  }
+
+  /**
+   * Resolve a challenge token to its user, with the 2FA fields loaded
+   */
+  async resolveChallenge(challengeToken: string): Promise<UserDocument> {
+    let payload: TwoFactorChallengePayload;
+    try {
+      payload = this.jwtService.verify(challengeToken, {
+        audience: TWO_FACTOR_JWT_AUDIENCE,
+        issuer: JWT_ISSUER,
+      });
+    } catch {
+      throw new UnauthorizedException(
+        'ShafDb: Login has expired. Please sign in again.',
+      );
+    }
+
+    const user = await this.userModel
+      .findById(payload.sub)
+      .select(SECRET_FIELDS)
+      .exec();
+    if (!user || user.status !== 'active') {
+      throw new UnauthorizedException('Account is not active');
+    }
+    return user;
+  }
+
+  /**
+   * Check an enrolled user's authenticator code, falling back to their
+   * backup codes
+   */
+  async verifyCode(
+    user: UserDocument,
+    code: string,
+    req?: Request,
+  ): Promise<boolean> {
+    if (!user.twoFactorEnabled) {
+      return false;
+    }
+    return (
+      (await this.consumeTotp(user, user.twoFactorSecret, code)) ||
+      (await this.consumeBackupCode(user, code, req))
+    );
+  }
+
+  // ======================================================
+  // ENROLLMENT
+  // ======================================================
+
+  async getStatus(userId: string): Promise<TwoFactorStatusDto> {
+    const user = await this.findUser(userId);
+    return {
+      enabled: user.twoFactorEnabled,
+      required: await this.isRequiredFor(user),
+      backupCodesRemaining: user.twoFactorEnabled
+        ? (user.twoFactorBackupCodes || []).length
+        : 0,
+    };
+  }
+
+  /**
+   * Generate a new secret for the user to scan. It only takes effect once a
+   * code from it is confirmed.
+   */
+  async beginSetup(
+    userOrId: UserDocument | string,
+  ): Promise<TwoFactorSetupDto> {
+    const user =
+      typeof userOrId === 'string' ? await this.findUser(userOrId) : userOrId;
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = base32Encode(randomBytes(20));
+    user.twoFactorPendingSecret = secret;
+    await user.save();
+
+    const issuer = this.configService.get<string>('TOTP_ISSUER') || 'ShafDb';
+    const label = encodeURIComponent(`${issuer}:${user.email}`);
+    const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCode: await QRCode.toDataURL(otpauthUrl),
+    };
+  }
+
+  /**
+   * Confirm the pending secret with a code from the app and switch 2FA on
+   */
+  async enable(
+    userOrId: UserDocument | string,
+    code: string,
+    req?: Request,
+  ): Promise<TwoFactorBackupCodesDto> {
+    const user =
+      typeof userOrId === 'string' ? await this.findUser(userOrId) : userOrId;
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+    if (!user.twoFactorPendingSecret) {
+      throw new BadRequestException('Start two-factor setup first');
+    }
+    if (!(await this.consumeTotp(user, user.twoFactorPendingSecret, code))) {
+      throw new BadRequestException('Invalid authenticator code');
+    }
+
+    const backupCodes = this.generateBackupCodes();
+    user.twoFactorEnabled = true;
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorBackupCodes = backupCodes.map((c) => this.hashBackupCode(c));
+    await user.save();
+
+    await this.systemLogsService.createLog(
+      'Two-Factor Enabled',
+      `Two-factor authentication enabled for ${user.email}`,
+      LogSeverity.INFO,
+      user.employeeId?.toString(),
+      req,
+    );
+    return { backupCodes };
+  }
+
+  async disable(
+    userId: string,
+    code: string,
+    req?: Request,
+  ): Promise<TwoFactorStatusDto> {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (await this.isRequiredFor(user)) {
+      throw new BadRequestException(
+        'Two-factor authentication is required for your role',
+      );
+    }
+    if (!(await this.verifyCode(user, code, req))) {
+      throw new BadRequestException('Invalid authenticator or backup code');
+    }
+
+    this.clearTwoFactor(user);
+    await user.save();
+
+    await this.systemLogsService.createLog(
+      'Two-Factor Disabled',
+      `Two-factor authentication disabled by ${user.email}`,
+      LogSeverity.WARNING,
+      user.employeeId?.toString(),
+      req,
+    );
+    return this.getStatus(userId);
+  }
+
+  async regenerateBackupCodes(
+    userId: string,
+    code: string,
+    req?: Request,
+  ): Promise<TwoFactorBackupCodesDto> {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+    if (!(await this.consumeTotp(user, user.twoFactorSecret, code))) {
+      throw new BadRequestException('Invalid authenticator code');
+    }
+
+    const backupCodes = this.generateBackupCodes();
+    user.twoFactorBackupCodes = backupCodes.map((c) => this.hashBackupCode(c));
+    await user.save();
+
+    await this.systemLogsService.createLog(
+      'Two-Factor Backup Codes Regenerated',
+      `New backup codes issued for ${user.email}; previous codes revoked`,
+      LogSeverity.INFO,
+      user.employeeId?.toString(),
+      req,
+    );
+    return { backupCodes };
+  }
+
+  // ======================================================
+  // ADMINISTRATION
+  // ======================================================
+
+  /**
+   * Remove a user's 2FA, e.g. after a lost phone with no backup codes left.
+   * The user is signed out everywhere and must enroll again if required.
+   */
+  async reset(
+    userId: string,
+    adminUserId: string,
+    req?: Request,
+  ): Promise<TwoFactorStatusDto> {
+    const user = await this.findUser(userId);
+    this.clearTwoFactor(user);
+    await user.save();
+    await this.sessionsService.revokeAll(
+      PrincipalType.STAFF,
+      user._id.toString(),
+      'two-factor reset',
+    );
+
+    await this.systemLogsService.createLog(
+      'Two-Factor Reset',
+      `Two-factor authentication reset for ${user.email} by an administrator`,
+      LogSeverity.WARNING,
+      adminUserId,
+      req,
+    );
+    this.logger.log(`2FA reset for ${user.email} by ${adminUserId}`);
+    return this.getStatus(userId);
+  }
+
+  async getPolicy(): Promise<TwoFactorPolicyDto> {
+    const policy = await this.findPolicy();
+    return { requiredRoles: policy?.twoFactorRequiredRoles || [] };
+  }
+
+  async updatePolicy(
+    updateDto: UpdateTwoFactorPolicyDto,
+    adminUserId: string,
+    req?: Request,
+  ): Promise<TwoFactorPolicyDto> {
+    const requiredRoles = [...new Set(updateDto.requiredRoles)];
+    await this.policyModel
+      .updateOne(
+        { key: DEFAULT_SECURITY_POLICY_KEY },
+        {
+          $set: {
+            twoFactorRequiredRoles: requiredRoles,
+            updatedBy: adminUserId,
+          },
+        },
+        { upsert: true },
+      )
+      .exec();
+
+    await this.systemLogsService.createLog(
+      'Two-Factor Policy Updated',
+      `Two-factor authentication required for roles: ${requiredRoles.join(', ') || 'none'}`,
+      LogSeverity.INFO,
+      adminUserId,
+      req,
+    );
+    return { requiredRoles };
+  }
+
+  // ======================================================
+  // HELPERS
+  // ======================================================
+
+  private async isRequiredFor(user: User): Promise<boolean> {
+    const policy = await this.findPolicy();
+    const requiredRoles: string[] = policy?.twoFactorRequiredRoles || [];
+    return (user.roles || []).some((role) => requiredRoles.includes(role));
+  }
+
+  private async findPolicy(): Promise<SecurityPolicy | null> {
+    return this.policyModel
+      .findOne({ key: DEFAULT_SECURITY_POLICY_KEY })
+      .lean()
+      .exec();
+  }
+
+  private async findUser(userId: string): Promise<UserDocument> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new BadRequestException('Invalid user ID format');
+    }
+    const user = await this.userModel
+      .findById(userId)
+      .select(SECRET_FIELDS)
+      .exec();
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return user;
+  }
+
+  private clearTwoFactor(user: UserDocument): void {
+    user.twoFactorEnabled = false;
+    user.twoFactorSecret = undefined;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorBackupCodes = [];
+    user.twoFactorLastStep = undefined;
+  }
+
+  /**
+   * Accept a TOTP code for the secret, recording its time step so the same
+   * code cannot be used twice
+   */
+  private async consumeTotp(
+    user: UserDocument,
+    secret: string,
+    code: string,
+  ): Promise<boolean> {
+    const normalized = (code || '').replace(/\s/g, '');
+    if (!secret || !new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+      return false;
+    }
+
+    const key = base32Decode(secret);
+    const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+    for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+      const step = currentStep + drift;
+      if (step <= (user.twoFactorLastStep ?? -1)) {
+        continue;
+      }
+      if (safeEqual(generateTotp(key, step), normalized)) {
+        const result = await this.userModel
+          .updateOne(
+            {
+              _id: user._id,
+              $or: [
+                { twoFactorLastStep: null },
+                { twoFactorLastStep: { $lt: step } },
+              ],
+            },
+            { $set: { twoFactorLastStep: step } },
+          )
+          .exec();
+        user.twoFactorLastStep = step;
+        return result.modifiedCount === 1;
+      }
+    }
+    return false;
+  }
+
+  private async consumeBackupCode(
+    user: UserDocument,
+    code: string,
+    req?: Request,
+  ): Promise<boolean> {
+    const hash = this.hashBackupCode(code);
+    const result = await this.userModel
+      .updateOne(
+        { _id: user._id, twoFactorBackupCodes: hash },
+        { $pull: { twoFactorBackupCodes: hash } },
+      )
+      .exec();
+    if (result.modifiedCount !== 1) {
+      return false;
+    }
+
+    const remaining = (user.twoFactorBackupCodes || []).filter(
+      (stored) => stored !== hash,
+    );
+    user.twoFactorBackupCodes = remaining;
+    await this.systemLogsService.createLog(
+      'Two-Factor Backup Code Used',
+      `Backup code used to sign in as ${user.email}; ${remaining.length} remaining`,
+      remaining.length > 2 ? LogSeverity.INFO : LogSeverity.WARNING,
+      user.employeeId?.toString(),
+      req,
+    );
+    return true;
+  }
+
+  private generateBackupCodes(): string[] {
+    return Array.from({ length: BACKUP_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+  }
+
+  private hashBackupCode(code: string): string {
+    const normalized = (code || '').toLowerCase().replace(/[^0-9a-f]/g, '');
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+}
+
+function generateTotp(key: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 2 ** 32), 0);
+  counter.writeUInt32BE(step % 2 ** 32, 4);
+
+  const hmac = createHmac('sha1', key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      continue;
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
@@ -26,6 +26,8 @@ import { UserFilterDto } from './dto/filter.dto';
 import { Request } from 'express';
 import { NotificationService } from '../notifications/services/notification.service';
 import { RegisterPushTokenDto } from './dto/register-push-token.dto';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../../common/enums/permission.enum';
 
 @ApiTags('Users')
 @ApiBearerAuth()
@@ -36,8 +38,8 @@ export class UserController {
     private readonly notificationService: NotificationService,
   ) {}
 
-  // @Roles('admin', 'hr')
   @Get('/users')
+  @RequirePermissions(Permission.USERS_READ)
   @UseGuards(JwtAuthGuard)
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
@@ -120,8 +122,8 @@ export class UserController {
   }
 
   // Update user details
-  // @Roles('admin', 'hr')
   @Patch('/user/:id')
+  @RequirePermissions(Permission.USERS_MANAGE)
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Update employee details',
@@ -146,8 +148,8 @@ export class UserController {
   }
 
   // Delete user
-  // @Roles('admin')
   @Delete('/user/:id')
+  @RequirePermissions(Permission.USERS_DELETE)
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({
     summary: 'Delete employee',
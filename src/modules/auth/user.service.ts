@@ -1,11 +1,14 @@
 import {
   Injectable,
+  Logger,
   NotFoundException,
+  OnApplicationBootstrap,
   BadRequestException,
   UnauthorizedException,
   InternalServerErrorException,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
 import { Model } from 'mongoose';
 import {
   CreateUserDto,
@@ -21,17 +24,47 @@ import { SystemLogsService } from '../system-logs/services/system-logs.service';
 import { LogSeverity } from '../system-logs/schemas/system-log.schema';
 import { Request } from 'express';
 import { UserFilterDto } from './dto/filter.dto';
+import { Role } from '../../common/enums/role.enum';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit-entry.schema';
 import { error } from 'console';
 
 @Injectable()
-export class UserService {
+export class UserService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(UserService.name);
+
   constructor(
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     private readonly jwtService: JwtService,
     private readonly notificationService: NotificationService,
     private readonly systemLogsService: SystemLogsService,
+    private readonly auditService: AuditService,
+    private readonly configService: ConfigService,
   ) {}
 
+  /**
+   * Make the account named by BOOTSTRAP_ADMIN_EMAIL an administrator while
+   * there is none, so roles can be handed out from there. The account
+   * registers as usual first.
+   */
+  async onApplicationBootstrap(): Promise<void> {
+    const email = this.configService.get<string>('BOOTSTRAP_ADMIN_EMAIL');
+    if (!email || (await this.userModel.exists({ roles: Role.ADMIN }))) {
+      return;
+    }
+
+    const result = await this.userModel
+      .updateOne({ email }, { $addToSet: { roles: Role.ADMIN } })
+      .exec();
+    if (result.modifiedCount > 0) {
+      this.logger.log(`Granted the admin role to ${email}`);
+    } else {
+      this.logger.warn(
+        `BOOTSTRAP_ADMIN_EMAIL ${email} has no account yet; register it and restart`,
+      );
+    }
+  }
+
   async register(createUserDto: CreateUserDto): Promise<User> {
     const existingUser = await this.userModel.findOne({
       $or: [
@@ -47,11 +80,14 @@ export class UserService {
       );
     }
 
-    const { roles, ...userData } = createUserDto;
+    // Self-registration cannot grant roles; the first administrator comes
+    // from BOOTSTRAP_ADMIN_EMAIL
+    const userData = { ...createUserDto };
+    delete userData.roles;
 
     const newUser = new this.userModel({
       ...userData,
-      roles: Array.isArray(roles) && roles.length > 0 ? roles : ['employee'],
+      roles: [Role.EMPLOYEE],
     });
 
     const savedUser = await newUser.save();
@@ -127,6 +163,7 @@ export class UserService {
     updateUserDto: UpdateUserDto,
     req?: Request,
   ): Promise<User> {
+    const existingUser = await this.userModel.findById(id).lean();
     const updatedUser = await this.userModel.findByIdAndUpdate(
       id,
       updateUserDto,
@@ -134,6 +171,17 @@ export class UserService {
     );
     if (!updatedUser) throw new NotFoundException('User not found');
 
+    await this.auditService.record(
+      {
+        entityType: AuditEntityType.USER,
+        entityId: id,
+        action: AuditAction.UPDATE,
+        before: existingUser,
+        after: updatedUser,
+      },
+      req,
+    );
+
     await this.systemLogsService.createLog(
       'User Update',
       `User ${updatedUser.firstName} ${updatedUser.lastName} details updated`,
@@ -149,6 +197,16 @@ export class UserService {
     const user = await this.userModel.findByIdAndDelete(id);
     if (!user) throw new NotFoundException('User not found');
 
+    await this.auditService.record(
+      {
+        entityType: AuditEntityType.USER,
+        entityId: id,
+        action: AuditAction.DELETE,
+        before: user,
+      },
+      req,
+    );
+
     await this.systemLogsService.createLog(
       'User Deletion',
       `User ${user.firstName} ${user.lastName} was deleted`,
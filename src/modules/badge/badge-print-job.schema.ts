@@ -0,0 +1,100 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Document, Types } from 'mongoose';
+import { DelegateType } from '../delegates/delegates.schema';
+
+export enum BadgePrintLayout {
+  A4 = 'a4',
+  CR80 = 'cr80',
+}
+
+export enum BadgePrintSort {
+  LAST_NAME = 'lastName',
+  DELEGATE_TYPE = 'delegateType',
+}
+
+export enum BadgePrintStatus {
+  QUEUED = 'queued',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+// Badge Print Job Schema
+// A background render of many badges into one print-ready PDF; the file is
+// uploaded to Cloudinary and linked from `fileUrl` once the job completes.
+@Schema({
+  timestamps: true,
+  collection: 'badge_print_jobs',
+})
+export class BadgePrintJob {
+  @ApiProperty({ type: String })
+  @Prop({ type: Types.ObjectId, ref: 'Event', required: true, index: true })
+  eventId: Types.ObjectId;
+
+  @ApiProperty({ enum: BadgePrintLayout })
+  @Prop({ type: String, enum: BadgePrintLayout, required: true })
+  layout: BadgePrintLayout;
+
+  @ApiProperty({ description: 'Badges per A4 page', example: 10 })
+  @Prop({ default: 1 })
+  badgesPerPage: number;
+
+  @ApiProperty()
+  @Prop({ default: false })
+  cropMarks: boolean;
+
+  @ApiProperty({ enum: BadgePrintSort })
+  @Prop({
+    type: String,
+    enum: BadgePrintSort,
+    default: BadgePrintSort.LAST_NAME,
+  })
+  sortBy: BadgePrintSort;
+
+  @ApiPropertyOptional({ enum: DelegateType })
+  @Prop({ type: String, enum: DelegateType })
+  delegateType?: DelegateType;
+
+  @ApiPropertyOptional({ type: [String] })
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'Delegate' }], default: [] })
+  delegateIds: Types.ObjectId[];
+
+  @ApiProperty({ enum: BadgePrintStatus })
+  @Prop({
+    type: String,
+    enum: BadgePrintStatus,
+    default: BadgePrintStatus.QUEUED,
+  })
+  status: BadgePrintStatus;
+
+  @ApiProperty({ example: 240 })
+  @Prop({ default: 0 })
+  totalBadges: number;
+
+  @ApiProperty({ description: 'Badges drawn so far', example: 120 })
+  @Prop({ default: 0 })
+  rendered: number;
+
+  @ApiPropertyOptional()
+  @Prop()
+  fileUrl?: string;
+
+  @Prop()
+  filePublicId?: string;
+
+  @ApiPropertyOptional()
+  @Prop()
+  error?: string;
+
+  @ApiPropertyOptional({ type: String })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  requestedBy?: Types.ObjectId;
+
+  @ApiPropertyOptional()
+  @Prop()
+  completedAt?: Date;
+}
+
+export type BadgePrintJobDocument = BadgePrintJob & Document;
+export const BadgePrintJobSchema = SchemaFactory.createForClass(BadgePrintJob);
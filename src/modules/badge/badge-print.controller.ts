@@ -0,0 +1,83 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Req,
+  Res,
+} from '@nestjs/common';
+import {
+  ApiAcceptedResponse,
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiConflictResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Response } from 'express';
+import { BadgePrintService } from './badge-print.service';
+import { BadgePrintJob } from './badge-print-job.schema';
+import { CreateBadgePrintJobDto } from './dto/badge-print.dto';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../../common/enums/permission.enum';
+
+@ApiTags('Badges')
+@ApiBearerAuth()
+@RequirePermissions(Permission.BADGES_MANAGE)
+@Controller('badges/print-jobs')
+export class BadgePrintController {
+  private readonly logger = new Logger(BadgePrintController.name);
+
+  constructor(private readonly badgePrintService: BadgePrintService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Queue a printable PDF of delegate badges',
+    description:
+      'Renders approved delegates of an event (optionally filtered by type or ID) into one PDF in the background. Poll the job, then download it when status is completed.',
+  })
+  @ApiAcceptedResponse({ description: 'Print job queued', type: BadgePrintJob })
+  @ApiBadRequestResponse({ description: 'No approved delegates match' })
+  @ApiNotFoundResponse({ description: 'Event not found' })
+  async create(
+    @Body() createDto: CreateBadgePrintJobDto,
+    @Req() req: any,
+  ): Promise<BadgePrintJob> {
+    this.logger.log(
+      `POST /badges/print-jobs - Queueing badge PDF for event ${createDto.eventId}`,
+    );
+    return this.badgePrintService.createJob(createDto, req.user._id.toString());
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get badge print job progress' })
+  @ApiParam({ name: 'id', description: 'Print job ID' })
+  @ApiOkResponse({ description: 'Print job retrieved', type: BadgePrintJob })
+  @ApiBadRequestResponse({ description: 'Invalid print job ID format' })
+  @ApiNotFoundResponse({ description: 'Print job not found' })
+  async findOne(@Param('id') id: string): Promise<BadgePrintJob> {
+    this.logger.log(`GET /badges/print-jobs/${id} - Fetching progress`);
+    return this.badgePrintService.findOne(id);
+  }
+
+  @Get(':id/download')
+  @ApiOperation({ summary: 'Download the rendered badge PDF' })
+  @ApiParam({ name: 'id', description: 'Print job ID' })
+  @ApiResponse({ status: 302, description: 'Redirect to the PDF' })
+  @ApiConflictResponse({ description: 'Print job has not completed' })
+  @ApiNotFoundResponse({ description: 'Print job not found' })
+  async download(@Param('id') id: string, @Res() res: Response) {
+    this.logger.log(`GET /badges/print-jobs/${id}/download - Downloading PDF`);
+    const url = await this.badgePrintService.getDownloadUrl(id);
+    res.redirect(url);
+  }
+}
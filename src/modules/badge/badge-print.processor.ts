@@ -0,0 +1,29 @@
+import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { BADGE_PRINT_QUEUE } from '../queues/constants';
+import { BadgePrintJobData, BadgePrintService } from './badge-print.service';
+
+@Processor(BADGE_PRINT_QUEUE)
+export class BadgePrintProcessor extends WorkerHost {
+  private readonly logger = new Logger(BadgePrintProcessor.name);
+
+  constructor(private readonly badgePrintService: BadgePrintService) {
+    super();
+  }
+
+  async process(job: Job<BadgePrintJobData>): Promise<void> {
+    this.logger.log(
+      `Rendering badge print job ${job.data.printJobId} (job ${job.id})`,
+    );
+    return this.badgePrintService.render(job.data.printJobId);
+  }
+
+  @OnWorkerEvent('failed')
+  onFailed(job: Job, err: Error) {
+    this.logger.error(
+      `Badge print job ${job.id} has failed with error: ${err.message}`,
+      err.stack,
+    );
+  }
+}
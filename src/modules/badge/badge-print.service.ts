@@ -0,0 +1,351 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { FilterQuery, Model, Types } from 'mongoose';
+import * as PDFDocument from 'pdfkit';
+import { Readable } from 'stream';
+import {
+  ATTENDING_STATUSES,
+  Delegate,
+  DelegateDocument,
+} from '../delegates/delegates.schema';
+import { Event, EventDocument } from '../events/events.schema';
+import { BADGE_PRINT_QUEUE } from '../queues/constants';
+import { CloudinaryService } from '../cloudinary/cloudinary.service';
+import { BadgeService } from './badge.service';
+import { BadgeTemplatesService } from './badge-templates.service';
+import {
+  BadgePrintJob,
+  BadgePrintJobDocument,
+  BadgePrintLayout,
+  BadgePrintSort,
+  BadgePrintStatus,
+} from './badge-print-job.schema';
+import { CreateBadgePrintJobDto } from './dto/badge-print.dto';
+
+export interface BadgePrintJobData {
+  printJobId: string;
+}
+
+interface BadgeSlot {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// PDF units are points (1/72 inch)
+const MM = 72 / 25.4;
+const CR80 = { width: 85.6 * MM, height: 54 * MM };
+const A4 = { width: 595.28, height: 841.89 };
+const A4_MARGIN = 10 * MM;
+const CROP_MARK_GAP = 1.5 * MM;
+const CROP_MARK_LENGTH = 4 * MM;
+// Room left around each badge on A4 so crop marks don't touch neighbours
+const CROP_MARK_GUTTER = 2 * (CROP_MARK_GAP + CROP_MARK_LENGTH);
+const PROGRESS_INTERVAL = 25;
+
+const SORT_ORDERS: Record<BadgePrintSort, Record<string, 1>> = {
+  [BadgePrintSort.LAST_NAME]: { lastName: 1, firstName: 1 },
+  [BadgePrintSort.DELEGATE_TYPE]: {
+    delegateType: 1,
+    lastName: 1,
+    firstName: 1,
+  },
+};
+
+@Injectable()
+export class BadgePrintService {
+  private readonly logger = new Logger(BadgePrintService.name);
+
+  constructor(
+    @InjectModel(BadgePrintJob.name)
+    private readonly printJobModel: Model<BadgePrintJobDocument>,
+    @InjectModel(Delegate.name)
+    private readonly delegateModel: Model<DelegateDocument>,
+    @InjectModel(Event.name)
+    private readonly eventModel: Model<EventDocument>,
+    @InjectQueue(BADGE_PRINT_QUEUE) private readonly printQueue: Queue,
+    private readonly badgeService: BadgeService,
+    private readonly badgeTemplatesService: BadgeTemplatesService,
+    private readonly cloudinaryService: CloudinaryService,
+  ) {}
+
+  // ===========================================================================
+  // JOBS
+  // ===========================================================================
+
+  /**
+   * Record a print job for the requesting staff member and queue it for
+   * rendering
+   */
+  async createJob(
+    createDto: CreateBadgePrintJobDto,
+    requestedBy: string,
+  ): Promise<BadgePrintJobDocument> {
+    const event = await this.eventModel.findById(createDto.eventId).exec();
+    if (!event) {
+      throw new NotFoundException(
+        `Event with ID ${createDto.eventId} not found`,
+      );
+    }
+
+    const layout = createDto.layout || BadgePrintLayout.A4;
+    const printJob = new this.printJobModel({
+      eventId: event._id,
+      layout,
+      badgesPerPage:
+        layout === BadgePrintLayout.CR80 ? 1 : createDto.badgesPerPage || 10,
+      cropMarks:
+        layout === BadgePrintLayout.A4 && createDto.cropMarks !== false,
+      sortBy: createDto.sortBy || BadgePrintSort.LAST_NAME,
+      delegateType: createDto.delegateType,
+      delegateIds: (createDto.delegateIds || []).map(
+        (id) => new Types.ObjectId(id),
+      ),
+      requestedBy: new Types.ObjectId(requestedBy),
+    });
+
+    const totalBadges = await this.delegateModel
+      .countDocuments(this.delegateFilter(printJob))
+      .exec();
+    if (totalBadges === 0) {
+      throw new BadRequestException(
+        'No approved delegates match the print criteria',
+      );
+    }
+    printJob.totalBadges = totalBadges;
+    await printJob.save();
+
+    await this.printQueue.add(
+      'render',
+      { printJobId: printJob._id.toString() } as BadgePrintJobData,
+      { jobId: printJob._id.toString(), removeOnComplete: true },
+    );
+
+    this.logger.log(
+      `Queued badge print job ${printJob._id} (${totalBadges} badges, ${layout})`,
+    );
+    return printJob;
+  }
+
+  async findOne(id: string): Promise<BadgePrintJobDocument> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid print job ID format');
+    }
+    const printJob = await this.printJobModel.findById(id).exec();
+    if (!printJob) {
+      throw new NotFoundException(`Print job with ID ${id} not found`);
+    }
+    return printJob;
+  }
+
+  async getDownloadUrl(id: string): Promise<string> {
+    const printJob = await this.findOne(id);
+    if (printJob.status !== BadgePrintStatus.COMPLETED) {
+      throw new ConflictException(
+        `Print job is ${printJob.status}; the PDF is not ready yet`,
+      );
+    }
+    return printJob.fileUrl;
+  }
+
+  // ===========================================================================
+  // RENDERING
+  // ===========================================================================
+
+  /**
+   * Draw every matching badge into one PDF, streaming it to Cloudinary as
+   * pages are produced. Called by the queue worker.
+   */
+  async render(printJobId: string): Promise<void> {
+    const printJob = await this.printJobModel
+      .findByIdAndUpdate(
+        printJobId,
+        {
+          $set: { status: BadgePrintStatus.PROCESSING, rendered: 0 },
+          $unset: { error: 1 },
+        },
+        { new: true },
+      )
+      .exec();
+    if (!printJob) {
+      this.logger.warn(`Print job ${printJobId} no longer exists`);
+      return;
+    }
+
+    // Nothing is read until the loop below iterates it
+    const cursor = this.delegateModel
+      .find(this.delegateFilter(printJob))
+      .sort(SORT_ORDERS[printJob.sortBy])
+      .cursor();
+    let doc: PDFKit.PDFDocument | undefined;
+    try {
+      const isCard = printJob.layout === BadgePrintLayout.CR80;
+      const pageSize = isCard ? CR80 : A4;
+      const slots = isCard
+        ? [{ x: 0, y: 0, ...CR80 }]
+        : this.gridSlots(printJob.badgesPerPage, printJob.cropMarks);
+
+      doc = new PDFDocument({
+        size: [pageSize.width, pageSize.height],
+        margin: 0,
+        autoFirstPage: false,
+        info: { Title: `Delegate badges ${printJob._id}` },
+      });
+      const upload = this.cloudinaryService.uploadStream(
+        doc,
+        'badge-prints',
+        'raw',
+        `badges-${printJob._id}.pdf`,
+      );
+      // Awaited once the document is complete; until then a failed upload
+      // must not surface as an unhandled rejection
+      upload.catch(() => undefined);
+
+      const template = await this.badgeTemplatesService.resolve(
+        printJob.eventId,
+      );
+      let rendered = 0;
+      for await (const delegate of cursor) {
+        const slot = slots[rendered % slots.length];
+        if (rendered % slots.length === 0) {
+          doc.addPage();
+        }
+
+        const badge = await this.badgeService.generateBadge(
+          delegate,
+          'jpeg',
+          template,
+        );
+        doc.image(badge, slot.x, slot.y, {
+          width: slot.width,
+          height: slot.height,
+        });
+        if (printJob.cropMarks) {
+          this.drawCropMarks(doc, slot);
+        }
+
+        rendered++;
+        if (rendered % PROGRESS_INTERVAL === 0) {
+          await this.printJobModel
+            .updateOne({ _id: printJob._id }, { $set: { rendered } })
+            .exec();
+        }
+      }
+
+      doc.end();
+      const file = await upload;
+
+      await this.printJobModel
+        .updateOne(
+          { _id: printJob._id },
+          {
+            $set: {
+              status: BadgePrintStatus.COMPLETED,
+              rendered,
+              fileUrl: file.secure_url,
+              filePublicId: file.public_id,
+              completedAt: new Date(),
+            },
+          },
+        )
+        .exec();
+      this.logger.log(
+        `Badge print job ${printJob._id} completed with ${rendered} badges`,
+      );
+    } catch (error) {
+      // Aborts the upload still reading from the document; PDFKit's typings
+      // omit the Readable it extends
+      (doc as unknown as Readable | undefined)?.destroy(error);
+      await this.printJobModel
+        .updateOne(
+          { _id: printJob._id },
+          { $set: { status: BadgePrintStatus.FAILED, error: error.message } },
+        )
+        .exec();
+      throw error;
+    } finally {
+      await cursor.close();
+    }
+  }
+
+  private delegateFilter(
+    printJob: BadgePrintJob,
+  ): FilterQuery<DelegateDocument> {
+    const filter: FilterQuery<DelegateDocument> = {
+      eventId: printJob.eventId,
+      status: { $in: ATTENDING_STATUSES },
+    };
+    if (printJob.delegateType) {
+      filter.delegateType = printJob.delegateType;
+    }
+    if (printJob.delegateIds?.length) {
+      filter._id = { $in: printJob.delegateIds };
+    }
+    return filter;
+  }
+
+  /**
+   * Split the printable A4 area into a grid (two columns once there is more
+   * than one badge) and fit a card-proportioned badge centred in each cell
+   */
+  private gridSlots(badgesPerPage: number, cropMarks: boolean): BadgeSlot[] {
+    const columns = badgesPerPage === 1 ? 1 : 2;
+    const rows = Math.ceil(badgesPerPage / columns);
+    const cellWidth = (A4.width - 2 * A4_MARGIN) / columns;
+    const cellHeight = (A4.height - 2 * A4_MARGIN) / rows;
+    const gutter = cropMarks ? CROP_MARK_GUTTER : 2 * MM;
+
+    const scale = Math.min(
+      (cellWidth - gutter) / CR80.width,
+      (cellHeight - gutter) / CR80.height,
+    );
+    const width = CR80.width * scale;
+    const height = CR80.height * scale;
+
+    return Array.from({ length: badgesPerPage }, (_, i) => ({
+      x: A4_MARGIN + (i % columns) * cellWidth + (cellWidth - width) / 2,
+      y:
+        A4_MARGIN +
+        Math.floor(i / columns) * cellHeight +
+        (cellHeight - height) / 2,
+      width,
+      height,
+    }));
+  }
+
+  // Short lines just outside each corner, along both edges
+  private drawCropMarks(doc: PDFKit.PDFDocument, slot: BadgeSlot): void {
+    const left = slot.x;
+    const right = slot.x + slot.width;
+    const top = slot.y;
+    const bottom = slot.y + slot.height;
+    const near = CROP_MARK_GAP;
+    const far = CROP_MARK_GAP + CROP_MARK_LENGTH;
+
+    doc.save().lineWidth(0.25).strokeColor('#000000');
+    for (const x of [left, right]) {
+      const dir = x === left ? -1 : 1;
+      for (const y of [top, bottom]) {
+        const vDir = y === top ? -1 : 1;
+        doc
+          .moveTo(x + dir * near, y)
+          .lineTo(x + dir * far, y)
+          .stroke();
+        doc
+          .moveTo(x, y + vDir * near)
+          .lineTo(x, y + vDir * far)
+          .stroke();
+      }
+    }
+    doc.restore();
+  }
+}
@@ -0,0 +1,87 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { DelegateDocument } from '../delegates/delegates.schema';
+
+export interface BadgePayload {
+  delegateId: string;
+  eventYear: number;
+}
+
+export interface SignedBadgePayload extends BadgePayload {
+  sig: string;
+}
+
+@Injectable()
+export class BadgeSignatureService {
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Build the signed payload embedded in a delegate's QR code
+   */
+  createPayload(delegate: DelegateDocument): SignedBadgePayload {
+    const payload: BadgePayload = {
+      delegateId: delegate._id.toString(),
+      eventYear: delegate.eventYear,
+    };
+    return { ...payload, sig: this.sign(payload) };
+  }
+
+  /**
+   * Serialize the signed payload into the string encoded in the QR code
+   */
+  createQrData(delegate: DelegateDocument): string {
+    return JSON.stringify(this.createPayload(delegate));
+  }
+
+  sign(payload: BadgePayload): string {
+    return createHmac('sha256', this.getSecret())
+      .update(`${payload.delegateId}.${payload.eventYear}`)
+      .digest('base64url');
+  }
+
+  /**
+   * Parse a scanned QR string and verify its signature.
+   * Returns null when the payload is malformed or has been tampered with.
+   */
+  verify(qrData: string): BadgePayload | null {
+    let parsed: Partial<SignedBadgePayload>;
+    try {
+      parsed = JSON.parse(qrData);
+    } catch {
+      return null;
+    }
+
+    if (
+      !parsed ||
+      typeof parsed.delegateId !== 'string' ||
+      typeof parsed.sig !== 'string' ||
+      !Number.isInteger(Number(parsed.eventYear))
+    ) {
+      return null;
+    }
+
+    const payload: BadgePayload = {
+      delegateId: parsed.delegateId,
+      eventYear: Number(parsed.eventYear),
+    };
+    const expected = Buffer.from(this.sign(payload));
+    const received = Buffer.from(parsed.sig);
+
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      return null;
+    }
+
+    return payload;
+  }
+
+  private getSecret(): string {
+    return (
+      this.configService.get<string>('BADGE_SIGNING_SECRET') ||
+      this.configService.get<string>('JWT_SECRET')
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Document, Types } from 'mongoose';
+import { DelegateType } from '../delegates/delegates.schema';
+
+// Optional badge elements; the name and QR code are always printed
+export enum BadgeField {
+  PHOTO = 'photo',
+  POSITION = 'position',
+  ORGANIZATION = 'organization',
+  NATIONALITY = 'nationality',
+  DELEGATE_TYPE = 'delegateType',
+}
+
+// Logos are fetched while rendering, so only images uploaded to Cloudinary
+// are accepted
+export const LOGO_HOST = 'res.cloudinary.com';
+
+// Badge Template Schema
+// Per-event overrides of the badge layout. Anything left unset falls back to
+// the event branding and then to the stock Shelter Afrique design.
+@Schema({
+  timestamps: true,
+  collection: 'badge_templates',
+})
+export class BadgeTemplate {
+  @ApiProperty({ type: String })
+  @Prop({ type: Types.ObjectId, ref: 'Event', required: true, unique: true })
+  eventId: Types.ObjectId;
+
+  @ApiPropertyOptional({ example: 'SHELTER AFRIQUE' })
+  @Prop()
+  organizationName?: string;
+
+  @ApiPropertyOptional({
+    description: 'Header subtitle; the event year is appended',
+    example: 'Annual AGM',
+  })
+  @Prop()
+  eventTitle?: string;
+
+  @ApiPropertyOptional({
+    description: 'Text drawn in the logo circle when there is no logo image',
+    example: 'SHAF',
+  })
+  @Prop()
+  logoText?: string;
+
+  @ApiPropertyOptional({ description: 'Overrides the event branding logo' })
+  @Prop()
+  logoUrl?: string;
+
+  @ApiPropertyOptional({ example: '#0D47A1' })
+  @Prop()
+  primaryColor?: string;
+
+  @ApiPropertyOptional({ example: '#26A69A' })
+  @Prop()
+  secondaryColor?: string;
+
+  @ApiPropertyOptional({
+    description: 'Footer band colour per delegate type',
+    example: { press: '#E65100', board_member: '#6A1B9A' },
+  })
+  @Prop({ type: Object, default: {} })
+  typeColors: Partial<Record<DelegateType, string>>;
+
+  @ApiPropertyOptional({ enum: BadgeField, isArray: true })
+  @Prop({ type: [String], enum: BadgeField })
+  fields?: BadgeField[];
+
+  @ApiPropertyOptional({ example: 'shelterafrique.org' })
+  @Prop()
+  footerText?: string;
+}
+
+export type BadgeTemplateDocument = BadgeTemplate & Document;
+export const BadgeTemplateSchema = SchemaFactory.createForClass(BadgeTemplate);
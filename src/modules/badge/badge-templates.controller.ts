@@ -0,0 +1,128 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Put,
+  Res,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiParam,
+  ApiProduces,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Response } from 'express';
+import { BadgeService } from './badge.service';
+import { BadgeTemplatesService } from './badge-templates.service';
+import {
+  PreviewBadgeTemplateDto,
+  ResolvedBadgeTemplateDto,
+  UpsertBadgeTemplateDto,
+} from './dto/badge-template.dto';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../../common/enums/permission.enum';
+
+@ApiTags('Badges')
+@ApiBearerAuth()
+@RequirePermissions(Permission.BADGES_MANAGE)
+@Controller('badges/templates')
+export class BadgeTemplatesController {
+  private readonly logger = new Logger(BadgeTemplatesController.name);
+
+  constructor(
+    private readonly badgeTemplatesService: BadgeTemplatesService,
+    private readonly badgeService: BadgeService,
+  ) {}
+
+  @Get(':eventId')
+  @ApiOperation({
+    summary: 'Get the effective badge template for an event',
+    description:
+      'Saved settings merged over the event branding and the stock design.',
+  })
+  @ApiParam({ name: 'eventId', description: 'Event ID' })
+  @ApiOkResponse({ type: ResolvedBadgeTemplateDto })
+  @ApiBadRequestResponse({ description: 'Invalid event ID format' })
+  @ApiNotFoundResponse({ description: 'Event not found' })
+  async findOne(
+    @Param('eventId') eventId: string,
+  ): Promise<ResolvedBadgeTemplateDto> {
+    this.logger.log(`GET /badges/templates/${eventId} - Fetching template`);
+    return this.badgeTemplatesService.findForEvent(eventId);
+  }
+
+  @Put(':eventId')
+  @ApiOperation({
+    summary: 'Save the badge template for an event',
+    description: 'Only the provided settings are changed.',
+  })
+  @ApiParam({ name: 'eventId', description: 'Event ID' })
+  @ApiOkResponse({ type: ResolvedBadgeTemplateDto })
+  @ApiBadRequestResponse({ description: 'Invalid template settings' })
+  @ApiNotFoundResponse({ description: 'Event not found' })
+  async upsert(
+    @Param('eventId') eventId: string,
+    @Body() upsertDto: UpsertBadgeTemplateDto,
+  ): Promise<ResolvedBadgeTemplateDto> {
+    this.logger.log(`PUT /badges/templates/${eventId} - Saving template`);
+    return this.badgeTemplatesService.upsert(eventId, upsertDto);
+  }
+
+  @Delete(':eventId')
+  @ApiOperation({
+    summary: 'Reset the badge template for an event',
+    description: 'Badges fall back to the event branding and stock design.',
+  })
+  @ApiParam({ name: 'eventId', description: 'Event ID' })
+  @ApiOkResponse({ type: ResolvedBadgeTemplateDto })
+  @ApiNotFoundResponse({ description: 'Event not found' })
+  async remove(
+    @Param('eventId') eventId: string,
+  ): Promise<ResolvedBadgeTemplateDto> {
+    this.logger.log(`DELETE /badges/templates/${eventId} - Resetting template`);
+    return this.badgeTemplatesService.remove(eventId);
+  }
+
+  @Post(':eventId/preview')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Preview a badge template',
+    description:
+      'Renders a sample delegate badge using the saved template with any settings in the body applied on top. Nothing is saved.',
+  })
+  @ApiParam({ name: 'eventId', description: 'Event ID' })
+  @ApiProduces('image/png')
+  @ApiOkResponse({ description: 'PNG image of the sample badge' })
+  @ApiBadRequestResponse({ description: 'Invalid template settings' })
+  @ApiNotFoundResponse({ description: 'Event not found' })
+  async preview(
+    @Param('eventId') eventId: string,
+    @Body() previewDto: PreviewBadgeTemplateDto,
+    @Res() res: Response,
+  ) {
+    this.logger.log(
+      `POST /badges/templates/${eventId}/preview - Rendering preview`,
+    );
+    const { delegateType, ...overrides } = previewDto;
+    const { template, eventYear } =
+      await this.badgeTemplatesService.resolvePreview(eventId, overrides);
+    const badge = await this.badgeService.generatePreview(
+      template,
+      eventYear,
+      delegateType,
+    );
+    res.setHeader('Content-Type', 'image/png');
+    res.setHeader('Content-Disposition', 'inline; filename=badge-preview.png');
+    res.send(badge);
+  }
+}
@@ -0,0 +1,182 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { DelegateType } from '../delegates/delegates.schema';
+import { Event, EventDocument } from '../events/events.schema';
+import {
+  BadgeField,
+  BadgeTemplate,
+  BadgeTemplateDocument,
+} from './badge-template.schema';
+import {
+  ResolvedBadgeTemplateDto,
+  UpsertBadgeTemplateDto,
+} from './dto/badge-template.dto';
+
+export type ResolvedBadgeTemplate = ResolvedBadgeTemplateDto;
+
+// The original hard-coded Shelter Afrique badge
+export const DEFAULT_BADGE_TEMPLATE: ResolvedBadgeTemplate = {
+  organizationName: 'SHELTER AFRIQUE',
+  eventTitle: 'Annual AGM',
+  logoText: 'SHAF',
+  logoUrl: undefined,
+  primaryColor: '#0D47A1',
+  secondaryColor: '#26A69A',
+  typeColors: {},
+  fields: [
+    BadgeField.PHOTO,
+    BadgeField.POSITION,
+    BadgeField.ORGANIZATION,
+    BadgeField.DELEGATE_TYPE,
+  ],
+  footerText: 'shelterafrique.org',
+};
+
+const HEX_COLOR = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+@Injectable()
+export class BadgeTemplatesService {
+  private readonly logger = new Logger(BadgeTemplatesService.name);
+
+  constructor(
+    @InjectModel(BadgeTemplate.name)
+    private readonly templateModel: Model<BadgeTemplateDocument>,
+    @InjectModel(Event.name)
+    private readonly eventModel: Model<EventDocument>,
+  ) {}
+
+  /**
+   * Effective template for an event: stock design, then event branding, then
+   * the saved template, then any unsaved overrides (used by previews)
+   */
+  async resolve(
+    eventId: Types.ObjectId | string,
+    overrides?: UpsertBadgeTemplateDto,
+  ): Promise<ResolvedBadgeTemplate> {
+    const [event, saved] = await Promise.all([
+      this.eventModel.findById(eventId).select('branding').lean().exec(),
+      this.templateModel.findOne({ eventId }).lean().exec(),
+    ]);
+
+    const layers = [
+      {
+        primaryColor: event?.branding?.primaryColor,
+        secondaryColor: event?.branding?.secondaryColor,
+        logoUrl: event?.branding?.logoUrl,
+      },
+      saved,
+      overrides,
+    ];
+
+    const resolved: ResolvedBadgeTemplate = {
+      ...DEFAULT_BADGE_TEMPLATE,
+      typeColors: {},
+    };
+    for (const layer of layers) {
+      for (const [key, value] of Object.entries(layer || {})) {
+        if (value === undefined || value === null || !(key in resolved)) {
+          continue;
+        }
+        resolved[key] =
+          key === 'typeColors' ? { ...resolved.typeColors, ...value } : value;
+      }
+    }
+    resolved.primaryColor = this.normalizeColor(resolved.primaryColor);
+    resolved.secondaryColor = this.normalizeColor(resolved.secondaryColor);
+    for (const [type, color] of Object.entries(resolved.typeColors)) {
+      resolved.typeColors[type] = this.normalizeColor(color);
+    }
+    return resolved;
+  }
+
+  async findForEvent(eventId: string): Promise<ResolvedBadgeTemplate> {
+    await this.assertEvent(eventId);
+    return this.resolve(eventId);
+  }
+
+  async upsert(
+    eventId: string,
+    upsertDto: UpsertBadgeTemplateDto,
+  ): Promise<ResolvedBadgeTemplate> {
+    await this.assertEvent(eventId);
+    this.validateTypeColors(upsertDto.typeColors);
+
+    await this.templateModel
+      .findOneAndUpdate(
+        { eventId: new Types.ObjectId(eventId) },
+        { $set: upsertDto },
+        { upsert: true, new: true, setDefaultsOnInsert: true },
+      )
+      .exec();
+
+    this.logger.log(`Saved badge template for event ${eventId}`);
+    return this.resolve(eventId);
+  }
+
+  /**
+   * Drop the saved template so badges fall back to branding and defaults
+   */
+  async remove(eventId: string): Promise<ResolvedBadgeTemplate> {
+    await this.assertEvent(eventId);
+    await this.templateModel
+      .deleteOne({ eventId: new Types.ObjectId(eventId) })
+      .exec();
+    this.logger.log(`Reset badge template for event ${eventId}`);
+    return this.resolve(eventId);
+  }
+
+  /**
+   * Validate unsaved overrides before they are rendered in a preview
+   */
+  async resolvePreview(
+    eventId: string,
+    overrides: UpsertBadgeTemplateDto,
+  ): Promise<{ template: ResolvedBadgeTemplate; eventYear: number }> {
+    const event = await this.assertEvent(eventId);
+    this.validateTypeColors(overrides.typeColors);
+    return {
+      template: await this.resolve(eventId, overrides),
+      eventYear: event.eventYear,
+    };
+  }
+
+  private async assertEvent(eventId: string): Promise<EventDocument> {
+    if (!Types.ObjectId.isValid(eventId)) {
+      throw new BadRequestException('Invalid event ID format');
+    }
+    const event = await this.eventModel.findById(eventId).exec();
+    if (!event) {
+      throw new NotFoundException(`Event with ID ${eventId} not found`);
+    }
+    return event;
+  }
+
+  private validateTypeColors(
+    typeColors?: Partial<Record<DelegateType, string>>,
+  ): void {
+    const types = Object.values(DelegateType) as string[];
+    for (const [type, color] of Object.entries(typeColors || {})) {
+      if (!types.includes(type)) {
+        throw new BadRequestException(
+          `typeColors: unknown delegate type "${type}"`,
+        );
+      }
+      if (typeof color !== 'string' || !HEX_COLOR.test(color)) {
+        throw new BadRequestException(
+          `typeColors.${type} must be a hex colour`,
+        );
+      }
+    }
+  }
+
+  // Canvas needs the leading "#", which IsHexColor does not require
+  private normalizeColor(color: string): string {
+    return color.startsWith('#') ? color : `#${color}`;
+  }
+}
@@ -1,8 +1,44 @@
 import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
 import { BadgeService } from './badge.service';
+import { BadgeSignatureService } from './badge-signature.service';
+import { BadgePrintService } from './badge-print.service';
+import { BadgePrintController } from './badge-print.controller';
+import { BadgePrintProcessor } from './badge-print.processor';
+import { BadgePrintJob, BadgePrintJobSchema } from './badge-print-job.schema';
+import { BadgeTemplatesService } from './badge-templates.service';
+import { BadgeTemplatesController } from './badge-templates.controller';
+import { BadgeTemplate, BadgeTemplateSchema } from './badge-template.schema';
+import { WalletPassService } from './wallet-pass.service';
+import { Delegate, DelegateSchema } from '../delegates/delegates.schema';
+import { Event, EventSchema } from '../events/events.schema';
+import { QueuesModule } from '../queues/queues.module';
+import { CloudinaryModule } from '../cloudinary/cloudinary.module';
 
 @Module({
-  providers: [BadgeService],
-  exports: [BadgeService],
+  imports: [
+    MongooseModule.forFeature([
+      { name: BadgePrintJob.name, schema: BadgePrintJobSchema },
+    ]),
+    MongooseModule.forFeature([
+      { name: BadgeTemplate.name, schema: BadgeTemplateSchema },
+    ]),
+    MongooseModule.forFeature([
+      { name: Delegate.name, schema: DelegateSchema },
+    ]),
+    MongooseModule.forFeature([{ name: Event.name, schema: EventSchema }]),
+    QueuesModule,
+    CloudinaryModule,
+  ],
+  controllers: [BadgePrintController, BadgeTemplatesController],
+  providers: [
+    BadgeService,
+    BadgeSignatureService,
+    BadgeTemplatesService,
+    BadgePrintService,
+    BadgePrintProcessor,
+    WalletPassService,
+  ],
+  exports: [BadgeService, BadgeSignatureService, WalletPassService],
 })
 export class BadgeModule {}
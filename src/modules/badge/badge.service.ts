@@ -5,9 +5,17 @@ import {
   registerFont,
   CanvasRenderingContext2D,
   Canvas,
+  Image,
 } from 'canvas';
 import * as QRCode from 'qrcode';
-import { DelegateDocument } from '../delegates/delegates.schema';
+import { Types } from 'mongoose';
+import { DelegateDocument, DelegateType } from '../delegates/delegates.schema';
+import { BadgeSignatureService } from './badge-signature.service';
+import {
+  BadgeTemplatesService,
+  ResolvedBadgeTemplate,
+} from './badge-templates.service';
+import { BadgeField, LOGO_HOST } from './badge-template.schema';
 
 try {
   registerFont('./fonts/Poppins-Regular.ttf', {
@@ -26,10 +34,22 @@ try {
   Logger.warn('Could not register custom fonts. Falling back to system fonts.');
 }
 
+// Each event has one logo, so a handful covers concurrent print runs
+const MAX_CACHED_LOGOS = 20;
+
 @Injectable()
 export class BadgeService {
   private readonly logger = new Logger(BadgeService.name);
 
+  // Logos are reused across a whole print run, so keep the most recently
+  // used ones loaded
+  private readonly logoCache = new Map<string, Promise<Image | undefined>>();
+
+  constructor(
+    private readonly badgeSignatureService: BadgeSignatureService,
+    private readonly badgeTemplatesService: BadgeTemplatesService,
+  ) {}
+
   // Helper function to draw rounded rectangles, useful for modern UI elements
   private roundRect(
     ctx: CanvasRenderingContext2D,
@@ -51,8 +71,15 @@ export class BadgeService {
     return ctx;
   }
 
-  // Main method to generate the badge
-  async generateBadge(delegate: DelegateDocument): Promise<Buffer> {
+  // Main method to generate the badge; JPEG keeps batch print files small.
+  // Without a template, the delegate's event template is looked up.
+  async generateBadge(
+    delegate: DelegateDocument,
+    format: 'png' | 'jpeg' = 'png',
+    template?: ResolvedBadgeTemplate,
+  ): Promise<Buffer> {
+    template ??= await this.badgeTemplatesService.resolve(delegate.eventId);
+
     const width = 1020; // Increased resolution for better quality
     const height = 638; // Proportional to a standard card (approx 3.37" x 2.125")
     const canvas = createCanvas(width, height);
@@ -66,78 +93,161 @@ export class BadgeService {
     ctx.fillRect(0, 0, width, height);
 
     // Draw Header
-    this.drawHeader(
+    await this.drawHeader(
       ctx,
       width,
       height,
       fontFamily,
       delegate.eventYear,
       delegate.delegateType,
+      template,
     );
 
     // Draw Profile Picture / Initials
-    await this.drawProfilePicture(ctx, delegate, 140, 300, 90);
+    if (template.fields.includes(BadgeField.PHOTO)) {
+      await this.drawProfilePicture(ctx, delegate, 140, 300, 90);
+    }
 
     // Draw Delegate Info
-    this.drawDelegateInfo(ctx, fontFamily, delegate);
+    this.drawDelegateInfo(ctx, fontFamily, delegate, template);
 
     // Draw QR Code Section
-    await this.drawQRCode(ctx, fontFamily, delegate, width);
+    await this.drawQRCode(ctx, fontFamily, delegate, width, template);
 
     // Draw Footer
-    this.drawFooter(ctx, width, height, fontFamily, delegate);
+    this.drawFooter(ctx, width, height, fontFamily, delegate, template);
+
+    return format === 'jpeg'
+      ? canvas.toBuffer('image/jpeg', { quality: 0.92 })
+      : canvas.toBuffer('image/png');
+  }
 
-    return canvas.toBuffer('image/png');
+  // Render a badge for a made-up delegate so a template can be checked
+  async generatePreview(
+    template: ResolvedBadgeTemplate,
+    eventYear: number,
+    delegateType: DelegateType = DelegateType.BOARD_MEMBER,
+  ): Promise<Buffer> {
+    const sample = {
+      _id: new Types.ObjectId(),
+      title: 'Dr.',
+      firstName: 'Amina',
+      lastName: 'Mensah',
+      email: 'sample.delegate@example.com',
+      position: 'Chief Executive Officer',
+      organization: 'Sample Housing Finance Bank',
+      nationality: 'Ghanaian',
+      delegateType,
+      eventYear,
+    } as unknown as DelegateDocument;
+    return this.generateBadge(sample, 'png', template);
   }
 
-  private drawHeader(
+  private async drawHeader(
     ctx: CanvasRenderingContext2D,
     width: number,
     height: number,
     fontFamily: string,
     eventYear: number,
     delegateType: string,
+    template: ResolvedBadgeTemplate,
   ) {
-    // Create a blue to green gradient for the header
+    // Gradient from the primary to the secondary colour for the header
     const gradient = ctx.createLinearGradient(0, 0, width, 0);
-    gradient.addColorStop(0, '#0D47A1'); // Dark Blue
-    gradient.addColorStop(0.7, '#1565C0'); // Lighter Blue
-    gradient.addColorStop(1, '#26A69A'); // Teal/Green
+    gradient.addColorStop(0, template.primaryColor);
+    gradient.addColorStop(0.7, template.primaryColor);
+    gradient.addColorStop(1, template.secondaryColor);
 
     ctx.fillStyle = gradient;
     this.roundRect(ctx, 0, 0, width, height * 0.22, 0).fill(); // Header height is 22% of total height
 
-    // Draw SHAF logo in a circular badge
+    // Draw the logo in a circular badge
     ctx.beginPath();
     ctx.arc(90, 70, 40, 0, 2 * Math.PI);
     ctx.fillStyle = 'white';
     ctx.fill();
-    ctx.strokeStyle = '#26A69A';
+    ctx.strokeStyle = template.secondaryColor;
     ctx.lineWidth = 5;
     ctx.stroke();
 
-    // Add SHAF text in the circle
-    ctx.fillStyle = '#26A69A';
-    ctx.font = `bold 17px ${fontFamily}`;
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.fillText('SHAF', 90, 70);
-    ctx.textBaseline = 'alphabetic'; // Reset baseline
-    ctx.textAlign = 'left'; // Reset alignment
+    const logo = template.logoUrl && (await this.loadLogo(template.logoUrl));
+    if (logo) {
+      ctx.save();
+      ctx.beginPath();
+      ctx.arc(90, 70, 36, 0, 2 * Math.PI);
+      ctx.clip();
+      // Fit the logo inside the circle without distorting it
+      const scale = Math.min(72 / logo.width, 72 / logo.height);
+      const logoWidth = logo.width * scale;
+      const logoHeight = logo.height * scale;
+      ctx.drawImage(
+        logo,
+        90 - logoWidth / 2,
+        70 - logoHeight / 2,
+        logoWidth,
+        logoHeight,
+      );
+      ctx.restore();
+    } else {
+      // Fall back to the logo text in the circle
+      ctx.fillStyle = template.secondaryColor;
+      ctx.font = `bold 17px ${fontFamily}`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(template.logoText, 90, 70);
+      ctx.textBaseline = 'alphabetic'; // Reset baseline
+      ctx.textAlign = 'left'; // Reset alignment
+    }
 
     ctx.fillStyle = 'white';
     ctx.font = `bold 42px ${fontFamily}`;
-    ctx.fillText('SHELTER AFRIQUE', 160, 65);
+    ctx.fillText(template.organizationName, 160, 65);
     ctx.font = `30px ${fontFamily}`;
-    ctx.fillText(`Annual AGM ${eventYear}`, 162, 110);
+    ctx.fillText(`${template.eventTitle} ${eventYear}`, 162, 110);
 
     // Draw "OFFICIAL DELEGATE" on the right
-    ctx.textAlign = 'right';
-    ctx.font = `bold 32px ${fontFamily}`;
-    ctx.fillText('OFFICIAL', width - 60, 65);
-    ctx.font = `30px ${fontFamily}`;
-    ctx.fillText(delegateType.toUpperCase(), width - 60, 110);
-    ctx.textAlign = 'left'; // Reset alignment
+    if (template.fields.includes(BadgeField.DELEGATE_TYPE)) {
+      ctx.textAlign = 'right';
+      ctx.font = `bold 32px ${fontFamily}`;
+      ctx.fillText('OFFICIAL', width - 60, 65);
+      ctx.font = `30px ${fontFamily}`;
+      ctx.fillText(delegateType.toUpperCase(), width - 60, 110);
+      ctx.textAlign = 'left'; // Reset alignment
+    }
+  }
+
+  private loadLogo(url: string): Promise<Image | undefined> {
+    // Templates saved before logos were restricted may point anywhere
+    if (!this.isLogoUrl(url)) {
+      this.logger.warn(`Ignoring badge logo outside ${LOGO_HOST}: ${url}`);
+      return Promise.resolve(undefined);
+    }
+
+    let logo = this.logoCache.get(url);
+    if (logo) {
+      // Move to the back so the least recently used logo is evicted first
+      this.logoCache.delete(url);
+    } else {
+      logo = loadImage(url).catch((error) => {
+        this.logger.warn(`Could not load badge logo ${url}: ${error.message}`);
+        this.logoCache.delete(url);
+        return undefined;
+      });
+      if (this.logoCache.size >= MAX_CACHED_LOGOS) {
+        this.logoCache.delete(this.logoCache.keys().next().value);
+      }
+    }
+    this.logoCache.set(url, logo);
+    return logo;
+  }
+
+  private isLogoUrl(url: string): boolean {
+    try {
+      const { protocol, hostname } = new URL(url);
+      return protocol === 'https:' && hostname === LOGO_HOST;
+    } catch {
+      return false;
+    }
   }
 
   private async drawProfilePicture(
@@ -183,6 +293,7 @@ export class BadgeService {
     ctx: CanvasRenderingContext2D,
     fontFamily: string,
     delegate: DelegateDocument,
+    template: ResolvedBadgeTemplate,
   ) {
     ctx.fillStyle = '#1A237E'; // Dark blue for name
     ctx.font = `bold 60px ${fontFamily}`;
@@ -192,16 +303,26 @@ export class BadgeService {
     // Decorative line under the name
     ctx.fillStyle = '#29B6F6'; // Light Blue
     ctx.fillRect(70, 470, 150, 8);
-    ctx.fillStyle = '#26A69A'; // Teal
+    ctx.fillStyle = template.secondaryColor;
     ctx.fillRect(220, 470, 60, 8);
 
-    // Position and Organization
-    ctx.fillStyle = '#333333';
-    ctx.font = `36px ${fontFamily}`;
-    ctx.fillText(delegate.position || 'N/A', 70, 525);
-    ctx.font = `32px ${fontFamily}`;
-    ctx.fillStyle = '#555555';
-    ctx.fillText(delegate.organization || 'N/A', 70, 570);
+    // Up to two detail lines, e.g. position and organization
+    const details = [
+      { field: BadgeField.POSITION, value: delegate.position },
+      { field: BadgeField.ORGANIZATION, value: delegate.organization },
+      { field: BadgeField.NATIONALITY, value: delegate.nationality },
+    ]
+      .filter((detail) => template.fields.includes(detail.field))
+      .slice(0, 2);
+    const lineStyles = [
+      { font: `36px ${fontFamily}`, color: '#333333', y: 525 },
+      { font: `32px ${fontFamily}`, color: '#555555', y: 570 },
+    ];
+    details.forEach((detail, i) => {
+      ctx.fillStyle = lineStyles[i].color;
+      ctx.font = lineStyles[i].font;
+      ctx.fillText(detail.value || 'N/A', 70, lineStyles[i].y);
+    });
   }
 
   private async drawQRCode(
@@ -209,12 +330,9 @@ export class BadgeService {
     fontFamily: string,
     delegate: DelegateDocument,
     width: number,
+    template: ResolvedBadgeTemplate,
   ) {
-    const qrCodeData = JSON.stringify({
-      delegateId: delegate._id,
-      name: `${delegate.firstName} ${delegate.lastName}`,
-      eventYear: delegate.eventYear,
-    });
+    const qrCodeData = this.badgeSignatureService.createQrData(delegate);
 
     const qrSize = 240;
     const qrX = width - qrSize - 80;
@@ -242,7 +360,7 @@ export class BadgeService {
         margin: 2,
         scale: 8,
         color: {
-          dark: '#0D47A1', // Dark blue dots
+          dark: template.primaryColor,
           light: '#FFFFFF00', // Transparent background
         },
       });
@@ -268,11 +386,14 @@ export class BadgeService {
     height: number,
     fontFamily: string,
     delegate: DelegateDocument,
+    template: ResolvedBadgeTemplate,
   ) {
-    ctx.fillStyle = '#ECEFF1'; // Light grey footer background
+    // Delegate types with a colour get a coloured footer band
+    const bandColor = template.typeColors[delegate.delegateType];
+    ctx.fillStyle = bandColor || '#ECEFF1'; // Light grey footer background
     ctx.fillRect(0, height - 50, width, 50);
 
-    ctx.fillStyle = '#546E7A';
+    ctx.fillStyle = bandColor ? 'white' : '#546E7A';
     ctx.font = `22px ${fontFamily}`;
     ctx.textBaseline = 'middle';
 
@@ -287,7 +408,7 @@ export class BadgeService {
 
     // Website
     ctx.textAlign = 'right';
-    ctx.fillText('shelterafrique.org', width - 40, height - 25);
+    ctx.fillText(template.footerText, width - 40, height - 25);
     ctx.textAlign = 'left'; // Reset
   }
 }
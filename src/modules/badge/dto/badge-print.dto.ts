@@ -0,0 +1,82 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { DelegateType } from '../../delegates/delegates.schema';
+import { BadgePrintLayout, BadgePrintSort } from '../badge-print-job.schema';
+
+// Create Badge Print Job DTO
+export class CreateBadgePrintJobDto {
+  @ApiProperty({
+    description: 'Event whose approved delegates are printed',
+    example: '60d5ecb74f4d2c001f5e4b2a',
+  })
+  @IsMongoId()
+  @IsNotEmpty()
+  eventId: string;
+
+  @ApiPropertyOptional({
+    enum: BadgePrintLayout,
+    default: BadgePrintLayout.A4,
+    description:
+      'a4: several badges per A4 sheet. cr80: one badge per card-sized page for card printers.',
+  })
+  @IsOptional()
+  @IsEnum(BadgePrintLayout)
+  layout?: BadgePrintLayout;
+
+  @ApiPropertyOptional({
+    description: 'Badges per A4 page (ignored for cr80)',
+    minimum: 1,
+    maximum: 10,
+    default: 10,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  badgesPerPage?: number;
+
+  @ApiPropertyOptional({
+    description: 'Draw crop marks around each badge (A4 only)',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  cropMarks?: boolean;
+
+  @ApiPropertyOptional({
+    enum: BadgePrintSort,
+    default: BadgePrintSort.LAST_NAME,
+  })
+  @IsOptional()
+  @IsEnum(BadgePrintSort)
+  sortBy?: BadgePrintSort;
+
+  @ApiPropertyOptional({
+    enum: DelegateType,
+    description: 'Only print this delegate type',
+  })
+  @IsOptional()
+  @IsEnum(DelegateType)
+  delegateType?: DelegateType;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Only print these delegates (must still be approved)',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  delegateIds?: string[];
+}
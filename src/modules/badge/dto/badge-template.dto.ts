@@ -0,0 +1,132 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsEnum,
+  IsHexColor,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { DelegateType } from '../../delegates/delegates.schema';
+import { BadgeField, LOGO_HOST } from '../badge-template.schema';
+
+// Upsert Badge Template DTO
+export class UpsertBadgeTemplateDto {
+  @ApiPropertyOptional({ example: 'SHELTER AFRIQUE' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(30)
+  organizationName?: string;
+
+  @ApiPropertyOptional({
+    description: 'Header subtitle; the event year is appended',
+    example: 'Annual AGM',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(40)
+  eventTitle?: string;
+
+  @ApiPropertyOptional({ example: 'SHAF' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(6)
+  logoText?: string;
+
+  @ApiPropertyOptional({
+    description: `Logo image hosted on Cloudinary (https://${LOGO_HOST}); defaults to the event branding logo`,
+  })
+  @IsOptional()
+  @IsUrl(
+    {
+      protocols: ['https'],
+      require_protocol: true,
+      host_whitelist: [LOGO_HOST],
+    },
+    { message: `logoUrl must be an https://${LOGO_HOST} URL` },
+  )
+  logoUrl?: string;
+
+  @ApiPropertyOptional({ example: '#0D47A1' })
+  @IsOptional()
+  @IsHexColor()
+  primaryColor?: string;
+
+  @ApiPropertyOptional({ example: '#26A69A' })
+  @IsOptional()
+  @IsHexColor()
+  secondaryColor?: string;
+
+  @ApiPropertyOptional({
+    description: `Footer band colour per delegate type (${Object.values(DelegateType).join(', ')})`,
+    example: {
+      press: '#E65100',
+      board_member: '#6A1B9A',
+      shaf_staff: '#2E7D32',
+    },
+  })
+  @IsOptional()
+  @IsObject()
+  typeColors?: Partial<Record<DelegateType, string>>;
+
+  @ApiPropertyOptional({
+    enum: BadgeField,
+    isArray: true,
+    description:
+      'Optional elements to show. Position, organization and nationality share two detail lines, in that order.',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(BadgeField, { each: true })
+  fields?: BadgeField[];
+
+  @ApiPropertyOptional({ example: 'shelterafrique.org' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(40)
+  footerText?: string;
+}
+
+// Preview Badge Template DTO
+export class PreviewBadgeTemplateDto extends UpsertBadgeTemplateDto {
+  @ApiPropertyOptional({
+    enum: DelegateType,
+    description: 'Delegate type of the sample badge',
+    default: DelegateType.BOARD_MEMBER,
+  })
+  @IsOptional()
+  @IsEnum(DelegateType)
+  delegateType?: DelegateType;
+}
+
+// Response DTOs for documentation
+export class ResolvedBadgeTemplateDto {
+  @ApiProperty({ example: 'SHELTER AFRIQUE' })
+  organizationName: string;
+
+  @ApiProperty({ example: 'Annual AGM' })
+  eventTitle: string;
+
+  @ApiProperty({ example: 'SHAF' })
+  logoText: string;
+
+  @ApiPropertyOptional()
+  logoUrl?: string;
+
+  @ApiProperty({ example: '#0D47A1' })
+  primaryColor: string;
+
+  @ApiProperty({ example: '#26A69A' })
+  secondaryColor: string;
+
+  @ApiProperty({ example: { press: '#E65100' } })
+  typeColors: Partial<Record<DelegateType, string>>;
+
+  @ApiProperty({ enum: BadgeField, isArray: true })
+  fields: BadgeField[];
+
+  @ApiProperty({ example: 'shelterafrique.org' })
+  footerText: string;
+}
@@ -0,0 +1,398 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { createHash } from 'crypto';
+import { createCanvas } from 'canvas';
+import * as forge from 'node-forge';
+import * as JSZip from 'jszip';
+import {
+  ATTENDING_STATUSES,
+  Delegate,
+  DelegateDocument,
+} from '../delegates/delegates.schema';
+import { Event, EventDocument } from '../events/events.schema';
+import { BadgeSignatureService } from './badge-signature.service';
+import {
+  BadgeTemplatesService,
+  ResolvedBadgeTemplate,
+} from './badge-templates.service';
+
+export interface WalletPassField {
+  key: string;
+  label: string;
+  value: string;
+  dateStyle?: string;
+  timeStyle?: string;
+}
+
+// pass.json as defined by the Apple Wallet PassKit format
+export interface WalletPass {
+  formatVersion: 1;
+  passTypeIdentifier: string;
+  serialNumber: string;
+  teamIdentifier: string;
+  organizationName: string;
+  description: string;
+  logoText: string;
+  foregroundColor: string;
+  backgroundColor: string;
+  labelColor: string;
+  relevantDate: string;
+  locations?: { latitude: number; longitude: number; relevantText: string }[];
+  barcodes: {
+    format: 'PKBarcodeFormatQR';
+    message: string;
+    messageEncoding: 'iso-8859-1';
+    altText: string;
+  }[];
+  eventTicket: {
+    headerFields: WalletPassField[];
+    primaryFields: WalletPassField[];
+    secondaryFields: WalletPassField[];
+    auxiliaryFields: WalletPassField[];
+    backFields: WalletPassField[];
+  };
+}
+
+interface SigningIdentity {
+  certificate: forge.pki.Certificate;
+  privateKey: forge.pki.rsa.PrivateKey;
+  wwdrCertificate: forge.pki.Certificate;
+}
+
+// Icon sizes Wallet requires in every bundle
+const PASS_IMAGES = [
+  { name: 'icon.png', width: 29, height: 29 },
+  { name: 'icon@2x.png', width: 58, height: 58 },
+  { name: 'logo.png', width: 160, height: 50 },
+  { name: 'logo@2x.png', width: 320, height: 100 },
+];
+
+@Injectable()
+export class WalletPassService {
+  private readonly logger = new Logger(WalletPassService.name);
+  private signingIdentity?: SigningIdentity | null;
+
+  constructor(
+    @InjectModel(Delegate.name)
+    private readonly delegateModel: Model<DelegateDocument>,
+    @InjectModel(Event.name)
+    private readonly eventModel: Model<EventDocument>,
+    private readonly configService: ConfigService,
+    private readonly badgeSignatureService: BadgeSignatureService,
+    private readonly badgeTemplatesService: BadgeTemplatesService,
+  ) {}
+
+  /**
+   * Whether certificates for signing .pkpass bundles are configured
+   */
+  isConfigured(): boolean {
+    return this.getSigningIdentity() !== null;
+  }
+
+  /**
+   * The pass definition as JSON, for clients that build their own wallet
+   * entry (e.g. Google Wallet) or display it in-app
+   */
+  async getPass(delegateId: string): Promise<WalletPass> {
+    const { delegate, event } = await this.loadPassHolder(delegateId);
+    const template = await this.badgeTemplatesService.resolve(
+      event._id as Types.ObjectId,
+    );
+    return this.buildPass(delegate, event, template);
+  }
+
+  /**
+   * Signed .pkpass bundle: pass.json, images, manifest and a detached
+   * PKCS#7 signature of the manifest, zipped together
+   */
+  async generatePkpass(delegateId: string): Promise<Buffer> {
+    const identity = this.getSigningIdentity();
+    if (!identity) {
+      throw new ServiceUnavailableException(
+        'Wallet passes are not configured on this server',
+      );
+    }
+
+    const { delegate, event } = await this.loadPassHolder(delegateId);
+    const template = await this.badgeTemplatesService.resolve(
+      event._id as Types.ObjectId,
+    );
+    const pass = this.buildPass(delegate, event, template);
+
+    const files: Record<string, Buffer> = {
+      'pass.json': Buffer.from(JSON.stringify(pass)),
+    };
+    for (const image of PASS_IMAGES) {
+      files[image.name] = this.drawPassImage(image, template);
+    }
+
+    const manifest: Record<string, string> = {};
+    for (const [name, content] of Object.entries(files)) {
+      manifest[name] = createHash('sha1').update(content).digest('hex');
+    }
+    const manifestBuffer = Buffer.from(JSON.stringify(manifest));
+
+    const zip = new JSZip();
+    for (const [name, content] of Object.entries(files)) {
+      zip.file(name, content);
+    }
+    zip.file('manifest.json', manifestBuffer);
+    zip.file('signature', this.sign(manifestBuffer, identity));
+
+    this.logger.log(`Generated wallet pass for delegate ${delegateId}`);
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  private async loadPassHolder(
+    delegateId: string,
+  ): Promise<{ delegate: DelegateDocument; event: EventDocument }> {
+    if (!Types.ObjectId.isValid(delegateId)) {
+      throw new BadRequestException('Invalid delegate ID format');
+    }
+    const delegate = await this.delegateModel.findById(delegateId).exec();
+    if (!delegate) {
+      throw new NotFoundException(`Delegate with ID ${delegateId} not found`);
+    }
+    if (!ATTENDING_STATUSES.includes(delegate.status)) {
+      throw new BadRequestException(
+        'Passes are only issued to approved delegates',
+      );
+    }
+
+    const event = await this.eventModel.findById(delegate.eventId).exec();
+    if (!event) {
+      throw new NotFoundException(`Event for delegate ${delegateId} not found`);
+    }
+    return { delegate, event };
+  }
+
+  private buildPass(
+    delegate: DelegateDocument,
+    event: EventDocument,
+    template: ResolvedBadgeTemplate,
+  ): WalletPass {
+    const qrData = this.badgeSignatureService.createQrData(delegate);
+    const location = event.location;
+    const address = location?.address
+      ? [
+          location.address.street,
+          location.address.city,
+          location.address.state,
+          location.address.country,
+        ]
+          .filter(Boolean)
+          .join(', ')
+      : '';
+    const delegateType = delegate.delegateType.replace(/_/g, ' ').toUpperCase();
+
+    return {
+      formatVersion: 1,
+      passTypeIdentifier: this.configService.get<string>(
+        'WALLET_PASS_TYPE_ID',
+        '',
+      ),
+      serialNumber: delegate._id.toString(),
+      teamIdentifier: this.configService.get<string>('WALLET_TEAM_ID', ''),
+      organizationName: template.organizationName,
+      description: `${event.title} delegate pass`,
+      logoText: template.logoText,
+      foregroundColor: 'rgb(255, 255, 255)',
+      backgroundColor: this.toRgb(template.primaryColor),
+      labelColor: 'rgb(224, 224, 224)',
+      relevantDate: event.startDate.toISOString(),
+      ...(location?.coordinates?.latitude !== undefined && {
+        locations: [
+          {
+            latitude: location.coordinates.latitude,
+            longitude: location.coordinates.longitude,
+            relevantText: `Welcome to ${event.title}`,
+          },
+        ],
+      }),
+      barcodes: [
+        {
+          format: 'PKBarcodeFormatQR',
+          message: qrData,
+          messageEncoding: 'iso-8859-1',
+          altText: delegate._id.toString().slice(-8),
+        },
+      ],
+      eventTicket: {
+        headerFields: [
+          { key: 'delegateType', label: 'DELEGATE', value: delegateType },
+        ],
+        primaryFields: [
+          {
+            key: 'name',
+            label: 'NAME',
+            value: `${delegate.title} ${delegate.firstName} ${delegate.lastName}`,
+          },
+        ],
+        secondaryFields: [{ key: 'event', label: 'EVENT', value: event.title }],
+        auxiliaryFields: [
+          {
+            key: 'starts',
+            label: 'STARTS',
+            value: event.startDate.toISOString(),
+            dateStyle: 'PKDateStyleMedium',
+            timeStyle: 'PKDateStyleShort',
+          },
+          {
+            key: 'ends',
+            label: 'ENDS',
+            value: event.endDate.toISOString(),
+            dateStyle: 'PKDateStyleMedium',
+            timeStyle: 'PKDateStyleShort',
+          },
+          {
+            key: 'venue',
+            label: 'VENUE',
+            value: location?.venueName || event.hostCity || '',
+          },
+        ],
+        backFields: [
+          { key: 'address', label: 'Venue Address', value: address },
+          ...(location?.directions
+            ? [
+                {
+                  key: 'directions',
+                  label: 'Directions',
+                  value: location.directions,
+                },
+              ]
+            : []),
+          {
+            key: 'organization',
+            label: 'Organization',
+            value: delegate.organization || 'N/A',
+          },
+          {
+            key: 'issued',
+            label: 'Issued',
+            value: new Date().toISOString(),
+            dateStyle: 'PKDateStyleMedium',
+            timeStyle: 'PKDateStyleShort',
+          },
+        ],
+      },
+    };
+  }
+
+  // Plain brand-coloured tiles with the logo text
+  private drawPassImage(
+    image: { width: number; height: number },
+    template: ResolvedBadgeTemplate,
+  ): Buffer {
+    const canvas = createCanvas(image.width, image.height);
+    const ctx = canvas.getContext('2d');
+    ctx.fillStyle = template.primaryColor;
+    ctx.fillRect(0, 0, image.width, image.height);
+    ctx.fillStyle = 'white';
+    ctx.font = `bold ${Math.round(image.height * 0.4)}px Arial, sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(
+      template.logoText,
+      image.width / 2,
+      image.height / 2,
+      image.width * 0.9,
+    );
+    return canvas.toBuffer('image/png');
+  }
+
+  private sign(manifest: Buffer, identity: SigningIdentity): Buffer {
+    const p7 = forge.pkcs7.createSignedData();
+    p7.content = forge.util.createBuffer(manifest.toString('binary'));
+    p7.addCertificate(identity.certificate);
+    p7.addCertificate(identity.wwdrCertificate);
+    p7.addSigner({
+      key: identity.privateKey,
+      certificate: identity.certificate,
+      digestAlgorithm: forge.pki.oids.sha256,
+      authenticatedAttributes: [
+        { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+        { type: forge.pki.oids.messageDigest },
+        { type: forge.pki.oids.signingTime, value: new Date() as any },
+      ],
+    });
+    p7.sign({ detached: true });
+    return Buffer.from(forge.asn1.toDer(p7.toAsn1()).getBytes(), 'binary');
+  }
+
+  /**
+   * Read the pass certificate, its key and Apple's WWDR certificate from
+   * config once. PEMs may be given as-is or base64 encoded.
+   */
+  private getSigningIdentity(): SigningIdentity | null {
+    if (this.signingIdentity !== undefined) {
+      return this.signingIdentity;
+    }
+
+    const certPem = this.readPem('WALLET_CERT_PEM');
+    const keyPem = this.readPem('WALLET_KEY_PEM');
+    const wwdrPem = this.readPem('WALLET_WWDR_PEM');
+    if (
+      !certPem ||
+      !keyPem ||
+      !wwdrPem ||
+      !this.configService.get<string>('WALLET_PASS_TYPE_ID') ||
+      !this.configService.get<string>('WALLET_TEAM_ID')
+    ) {
+      this.signingIdentity = null;
+      return null;
+    }
+
+    try {
+      const passphrase = this.configService.get<string>(
+        'WALLET_KEY_PASSPHRASE',
+      );
+      this.signingIdentity = {
+        certificate: forge.pki.certificateFromPem(certPem),
+        privateKey: passphrase
+          ? forge.pki.decryptRsaPrivateKey(keyPem, passphrase)
+          : forge.pki.privateKeyFromPem(keyPem),
+        wwdrCertificate: forge.pki.certificateFromPem(wwdrPem),
+      };
+      if (!this.signingIdentity.privateKey) {
+        throw new Error('could not decrypt private key');
+      }
+    } catch (error) {
+      this.logger.error(
+        `Invalid wallet pass certificates: ${error.message}`,
+        error.stack,
+      );
+      this.signingIdentity = null;
+    }
+    return this.signingIdentity;
+  }
+
+  private readPem(key: string): string | undefined {
+    const value = this.configService.get<string>(key);
+    if (!value) {
+      return undefined;
+    }
+    return value.includes('-----BEGIN')
+      ? value.replace(/\\n/g, '\n')
+      : Buffer.from(value, 'base64').toString('utf8');
+  }
+
+  private toRgb(hex: string): string {
+    let digits = hex.replace('#', '');
+    if (digits.length === 3) {
+      digits = digits
+        .split('')
+        .map((digit) => digit + digit)
+        .join('');
+    }
+    const value = parseInt(digits, 16);
+    return `rgb(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255})`;
+  }
+}
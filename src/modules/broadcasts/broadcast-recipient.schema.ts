@@ -0,0 +1,70 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Document, Types } from 'mongoose';
+import { DeliveryOutcome } from '../notifications/schemas/notification.schema';
+
+export enum BroadcastRecipientStatus {
+  PENDING = 'pending',
+  // Claimed by a delivery job
+  SENDING = 'sending',
+  // At least one channel reached the delegate
+  DELIVERED = 'delivered',
+  FAILED = 'failed',
+  // The delegate has no address for any of the broadcast's channels
+  SKIPPED = 'skipped',
+}
+
+// Broadcast Recipient Schema
+// One delegate of a broadcast's audience, created at fan-out and updated
+// with the outcome of each channel once their delivery job has run.
+@Schema({
+  timestamps: true,
+  collection: 'broadcast_recipients',
+})
+export class BroadcastRecipient {
+  @ApiProperty({ type: String })
+  @Prop({ type: Types.ObjectId, ref: 'Broadcast', required: true })
+  broadcastId: Types.ObjectId;
+
+  @ApiProperty({ type: String })
+  @Prop({ type: Types.ObjectId, ref: 'Delegate', required: true })
+  delegateId: Types.ObjectId;
+
+  @ApiProperty({ enum: BroadcastRecipientStatus })
+  @Prop({
+    type: String,
+    enum: BroadcastRecipientStatus,
+    default: BroadcastRecipientStatus.PENDING,
+  })
+  status: BroadcastRecipientStatus;
+
+  @ApiPropertyOptional({ enum: DeliveryOutcome })
+  @Prop({ type: String, enum: DeliveryOutcome })
+  email?: DeliveryOutcome;
+
+  @ApiPropertyOptional({ enum: DeliveryOutcome })
+  @Prop({ type: String, enum: DeliveryOutcome })
+  push?: DeliveryOutcome;
+
+  @ApiPropertyOptional({ enum: DeliveryOutcome })
+  @Prop({ type: String, enum: DeliveryOutcome })
+  sms?: DeliveryOutcome;
+
+  @ApiPropertyOptional({ description: 'Why the delivery job errored' })
+  @Prop()
+  error?: string;
+
+  @ApiPropertyOptional()
+  @Prop()
+  deliveredAt?: Date;
+}
+
+export type BroadcastRecipientDocument = BroadcastRecipient & Document;
+export const BroadcastRecipientSchema =
+  SchemaFactory.createForClass(BroadcastRecipient);
+
+BroadcastRecipientSchema.index(
+  { broadcastId: 1, delegateId: 1 },
+  { unique: true },
+);
+BroadcastRecipientSchema.index({ broadcastId: 1, status: 1 });
@@ -0,0 +1,80 @@
+import { InjectQueue } from '@nestjs/bullmq';
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Job, Queue, RateLimiterOptions, Worker } from 'bullmq';
+import { BROADCAST_QUEUE } from '../queues/constants';
+import {
+  BroadcastsService,
+  DeliverJobData,
+  FanOutJobData,
+} from './broadcasts.service';
+
+// Default for BROADCAST_DELIVERIES_PER_SECOND
+const DEFAULT_DELIVERIES_PER_SECOND = 10;
+
+// Worker for the broadcast queue. It is built here rather than through
+// @Processor because decorator options cannot read the configuration.
+@Injectable()
+export class BroadcastProcessor implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(BroadcastProcessor.name);
+  private worker: Worker<FanOutJobData | DeliverJobData>;
+
+  constructor(
+    private readonly broadcastsService: BroadcastsService,
+    private readonly configService: ConfigService,
+    @InjectQueue(BROADCAST_QUEUE) private readonly broadcastQueue: Queue,
+  ) {}
+
+  onModuleInit(): void {
+    this.worker = new Worker(BROADCAST_QUEUE, (job) => this.process(job), {
+      connection: this.broadcastQueue.opts.connection,
+      prefix: this.broadcastQueue.opts.prefix,
+      limiter: this.deliveryLimiter(),
+    });
+    this.worker.on('failed', (job, err) => this.onFailed(job, err));
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.worker?.close();
+  }
+
+  async process(job: Job<FanOutJobData | DeliverJobData>): Promise<void> {
+    switch (job.name) {
+      case 'fan-out':
+        this.logger.log(
+          `Fanning out broadcast ${job.data.broadcastId} (job ${job.id})`,
+        );
+        return this.broadcastsService.fanOut(job.data.broadcastId);
+      case 'deliver': {
+        const { broadcastId, delegateId } = job.data as DeliverJobData;
+        return this.broadcastsService.deliver(broadcastId, delegateId);
+      }
+      default:
+        this.logger.warn(`Unknown broadcast job ${job.name} (${job.id})`);
+    }
+  }
+
+  onFailed(job: Job | undefined, err: Error) {
+    this.logger.error(
+      `Broadcast job ${job?.id} has failed with error: ${err.message}`,
+      err.stack,
+    );
+  }
+
+  // BullMQ keeps the limiter in Redis, so it caps the whole queue across
+  // broadcasts and instances and keeps deliveries under the email and SMS
+  // providers' rate limits
+  private deliveryLimiter(): RateLimiterOptions {
+    return {
+      max:
+        Number(this.configService.get('BROADCAST_DELIVERIES_PER_SECOND')) ||
+        DEFAULT_DELIVERIES_PER_SECOND,
+      duration: 1000,
+    };
+  }
+}
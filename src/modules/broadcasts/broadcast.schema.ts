@@ -0,0 +1,189 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Document, Types } from 'mongoose';
+import {
+  AttendanceMode,
+  DelegateStatus,
+  DelegateType,
+} from '../delegates/delegates.schema';
+import { NotificationType } from '../notifications/schemas/notification.schema';
+import { NotificationCategory } from '../notifications/schemas/notification-preference.schema';
+import { EmailTemplateKey } from '../email-templates/email-template.schema';
+
+export enum BroadcastType {
+  EVENT_CANCELLATION = 'event_cancellation',
+  PASS_REISSUE = 'pass_reissue',
+  CUSTOM = 'custom',
+}
+
+export enum BroadcastStatus {
+  QUEUED = 'queued',
+  IN_PROGRESS = 'in_progress',
+  COMPLETED = 'completed',
+}
+
+// Broadcast Schema
+// A message fanned out to many delegates through the broadcast queue. The
+// audience fields are combined with AND; unset ones match every delegate.
+// The counters are incremented by the queue workers and drive the status
+// endpoint.
+@Schema({
+  timestamps: true,
+  collection: 'broadcasts',
+})
+export class Broadcast {
+  @ApiProperty({ enum: BroadcastType })
+  @Prop({ type: String, enum: BroadcastType, required: true })
+  type: BroadcastType;
+
+  @ApiPropertyOptional({
+    type: String,
+    description: 'Event the broadcast targets; absent for every event',
+  })
+  @Prop({ type: Types.ObjectId, ref: 'Event', index: true })
+  eventId?: Types.ObjectId;
+
+  @ApiProperty({
+    enum: DelegateStatus,
+    isArray: true,
+    description:
+      'Only delegates in these statuses are messaged; empty means all',
+  })
+  @Prop({ type: [String], enum: DelegateStatus, default: [] })
+  recipientStatuses: DelegateStatus[];
+
+  @ApiProperty({ enum: DelegateType, isArray: true })
+  @Prop({ type: [String], enum: DelegateType, default: [] })
+  delegateTypes: DelegateType[];
+
+  @ApiProperty({ enum: AttendanceMode, isArray: true })
+  @Prop({ type: [String], enum: AttendanceMode, default: [] })
+  attendanceModes: AttendanceMode[];
+
+  @ApiProperty({ type: [String], example: ['Kenya', 'Rwanda'] })
+  @Prop({ type: [String], default: [] })
+  nationalities: string[];
+
+  @ApiPropertyOptional({
+    description: 'Only delegates who have, or have not, checked in',
+  })
+  @Prop()
+  hasCheckedIn?: boolean;
+
+  @ApiProperty({ enum: NotificationType, isArray: true })
+  @Prop({
+    type: [String],
+    enum: NotificationType,
+    default: [NotificationType.EMAIL, NotificationType.PUSH],
+  })
+  channels: NotificationType[];
+
+  @ApiProperty({
+    enum: NotificationCategory,
+    description: 'Decides which delegate preferences apply',
+  })
+  @Prop({
+    type: String,
+    enum: NotificationCategory,
+    default: NotificationCategory.LOGISTICS,
+  })
+  category: NotificationCategory;
+
+  @ApiProperty({
+    description:
+      'Cancellations and emergency alerts ignore delegate preferences and quiet hours',
+  })
+  @Prop({ default: false })
+  critical: boolean;
+
+  @ApiProperty({ example: 'Event Cancelled' })
+  @Prop({ required: true })
+  title: string;
+
+  @ApiProperty({
+    description: 'Plain text used for push, SMS and inbox records',
+  })
+  @Prop({ required: true })
+  body: string;
+
+  @ApiPropertyOptional({
+    enum: EmailTemplateKey,
+    description: "Email rendered in each recipient's language",
+  })
+  @Prop({ type: String, enum: EmailTemplateKey })
+  templateKey?: EmailTemplateKey;
+
+  @Prop({ type: Object, default: {} })
+  templateVariables: Record<string, string>;
+
+  @ApiPropertyOptional({ description: 'Email body when no template is used' })
+  @Prop()
+  html?: string;
+
+  @ApiProperty({ enum: BroadcastStatus })
+  @Prop({
+    type: String,
+    enum: BroadcastStatus,
+    default: BroadcastStatus.QUEUED,
+  })
+  status: BroadcastStatus;
+
+  @ApiProperty({ example: 450 })
+  @Prop({ default: 0 })
+  totalRecipients: number;
+
+  @ApiProperty({ description: 'Recipients handled so far', example: 120 })
+  @Prop({ default: 0 })
+  processed: number;
+
+  @ApiProperty({ example: 118 })
+  @Prop({ default: 0 })
+  emailsSent: number;
+
+  @ApiProperty({ example: 2 })
+  @Prop({ default: 0 })
+  emailsFailed: number;
+
+  @ApiProperty({
+    description: 'Recipients with a registered device that received a push',
+    example: 75,
+  })
+  @Prop({ default: 0 })
+  pushSent: number;
+
+  @ApiProperty({ example: 0 })
+  @Prop({ default: 0 })
+  pushFailed: number;
+
+  @ApiProperty({ example: 440 })
+  @Prop({ default: 0 })
+  smsSent: number;
+
+  @ApiProperty({ example: 1 })
+  @Prop({ default: 0 })
+  smsFailed: number;
+
+  @ApiProperty({
+    description: 'Recipients whose delivery job errored',
+    example: 0,
+  })
+  @Prop({ default: 0 })
+  failed: number;
+
+  @ApiPropertyOptional({ type: String, description: 'Staff user who sent it' })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  createdBy?: Types.ObjectId;
+
+  @ApiPropertyOptional()
+  @Prop()
+  startedAt: Date;
+
+  @ApiPropertyOptional()
+  @Prop()
+  completedAt: Date;
+}
+
+export type BroadcastDocument = Broadcast & Document;
+export const BroadcastSchema = SchemaFactory.createForClass(Broadcast);
+
+BroadcastSchema.index({ eventId: 1, createdAt: -1 });
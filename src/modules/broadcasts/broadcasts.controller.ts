@@ -0,0 +1,140 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  Logger,
+  Req,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiOkResponse,
+  ApiAcceptedResponse,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { BroadcastsService } from './broadcasts.service';
+import {
+  AudiencePreviewDto,
+  BroadcastAudienceDto,
+  BroadcastProgressDto,
+  BroadcastRecipientPageDto,
+  BroadcastRecipientQueryDto,
+  CreateBroadcastDto,
+} from './dto/broadcast.dto';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../../common/enums/permission.enum';
+
+@ApiTags('Broadcasts')
+@ApiBearerAuth()
+@RequirePermissions(Permission.BROADCASTS_READ)
+@Controller('broadcasts')
+export class BroadcastsController {
+  private readonly logger = new Logger(BroadcastsController.name);
+
+  constructor(private readonly broadcastsService: BroadcastsService) {}
+
+  @Post('preview')
+  @HttpCode(HttpStatus.OK)
+  @RequirePermissions(Permission.NOTIFICATIONS_SEND)
+  @ApiOperation({
+    summary: 'Preview the recipients of an audience',
+    description:
+      'Counts the delegates matching the filters and how many each channel can reach, without sending anything.',
+  })
+  @ApiOkResponse({ type: AudiencePreviewDto })
+  @ApiBadRequestResponse({ description: 'Invalid filters' })
+  async previewAudience(
+    @Body() audienceDto: BroadcastAudienceDto,
+  ): Promise<AudiencePreviewDto> {
+    this.logger.log(`POST /broadcasts/preview - Counting audience`);
+    return this.broadcastsService.previewAudience(audienceDto);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @RequirePermissions(Permission.NOTIFICATIONS_SEND)
+  @ApiOperation({
+    summary: 'Send a broadcast to an audience',
+    description:
+      'Queues one message per matching delegate over the chosen channels. Deliveries across all broadcasts share a limit of BROADCAST_DELIVERIES_PER_SECOND (default 10); follow progress on GET /broadcasts/:id.',
+  })
+  @ApiAcceptedResponse({ type: BroadcastProgressDto })
+  @ApiBadRequestResponse({ description: 'Invalid filters or message' })
+  async create(
+    @Body() createDto: CreateBroadcastDto,
+    @Req() req: any,
+  ): Promise<BroadcastProgressDto> {
+    this.logger.log(
+      `POST /broadcasts - Queuing broadcast over ${createDto.channels?.join(', ')}`,
+    );
+    return this.broadcastsService.createBroadcast(
+      createDto,
+      req.user._id.toString(),
+    );
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List broadcasts',
+    description: 'Returns the 100 most recent broadcasts, newest first.',
+  })
+  @ApiQuery({
+    name: 'eventId',
+    required: false,
+    description: 'Only broadcasts for this event',
+  })
+  @ApiOkResponse({
+    description: 'Broadcasts retrieved',
+    type: [BroadcastProgressDto],
+  })
+  @ApiBadRequestResponse({ description: 'Invalid event ID format' })
+  async findAll(
+    @Query('eventId') eventId?: string,
+  ): Promise<BroadcastProgressDto[]> {
+    this.logger.log(`GET /broadcasts - Listing broadcasts`);
+    return this.broadcastsService.findAll(eventId);
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get broadcast delivery progress',
+    description:
+      'Shows how many recipients have been processed and how many emails and pushes were delivered.',
+  })
+  @ApiParam({ name: 'id', description: 'Broadcast ID' })
+  @ApiOkResponse({
+    description: 'Broadcast progress retrieved',
+    type: BroadcastProgressDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid broadcast ID format' })
+  @ApiNotFoundResponse({ description: 'Broadcast not found' })
+  async findOne(@Param('id') id: string): Promise<BroadcastProgressDto> {
+    this.logger.log(`GET /broadcasts/${id} - Fetching progress`);
+    return this.broadcastsService.findOne(id);
+  }
+
+  @Get(':id/recipients')
+  @ApiOperation({
+    summary: 'List the recipients of a broadcast',
+    description: 'Shows the outcome of each channel for every delegate.',
+  })
+  @ApiParam({ name: 'id', description: 'Broadcast ID' })
+  @ApiOkResponse({ type: BroadcastRecipientPageDto })
+  @ApiBadRequestResponse({ description: 'Invalid broadcast ID format' })
+  async findRecipients(
+    @Param('id') id: string,
+    @Query() query: BroadcastRecipientQueryDto,
+  ): Promise<BroadcastRecipientPageDto> {
+    this.logger.log(`GET /broadcasts/${id}/recipients - Listing recipients`);
+    return this.broadcastsService.findRecipients(id, query);
+  }
+}
@@ -0,0 +1,35 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Delegate, DelegateSchema } from '../delegates/delegates.schema';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { QueuesModule } from '../queues/queues.module';
+import { BadgeModule } from '../badge/badge.module';
+import { Broadcast, BroadcastSchema } from './broadcast.schema';
+import {
+  BroadcastRecipient,
+  BroadcastRecipientSchema,
+} from './broadcast-recipient.schema';
+import { BroadcastsService } from './broadcasts.service';
+import { BroadcastsController } from './broadcasts.controller';
+import { BroadcastProcessor } from './broadcast.processor';
+import { EmailTemplatesModule } from '../email-templates/email-templates.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Broadcast.name, schema: BroadcastSchema },
+      { name: BroadcastRecipient.name, schema: BroadcastRecipientSchema },
+    ]),
+    MongooseModule.forFeature([
+      { name: Delegate.name, schema: DelegateSchema },
+    ]),
+    NotificationsModule,
+    QueuesModule,
+    BadgeModule,
+    EmailTemplatesModule,
+  ],
+  controllers: [BroadcastsController],
+  providers: [BroadcastsService, BroadcastProcessor],
+  exports: [BroadcastsService],
+})
+export class BroadcastsModule {}
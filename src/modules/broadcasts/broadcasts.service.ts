@@ -0,0 +1,652 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { InjectQueue } from '@nestjs/bullmq';
+import { JobsOptions, Queue } from 'bullmq';
+import { FilterQuery, Model, Types } from 'mongoose';
+import {
+  Broadcast,
+  BroadcastDocument,
+  BroadcastStatus,
+  BroadcastType,
+} from './broadcast.schema';
+import {
+  BroadcastRecipient,
+  BroadcastRecipientDocument,
+  BroadcastRecipientStatus,
+} from './broadcast-recipient.schema';
+import {
+  AudiencePreviewDto,
+  BroadcastAudienceDto,
+  BroadcastProgressDto,
+  BroadcastRecipientPageDto,
+  BroadcastRecipientQueryDto,
+  CreateBroadcastDto,
+} from './dto/broadcast.dto';
+import {
+  ATTENDING_STATUSES,
+  Delegate,
+  DelegateDocument,
+} from '../delegates/delegates.schema';
+import { EventDocument } from '../events/events.schema';
+import {
+  DeliveryResult,
+  EmailAttachment,
+  NotificationService,
+} from '../notifications/services/notification.service';
+import {
+  DeliveryOutcome,
+  NotificationType,
+} from '../notifications/schemas/notification.schema';
+import { WalletPassService } from '../badge/wallet-pass.service';
+import { NotificationCategory } from '../notifications/schemas/notification-preference.schema';
+import { EmailTemplatesService } from '../email-templates/email-templates.service';
+import { EmailTemplateKey } from '../email-templates/email-template.schema';
+import { BROADCAST_QUEUE } from '../queues/constants';
+
+export interface FanOutJobData {
+  broadcastId: string;
+}
+
+export interface DeliverJobData {
+  broadcastId: string;
+  delegateId: string;
+}
+
+// Delivery jobs are enqueued in chunks to bound memory on large events
+const ENQUEUE_BATCH_SIZE = 500;
+
+// Broadcast counter incremented for each channel outcome
+const OUTCOME_COUNTERS: Record<
+  NotificationType,
+  Partial<Record<DeliveryOutcome, string>>
+> = {
+  [NotificationType.EMAIL]: {
+    [DeliveryOutcome.SENT]: 'emailsSent',
+    [DeliveryOutcome.FAILED]: 'emailsFailed',
+  },
+  [NotificationType.PUSH]: {
+    [DeliveryOutcome.SENT]: 'pushSent',
+    [DeliveryOutcome.FAILED]: 'pushFailed',
+  },
+  [NotificationType.SMS]: {
+    [DeliveryOutcome.SENT]: 'smsSent',
+    [DeliveryOutcome.FAILED]: 'smsFailed',
+  },
+};
+
+@Injectable()
+export class BroadcastsService {
+  private readonly logger = new Logger(BroadcastsService.name);
+
+  constructor(
+    @InjectModel(Broadcast.name)
+    private readonly broadcastModel: Model<BroadcastDocument>,
+    @InjectModel(BroadcastRecipient.name)
+    private readonly recipientModel: Model<BroadcastRecipientDocument>,
+    @InjectModel(Delegate.name)
+    private readonly delegateModel: Model<DelegateDocument>,
+    @InjectQueue(BROADCAST_QUEUE) private readonly broadcastQueue: Queue,
+    private readonly notificationService: NotificationService,
+    private readonly walletPassService: WalletPassService,
+    private readonly emailTemplatesService: EmailTemplatesService,
+  ) {}
+
+  // ======================================================
+  // BROADCAST CREATION
+  // ======================================================
+
+  /**
+   * Count the delegates an audience matches and how many of them each
+   * channel can reach
+   */
+  async previewAudience(
+    audience: BroadcastAudienceDto,
+  ): Promise<AudiencePreviewDto> {
+    const filter = this.buildAudienceFilter(this.toAudience(audience));
+    const count = (condition: FilterQuery<DelegateDocument> = {}) =>
+      this.delegateModel.countDocuments({ $and: [filter, condition] }).exec();
+
+    const [totalRecipients, email, push, sms] = await Promise.all([
+      count(),
+      count({ email: { $nin: [null, ''] } }),
+      count({ expoPushTokens: { $exists: true, $ne: [] } }),
+      count({ phoneNumber: { $nin: [null, ''] } }),
+    ]);
+    return { totalRecipients, reachable: { email, push, sms } };
+  }
+
+  /**
+   * Queue an admin-written message to every delegate of an audience over
+   * the chosen channels
+   */
+  async createBroadcast(
+    createDto: CreateBroadcastDto,
+    createdBy: string,
+  ): Promise<BroadcastProgressDto> {
+    const broadcast = await this.broadcastModel.create({
+      type: BroadcastType.CUSTOM,
+      ...this.toAudience(createDto),
+      channels: [...new Set(createDto.channels)],
+      category: createDto.category,
+      critical: createDto.critical === true,
+      title: createDto.title,
+      body: createDto.body,
+      html: createDto.html,
+      createdBy: new Types.ObjectId(createdBy),
+    });
+
+    await this.enqueueFanOut(broadcast);
+    return this.toProgress(broadcast);
+  }
+
+  /**
+   * Queue an email and push to every delegate of a cancelled event
+   */
+  async broadcastEventCancellation(
+    event: Pick<EventDocument, '_id' | 'title' | 'cancellationReason'>,
+  ): Promise<BroadcastDocument> {
+    const title = `Event Cancelled: ${event.title}`;
+    const body = `We regret to inform you that ${event.title} has been cancelled. Reason: ${event.cancellationReason}`;
+
+    const broadcast = await this.broadcastModel.create({
+      type: BroadcastType.EVENT_CANCELLATION,
+      eventId: event._id,
+      critical: true,
+      title,
+      body,
+      templateKey: EmailTemplateKey.EVENT_CANCELLED,
+      templateVariables: {
+        eventTitle: event.title,
+        cancellationReason: event.cancellationReason,
+      },
+    });
+
+    await this.enqueueFanOut(broadcast);
+    return broadcast;
+  }
+
+  /**
+   * Re-issue wallet passes to approved delegates after the event dates or
+   * venue change; the new pass is attached when pass signing is configured
+   */
+  async broadcastPassReissue(
+    event: Pick<
+      EventDocument,
+      '_id' | 'title' | 'startDate' | 'endDate' | 'location'
+    >,
+  ): Promise<BroadcastDocument> {
+    const venue = [event.location?.venueName, event.location?.address?.city]
+      .filter(Boolean)
+      .join(', ');
+    const dates = `${this.formatDate(event.startDate)} - ${this.formatDate(event.endDate)}`;
+    const title = `Updated Event Pass: ${event.title}`;
+    const body = `The details of ${event.title} have changed. It now runs ${dates}${venue ? ` at ${venue}` : ''}. Please use your updated pass.`;
+
+    const broadcast = await this.broadcastModel.create({
+      type: BroadcastType.PASS_REISSUE,
+      eventId: event._id,
+      recipientStatuses: ATTENDING_STATUSES,
+      title,
+      body,
+      templateKey: EmailTemplateKey.PASS_REISSUED,
+      templateVariables: { eventTitle: event.title, dates, venue },
+    });
+
+    await this.enqueueFanOut(broadcast);
+    return broadcast;
+  }
+
+  // ======================================================
+  // STATUS
+  // ======================================================
+
+  async findOne(id: string): Promise<BroadcastProgressDto> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid broadcast ID format');
+    }
+
+    const broadcast = await this.broadcastModel
+      .findById(new Types.ObjectId(id))
+      .exec();
+    if (!broadcast) {
+      throw new NotFoundException(`Broadcast with ID ${id} not found`);
+    }
+    return this.toProgress(broadcast);
+  }
+
+  async findAll(eventId?: string): Promise<BroadcastProgressDto[]> {
+    const filter: any = {};
+    if (eventId) {
+      if (!Types.ObjectId.isValid(eventId)) {
+        throw new BadRequestException('Invalid event ID format');
+      }
+      filter.eventId = new Types.ObjectId(eventId);
+    }
+
+    const broadcasts = await this.broadcastModel
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .limit(100)
+      .exec();
+    return broadcasts.map((broadcast) => this.toProgress(broadcast));
+  }
+
+  async findRecipients(
+    id: string,
+    query: BroadcastRecipientQueryDto,
+  ): Promise<BroadcastRecipientPageDto> {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid broadcast ID format');
+    }
+    const page = Math.max(Number(query.page) || 1, 1);
+    const limit = Math.min(Math.max(Number(query.limit) || 50, 1), 200);
+
+    const filter: FilterQuery<BroadcastRecipientDocument> = {
+      broadcastId: new Types.ObjectId(id),
+    };
+    if (query.status) filter.status = query.status;
+
+    const [data, total] = await Promise.all([
+      this.recipientModel
+        .find(filter)
+        .populate('delegateId', 'firstName lastName email phoneNumber')
+        .sort({ _id: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean()
+        .exec(),
+      this.recipientModel.countDocuments(filter).exec(),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  // ======================================================
+  // QUEUE WORK (called by BroadcastProcessor)
+  // ======================================================
+
+  /**
+   * Enqueue one delivery job per recipient
+   */
+  async fanOut(broadcastId: string): Promise<void> {
+    const broadcast = await this.broadcastModel.findById(broadcastId).exec();
+    if (!broadcast) {
+      this.logger.warn(`Broadcast ${broadcastId} no longer exists`);
+      return;
+    }
+
+    const recipientFilter = this.buildAudienceFilter(broadcast);
+    const totalRecipients = await this.delegateModel
+      .countDocuments(recipientFilter)
+      .exec();
+
+    await this.broadcastModel
+      .updateOne(
+        { _id: broadcast._id },
+        {
+          $set: {
+            status: BroadcastStatus.IN_PROGRESS,
+            totalRecipients,
+            startedAt: new Date(),
+          },
+        },
+      )
+      .exec();
+
+    let enqueued = 0;
+    let batch: { name: string; data: DeliverJobData; opts: JobsOptions }[] = [];
+    const cursor = this.delegateModel
+      .find(recipientFilter)
+      .select('_id')
+      .lean()
+      .cursor();
+
+    for await (const delegate of cursor) {
+      const delegateId = delegate._id.toString();
+      batch.push({
+        name: 'deliver',
+        data: { broadcastId, delegateId },
+        opts: {
+          // Stable ID so a retried fan-out does not queue a pending delivery
+          // twice; completed jobs are removed, so enqueueDeliveries skips
+          // recipients who already have an outcome
+          jobId: `deliver-${broadcastId}-${delegateId}`,
+          removeOnComplete: true,
+          removeOnFail: true,
+        },
+      });
+
+      if (batch.length === ENQUEUE_BATCH_SIZE) {
+        await this.enqueueDeliveries(broadcast, batch);
+        enqueued += batch.length;
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      await this.enqueueDeliveries(broadcast, batch);
+      enqueued += batch.length;
+    }
+
+    // Registrations may change between the count and the cursor
+    if (enqueued !== totalRecipients) {
+      await this.broadcastModel
+        .updateOne(
+          { _id: broadcast._id },
+          { $set: { totalRecipients: enqueued } },
+        )
+        .exec();
+    }
+    await this.completeIfDone(broadcastId);
+
+    this.logger.log(
+      `Broadcast ${broadcastId} fanned out to ${enqueued} delegates`,
+    );
+  }
+
+  /**
+   * Deliver a broadcast to one delegate and record the outcome. The
+   * recipient is claimed first, so a retried or stalled job that runs again
+   * neither messages the delegate twice nor counts them twice.
+   */
+  async deliver(broadcastId: string, delegateId: string): Promise<void> {
+    const broadcast = await this.broadcastModel.findById(broadcastId).exec();
+    if (!broadcast) {
+      this.logger.warn(`Broadcast ${broadcastId} no longer exists`);
+      return;
+    }
+
+    const claimed = await this.recipientModel
+      .findOneAndUpdate(
+        {
+          broadcastId: broadcast._id,
+          delegateId: new Types.ObjectId(delegateId),
+          status: BroadcastRecipientStatus.PENDING,
+        },
+        { $set: { status: BroadcastRecipientStatus.SENDING } },
+      )
+      .exec();
+    if (!claimed) {
+      this.logger.warn(
+        `Broadcast ${broadcastId} was already delivered to delegate ${delegateId}`,
+      );
+      return;
+    }
+
+    const counters: Record<string, number> = { processed: 1 };
+    const recipient: Partial<BroadcastRecipient> = {};
+    try {
+      const channels = broadcast.channels?.length
+        ? broadcast.channels
+        : [NotificationType.EMAIL, NotificationType.PUSH];
+      const { subject, html } = await this.renderEmail(broadcast, delegateId);
+      const result = await this.notificationService.deliverToDelegate(
+        delegateId,
+        subject,
+        broadcast.body,
+        html,
+        {
+          broadcastId,
+          type: broadcast.type,
+          eventId: broadcast.eventId?.toString(),
+        },
+        await this.getAttachments(broadcast, delegateId),
+        channels,
+        {
+          category: broadcast.category ?? NotificationCategory.LOGISTICS,
+          critical: broadcast.critical === true,
+        },
+      );
+
+      for (const [channel, outcome] of Object.entries(result)) {
+        const counter = OUTCOME_COUNTERS[channel][outcome];
+        if (counter) {
+          counters[counter] = 1;
+        }
+      }
+      Object.assign(recipient, result, {
+        status: this.recipientStatus(result),
+        deliveredAt: new Date(),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to deliver broadcast ${broadcastId} to delegate ${delegateId}: ${error.message}`,
+        error.stack,
+      );
+      counters.failed = 1;
+      recipient.status = BroadcastRecipientStatus.FAILED;
+      recipient.error = error.message;
+    }
+
+    await this.recipientModel
+      .updateOne({ _id: claimed._id }, { $set: recipient })
+      .exec();
+    await this.broadcastModel
+      .updateOne({ _id: broadcast._id }, { $inc: counters })
+      .exec();
+    await this.completeIfDone(broadcastId);
+  }
+
+  // ======================================================
+  // HELPERS
+  // ======================================================
+
+  private async enqueueFanOut(broadcast: BroadcastDocument): Promise<void> {
+    const broadcastId = broadcast._id.toString();
+    const data: FanOutJobData = { broadcastId };
+    await this.broadcastQueue.add('fan-out', data, {
+      jobId: `fan-out-${broadcastId}`,
+      removeOnComplete: true,
+      removeOnFail: true,
+    });
+    this.logger.log(`Queued broadcast ${broadcastId} (${broadcast.type})`);
+  }
+
+  /**
+   * Record each recipient as pending, then queue delivery jobs for those
+   * without an outcome yet
+   */
+  private async enqueueDeliveries(
+    broadcast: BroadcastDocument,
+    jobs: { name: string; data: DeliverJobData; opts: JobsOptions }[],
+  ): Promise<void> {
+    await this.recipientModel.bulkWrite(
+      jobs.map(({ data }) => ({
+        updateOne: {
+          filter: {
+            broadcastId: broadcast._id,
+            delegateId: new Types.ObjectId(data.delegateId),
+          },
+          update: {
+            $setOnInsert: { status: BroadcastRecipientStatus.PENDING },
+          },
+          upsert: true,
+        },
+      })),
+      { ordered: false },
+    );
+
+    const settled = await this.recipientModel
+      .find({
+        broadcastId: broadcast._id,
+        delegateId: {
+          $in: jobs.map(({ data }) => new Types.ObjectId(data.delegateId)),
+        },
+        status: { $ne: BroadcastRecipientStatus.PENDING },
+      })
+      .select('delegateId')
+      .lean()
+      .exec();
+    const done = new Set(
+      settled.map((recipient) => recipient.delegateId.toString()),
+    );
+    const pending = jobs.filter(({ data }) => !done.has(data.delegateId));
+    if (pending.length > 0) {
+      await this.broadcastQueue.addBulk(pending);
+    }
+  }
+
+  private buildAudienceFilter(
+    audience: Pick<
+      Broadcast,
+      | 'eventId'
+      | 'recipientStatuses'
+      | 'delegateTypes'
+      | 'attendanceModes'
+      | 'nationalities'
+      | 'hasCheckedIn'
+    >,
+  ): FilterQuery<DelegateDocument> {
+    const filter: FilterQuery<DelegateDocument> = {};
+    if (audience.eventId) filter.eventId = audience.eventId;
+    if (audience.recipientStatuses?.length) {
+      filter.status = { $in: audience.recipientStatuses };
+    }
+    if (audience.delegateTypes?.length) {
+      filter.delegateType = { $in: audience.delegateTypes };
+    }
+    if (audience.attendanceModes?.length) {
+      filter.attendanceMode = { $in: audience.attendanceModes };
+    }
+    if (audience.nationalities?.length) {
+      filter.nationality = { $in: audience.nationalities };
+    }
+    if (audience.hasCheckedIn !== undefined && audience.hasCheckedIn !== null) {
+      filter.hasCheckedIn = audience.hasCheckedIn ? true : { $ne: true };
+    }
+    return filter;
+  }
+
+  private toAudience(audience: BroadcastAudienceDto) {
+    return {
+      eventId: audience.eventId
+        ? new Types.ObjectId(audience.eventId)
+        : undefined,
+      recipientStatuses: audience.statuses,
+      delegateTypes: audience.delegateTypes,
+      attendanceModes: audience.attendanceModes,
+      nationalities: audience.nationalities,
+      hasCheckedIn: audience.hasCheckedIn,
+    };
+  }
+
+  /**
+   * Templated broadcasts are rendered in the delegate's language; custom
+   * ones are sent as written
+   */
+  private async renderEmail(
+    broadcast: BroadcastDocument,
+    delegateId: string,
+  ): Promise<{ subject: string; html: string }> {
+    if (!broadcast.templateKey) {
+      return { subject: broadcast.title, html: broadcast.html };
+    }
+    const delegate = await this.delegateModel
+      .findById(delegateId)
+      .select('preferredLanguage')
+      .lean()
+      .exec();
+    return this.emailTemplatesService.render(
+      broadcast.templateKey,
+      broadcast.templateVariables,
+      { language: delegate?.preferredLanguage, eventId: broadcast.eventId },
+    );
+  }
+
+  private recipientStatus(result: DeliveryResult): BroadcastRecipientStatus {
+    const outcomes = Object.values(result);
+    // Deferred channels go out when the delegate's quiet hours end
+    if (
+      outcomes.includes(DeliveryOutcome.SENT) ||
+      outcomes.includes(DeliveryOutcome.DEFERRED)
+    ) {
+      return BroadcastRecipientStatus.DELIVERED;
+    }
+    return outcomes.includes(DeliveryOutcome.FAILED)
+      ? BroadcastRecipientStatus.FAILED
+      : BroadcastRecipientStatus.SKIPPED;
+  }
+
+  private async getAttachments(
+    broadcast: BroadcastDocument,
+    delegateId: string,
+  ): Promise<EmailAttachment[] | undefined> {
+    if (
+      broadcast.type !== BroadcastType.PASS_REISSUE ||
+      !this.walletPassService.isConfigured()
+    ) {
+      return undefined;
+    }
+    return [
+      {
+        filename: 'pass.pkpass',
+        content: await this.walletPassService.generatePkpass(delegateId),
+        contentType: 'application/vnd.apple.pkpass',
+      },
+    ];
+  }
+
+  private async completeIfDone(broadcastId: string): Promise<void> {
+    await this.broadcastModel
+      .updateOne(
+        {
+          _id: new Types.ObjectId(broadcastId),
+          status: BroadcastStatus.IN_PROGRESS,
+          $expr: { $gte: ['$processed', '$totalRecipients'] },
+        },
+        {
+          $set: {
+            status: BroadcastStatus.COMPLETED,
+            completedAt: new Date(),
+          },
+        },
+      )
+      .exec();
+  }
+
+  private toProgress(broadcast: BroadcastDocument): BroadcastProgressDto {
+    return {
+      id: broadcast._id.toString(),
+      type: broadcast.type,
+      eventId: broadcast.eventId?.toString() || null,
+      title: broadcast.title,
+      channels: broadcast.channels,
+      status: broadcast.status,
+      totalRecipients: broadcast.totalRecipients,
+      processed: broadcast.processed,
+      progress: broadcast.totalRecipients
+        ? Math.round((broadcast.processed / broadcast.totalRecipients) * 100)
+        : broadcast.status === BroadcastStatus.COMPLETED
+          ? 100
+          : 0,
+      emailsSent: broadcast.emailsSent,
+      emailsFailed: broadcast.emailsFailed,
+      pushSent: broadcast.pushSent,
+      pushFailed: broadcast.pushFailed,
+      smsSent: broadcast.smsSent,
+      smsFailed: broadcast.smsFailed,
+      failed: broadcast.failed,
+      startedAt: broadcast.startedAt,
+      completedAt: broadcast.completedAt,
+      createdAt: broadcast.get('createdAt'),
+    };
+  }
+
+  private formatDate(date: Date): string {
+    return new Date(date).toLocaleDateString('en-GB', {
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric',
+    });
+  }
+}
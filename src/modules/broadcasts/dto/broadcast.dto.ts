@@ -0,0 +1,261 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { BroadcastStatus, BroadcastType } from '../broadcast.schema';
+import {
+  BroadcastRecipient,
+  BroadcastRecipientStatus,
+} from '../broadcast-recipient.schema';
+import {
+  AttendanceMode,
+  DelegateStatus,
+  DelegateType,
+} from '../../delegates/delegates.schema';
+import { NotificationType } from '../../notifications/schemas/notification.schema';
+import { NotificationCategory } from '../../notifications/schemas/notification-preference.schema';
+
+// Broadcast Audience DTO
+// Filters are combined with AND; omitted ones match every delegate.
+export class BroadcastAudienceDto {
+  @ApiPropertyOptional({ example: '60f7b3b3b3b3b3b3b3b3b3b3' })
+  @IsOptional()
+  @IsMongoId()
+  eventId?: string;
+
+  @ApiPropertyOptional({
+    enum: DelegateStatus,
+    isArray: true,
+    example: [DelegateStatus.APPROVED, DelegateStatus.CHECKED_IN],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(DelegateStatus, { each: true })
+  statuses?: DelegateStatus[];
+
+  @ApiPropertyOptional({ enum: DelegateType, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(DelegateType, { each: true })
+  delegateTypes?: DelegateType[];
+
+  @ApiPropertyOptional({ enum: AttendanceMode, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(AttendanceMode, { each: true })
+  attendanceModes?: AttendanceMode[];
+
+  @ApiPropertyOptional({ type: [String], example: ['Kenya', 'Rwanda'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  nationalities?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Only delegates who have, or have not, checked in',
+  })
+  @IsOptional()
+  @IsBoolean()
+  hasCheckedIn?: boolean;
+}
+
+// Create Broadcast DTO
+export class CreateBroadcastDto extends BroadcastAudienceDto {
+  @ApiProperty({
+    enum: NotificationType,
+    isArray: true,
+    example: [NotificationType.EMAIL, NotificationType.PUSH],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(NotificationType, { each: true })
+  channels: NotificationType[];
+
+  @ApiPropertyOptional({
+    enum: NotificationCategory,
+    default: NotificationCategory.LOGISTICS,
+    description: 'Decides which delegate preferences apply',
+  })
+  @IsOptional()
+  @IsEnum(NotificationCategory)
+  category?: NotificationCategory;
+
+  @ApiPropertyOptional({
+    default: false,
+    description:
+      'Emergency alert; ignores delegate preferences and quiet hours',
+  })
+  @IsOptional()
+  @IsBoolean()
+  critical?: boolean;
+
+  @ApiProperty({
+    description: 'Email subject and push title',
+    example: 'Shuttle schedule for Day 2',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  title: string;
+
+  @ApiProperty({
+    description: 'Plain text for push, SMS and the in-app inbox',
+    example: 'Shuttles leave the Serena Hotel at 7:30 and 8:15.',
+  })
+  @IsString()
+  @IsNotEmpty()
+  body: string;
+
+  @ApiPropertyOptional({
+    description: 'HTML email body; required when sending by email',
+    example: '<p>Shuttles leave the <strong>Serena Hotel</strong> at 7:30.</p>',
+  })
+  @ValidateIf((dto: CreateBroadcastDto) =>
+    dto.channels?.includes(NotificationType.EMAIL),
+  )
+  @IsString()
+  @IsNotEmpty()
+  html?: string;
+}
+
+// Broadcast Recipient Query DTO
+export class BroadcastRecipientQueryDto {
+  @ApiPropertyOptional({ enum: BroadcastRecipientStatus })
+  @IsOptional()
+  @IsEnum(BroadcastRecipientStatus)
+  status?: BroadcastRecipientStatus;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ default: 50, maximum: 200 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
+
+// Response DTOs for documentation
+export class BroadcastProgressDto {
+  @ApiProperty({ example: '60d5ecb74f4d2c001f5e4b5d' })
+  id: string;
+
+  @ApiProperty({ enum: BroadcastType })
+  type: BroadcastType;
+
+  @ApiProperty({
+    example: '60f7b3b3b3b3b3b3b3b3b3b3',
+    nullable: true,
+    description: 'Null when the broadcast targets every event',
+  })
+  eventId: string | null;
+
+  @ApiProperty({ example: 'Event Cancelled: Annual General Meeting 2025' })
+  title: string;
+
+  @ApiProperty({ enum: NotificationType, isArray: true })
+  channels: NotificationType[];
+
+  @ApiProperty({ enum: BroadcastStatus })
+  status: BroadcastStatus;
+
+  @ApiProperty({ example: 450 })
+  totalRecipients: number;
+
+  @ApiProperty({ example: 120 })
+  processed: number;
+
+  @ApiProperty({ description: 'Percentage of recipients handled', example: 27 })
+  progress: number;
+
+  @ApiProperty({ example: 118 })
+  emailsSent: number;
+
+  @ApiProperty({ example: 2 })
+  emailsFailed: number;
+
+  @ApiProperty({ example: 75 })
+  pushSent: number;
+
+  @ApiProperty({ example: 0 })
+  pushFailed: number;
+
+  @ApiProperty({ example: 0 })
+  smsSent: number;
+
+  @ApiProperty({ example: 0 })
+  smsFailed: number;
+
+  @ApiProperty({ example: 0 })
+  failed: number;
+
+  @ApiPropertyOptional({ example: '2025-06-10T10:30:00.000Z' })
+  startedAt?: Date;
+
+  @ApiPropertyOptional({ example: '2025-06-10T10:34:00.000Z' })
+  completedAt?: Date;
+
+  @ApiProperty({ example: '2025-06-10T10:30:00.000Z' })
+  createdAt: Date;
+}
+
+export class AudienceReachDto {
+  @ApiProperty({ example: 448 })
+  email: number;
+
+  @ApiProperty({
+    description: 'Delegates with a registered device',
+    example: 310,
+  })
+  push: number;
+
+  @ApiProperty({ example: 450 })
+  sms: number;
+}
+
+export class AudiencePreviewDto {
+  @ApiProperty({ example: 450 })
+  totalRecipients: number;
+
+  @ApiProperty({
+    type: AudienceReachDto,
+    description: 'Recipients each channel can reach',
+  })
+  reachable: AudienceReachDto;
+}
+
+export class BroadcastRecipientPageDto {
+  @ApiProperty({ type: [BroadcastRecipient] })
+  data: BroadcastRecipient[];
+
+  @ApiProperty({ example: 450 })
+  total: number;
+
+  @ApiProperty({ example: 1 })
+  page: number;
+
+  @ApiProperty({ example: 50 })
+  limit: number;
+
+  @ApiProperty({ example: 9 })
+  totalPages: number;
+}
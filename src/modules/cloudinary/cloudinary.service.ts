@@ -8,12 +8,23 @@ export class CloudinaryService {
   async uploadFile(
     file: Express.Multer.File,
     folder: string,
+  ): Promise<CloudinaryResponse> {
+    return this.uploadStream(streamifier.createReadStream(file.buffer), folder);
+  }
+
+  // Generated files such as PDFs are uploaded as 'raw' so they download as-is
+  async uploadStream(
+    source: NodeJS.ReadableStream,
+    folder: string,
+    resourceType: 'auto' | 'raw' = 'auto',
+    publicId?: string,
   ): Promise<CloudinaryResponse> {
     return new Promise<CloudinaryResponse>((resolve, reject) => {
       const uploadStream = cloudinary.uploader.upload_stream(
         {
           folder,
-          resource_type: 'auto',
+          resource_type: resourceType,
+          ...(publicId && { public_id: publicId }),
         },
         (error, result: UploadApiResponse) => {
           if (error) return reject(error);
@@ -42,7 +53,13 @@ export class CloudinaryService {
         },
       );
 
-      streamifier.createReadStream(file.buffer).pipe(uploadStream);
+      // pipe() does not forward errors; abort the upload instead of leaving
+      // the request open waiting for the rest of the file
+      source.on('error', (error) => {
+        uploadStream.destroy();
+        reject(error);
+      });
+      source.pipe(uploadStream);
     });
   }
 
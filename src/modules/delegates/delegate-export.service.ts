@@ -0,0 +1,417 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Response } from 'express';
+import { once } from 'events';
+import * as ExcelJS from 'exceljs';
+import { createArrayCsvStringifier } from 'csv-writer';
+import { Delegate, DelegateDocument } from './delegates.schema';
+import { DelegatesService } from './delegate.service';
+import { SystemLogsService } from '../system-logs/services/system-logs.service';
+import { LogSeverity } from '../system-logs/schemas/system-log.schema';
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  DELEGATE_EXPORT_COLUMNS,
+  DelegateExportColumn,
+  ExportDelegatesQueryDto,
+  ExportFormat,
+} from './dto/export-delegates.dto';
+
+type DelegateRow = Delegate & { createdAt?: Date };
+type CellValue = string | number | Date | undefined;
+
+interface ExportColumn {
+  header: string;
+  width: number;
+  value: (delegate: DelegateRow) => CellValue;
+}
+
+interface ExportColumnGroup {
+  // Personal data, left blank for delegates who refused data processing
+  personal: boolean;
+  columns: ExportColumn[];
+}
+
+const yesNo = (value?: boolean) => (value ? 'Yes' : 'No');
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Quote delegate-entered text that would otherwise run as a formula
+const escapeFormula = (value: CellValue): CellValue =>
+  typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : value;
+
+const COLUMN_GROUPS: Record<DelegateExportColumn, ExportColumnGroup> = {
+  name: {
+    personal: false,
+    columns: [
+      {
+        header: 'Name',
+        width: 30,
+        value: (d) => `${d.title} ${d.firstName} ${d.lastName}`,
+      },
+    ],
+  },
+  email: {
+    personal: true,
+    columns: [{ header: 'Email', width: 30, value: (d) => d.email }],
+  },
+  phoneNumber: {
+    personal: true,
+    columns: [{ header: 'Phone', width: 18, value: (d) => d.phoneNumber }],
+  },
+  nationality: {
+    personal: false,
+    columns: [
+      { header: 'Nationality', width: 16, value: (d) => d.nationality },
+    ],
+  },
+  organization: {
+    personal: false,
+    columns: [
+      { header: 'Organization', width: 30, value: (d) => d.organization },
+    ],
+  },
+  position: {
+    personal: false,
+    columns: [{ header: 'Position', width: 25, value: (d) => d.position }],
+  },
+  delegateType: {
+    personal: false,
+    columns: [
+      { header: 'Delegate Type', width: 16, value: (d) => d.delegateType },
+    ],
+  },
+  attendanceMode: {
+    personal: false,
+    columns: [
+      { header: 'Attendance Mode', width: 16, value: (d) => d.attendanceMode },
+    ],
+  },
+  status: {
+    personal: false,
+    columns: [{ header: 'Status', width: 14, value: (d) => d.status }],
+  },
+  eventYear: {
+    personal: false,
+    columns: [{ header: 'Event Year', width: 11, value: (d) => d.eventYear }],
+  },
+  registeredAt: {
+    personal: false,
+    columns: [{ header: 'Registered', width: 20, value: (d) => d.createdAt }],
+  },
+  languages: {
+    personal: false,
+    columns: [
+      {
+        header: 'Languages',
+        width: 25,
+        value: (d) => d.languagesSpoken?.join(', '),
+      },
+      {
+        header: 'Preferred Language',
+        width: 18,
+        value: (d) => d.preferredLanguage,
+      },
+    ],
+  },
+  identification: {
+    personal: true,
+    columns: [
+      { header: 'ID Type', width: 16, value: (d) => d.identification?.type },
+      {
+        header: 'ID Number',
+        width: 18,
+        value: (d) => d.identification?.number,
+      },
+      {
+        header: 'ID Issuing Country',
+        width: 18,
+        value: (d) => d.identification?.issuingCountry,
+      },
+    ],
+  },
+  address: {
+    personal: true,
+    columns: [
+      {
+        header: 'Address',
+        width: 40,
+        value: (d) =>
+          d.address &&
+          [
+            d.address.street,
+            d.address.city,
+            d.address.state,
+            d.address.postalCode,
+            d.address.country,
+          ]
+            .filter(Boolean)
+            .join(', '),
+      },
+    ],
+  },
+  emergencyContact: {
+    personal: true,
+    columns: [
+      {
+        header: 'Emergency Contact',
+        width: 25,
+        value: (d) => d.emergencyContact?.name,
+      },
+      {
+        header: 'Emergency Relationship',
+        width: 18,
+        value: (d) => d.emergencyContact?.relationship,
+      },
+      {
+        header: 'Emergency Phone',
+        width: 18,
+        value: (d) => d.emergencyContact?.phoneNumber,
+      },
+    ],
+  },
+  visa: {
+    personal: true,
+    columns: [
+      {
+        header: 'Requires Visa',
+        width: 13,
+        value: (d) => yesNo(d.requiresVisa),
+      },
+      { header: 'Visa Status', width: 16, value: (d) => d.visaStatus },
+    ],
+  },
+  flightDetails: {
+    personal: true,
+    columns: [
+      { header: 'Arrival Date', width: 20, value: (d) => d.arrivalDate },
+      {
+        header: 'Arrival Flight',
+        width: 14,
+        value: (d) => d.flightDetails?.arrivalFlight,
+      },
+      { header: 'Departure Date', width: 20, value: (d) => d.departureDate },
+      {
+        header: 'Departure Flight',
+        width: 14,
+        value: (d) => d.flightDetails?.departureFlight,
+      },
+    ],
+  },
+  accommodation: {
+    personal: true,
+    columns: [
+      {
+        header: 'Has Accommodation',
+        width: 17,
+        value: (d) => yesNo(d.hasAccommodation),
+      },
+      {
+        header: 'Hotel',
+        width: 25,
+        value: (d) => d.accommodationDetails?.hotelName,
+      },
+      {
+        header: 'Hotel Check-in',
+        width: 20,
+        value: (d) => d.accommodationDetails?.checkIn,
+      },
+      {
+        header: 'Hotel Check-out',
+        width: 20,
+        value: (d) => d.accommodationDetails?.checkOut,
+      },
+      {
+        header: 'Room Preference',
+        width: 18,
+        value: (d) => d.accommodationDetails?.roomPreference,
+      },
+    ],
+  },
+  checkIn: {
+    personal: false,
+    columns: [
+      {
+        header: 'Checked In',
+        width: 11,
+        value: (d) => yesNo(d.hasCheckedIn),
+      },
+      { header: 'Check-in Time', width: 20, value: (d) => d.checkInDate },
+      {
+        header: 'Check-in Location',
+        width: 20,
+        value: (d) => d.checkInLocation,
+      },
+    ],
+  },
+};
+
+@Injectable()
+export class DelegateExportService {
+  private readonly logger = new Logger(DelegateExportService.name);
+
+  constructor(
+    @InjectModel(Delegate.name)
+    private readonly delegateModel: Model<DelegateDocument>,
+    private readonly delegatesService: DelegatesService,
+    private readonly systemLogsService: SystemLogsService,
+  ) {}
+
+  /**
+   * Stream the filtered delegate list to the response as xlsx or csv.
+   * Rows are read through a cursor and written as they arrive, so the
+   * export never holds the whole list in memory.
+   */
+  async export(query: ExportDelegatesQueryDto, res: Response): Promise<void> {
+    const format = query.format || ExportFormat.XLSX;
+    const groups = this.resolveColumns(query.columns);
+    const filter = this.delegatesService.buildListFilter(query);
+
+    const columns = groups.flatMap((key) =>
+      COLUMN_GROUPS[key].columns.map((column) => ({
+        ...column,
+        personal: COLUMN_GROUPS[key].personal,
+      })),
+    );
+
+    const cursor = this.delegateModel
+      .find(filter)
+      .sort({ lastName: 1, firstName: 1 })
+      .lean<DelegateRow>()
+      .cursor();
+
+    const toRow = (delegate: DelegateRow): CellValue[] => {
+      // Respect delegates who did not consent to data processing
+      const consented = delegate.consentToDataProcessing !== false;
+      return columns.map((column) =>
+        column.personal && !consented
+          ? undefined
+          : escapeFormula(column.value(delegate)),
+      );
+    };
+
+    const filename = `delegates-${query.year || 'all'}-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename=${filename}`);
+
+    let exported = 0;
+    try {
+      if (format === ExportFormat.CSV) {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        const csv = createArrayCsvStringifier({
+          header: columns.map((column) => column.header),
+        });
+        await this.write(res, csv.getHeaderString());
+        for await (const delegate of cursor) {
+          const row = toRow(delegate).map((value) =>
+            value instanceof Date ? value.toISOString() : value,
+          );
+          await this.write(res, csv.stringifyRecords([row]));
+          exported++;
+        }
+        res.end();
+      } else {
+        res.setHeader(
+          'Content-Type',
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        );
+        const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+          stream: res,
+          useStyles: true,
+        });
+        const worksheet = workbook.addWorksheet('Delegates');
+        worksheet.columns = columns.map((column) => ({
+          header: column.header,
+          width: column.width,
+        }));
+        worksheet.getRow(1).font = { bold: true };
+        for await (const delegate of cursor) {
+          worksheet.addRow(toRow(delegate)).commit();
+          exported++;
+          await this.drain(res);
+        }
+        worksheet.commit();
+        await workbook.commit();
+      }
+    } catch (error) {
+      this.logger.error(
+        `Delegate export failed after ${exported} rows: ${error.message}`,
+        error.stack,
+      );
+      // Headers are already sent, so the only option is to abort the download
+      res.destroy();
+      return;
+    } finally {
+      await cursor.close();
+    }
+
+    await this.systemLogsService.createLog(
+      'Delegates Exported',
+      `Exported ${exported} delegates as ${format} with columns: ${groups.join(', ')}`,
+      LogSeverity.INFO,
+    );
+    this.logger.log(`Exported ${exported} delegates as ${format}`);
+  }
+
+  private resolveColumns(columns?: string): DelegateExportColumn[] {
+    if (!columns) {
+      return DEFAULT_EXPORT_COLUMNS;
+    }
+
+    const requested = [
+      ...new Set(
+        columns
+          .split(',')
+          .map((column) => column.trim())
+          .filter(Boolean),
+      ),
+    ];
+    const unknown = requested.filter(
+      (column) =>
+        !DELEGATE_EXPORT_COLUMNS.includes(column as DelegateExportColumn),
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown export columns: ${unknown.join(', ')}. Available: ${DELEGATE_EXPORT_COLUMNS.join(', ')}`,
+      );
+    }
+    return requested.length > 0
+      ? (requested as DelegateExportColumn[])
+      : DEFAULT_EXPORT_COLUMNS;
+  }
+
+  // Honour backpressure so a slow client doesn't buffer the whole file
+  private async write(res: Response, chunk: string): Promise<void> {
+    if (res.destroyed) {
+      throw new Error('Client disconnected');
+    }
+    res.write(chunk);
+    await this.drain(res);
+  }
+
+  /**
+   * Wait until the response takes more data. Fails when the client
+   * disconnects instead, since the response would never drain.
+   */
+  private async drain(res: Response): Promise<void> {
+    if (res.destroyed) {
+      throw new Error('Client disconnected');
+    }
+    if (!res.writableNeedDrain) {
+      return;
+    }
+
+    const done = new AbortController();
+    try {
+      await Promise.race([
+        once(res, 'drain', { signal: done.signal }),
+        once(res, 'close', { signal: done.signal }),
+      ]);
+    } finally {
+      done.abort();
+    }
+    if (res.destroyed) {
+      throw new Error('Client disconnected');
+    }
+  }
+}
@@ -0,0 +1,563 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Readable } from 'stream';
+import { instanceToPlain, plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import * as ExcelJS from 'exceljs';
+import {
+  Delegate,
+  DelegateDocument,
+  DelegateStatus,
+  Title,
+} from './delegates.schema';
+import { Event, EventDocument } from '../events/events.schema';
+import { DelegatesService } from './delegate.service';
+import { SystemLogsService } from '../system-logs/services/system-logs.service';
+import { LogSeverity } from '../system-logs/schemas/system-log.schema';
+import {
+  ImportDelegateRowDto,
+  ImportDelegatesReportDto,
+  ImportRowResultDto,
+  ImportRowStatus,
+} from './dto/import-delegates.dto';
+
+export interface ImportDelegatesOptions {
+  dryRun: boolean;
+  sendEmails: boolean;
+  eventYear?: number;
+  importedBy?: string;
+}
+
+interface ParsedRow {
+  row: number;
+  email?: string;
+  eventYear?: number;
+  data?: ImportDelegateRowDto;
+  result: ImportRowResultDto;
+}
+
+const MAX_IMPORT_ROWS = 5000;
+const INSERT_BATCH_SIZE = 100;
+
+// Normalised header (lowercase, letters and digits only) -> delegate field
+const COLUMN_MAP: Record<string, string> = {
+  title: 'title',
+  firstname: 'firstName',
+  lastname: 'lastName',
+  surname: 'lastName',
+  email: 'email',
+  emailaddress: 'email',
+  eventyear: 'eventYear',
+  year: 'eventYear',
+  phone: 'phoneNumber',
+  phonenumber: 'phoneNumber',
+  nationality: 'nationality',
+  organization: 'organization',
+  organisation: 'organization',
+  position: 'position',
+  delegatetype: 'delegateType',
+  attendancemode: 'attendanceMode',
+  languages: 'languagesSpoken',
+  languagesspoken: 'languagesSpoken',
+  preferredlanguage: 'preferredLanguage',
+  bio: 'bio',
+  idtype: 'identification.type',
+  identificationtype: 'identification.type',
+  idnumber: 'identification.number',
+  identificationnumber: 'identification.number',
+  idexpirydate: 'identification.expiryDate',
+  identificationexpirydate: 'identification.expiryDate',
+  idissuingcountry: 'identification.issuingCountry',
+  identificationissuingcountry: 'identification.issuingCountry',
+  street: 'address.street',
+  city: 'address.city',
+  state: 'address.state',
+  country: 'address.country',
+  postalcode: 'address.postalCode',
+  emergencycontactname: 'emergencyContact.name',
+  emergencycontactrelationship: 'emergencyContact.relationship',
+  emergencycontactphone: 'emergencyContact.phoneNumber',
+  emergencycontactphonenumber: 'emergencyContact.phoneNumber',
+  emergencycontactemail: 'emergencyContact.email',
+  consenttophotography: 'consentToPhotography',
+  consenttodataprocessing: 'consentToDataProcessing',
+  requiresvisa: 'requiresVisa',
+  hasaccommodation: 'hasAccommodation',
+};
+
+const BOOLEAN_FIELDS = [
+  'consentToPhotography',
+  'consentToDataProcessing',
+  'requiresVisa',
+  'hasAccommodation',
+];
+
+// Enum values are stored snake_case; accept "Board Member" as well
+const ENUM_FIELDS = ['delegateType', 'attendanceMode', 'identification.type'];
+
+// Nested objects the DTO requires even when no column fills them
+const NESTED_FIELDS = ['identification', 'address', 'emergencyContact'];
+
+@Injectable()
+export class DelegateImportService {
+  private readonly logger = new Logger(DelegateImportService.name);
+
+  constructor(
+    @InjectModel(Delegate.name)
+    private readonly delegateModel: Model<DelegateDocument>,
+    @InjectModel(Event.name)
+    private readonly eventModel: Model<EventDocument>,
+    private readonly delegatesService: DelegatesService,
+    private readonly systemLogsService: SystemLogsService,
+  ) {}
+
+  /**
+   * Validate every row of an uploaded sheet and, unless this is a dry run,
+   * create the valid ones. Rows are checked against the registration DTO and
+   * for duplicates on email + event year, both inside the file and against
+   * existing delegates.
+   */
+  async import(
+    file: Express.Multer.File,
+    options: ImportDelegatesOptions,
+  ): Promise<ImportDelegatesReportDto> {
+    const sheet = await this.readSheet(file);
+    if (sheet.length === 0) {
+      throw new BadRequestException('The uploaded file has no data rows');
+    }
+    if (sheet.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(
+        `Imports are limited to ${MAX_IMPORT_ROWS} rows; the file has ${sheet.length}`,
+      );
+    }
+
+    const rows = await Promise.all(
+      sheet.map(({ row, values }) =>
+        this.validateRow(row, values, options.eventYear),
+      ),
+    );
+
+    const events = await this.resolveEvents(rows);
+    this.markDuplicatesInFile(rows);
+    await this.markExistingDelegates(rows);
+
+    const valid = rows.filter((r) => r.result.status === ImportRowStatus.VALID);
+
+    const report: ImportDelegatesReportDto = {
+      dryRun: options.dryRun,
+      totalRows: rows.length,
+      validRows: valid.length,
+      invalidRows: rows.filter(
+        (r) => r.result.status === ImportRowStatus.INVALID,
+      ).length,
+      duplicateRows: rows.filter(
+        (r) => r.result.status === ImportRowStatus.DUPLICATE,
+      ).length,
+      created: 0,
+      waitlisted: 0,
+      rows: rows.map((r) => r.result),
+    };
+
+    if (options.dryRun || valid.length === 0) {
+      return report;
+    }
+
+    for (const [eventYear, event] of events) {
+      const eventRows = valid.filter((r) => r.eventYear === eventYear);
+      if (event && eventRows.length > 0) {
+        await this.createDelegates(event, eventRows, options.sendEmails);
+      }
+    }
+
+    report.created = rows.filter((r) =>
+      [ImportRowStatus.CREATED, ImportRowStatus.WAITLISTED].includes(
+        r.result.status,
+      ),
+    ).length;
+    report.waitlisted = rows.filter(
+      (r) => r.result.status === ImportRowStatus.WAITLISTED,
+    ).length;
+    // Rows that failed to save count as invalid
+    report.invalidRows = rows.filter(
+      (r) => r.result.status === ImportRowStatus.INVALID,
+    ).length;
+
+    await this.systemLogsService.createLog(
+      'Delegates Imported',
+      `Imported ${report.created} of ${report.totalRows} rows from ${file.originalname} (${report.waitlisted} waitlisted)`,
+      LogSeverity.INFO,
+      options.importedBy,
+    );
+
+    this.logger.log(
+      `Imported ${report.created} delegates from ${file.originalname}`,
+    );
+    return report;
+  }
+
+  // ===========================================================================
+  // PARSING
+  // ===========================================================================
+
+  /**
+   * Read the first worksheet; the first row holds the column headers
+   */
+  private async readSheet(
+    file: Express.Multer.File,
+  ): Promise<{ row: number; values: Record<string, string> }[]> {
+    const workbook = new ExcelJS.Workbook();
+    const isCsv =
+      file.mimetype === 'text/csv' || /\.csv$/i.test(file.originalname);
+
+    try {
+      if (isCsv) {
+        // Keep every cell as text so phone numbers keep their leading "+"
+        await workbook.csv.read(Readable.from(file.buffer), {
+          map: (value: string) => value,
+        });
+      } else {
+        await workbook.xlsx.load(file.buffer);
+      }
+    } catch (error) {
+      this.logger.warn(`Unreadable import file: ${error.message}`);
+      throw new BadRequestException(
+        'The file could not be read as .xlsx or .csv',
+      );
+    }
+
+    const worksheet = workbook.worksheets[0];
+    if (!worksheet) {
+      return [];
+    }
+
+    const columns = new Map<number, string>();
+    const unknownHeaders: string[] = [];
+    worksheet.getRow(1).eachCell((cell, col) => {
+      const header = cell.text.trim();
+      const field = COLUMN_MAP[header.toLowerCase().replace(/[^a-z0-9]/g, '')];
+      if (field) {
+        columns.set(col, field);
+      } else if (header) {
+        unknownHeaders.push(header);
+      }
+    });
+
+    if (columns.size === 0) {
+      throw new BadRequestException(
+        'No recognised column headers found in the first row',
+      );
+    }
+    if (unknownHeaders.length > 0) {
+      this.logger.warn(
+        `Ignoring unknown columns: ${unknownHeaders.join(', ')}`,
+      );
+    }
+
+    const rows: { row: number; values: Record<string, string> }[] = [];
+    worksheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) {
+        return;
+      }
+      const values: Record<string, string> = {};
+      columns.forEach((field, col) => {
+        const text = row.getCell(col).text.trim();
+        if (text) {
+          values[field] = text;
+        }
+      });
+      if (Object.keys(values).length > 0) {
+        rows.push({ row: rowNumber, values });
+      }
+    });
+    return rows;
+  }
+
+  /**
+   * Shape a row into the registration payload and validate it
+   */
+  private async validateRow(
+    row: number,
+    values: Record<string, string>,
+    defaultEventYear?: number,
+  ): Promise<ParsedRow> {
+    const plain: Record<string, any> = {};
+    const parseErrors: string[] = [];
+    NESTED_FIELDS.forEach((field) => (plain[field] = {}));
+
+    for (const [field, raw] of Object.entries(values)) {
+      let value: any = raw;
+      if (BOOLEAN_FIELDS.includes(field)) {
+        value = this.parseBoolean(raw);
+        if (value === undefined) {
+          parseErrors.push(`${field}: expected yes or no, got "${raw}"`);
+        }
+      } else if (ENUM_FIELDS.includes(field)) {
+        value = raw.toLowerCase().replace(/[\s-]+/g, '_');
+      } else if (field === 'title') {
+        value = this.parseTitle(raw);
+      } else if (field === 'email') {
+        value = raw.toLowerCase();
+      } else if (field === 'eventYear') {
+        value = Number(raw);
+      } else if (field === 'languagesSpoken') {
+        value = raw
+          .split(/[,;]/)
+          .map((language) => language.trim())
+          .filter(Boolean);
+      }
+
+      const [parent, child] = field.split('.');
+      if (child) {
+        plain[parent][child] = value;
+      } else {
+        plain[field] = value;
+      }
+    }
+    plain.eventYear ??= defaultEventYear;
+
+    const data = plainToInstance(ImportDelegateRowDto, plain);
+    const errors = [
+      ...parseErrors,
+      ...this.flattenErrors(await validate(data)),
+    ];
+
+    return {
+      row,
+      email: plain.email,
+      eventYear: plain.eventYear,
+      data,
+      result: {
+        row,
+        email: plain.email,
+        status: errors.length ? ImportRowStatus.INVALID : ImportRowStatus.VALID,
+        errors,
+      },
+    };
+  }
+
+  private parseBoolean(raw: string): boolean | undefined {
+    const value = raw.toLowerCase();
+    if (['true', 'yes', 'y', '1'].includes(value)) {
+      return true;
+    }
+    if (['false', 'no', 'n', '0'].includes(value)) {
+      return false;
+    }
+    return undefined;
+  }
+
+  private parseTitle(raw: string): string {
+    const bare = raw.replace(/\.$/, '').toLowerCase();
+    return (
+      Object.values(Title).find(
+        (title) => title.replace(/\.$/, '').toLowerCase() === bare,
+      ) ?? raw
+    );
+  }
+
+  private flattenErrors(errors: ValidationError[], parent = ''): string[] {
+    return errors.flatMap((error) => {
+      const path = parent ? `${parent}.${error.property}` : error.property;
+      const messages = Object.values(error.constraints || {}).map(
+        (message) => `${path}: ${message}`,
+      );
+      return [...messages, ...this.flattenErrors(error.children || [], path)];
+    });
+  }
+
+  // ===========================================================================
+  // CROSS-ROW CHECKS
+  // ===========================================================================
+
+  /**
+   * Look up the event for each year in the file; rows for a year without an
+   * event are invalid
+   */
+  private async resolveEvents(
+    rows: ParsedRow[],
+  ): Promise<Map<number, EventDocument | null>> {
+    const years = [
+      ...new Set(
+        rows
+          .filter((r) => r.result.status === ImportRowStatus.VALID)
+          .map((r) => r.eventYear),
+      ),
+    ];
+
+    const events = new Map<number, EventDocument | null>();
+    for (const year of years) {
+      events.set(
+        year,
+        await this.eventModel.findOne({ eventYear: year }).exec(),
+      );
+    }
+
+    rows
+      .filter(
+        (r) =>
+          r.result.status === ImportRowStatus.VALID && !events.get(r.eventYear),
+      )
+      .forEach((r) => {
+        r.result.status = ImportRowStatus.INVALID;
+        r.result.errors.push(`eventYear: no event found for ${r.eventYear}`);
+      });
+
+    return events;
+  }
+
+  private markDuplicatesInFile(rows: ParsedRow[]): void {
+    const firstSeen = new Map<string, number>();
+    for (const r of rows) {
+      if (r.result.status !== ImportRowStatus.VALID) {
+        continue;
+      }
+      const key = `${r.email}|${r.eventYear}`;
+      const original = firstSeen.get(key);
+      if (original) {
+        r.result.status = ImportRowStatus.DUPLICATE;
+        r.result.errors.push(`email: duplicate of row ${original}`);
+      } else {
+        firstSeen.set(key, r.row);
+      }
+    }
+  }
+
+  private async markExistingDelegates(rows: ParsedRow[]): Promise<void> {
+    const valid = rows.filter((r) => r.result.status === ImportRowStatus.VALID);
+    const years = [...new Set(valid.map((r) => r.eventYear))];
+
+    for (const year of years) {
+      const emails = valid
+        .filter((r) => r.eventYear === year)
+        .map((r) => r.email);
+      const existing = await this.delegateModel
+        .find({ eventYear: year, email: { $in: emails } })
+        .select('email')
+        .lean()
+        .exec();
+      const registered = new Set(existing.map((d) => d.email));
+
+      valid
+        .filter((r) => r.eventYear === year && registered.has(r.email))
+        .forEach((r) => {
+          r.result.status = ImportRowStatus.DUPLICATE;
+          r.result.errors.push(
+            `email: already registered for the ${year} event`,
+          );
+        });
+    }
+  }
+
+  // ===========================================================================
+  // COMMIT
+  // ===========================================================================
+
+  /**
+   * Insert the rows in batches, waitlisting any beyond the event's capacity.
+   * Imported delegates have no password and set one through password reset.
+   * Rows that cannot be saved are marked invalid and the rest still go in.
+   */
+  private async createDelegates(
+    event: EventDocument,
+    rows: ParsedRow[],
+    sendEmails: boolean,
+  ): Promise<void> {
+    const eventId = event._id as Types.ObjectId;
+
+    for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+      const batch = rows.slice(start, start + INSERT_BATCH_SIZE);
+      let placements: (number | undefined)[];
+      try {
+        placements = await this.delegatesService.allocatePlaces(
+          event,
+          batch.length,
+        );
+      } catch (error) {
+        this.failRows(batch, error.message);
+        continue;
+      }
+
+      let created: DelegateDocument[];
+      let reasons = new Map<number, string>();
+      try {
+        created = await this.delegateModel.insertMany(
+          batch.map((r, i) => ({
+            ...instanceToPlain(r.data),
+            eventId,
+            ...(placements[i] !== undefined && {
+              status: DelegateStatus.WAITLISTED,
+              waitlistPosition: placements[i],
+            }),
+          })),
+          // Keep inserting past a row that fails, e.g. on a unique index
+          { ordered: false },
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to insert import batch at row ${batch[0].row}: ${error.message}`,
+          error.stack,
+        );
+        created = error.insertedDocs ?? [];
+        reasons = new Map(
+          (error.writeErrors ?? []).map((writeError) => [
+            writeError.index,
+            writeError.err?.errmsg ?? writeError.errmsg ?? error.message,
+          ]),
+        );
+        reasons.set(-1, error.message);
+      }
+
+      const byEmail = new Map(
+        created.map((delegate) => [delegate.email, delegate]),
+      );
+      const failed: (number | undefined)[] = [];
+      for (const [i, r] of batch.entries()) {
+        const delegate = byEmail.get(r.email);
+        if (!delegate) {
+          failed.push(placements[i]);
+          this.failRows(
+            [r],
+            reasons.get(i) ?? reasons.get(-1) ?? 'Could not be saved',
+          );
+          continue;
+        }
+
+        r.result.delegateId = delegate._id.toString();
+        r.result.status =
+          delegate.status === DelegateStatus.WAITLISTED
+            ? ImportRowStatus.WAITLISTED
+            : ImportRowStatus.CREATED;
+
+        if (sendEmails) {
+          await this.delegatesService
+            .sendRegistrationNotifications(delegate)
+            .catch((err) => {
+              this.logger.error(
+                `Failed to notify imported delegate ${delegate.email}: ${err.message}`,
+                err.stack,
+              );
+            });
+        }
+      }
+
+      if (failed.length > 0) {
+        await this.delegatesService
+          .releasePlaces(eventId, failed)
+          .catch((err) => {
+            this.logger.error(
+              `Failed to release places of unsaved import rows: ${err.message}`,
+              err.stack,
+            );
+          });
+      }
+    }
+  }
+
+  private failRows(rows: ParsedRow[], reason: string): void {
+    for (const r of rows) {
+      r.result.status = ImportRowStatus.INVALID;
+      r.result.errors.push(`Could not be saved: ${reason}`);
+    }
+  }
+}
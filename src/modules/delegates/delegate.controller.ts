@@ -17,9 +17,15 @@ import {
   Res,
   UseInterceptors,
   UploadedFiles,
+  UploadedFile,
   BadRequestException,
+  ForbiddenException,
+  ParseBoolPipe,
 } from '@nestjs/common';
-import { FileFieldsInterceptor } from '@nestjs/platform-express';
+import {
+  FileFieldsInterceptor,
+  FileInterceptor,
+} from '@nestjs/platform-express';
 import {
   ApiTags,
   ApiOperation,
@@ -34,18 +40,30 @@ import {
   ApiOkResponse,
   ApiResponse,
   ApiConsumes,
+  ApiProduces,
 } from '@nestjs/swagger';
 import { DelegatesService } from './delegate.service';
+import { DelegateImportService } from './delegate-import.service';
+import { DelegateExportService } from './delegate-export.service';
 import { BadgeService } from '../badge/badge.service';
+import { WalletPass, WalletPassService } from '../badge/wallet-pass.service';
 import {
   CreateDelegateDto,
   UpdateDelegateDto,
+  DELEGATE_EDITABLE_FIELDS,
 } from './dto/create-delegate.dto';
 import {
   ApproveDelegateDto,
   RejectDelegateDto,
+  SuspendDelegateDto,
   CheckInDelegateDto,
 } from './dto/admin-delegate.dto';
+import {
+  CheckInScanResponseDto,
+  ScanCheckInDto,
+} from './dto/check-in-scan.dto';
+import { ImportDelegatesReportDto } from './dto/import-delegates.dto';
+import { ExportDelegatesQueryDto } from './dto/export-delegates.dto';
 import {
   AttendanceMode,
   Delegate,
@@ -57,17 +75,33 @@ import { UseGuards } from '@nestjs/common';
 import { ApiBearerAuth } from '@nestjs/swagger';
 import { Public } from '../auth/decorators/public.decorator';
 import { LoginUserDto } from '../auth/dto/login.dto';
-import { AuthResponse } from '../auth/interfaces/auth.interface';
-import { Request as ExpressRequest } from 'express';
+import {
+  AuthenticatedRequest,
+  AuthResponse,
+} from '../auth/interfaces/auth.interface';
+import { Request as ExpressRequest, Response } from 'express';
 import {
   ConfirmPasswordResetDto,
   RequestPasswordResetDto,
 } from '../auth/dto/reset-password.dto';
 import { CloudinaryService } from '../cloudinary/cloudinary.service';
+import { PasswordlessLoginService } from './passwordless-login.service';
+import {
+  LoginWithCodeDto,
+  LoginWithLinkDto,
+  RequestLoginCodeDto,
+} from './dto/passwordless-login.dto';
 import { RegisterPushTokenDto } from '../auth/dto/register-push-token.dto';
 import { NotificationService } from '../notifications/services/notification.service';
-import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import * as sharp from 'sharp';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../../common/enums/permission.enum';
+import {
+  OwnDelegate,
+  Principals,
+} from '../../common/decorators/principals.decorator';
+import { PrincipalType } from '../../common/enums/principal-type.enum';
 
 @ApiTags('Delegates')
 @ApiBearerAuth()
@@ -76,9 +110,13 @@ export class DelegatesController {
   private readonly logger = new Logger(DelegatesController.name);
   constructor(
     private readonly delegatesService: DelegatesService,
+    private readonly delegateImportService: DelegateImportService,
+    private readonly delegateExportService: DelegateExportService,
     private readonly badgeService: BadgeService,
+    private readonly walletPassService: WalletPassService,
     private readonly cloudinaryService: CloudinaryService,
     private readonly notificationService: NotificationService,
+    private readonly passwordlessLoginService: PasswordlessLoginService,
   ) {}
 
   @Post()
@@ -377,7 +415,7 @@ export class DelegatesController {
   }
 
   @Get()
-  @Public()
+  @RequirePermissions(Permission.DELEGATES_READ)
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Get all delegates',
@@ -453,12 +491,31 @@ export class DelegatesController {
     );
   }
 
+  @Get('export')
+  @RequirePermissions(Permission.DELEGATES_EXPORT)
+  @ApiOperation({
+    summary: 'Export delegates to Excel or CSV',
+    description:
+      'Streams the delegate list using the same filters as the list endpoint plus status and nationality. Choose columns with a comma-separated list; personal columns are left blank for delegates who did not consent to data processing.',
+  })
+  @ApiOkResponse({ description: 'Spreadsheet file download' })
+  @ApiBadRequestResponse({ description: 'Unknown column or invalid filter' })
+  async export(
+    @Query() query: ExportDelegatesQueryDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    this.logger.log(
+      `GET /delegates/export - Exporting delegates as ${query.format || 'xlsx'}`,
+    );
+    await this.delegateExportService.export(query, res);
+  }
+
   // ===========================================================================
   // ADMIN ROUTES
   // ===========================================================================
 
   @Post(':id/approve')
-  @Public()
+  @RequirePermissions(Permission.DELEGATES_APPROVE)
   @ApiOperation({ summary: 'Approve a delegate registration' })
   @ApiParam({ name: 'id', description: 'Delegate ID' })
   @ApiOkResponse({
@@ -466,17 +523,25 @@ export class DelegatesController {
     type: Delegate,
   })
   @ApiNotFoundResponse({ description: 'Delegate not found' })
-  @ApiBadRequestResponse({ description: 'Delegate already approved' })
+  @ApiBadRequestResponse({
+    description: 'Delegate already approved or event at full capacity',
+  })
   async approve(
     @Param('id') id: string,
     @Body() approveDto: ApproveDelegateDto,
+    @Req() req: ExpressRequest,
   ): Promise<Delegate> {
     this.logger.log(`POST /delegates/${id}/approve - Approving delegate`);
-    return this.delegatesService.approve(id, approveDto, approveDto.approvedBy);
+    return this.delegatesService.approve(
+      id,
+      approveDto,
+      approveDto.approvedBy,
+      req,
+    );
   }
 
   @Post(':id/reject')
-  @Public()
+  @RequirePermissions(Permission.DELEGATES_APPROVE)
   @ApiOperation({ summary: 'Reject a delegate registration' })
   @ApiParam({ name: 'id', description: 'Delegate ID' })
   @ApiOkResponse({
@@ -488,13 +553,157 @@ export class DelegatesController {
   async reject(
     @Param('id') id: string,
     @Body() rejectDto: RejectDelegateDto,
+    @Req() req: ExpressRequest,
   ): Promise<Delegate> {
     this.logger.log(`POST /delegates/${id}/reject - Rejecting delegate`);
-    return this.delegatesService.reject(id, rejectDto, rejectDto.rejectedBy);
+    return this.delegatesService.reject(
+      id,
+      rejectDto,
+      rejectDto.rejectedBy,
+      req,
+    );
+  }
+
+  @Post(':id/suspend')
+  @RequirePermissions(Permission.DELEGATES_APPROVE)
+  @ApiOperation({
+    summary: 'Suspend a delegate registration',
+    description:
+      'Suspends the delegate and frees their place, promoting the next waitlisted delegate if any.',
+  })
+  @ApiParam({ name: 'id', description: 'Delegate ID' })
+  @ApiOkResponse({
+    description: 'Delegate suspended successfully',
+    type: Delegate,
+  })
+  @ApiNotFoundResponse({ description: 'Delegate not found' })
+  @ApiBadRequestResponse({ description: 'Delegate already suspended' })
+  async suspend(
+    @Param('id') id: string,
+    @Body() suspendDto: SuspendDelegateDto,
+    @Req() req: ExpressRequest,
+  ): Promise<Delegate> {
+    this.logger.log(`POST /delegates/${id}/suspend - Suspending delegate`);
+    return this.delegatesService.suspend(
+      id,
+      suspendDto,
+      suspendDto.suspendedBy,
+      req,
+    );
+  }
+
+  @Post('import')
+  @RequirePermissions(Permission.DELEGATES_IMPORT)
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: {
+        fileSize: 5 * 1024 * 1024, // 5MB limit
+      },
+      fileFilter: (req, file, cb) => {
+        if (!file.originalname.match(/\.(xlsx|csv)$/i)) {
+          return cb(
+            new BadRequestException('Only .xlsx and .csv files are allowed'),
+            false,
+          );
+        }
+        cb(null, true);
+      },
+    }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Bulk import delegates from Excel or CSV',
+    description:
+      'The first row must hold column headers (e.g. First Name, Last Name, Email, Phone Number, Nationality, Delegate Type, Attendance Mode, ID Type, ID Number, Languages). Every row is validated like a registration and checked for duplicate email + event year. Dry run (the default) only returns the per-row report; otherwise valid rows are created, waitlisting any beyond event capacity. Imported delegates set their password through password reset.',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'Spreadsheet (.xlsx or .csv), max 5MB / 5000 rows',
+        },
+        dryRun: {
+          type: 'boolean',
+          default: true,
+          description: 'Validate only, create nothing',
+        },
+        sendEmails: {
+          type: 'boolean',
+          default: false,
+          description: 'Send registration emails to created delegates',
+        },
+        eventYear: {
+          type: 'number',
+          description: 'Event year for rows without an Event Year column',
+        },
+        importedBy: {
+          type: 'string',
+          description: 'ID of the admin running the import',
+        },
+      },
+    },
+  })
+  @ApiOkResponse({
+    description: 'Per-row validation report',
+    type: ImportDelegatesReportDto,
+  })
+  @ApiBadRequestResponse({
+    description: 'Missing, unreadable or oversized file',
+  })
+  async importDelegates(
+    @UploadedFile() file: Express.Multer.File,
+    @Body('dryRun', new DefaultValuePipe(true), ParseBoolPipe)
+    dryRun: boolean,
+    @Body('sendEmails', new DefaultValuePipe(false), ParseBoolPipe)
+    sendEmails: boolean,
+    @Body('eventYear', new ParseIntPipe({ optional: true }))
+    eventYear?: number,
+    @Body('importedBy') importedBy?: string,
+  ): Promise<ImportDelegatesReportDto> {
+    if (!file) {
+      throw new BadRequestException('A .xlsx or .csv file is required');
+    }
+    this.logger.log(
+      `POST /delegates/import - Importing ${file.originalname} (dryRun: ${dryRun})`,
+    );
+    return this.delegateImportService.import(file, {
+      dryRun,
+      sendEmails,
+      eventYear,
+      importedBy,
+    });
+  }
+
+  @Post('check-in/scan')
+  @RequirePermissions(Permission.CHECK_IN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Check in a delegate by scanning their badge QR code',
+    description:
+      'Verifies the signed badge payload, rejects forged badges, badges from another event year and non-approved delegates, then checks the delegate in.',
+  })
+  @ApiBody({ type: ScanCheckInDto })
+  @ApiOkResponse({
+    description:
+      'Scan processed. Inspect `result` for ok, already_checked_in, wrong_event, not_approved or forged.',
+    type: CheckInScanResponseDto,
+  })
+  @ApiNotFoundResponse({ description: 'Delegate not found' })
+  async scanCheckIn(
+    @Body() scanDto: ScanCheckInDto,
+    @Req() req: ExpressRequest,
+  ): Promise<CheckInScanResponseDto> {
+    this.logger.log(`POST /delegates/check-in/scan - Scanning badge`);
+    return this.delegatesService.scanCheckIn(scanDto, scanDto.checkedInBy, req);
   }
 
   @Post(':id/check-in')
-  @Public()
+  @RequirePermissions(Permission.CHECK_IN)
   @ApiOperation({ summary: 'Check in a delegate' })
   @ApiParam({ name: 'id', description: 'Delegate ID' })
   @ApiOkResponse({
@@ -506,17 +715,21 @@ export class DelegatesController {
   async checkIn(
     @Param('id') id: string,
     @Body() checkInDto: CheckInDelegateDto,
+    @Req() req: ExpressRequest,
   ): Promise<Delegate> {
     this.logger.log(`POST /delegates/${id}/check-in - Checking in delegate`);
     return this.delegatesService.checkIn(
       id,
       checkInDto,
       checkInDto.checkedInBy,
+      req,
     );
   }
 
   @Get(':id/badge')
-  @Public()
+  @Principals(PrincipalType.STAFF, PrincipalType.DELEGATE)
+  @OwnDelegate()
+  @RequirePermissions(Permission.DELEGATES_READ)
   @ApiOperation({ summary: 'Download a delegate badge' })
   @ApiParam({ name: 'id', description: 'Delegate ID' })
   @Header('Content-Type', 'image/png')
@@ -527,7 +740,50 @@ export class DelegatesController {
     res.send(badgeBuffer);
   }
 
+  @Get(':id/pass')
+  @Principals(PrincipalType.STAFF, PrincipalType.DELEGATE)
+  @OwnDelegate()
+  @RequirePermissions(Permission.DELEGATES_READ)
+  @ApiOperation({
+    summary: 'Get a delegate wallet pass as JSON',
+    description:
+      'Pass definition with event dates, venue, delegate details and the signed check-in QR. Only issued to approved delegates.',
+  })
+  @ApiParam({ name: 'id', description: 'Delegate ID' })
+  @ApiOkResponse({ description: 'Pass definition (Apple Wallet pass.json)' })
+  @ApiBadRequestResponse({ description: 'Delegate is not approved' })
+  @ApiNotFoundResponse({ description: 'Delegate not found' })
+  async getWalletPass(@Param('id') id: string): Promise<WalletPass> {
+    this.logger.log(`GET /delegates/${id}/pass - Fetching wallet pass`);
+    return this.walletPassService.getPass(id);
+  }
+
+  @Get(':id/pass.pkpass')
+  @Principals(PrincipalType.STAFF, PrincipalType.DELEGATE)
+  @OwnDelegate()
+  @RequirePermissions(Permission.DELEGATES_READ)
+  @ApiOperation({
+    summary: 'Download a delegate wallet pass',
+    description: 'Signed .pkpass bundle for Apple Wallet.',
+  })
+  @ApiParam({ name: 'id', description: 'Delegate ID' })
+  @ApiProduces('application/vnd.apple.pkpass')
+  @ApiBadRequestResponse({ description: 'Delegate is not approved' })
+  @ApiNotFoundResponse({ description: 'Delegate not found' })
+  @ApiResponse({
+    status: HttpStatus.SERVICE_UNAVAILABLE,
+    description: 'Wallet pass signing is not configured',
+  })
+  async downloadWalletPass(@Param('id') id: string, @Res() res: Response) {
+    this.logger.log(`GET /delegates/${id}/pass.pkpass - Downloading pass`);
+    const pass = await this.walletPassService.generatePkpass(id);
+    res.setHeader('Content-Type', 'application/vnd.apple.pkpass');
+    res.setHeader('Content-Disposition', 'attachment; filename=pass.pkpass');
+    res.send(pass);
+  }
+
   @Get('statistics')
+  @RequirePermissions(Permission.DELEGATES_READ)
   @UseGuards(JwtAuthGuard)
   @ApiOperation({
     summary: 'Get delegate statistics',
@@ -577,6 +833,7 @@ export class DelegatesController {
   }
 
   @Get('email/:email')
+  @RequirePermissions(Permission.DELEGATES_READ)
   @UseGuards(JwtAuthGuard)
   @ApiOperation({
     summary: 'Get delegate by email',
@@ -617,7 +874,9 @@ export class DelegatesController {
   }
 
   @Get(':id')
-  @Public()
+  @Principals(PrincipalType.STAFF, PrincipalType.DELEGATE)
+  @OwnDelegate()
+  @RequirePermissions(Permission.DELEGATES_READ)
   @ApiOperation({
     summary: 'Get delegate by ID',
     description: 'Retrieves a specific delegate by their unique ID',
@@ -646,7 +905,9 @@ export class DelegatesController {
   }
 
   @Patch(':id')
-  @Public()
+  @Principals(PrincipalType.STAFF, PrincipalType.DELEGATE)
+  @OwnDelegate()
+  @RequirePermissions(Permission.DELEGATES_UPDATE)
   @ApiOperation({
     summary: 'Update delegate',
     description: 'Updates an existing delegate with partial data',
@@ -672,17 +933,34 @@ export class DelegatesController {
     type: String,
     description: 'Delegate ID (MongoDB ObjectId)',
   })
-  @ApiBody({ type: UpdateDelegateDto })
+  @ApiBody({
+    type: UpdateDelegateDto,
+    description: `Delegates may only change their own ${DELEGATE_EDITABLE_FIELDS.join(', ')}`,
+  })
   async update(
     @Param('id') id: string,
     @Body() updateDelegateDto: UpdateDelegateDto,
+    @Req() req: AuthenticatedRequest,
   ): Promise<Delegate> {
     this.logger.log(`PATCH /delegates/${id}`);
-    return await this.delegatesService.update(id, updateDelegateDto);
+    if (req.principalType === PrincipalType.DELEGATE) {
+      const editable: readonly string[] = DELEGATE_EDITABLE_FIELDS;
+      const forbidden = Object.keys(updateDelegateDto).filter(
+        (field) => !editable.includes(field),
+      );
+      if (forbidden.length > 0) {
+        throw new ForbiddenException(
+          `Delegates cannot change: ${forbidden.join(', ')}`,
+        );
+      }
+    }
+    return await this.delegatesService.update(id, updateDelegateDto, req);
   }
 
   @Delete('delete-account/:id')
-  @Public()
+  @Principals(PrincipalType.STAFF, PrincipalType.DELEGATE)
+  @OwnDelegate()
+  @RequirePermissions(Permission.DELEGATES_DELETE)
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Delete delegate',
@@ -714,9 +992,10 @@ export class DelegatesController {
   })
   async remove(
     @Param('id') id: string,
+    @Req() req: ExpressRequest,
   ): Promise<{ message: string; deletedId: string }> {
     this.logger.log(`DELETE /delegates/${id}`);
-    return await this.delegatesService.remove(id);
+    return await this.delegatesService.remove(id, req);
   }
 
   //auth
@@ -742,7 +1021,12 @@ export class DelegatesController {
             roles: { type: 'array', items: { type: 'string' } },
           },
         },
-        token: { type: 'string' },
+        token: { type: 'string', description: 'Access token (15 minutes)' },
+        refreshToken: {
+          type: 'string',
+          description: 'Exchange at POST /sessions/refresh',
+        },
+        expiresIn: { type: 'number', example: 900 },
       },
     },
   })
@@ -750,6 +1034,11 @@ export class DelegatesController {
     status: HttpStatus.UNAUTHORIZED,
     description: 'Invalid credentials or inactive account',
   })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description:
+      'Too many failed attempts; retry later or ask an admin to unlock',
+  })
   async login(
     @Body() loginUserDto: LoginUserDto,
     @Req() req: ExpressRequest,
@@ -757,6 +1046,73 @@ export class DelegatesController {
     return this.delegatesService.login(loginUserDto, req);
   }
 
+  @Public()
+  @Post('/login/code/request')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Request a one-time sign-in code',
+    description:
+      'Passwordless login for delegates. Sends a six-digit code by email (with a sign-in link) or SMS. Codes expire after 10 minutes and a new one is sent at most once a minute.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Sent if the email belongs to an approved delegate.',
+    schema: { properties: { message: { type: 'string' } } },
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many wrong codes; retry once the lock lifts',
+  })
+  async requestLoginCode(
+    @Body() requestDto: RequestLoginCodeDto,
+    @Req() req: ExpressRequest,
+  ): Promise<{ message: string }> {
+    return this.passwordlessLoginService.requestCode(requestDto, req);
+  }
+
+  @Public()
+  @Post('/login/code')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Sign in with a one-time code',
+    description: 'Returns the same tokens as POST /delegates/login.',
+  })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Login successful' })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid, used or expired code',
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many wrong codes; request a new code once the lock lifts',
+  })
+  async loginWithCode(
+    @Body() loginDto: LoginWithCodeDto,
+    @Req() req: ExpressRequest,
+  ): Promise<AuthResponse> {
+    return this.passwordlessLoginService.loginWithCode(loginDto, req);
+  }
+
+  @Public()
+  @Post('/login/link')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Sign in with an emailed sign-in link',
+    description:
+      'The app posts the token from the link. Returns the same tokens as POST /delegates/login.',
+  })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Login successful' })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid, used or expired link',
+  })
+  async loginWithLink(
+    @Body() loginDto: LoginWithLinkDto,
+    @Req() req: ExpressRequest,
+  ): Promise<AuthResponse> {
+    return this.passwordlessLoginService.loginWithLink(loginDto, req);
+  }
+
   @Public()
   @Post('request-password-reset')
   @HttpCode(HttpStatus.OK)
@@ -787,13 +1143,18 @@ export class DelegatesController {
   @ApiOperation({ summary: 'Confirm password reset with token' })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'Password has been successfully reset.',
+    description:
+      'Password has been successfully reset. All existing sessions are signed out.',
     schema: { properties: { message: { type: 'string' } } },
   })
   @ApiResponse({
     status: HttpStatus.BAD_REQUEST,
     description: 'Invalid or expired token, or error processing request.',
   })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description: 'Too many wrong PINs; request a new PIN once the lock lifts',
+  })
   async confirmPasswordReset(
     @Body() confirmPasswordResetDto: ConfirmPasswordResetDto,
     @Req() req: ExpressRequest,
@@ -805,7 +1166,8 @@ export class DelegatesController {
   }
 
   @Post('/delegate/:id/push-token')
-  @Public()
+  @Principals(PrincipalType.DELEGATE)
+  @OwnDelegate()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: 'Register Expo push token for the authenticated user',
@@ -9,15 +9,26 @@ import {
   SystemLogSchema,
 } from '../system-logs/schemas/system-log.schema';
 import { NotificationsModule } from '../notifications/notifications.module';
+import { SessionsModule } from '../sessions/sessions.module';
+import { LockoutModule } from '../lockout/lockout.module';
+import { AuditModule } from '../audit/audit.module';
+import { EmailTemplatesModule } from '../email-templates/email-templates.module';
 import { Delegate, DelegateSchema } from './delegates.schema';
 import { DelegatesService } from './delegate.service';
+import { DelegateImportService } from './delegate-import.service';
+import { DelegateExportService } from './delegate-export.service';
 import { DelegatesController } from './delegate.controller';
+import { KioskService } from './kiosk.service';
+import { PasswordlessLoginService } from './passwordless-login.service';
+import { KioskController } from './kiosk.controller';
+import {
+  OfflineCheckIn,
+  OfflineCheckInSchema,
+} from './offline-check-in.schema';
 import { PassportModule } from '@nestjs/passport';
 import { QueuesModule } from '../queues/queues.module';
 import { CloudinaryModule } from '../cloudinary/cloudinary.module';
-import { JwtStrategy } from './strategies/jwt.strategy';
-import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
-import { RolesGuard } from '../auth/guards/roles.guard';
+import { DelegateJwtStrategy } from './strategies/delegate-jwt.strategy';
 import { Event, EventSchema } from '../events/events.schema';
 
 @Module({
@@ -30,6 +41,9 @@ import { Event, EventSchema } from '../events/events.schema';
       { name: SystemLog.name, schema: SystemLogSchema },
     ]),
     MongooseModule.forFeature([{ name: Event.name, schema: EventSchema }]),
+    MongooseModule.forFeature([
+      { name: OfflineCheckIn.name, schema: OfflineCheckInSchema },
+    ]),
     PassportModule.register({ defaultStrategy: 'jwt' }),
     JwtModule.registerAsync({
       imports: [ConfigModule],
@@ -42,22 +56,22 @@ import { Event, EventSchema } from '../events/events.schema';
       }),
     }),
     NotificationsModule,
+    SessionsModule,
+    LockoutModule,
+    AuditModule,
+    EmailTemplatesModule,
     BadgeModule,
     QueuesModule,
   ],
-  controllers: [DelegatesController],
+  controllers: [DelegatesController, KioskController],
   providers: [
     SystemLogsService,
     DelegatesService,
-    JwtStrategy,
-    {
-      provide: 'APP_GUARD',
-      useClass: JwtAuthGuard,
-    },
-    {
-      provide: 'APP_GUARD',
-      useClass: RolesGuard,
-    },
+    DelegateImportService,
+    DelegateExportService,
+    KioskService,
+    PasswordlessLoginService,
+    DelegateJwtStrategy,
   ],
 })
 export class DelegatesModule {}
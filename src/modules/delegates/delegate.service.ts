@@ -6,28 +6,29 @@ import {
   InternalServerErrorException,
   Logger,
   UnauthorizedException,
+  HttpException,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model, Types } from 'mongoose';
+import { FilterQuery, Model, Types } from 'mongoose';
 import {
   ApproveDelegateDto,
   RejectDelegateDto,
+  SuspendDelegateDto,
   CheckInDelegateDto,
 } from './dto/admin-delegate.dto';
-import { DelegateStatus } from './delegates.schema';
+import {
+  ATTENDING_STATUSES,
+  DelegateStatus,
+  SEAT_HOLDING_STATUSES,
+} from './delegates.schema';
 import { Delegate, DelegateDocument } from './delegates.schema';
-import { JwtService } from '@nestjs/jwt';
 import { SystemLogsService } from '../system-logs/services/system-logs.service';
 import { LogSeverity } from '../system-logs/schemas/system-log.schema';
 import {
   CreateDelegateDto,
   UpdateDelegateDto,
 } from './dto/create-delegate.dto';
-import {
-  AuthResponse,
-  JwtPayload,
-  TokenPayload,
-} from '../auth/interfaces/auth.interface';
+import { AuthResponse } from '../auth/interfaces/auth.interface';
 import { LoginUserDto } from '../auth/dto/login.dto';
 import { Request } from 'express';
 import * as bcrypt from 'bcrypt';
@@ -40,8 +41,66 @@ import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
 import { ConfigService } from '@nestjs/config';
 import { NOTIFICATION_QUEUE } from '../queues/constants';
+import { NotificationCategory } from '../notifications/schemas/notification-preference.schema';
+import { NotificationOptions } from '../notifications/services/notification-preferences.service';
 import * as QRCode from 'qrcode';
 import { Event, EventDocument } from '../events/events.schema';
+import { BadgeSignatureService } from '../badge/badge-signature.service';
+import {
+  CheckInScanResponseDto,
+  CheckInScanResult,
+  DelegateCardDto,
+  ScanCheckInDto,
+} from './dto/check-in-scan.dto';
+import { SessionsService } from '../sessions/sessions.service';
+import { PrincipalType } from '../../common/enums/principal-type.enum';
+import { LockoutService } from '../lockout/lockout.service';
+import { AttemptScope } from '../lockout/login-attempt.schema';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit-entry.schema';
+import {
+  EmailTemplatesService,
+  SendOptions,
+} from '../email-templates/email-templates.service';
+import { EmailTemplateKey } from '../email-templates/email-template.schema';
+
+export interface DelegateListFilters {
+  eventId?: string;
+  delegateType?: string;
+  attendanceMode?: string;
+  year?: number;
+  status?: string;
+  nationality?: string;
+}
+
+// Events without maxAttendees take everyone
+const UNLIMITED_PLACES = [
+  { maxAttendees: { $lte: 0 } },
+  { maxAttendees: null },
+];
+
+// Registration updates follow the delegate's logistics preferences
+const REGISTRATION_EMAIL: NotificationOptions = {
+  category: NotificationCategory.LOGISTICS,
+};
+// Decisions on the registration and account emails the delegate asked for
+// go out regardless
+const MUST_SEND_EMAIL: NotificationOptions = {
+  category: NotificationCategory.LOGISTICS,
+  critical: true,
+};
+
+// Never returned to clients
+const SENSITIVE_DELEGATE_FIELDS = [
+  'password',
+  'pin',
+  'resetPasswordPin',
+  'resetPasswordExpires',
+  'loginCodeHash',
+  'loginLinkHash',
+  'loginCodeExpires',
+  'loginCodeSentAt',
+];
 
 @Injectable()
 export class DelegatesService {
@@ -52,11 +111,15 @@ export class DelegatesService {
     private readonly delegateModel: Model<DelegateDocument>,
     @InjectModel(Event.name)
     private readonly eventModel: Model<EventDocument>,
-    private readonly jwtService: JwtService,
+    private readonly sessionsService: SessionsService,
+    private readonly lockoutService: LockoutService,
+    private readonly auditService: AuditService,
     private readonly systemLogsService: SystemLogsService,
     private readonly notificationService: NotificationService,
+    private readonly emailTemplatesService: EmailTemplatesService,
     @InjectQueue(NOTIFICATION_QUEUE) private readonly notificationQueue: Queue,
     private readonly configService: ConfigService,
+    private readonly badgeSignatureService: BadgeSignatureService,
   ) {}
 
   // ===========================================================================
@@ -67,6 +130,7 @@ export class DelegatesService {
     delegateId: string,
     approveDto: ApproveDelegateDto,
     approvedBy: string,
+    req?: Request,
   ): Promise<Delegate> {
     const delegate = await this.delegateModel
       .findById(new Types.ObjectId(delegateId))
@@ -75,39 +139,77 @@ export class DelegatesService {
     if (!delegate) {
       throw new NotFoundException(`Delegate with ID ${delegateId} not found`);
     }
+    const before = delegate.toObject();
 
     if (delegate.status === DelegateStatus.APPROVED) {
       throw new BadRequestException('Delegate is already approved.');
     }
 
+    const previousStatus = delegate.status;
+    const wasAttending = ATTENDING_STATUSES.includes(previousStatus);
+    if (
+      !SEAT_HOLDING_STATUSES.includes(previousStatus) &&
+      !(await this.takePlace(delegate.eventId))
+    ) {
+      throw new BadRequestException(
+        'Event has reached its maximum number of attendees.',
+      );
+    }
+
     // Update delegate status
     delegate.status = DelegateStatus.APPROVED;
+    delegate.waitlistPosition = undefined;
     delegate.approvedBy = new Types.ObjectId(approvedBy || '');
     delegate.approvalDate = new Date();
 
     const updatedDelegate = await delegate.save();
+    await this.auditService.record(
+      {
+        entityType: AuditEntityType.DELEGATE,
+        entityId: delegate._id,
+        action: AuditAction.APPROVE,
+        before,
+        after: updatedDelegate,
+      },
+      req,
+    );
+
+    if (!wasAttending) {
+      await this.adjustAttendeeCount(delegate.eventId, 1);
+    }
+    if (previousStatus === DelegateStatus.WAITLISTED) {
+      await this.leaveWaitlist(delegate.eventId);
+    }
 
     // --- Notifications ---
     const delegateName = `${delegate.firstName} ${delegate.lastName}`;
 
     // 1. Generate QR Code for the check-in badge
-    const qrCodeData = JSON.stringify({
-      delegateId: delegate._id,
-      eventYear: delegate.eventYear,
-    });
+    const qrCodeData = this.badgeSignatureService.createQrData(delegate);
     const qrCodeBuffer = await QRCode.toBuffer(qrCodeData);
 
     // 2. Create and send email with a professional badge
-    const emailSubject = 'Your Registration has been Approved!';
-    const emailBody = this.createApprovalEmailTemplate(delegate);
-    this.notificationService
-      .sendEmailWithAttachments(delegate.email, emailSubject, emailBody, [
+    this.emailTemplatesService
+      .send(
+        delegate.email,
+        EmailTemplateKey.REGISTRATION_APPROVED,
         {
-          filename: 'qr-code-badge.png',
-          content: qrCodeBuffer,
-          cid: 'qr-code-badge',
+          delegateName: `${delegate.title} ${delegateName}`,
+          delegateType: delegate.delegateType,
+          eventYear: delegate.eventYear,
+          badgeDownloadUrl: `${this.configService.get<string>('API_URL')}/delegates/${delegate._id.toString()}/badge`,
         },
-      ])
+        {
+          ...this.emailOptions(delegate, MUST_SEND_EMAIL),
+          attachments: [
+            {
+              filename: 'qr-code-badge.png',
+              content: qrCodeBuffer,
+              cid: 'qr-code-badge',
+            },
+          ],
+        },
+      )
       .catch((err) => {
         this.logger.error(
           `Failed to send approval email to ${delegate.email}: ${err.message}`,
@@ -137,6 +239,7 @@ export class DelegatesService {
     delegateId: string,
     rejectDto: RejectDelegateDto,
     rejectedBy: string,
+    req?: Request,
   ): Promise<Delegate> {
     const delegate = await this.delegateModel
       .findById(new Types.ObjectId(delegateId))
@@ -145,27 +248,46 @@ export class DelegatesService {
     if (!delegate) {
       throw new NotFoundException(`Delegate with ID ${delegateId} not found`);
     }
+    const before = delegate.toObject();
 
     if (delegate.status === DelegateStatus.REJECTED) {
       throw new BadRequestException('Delegate is already rejected.');
     }
 
+    const previousStatus = delegate.status;
+
     // Update delegate status
     delegate.status = DelegateStatus.REJECTED;
+    delegate.waitlistPosition = undefined;
     delegate.rejectionReason = rejectDto.rejectionReason;
     delegate.rejectedBy = new Types.ObjectId(rejectedBy || '');
     delegate.rejectionDate = new Date();
 
     const updatedDelegate = await delegate.save();
+    await this.auditService.record(
+      {
+        entityType: AuditEntityType.DELEGATE,
+        entityId: delegate._id,
+        action: AuditAction.REJECT,
+        before,
+        after: updatedDelegate,
+      },
+      req,
+    );
+
+    await this.releasePlace(delegate.eventId, previousStatus);
 
     // --- Notifications ---
     const delegateName = `${delegate.firstName} ${delegate.lastName}`;
 
     // 1. Send email notification
-    const emailSubject = 'Update on Your Registration Status';
-    const emailBody = `<p>Dear ${delegateName},</p><p>We regret to inform you that your registration has been rejected. Reason: ${delegate.rejectionReason}.</p><p>If you believe this is an error, please contact our support team.</p>`;
-    this.notificationService
-      .sendEmail(delegate.email, emailSubject, emailBody)
+    this.emailTemplatesService
+      .send(
+        delegate.email,
+        EmailTemplateKey.REGISTRATION_REJECTED,
+        { delegateName, rejectionReason: delegate.rejectionReason },
+        this.emailOptions(delegate, MUST_SEND_EMAIL),
+      )
       .catch((err) => {
         this.logger.error(
           `Failed to send rejection email to ${delegate.email}: ${err.message}`,
@@ -191,10 +313,76 @@ export class DelegatesService {
     );
     return updatedDelegate.toObject();
   }
+
+  async suspend(
+    delegateId: string,
+    suspendDto: SuspendDelegateDto,
+    suspendedBy: string,
+    req?: Request,
+  ): Promise<Delegate> {
+    const delegate = await this.delegateModel
+      .findById(new Types.ObjectId(delegateId))
+      .exec();
+
+    if (!delegate) {
+      throw new NotFoundException(`Delegate with ID ${delegateId} not found`);
+    }
+    const before = delegate.toObject();
+
+    if (delegate.status === DelegateStatus.SUSPENDED) {
+      throw new BadRequestException('Delegate is already suspended.');
+    }
+
+    const previousStatus = delegate.status;
+
+    // Update delegate status
+    delegate.status = DelegateStatus.SUSPENDED;
+    delegate.waitlistPosition = undefined;
+    delegate.suspensionReason = suspendDto.suspensionReason;
+    delegate.suspendedBy = new Types.ObjectId(suspendedBy || '');
+    delegate.suspensionDate = new Date();
+
+    const updatedDelegate = await delegate.save();
+    await this.auditService.record(
+      {
+        entityType: AuditEntityType.DELEGATE,
+        entityId: delegate._id,
+        action: AuditAction.SUSPEND,
+        before,
+        after: updatedDelegate,
+      },
+      req,
+    );
+
+    await this.releasePlace(delegate.eventId, previousStatus);
+
+    // --- Notifications ---
+    const delegateName = `${delegate.firstName} ${delegate.lastName}`;
+    this.emailTemplatesService
+      .send(
+        delegate.email,
+        EmailTemplateKey.REGISTRATION_SUSPENDED,
+        { delegateName, suspensionReason: delegate.suspensionReason },
+        this.emailOptions(delegate, MUST_SEND_EMAIL),
+      )
+      .catch((err) => {
+        this.logger.error(
+          `Failed to send suspension email to ${delegate.email}: ${err.message}`,
+          err.stack,
+        );
+      });
+
+    this.logger.log(
+      `Delegate ${delegateId} has been suspended by admin ${suspendedBy}`,
+    );
+    return updatedDelegate.toObject();
+  }
+
   async checkIn(
     delegateId: string,
     checkInDto: CheckInDelegateDto,
     checkedInBy: string,
+    req?: Request,
   ): Promise<Delegate> {
     const delegate = await this.delegateModel
       .findById(new Types.ObjectId(delegateId))
@@ -203,6 +391,7 @@ export class DelegatesService {
     if (!delegate) {
       throw new NotFoundException(`Delegate with ID ${delegateId} not found`);
     }
+    const before = delegate.toObject();
 
     if (delegate.status !== DelegateStatus.APPROVED) {
       throw new BadRequestException(
@@ -213,29 +402,142 @@ export class DelegatesService {
     // Update delegate status
     delegate.status = DelegateStatus.CHECKED_IN;
     delegate.hasCheckedIn = true;
-    delegate.checkedInBy = new Types.ObjectId(checkedInBy || '');
+    delegate.checkedInBy = checkedInBy
+      ? new Types.ObjectId(checkedInBy)
+      : undefined;
     delegate.checkInDate = new Date();
     delegate.checkInLocation = checkInDto.checkInLocation;
 
     const updatedDelegate = await delegate.save();
+    await this.auditService.record(
+      {
+        entityType: AuditEntityType.DELEGATE,
+        entityId: delegate._id,
+        action: AuditAction.CHECK_IN,
+        before,
+        after: updatedDelegate,
+      },
+      req,
+    );
 
     // --- Notifications ---
-    const emailSubject = 'Welcome! You are Checked In';
-    const emailBody =
-      this.createCheckInConfirmationEmailTemplate(updatedDelegate);
-    this.notificationService
-      .sendEmail(updatedDelegate.email, emailSubject, emailBody)
+    this.sendCheckInConfirmation(updatedDelegate);
+
+    this.logger.log(
+      `Delegate ${delegateId} has been checked in by staff ${checkedInBy}`,
+    );
+    return updatedDelegate.toObject();
+  }
+
+  // Fire-and-forget welcome email once a delegate is checked in
+  sendCheckInConfirmation(delegate: DelegateDocument): void {
+    this.emailTemplatesService
+      .send(
+        delegate.email,
+        EmailTemplateKey.CHECK_IN_CONFIRMATION,
+        { delegateName: this.formalName(delegate) },
+        this.emailOptions(delegate, REGISTRATION_EMAIL),
+      )
       .catch((err) => {
         this.logger.error(
-          `Failed to send check-in email to ${updatedDelegate.email}: ${err.message}`,
+          `Failed to send check-in email to ${delegate.email}: ${err.message}`,
           err.stack,
         );
       });
+  }
 
-    this.logger.log(
-      `Delegate ${delegateId} has been checked in by staff ${checkedInBy}`,
+  async scanCheckIn(
+    scanDto: ScanCheckInDto,
+    checkedInBy?: string,
+    req?: Request,
+  ): Promise<CheckInScanResponseDto> {
+    const payload = this.badgeSignatureService.verify(scanDto.qrData);
+
+    if (!payload || !Types.ObjectId.isValid(payload.delegateId)) {
+      await this.systemLogsService.createLog(
+        'Forged Badge Scanned',
+        `Badge with an invalid signature was scanned${scanDto.checkInLocation ? ` at ${scanDto.checkInLocation}` : ''}`,
+        LogSeverity.WARNING,
+        checkedInBy,
+      );
+      return {
+        result: CheckInScanResult.FORGED,
+        message: 'Badge signature is invalid. Do not admit this delegate.',
+      };
+    }
+
+    const delegate = await this.delegateModel
+      .findById(new Types.ObjectId(payload.delegateId))
+      .exec();
+
+    if (!delegate) {
+      throw new NotFoundException(
+        `Delegate with ID ${payload.delegateId} not found`,
+      );
+    }
+
+    const expectedYear = scanDto.eventYear ?? new Date().getFullYear();
+    if (
+      payload.eventYear !== expectedYear ||
+      delegate.eventYear !== payload.eventYear
+    ) {
+      return {
+        result: CheckInScanResult.WRONG_EVENT,
+        message: `Badge was issued for the ${payload.eventYear} event, not ${expectedYear}.`,
+        delegate: this.toDelegateCard(delegate),
+      };
+    }
+
+    if (
+      delegate.status === DelegateStatus.CHECKED_IN ||
+      delegate.hasCheckedIn
+    ) {
+      return {
+        result: CheckInScanResult.ALREADY_CHECKED_IN,
+        message: `Delegate already checked in${delegate.checkInDate ? ` at ${delegate.checkInDate.toISOString()}` : ''}.`,
+        delegate: this.toDelegateCard(delegate),
+      };
+    }
+
+    if (delegate.status !== DelegateStatus.APPROVED) {
+      return {
+        result: CheckInScanResult.NOT_APPROVED,
+        message: `Delegate registration is not approved. Current status: ${delegate.status}`,
+        delegate: this.toDelegateCard(delegate),
+      };
+    }
+
+    const checkedIn = await this.checkIn(
+      delegate._id.toString(),
+      { checkInLocation: scanDto.checkInLocation },
+      checkedInBy,
+      req,
     );
-    return updatedDelegate.toObject();
+
+    return {
+      result: CheckInScanResult.OK,
+      message: 'Delegate checked in successfully.',
+      delegate: this.toDelegateCard(checkedIn),
+    };
+  }
+
+  private toDelegateCard(
+    delegate: Delegate | DelegateDocument,
+  ): DelegateCardDto {
+    return {
+      id: (delegate as DelegateDocument)._id.toString(),
+      title: delegate.title,
+      firstName: delegate.firstName,
+      lastName: delegate.lastName,
+      organization: delegate.organization,
+      position: delegate.position,
+      nationality: delegate.nationality,
+      delegateType: delegate.delegateType,
+      status: delegate.status,
+      eventYear: delegate.eventYear,
+      profilePicture: delegate.profilePicture,
+      checkInDate: delegate.checkInDate,
+    };
   }
 
   async findOneDocument(id: string): Promise<DelegateDocument> {
@@ -248,84 +550,86 @@ export class DelegatesService {
     return delegate;
   }
 
-  private createApprovalEmailTemplate(delegate: DelegateDocument): string {
-    const delegateName = `${delegate.title} ${delegate.firstName} ${delegate.lastName}`;
-    return `
-      <div style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.8; color: #333; max-width: 680px; margin: 20px auto; border: 1px solid #e0e0e0; border-radius: 12px; overflow: hidden; box-shadow: 0 8px 24px rgba(0,0,0,0.1);">
-        <div style="background: linear-gradient(135deg, #004a99 0%, #002b5a 100%); color: white; padding: 30px; text-align: center;">
-          <h1 style="margin: 0; font-size: 28px; font-weight: 600;">Registration Approved!</h1>
-        </div>
-        <div style="padding: 30px;">
-          <p style="font-size: 18px;">Dear ${delegateName},</p>
-          <p style="font-size: 16px;">We are delighted to inform you that your registration for the event has been approved. Please find your digital check-in badge below.</p>
-          
-          <div style="border: 2px dashed #004a99; border-radius: 15px; padding: 25px; margin: 30px 0; background-color: #fdfdfd; text-align: center;">
-            <h2 style="color: #004a99; margin-top: 0; font-size: 22px; font-weight: 600;">EVENT CHECK-IN BADGE</h2>
-            <img src="cid:qr-code-badge" alt="QR Code for Check-in" style="max-width: 220px; margin-top: 20px; border: 5px solid white; border-radius: 8px; box-shadow: 0 4px 12px rgba(0,0,0,0.1);">
-            <h3 style="margin-top: 25px; margin-bottom: 8px; font-size: 24px; font-weight: 700; color: #333;">${delegateName}</h3>
-            <p style="margin: 8px 0; font-size: 16px;"><strong>Delegate Type:</strong> ${delegate.delegateType}</p>
-            <p style="margin: 8px 0; font-size: 16px;"><strong>Event Year:</strong> ${delegate.eventYear}</p>
-          </div>
-
-          <div style="text-align: center; margin-top: 30px;">
-            <a href="${this.configService.get<string>('API_URL')}/delegates/${delegate._id.toString()}/badge" download style="background-color: #004a99; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-size: 16px; font-weight: bold; display: inline-block; box-shadow: 0 4px 8px rgba(0,0,0,0.1); transition: background-color 0.3s ease;">Download for Print</a>
-          </div>
-
-          <p style="font-size: 16px; margin-top: 30px;">Please present this QR code at the registration desk for a quick and seamless check-in process. You can either print this email or show it on your mobile device.</p>
-          <p style="font-size: 16px;">We look forward to welcoming you to the event!</p>
-          <p style="font-size: 16px; margin-top: 30px;">Best regards,<br><strong>The Event Team</strong></p>
-        </div>
-        <div style="background-color: #f8f9fa; color: #888; padding: 15px; text-align: center; font-size: 12px; border-top: 1px solid #e0e0e0;">
-          <p>This is an automated message. Please do not reply directly to this email.</p>
-        </div>
-      </div>
-    `;
+  // Title and full name, as used to address delegates in emails
+  private formalName(delegate: DelegateDocument): string {
+    return `${delegate.title} ${delegate.firstName} ${delegate.lastName}`;
   }
 
-  private createCheckInConfirmationEmailTemplate(
+  // Emails go out in the delegate's language, using the event's templates,
+  // when their preferences accept them
+  private emailOptions(
     delegate: DelegateDocument,
-  ): string {
-    const delegateName = `${delegate.title} ${delegate.firstName} ${delegate.lastName}`;
-    return `
-      <div style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.8; color: #333; max-width: 680px; margin: 20px auto; border: 1px solid #e0e0e0; border-radius: 12px; overflow: hidden; box-shadow: 0 8px 24px rgba(0,0,0,0.1);">
-        <div style="background: linear-gradient(135deg, #28a745 0%, #218838 100%); color: white; padding: 30px; text-align: center;">
-          <h1 style="margin: 0; font-size: 28px; font-weight: 600;">Welcome to the Event!</h1>
-        </div>
-        <div style="padding: 30px;">
-          <p style="font-size: 18px;">Dear ${delegateName},</p>
-          <p style="font-size: 16px;">This email confirms that you have been successfully checked in. We are thrilled to have you with us!</p>
-          <p style="font-size: 16px;">We hope you have an inspiring and productive time at the event. If you need any assistance, please do not hesitate to contact our staff.</p>
-          <p style="font-size: 16px; margin-top: 30px;">Enjoy the event!</p>
-          <p style="font-size: 16px; margin-top: 30px;">Best regards,<br><strong>The Event Team</strong></p>
-        </div>
-        <div style="background-color: #f8f9fa; color: #888; padding: 15px; text-align: center; font-size: 12px; border-top: 1px solid #e0e0e0;">
-          <p>This is an automated message. Please do not reply directly to this email.</p>
-        </div>
-      </div>
-    `;
+    notification: NotificationOptions,
+  ): SendOptions {
+    return {
+      language: delegate.preferredLanguage,
+      eventId: delegate.eventId,
+      delegate,
+      notification,
+    };
   }
 
-  private createRegistrationReceivedEmailTemplate(
+  /**
+   * Registration email now and a delayed push through the notification
+   * queue; wording depends on whether the delegate was waitlisted
+   */
+  async sendRegistrationNotifications(
     delegate: DelegateDocument,
-  ): string {
-    const delegateName = `${delegate.title} ${delegate.firstName} ${delegate.lastName}`;
-    return `
-      <div style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.8; color: #333; max-width: 680px; margin: 20px auto; border: 1px solid #e0e0e0; border-radius: 12px; overflow: hidden; box-shadow: 0 8px 24px rgba(0,0,0,0.1);">
-        <div style="background: linear-gradient(135deg, #007bff 0%, #0056b3 100%); color: white; padding: 30px; text-align: center;">
-          <h1 style="margin: 0; font-size: 28px; font-weight: 600;">Registration Received</h1>
-        </div>
-        <div style="padding: 30px;">
-          <p style="font-size: 18px;">Dear ${delegateName},</p>
-          <p style="font-size: 16px;">Thank you for registering for the upcoming event. We have successfully received your information, and it is now under review by our team.</p>
-          <p style="font-size: 16px;">You will receive another email notification once your registration has been approved. Please keep an eye on your inbox.</p>
-          <p style="font-size: 16px; margin-top: 30px;">We appreciate your patience.</p>
-          <p style="font-size: 16px; margin-top: 30px;">Best regards,<br><strong>The Event Team</strong></p>
-        </div>
-        <div style="background-color: #f8f9fa; color: #888; padding: 15px; text-align: center; font-size: 12px; border-top: 1px solid #e0e0e0;">
-          <p>This is an automated message. Please do not reply directly to this email.</p>
-        </div>
-      </div>
-    `;
+  ): Promise<void> {
+    // --- Send Registration Confirmation Email ---
+    const isWaitlisted = delegate.status === DelegateStatus.WAITLISTED;
+    const waitlistRank = isWaitlisted
+      ? await this.waitlistRank(delegate)
+      : undefined;
+    this.emailTemplatesService
+      .send(
+        delegate.email,
+        isWaitlisted
+          ? EmailTemplateKey.REGISTRATION_WAITLISTED
+          : EmailTemplateKey.REGISTRATION_RECEIVED,
+        {
+          delegateName: this.formalName(delegate),
+          waitlistPosition: waitlistRank,
+        },
+        this.emailOptions(delegate, REGISTRATION_EMAIL),
+      )
+      .then(() => {
+        this.logger.log(
+          `Sent registration confirmation email to: ${delegate.email}`,
+        );
+      })
+      .catch((err) => {
+        this.logger.error(
+          `Failed to send registration email to ${delegate.email}: ${err.message}`,
+          err.stack,
+        );
+      });
+    // --- End of Email Notification ---
+
+    // --- Schedule Push Notification via BullMQ ---
+    const pushTitle = isWaitlisted
+      ? 'Added to the Waitlist'
+      : 'Registration Under Review';
+    const pushBody = isWaitlisted
+      ? `Hi ${delegate.title} ${delegate.firstName} ${delegate.lastName}, the event is currently full. You are number ${waitlistRank} on the waitlist and we will notify you if a place opens up.`
+      : `Hi ${delegate.title} ${delegate.firstName} ${delegate.lastName}, thank you for registering. We are currently reviewing your details and will notify you upon approval.`;
+    const jobData = {
+      delegateId: delegate._id.toString(),
+      title: pushTitle,
+      body: pushBody,
+      category: NotificationCategory.LOGISTICS,
+    };
+
+    await this.notificationQueue.add('send-push-notification', jobData, {
+      delay: 5 * 60 * 1000, // 5 minutes delay
+      removeOnComplete: true,
+      removeOnFail: true,
+    });
+
+    this.logger.log(
+      `Scheduled push notification job for delegate ID: ${delegate._id}`,
+    );
+    // --- End of Push Notification Scheduling ---
   }
 
   async create(createDelegateDto: CreateDelegateDto): Promise<Delegate> {
@@ -363,53 +667,34 @@ export class DelegatesService {
         salt,
       );
 
+      // Registrations beyond maxAttendees join the waitlist
+      const [waitlistPosition] = await this.allocatePlaces(
+        currentYearEventExists,
+        1,
+      );
+      const isWaitlisted = waitlistPosition !== undefined;
+
       // Create the delegate
       const createdDelegate = new this.delegateModel({
         ...createDelegateDto,
         password: hashedPassword,
         eventId: currentYearEventExists._id,
+        ...(isWaitlisted && {
+          status: DelegateStatus.WAITLISTED,
+          waitlistPosition,
+        }),
       });
-      const savedDelegate = await createdDelegate.save();
-
-      // --- Send Registration Confirmation Email ---
-      const emailSubject = 'Shelter Afrique - Registration Confirmation';
-      const emailBody =
-        this.createRegistrationReceivedEmailTemplate(savedDelegate);
-
-      this.notificationService
-        .sendEmail(savedDelegate.email, emailSubject, emailBody)
-        .then(() => {
-          this.logger.log(
-            `Sent registration confirmation email to: ${savedDelegate.email}`,
-          );
-        })
-        .catch((err) => {
-          this.logger.error(
-            `Failed to send registration email to ${savedDelegate.email}: ${err.message}`,
-            err.stack,
-          );
-        });
-      // --- End of Email Notification ---
-
-      // --- Schedule Push Notification via BullMQ ---
-      const pushTitle = 'Registration Under Review';
-      const pushBody = `Hi ${savedDelegate.title} ${savedDelegate.firstName} ${savedDelegate.lastName}, thank you for registering. We are currently reviewing your details and will notify you upon approval.`;
-      const jobData = {
-        delegateId: savedDelegate._id.toString(),
-        title: pushTitle,
-        body: pushBody,
-      };
-
-      await this.notificationQueue.add('send-push-notification', jobData, {
-        delay: 5 * 60 * 1000, // 5 minutes delay
-        removeOnComplete: true,
-        removeOnFail: true,
-      });
+      let savedDelegate: DelegateDocument;
+      try {
+        savedDelegate = await createdDelegate.save();
+      } catch (error) {
+        await this.releasePlaces(currentYearEventExists._id as Types.ObjectId, [
+          waitlistPosition,
+        ]);
+        throw error;
+      }
 
-      this.logger.log(
-        `Scheduled push notification job for delegate ID: ${savedDelegate._id}`,
-      );
-      // --- End of Push Notification Scheduling ---
+      await this.sendRegistrationNotifications(savedDelegate);
 
       this.logger.log(
         `Successfully created delegate with ID: ${savedDelegate._id}`,
@@ -448,6 +733,42 @@ export class DelegatesService {
     }
   }
 
+  /**
+   * Mongo filter shared by the delegate list and export endpoints
+   */
+  buildListFilter(filters: DelegateListFilters): FilterQuery<DelegateDocument> {
+    const filter: FilterQuery<DelegateDocument> = {};
+
+    if (filters.eventId) {
+      if (!Types.ObjectId.isValid(filters.eventId)) {
+        throw new BadRequestException('Invalid event ID format');
+      }
+      filter.eventId = filters.eventId;
+    }
+
+    if (filters.delegateType) {
+      filter.delegateType = filters.delegateType;
+    }
+
+    if (filters.attendanceMode) {
+      filter.attendanceMode = filters.attendanceMode;
+    }
+
+    if (filters.year) {
+      filter.eventYear = filters.year;
+    }
+
+    if (filters.status) {
+      filter.status = filters.status;
+    }
+
+    if (filters.nationality) {
+      filter.nationality = filters.nationality;
+    }
+
+    return filter;
+  }
+
   async findAll(
     page: number = 1,
     limit: number = 1000,
@@ -460,27 +781,12 @@ export class DelegatesService {
       this.logger.log(`Fetching delegates - Page: ${page}, Limit: ${limit}`);
 
       const skip = (page - 1) * limit;
-      const filter: any = {};
-
-      // Build filter object
-      if (eventId) {
-        if (!Types.ObjectId.isValid(eventId)) {
-          throw new BadRequestException('Invalid event ID format');
-        }
-        filter.eventId = eventId;
-      }
-
-      if (delegateType) {
-        filter.delegateType = delegateType;
-      }
-
-      if (attendanceMode) {
-        filter.attendanceMode = attendanceMode;
-      }
-
-      if (year) {
-        filter.eventYear = year;
-      }
+      const filter = this.buildListFilter({
+        eventId,
+        delegateType,
+        attendanceMode,
+        year,
+      });
 
       // Execute queries in parallel
       const [delegates, total] = await Promise.all([
@@ -579,6 +885,7 @@ export class DelegatesService {
   async update(
     id: string,
     updateDelegateDto: UpdateDelegateDto,
+    req?: Request,
   ): Promise<Delegate> {
     try {
       this.logger.log(`Updating delegate with ID: ${id}`);
@@ -600,8 +907,14 @@ export class DelegatesService {
         }
       }
 
+      // The body is not whitelisted, so drop a password sent anyway; it
+      // would be stored unhashed
+      const changes: Record<string, unknown> = { ...updateDelegateDto };
+      delete changes.password;
+
+      const before = await this.delegateModel.findById(id).lean().exec();
       const updatedDelegate = await this.delegateModel
-        .findByIdAndUpdate(id, updateDelegateDto, {
+        .findByIdAndUpdate(id, changes, {
           new: true,
           runValidators: true,
         })
@@ -610,6 +923,16 @@ export class DelegatesService {
       if (!updatedDelegate) {
         throw new NotFoundException(`Delegate with ID ${id} not found`);
       }
+      await this.auditService.record(
+        {
+          entityType: AuditEntityType.DELEGATE,
+          entityId: updatedDelegate._id,
+          action: AuditAction.UPDATE,
+          before,
+          after: updatedDelegate,
+        },
+        req,
+      );
 
       this.logger.log(
         `Successfully updated delegate: ${updatedDelegate.email}`,
@@ -649,7 +972,10 @@ export class DelegatesService {
     }
   }
 
-  async remove(id: string): Promise<{ message: string; deletedId: string }> {
+  async remove(
+    id: string,
+    req?: Request,
+  ): Promise<{ message: string; deletedId: string }> {
     try {
       this.logger.log(`Deleting delegate with ID: ${id}`);
 
@@ -669,6 +995,17 @@ export class DelegatesService {
         };
       }
 
+      await this.releasePlace(deletedDelegate.eventId, deletedDelegate.status);
+      await this.auditService.record(
+        {
+          entityType: AuditEntityType.DELEGATE,
+          entityId: deletedDelegate._id,
+          action: AuditAction.DELETE,
+          before: deletedDelegate,
+        },
+        req,
+      );
+
       this.logger.log(
         `Successfully deleted delegate: ${deletedDelegate.email}`,
       );
@@ -766,6 +1103,305 @@ export class DelegatesService {
       );
     }
   }
+  // ===========================================================================
+  // CAPACITY & WAITLIST
+  // ===========================================================================
+
+  /**
+   * Take places for `count` new registrations in arrival order: each entry
+   * is undefined when a place was taken, otherwise the waitlist position.
+   * Once anyone is waiting, newcomers queue behind them. Unused allocations
+   * must be handed back with releasePlaces.
+   */
+  async allocatePlaces(
+    event: EventDocument,
+    count: number,
+  ): Promise<(number | undefined)[]> {
+    const eventId = event._id as Types.ObjectId;
+    await this.ensurePlaceCounters(eventId);
+
+    // Grants as many places as are free in one atomic update; the previous
+    // counter tells how many that was
+    const placesHeld = { $ifNull: ['$placesHeld', 0] };
+    const before = await this.eventModel
+      .findOneAndUpdate(
+        {
+          _id: eventId,
+          $or: [{ waitlistCount: { $lte: 0 } }, ...UNLIMITED_PLACES],
+        },
+        [
+          {
+            $set: {
+              placesHeld: {
+                $cond: [
+                  { $gt: ['$maxAttendees', 0] },
+                  {
+                    $max: [
+                      placesHeld,
+                      {
+                        $min: ['$maxAttendees', { $add: [placesHeld, count] }],
+                      },
+                    ],
+                  },
+                  { $add: [placesHeld, count] },
+                ],
+              },
+            },
+          },
+        ],
+      )
+      .lean()
+      .exec();
+
+    let granted = 0;
+    if (before) {
+      const held = before.placesHeld ?? 0;
+      granted =
+        before.maxAttendees > 0
+          ? Math.max(held, Math.min(before.maxAttendees, held + count)) - held
+          : count;
+    }
+
+    const waitlisted = count - granted;
+    let nextPosition = 0;
+    if (waitlisted > 0) {
+      const after = await this.eventModel
+        .findByIdAndUpdate(
+          eventId,
+          { $inc: { waitlistSequence: waitlisted, waitlistCount: waitlisted } },
+          { new: true },
+        )
+        .lean()
+        .exec();
+      nextPosition = after.waitlistSequence - waitlisted + 1;
+    }
+
+    return Array.from({ length: count }, (_, i) =>
+      i < granted ? undefined : nextPosition++,
+    );
+  }
+
+  /**
+   * Hand back allocations from allocatePlaces whose delegates were never
+   * created
+   */
+  async releasePlaces(
+    eventId: Types.ObjectId,
+    placements: (number | undefined)[],
+  ): Promise<void> {
+    const places = placements.filter((p) => p === undefined).length;
+    const waitlisted = placements.length - places;
+    if (places > 0) {
+      await this.eventModel
+        .updateOne(
+          { _id: eventId, placesHeld: { $gte: places } },
+          { $inc: { placesHeld: -places } },
+        )
+        .exec();
+      for (let i = 0; i < places; i++) {
+        await this.promoteFromWaitlist(eventId);
+      }
+    }
+    if (waitlisted > 0) {
+      await this.eventModel
+        .updateOne(
+          { _id: eventId, waitlistCount: { $gte: waitlisted } },
+          { $inc: { waitlistCount: -waitlisted } },
+        )
+        .exec();
+    }
+  }
+
+  /**
+   * Delegate's place in the waitlist queue, counting from 1
+   */
+  async waitlistRank(delegate: DelegateDocument): Promise<number> {
+    const ahead = await this.delegateModel
+      .countDocuments({
+        eventId: delegate.eventId,
+        status: DelegateStatus.WAITLISTED,
+        waitlistPosition: { $lt: delegate.waitlistPosition },
+      })
+      .exec();
+    return ahead + 1;
+  }
+
+  /**
+   * Seed the place counters of events that predate them from their
+   * delegates
+   */
+  private async ensurePlaceCounters(eventId: Types.ObjectId): Promise<void> {
+    const seeded = await this.eventModel
+      .exists({ _id: eventId, placesHeld: { $exists: true } })
+      .exec();
+    if (seeded) {
+      return;
+    }
+
+    const [placesHeld, waitlistCount, lastWaitlisted] = await Promise.all([
+      this.delegateModel
+        .countDocuments({ eventId, status: { $in: SEAT_HOLDING_STATUSES } })
+        .exec(),
+      this.delegateModel
+        .countDocuments({ eventId, status: DelegateStatus.WAITLISTED })
+        .exec(),
+      this.delegateModel
+        .findOne({ eventId, waitlistPosition: { $exists: true } })
+        .sort({ waitlistPosition: -1 })
+        .select('waitlistPosition')
+        .lean()
+        .exec(),
+    ]);
+    await this.eventModel
+      .updateOne(
+        { _id: eventId, placesHeld: { $exists: false } },
+        {
+          $set: {
+            placesHeld,
+            waitlistCount,
+            waitlistSequence: lastWaitlisted?.waitlistPosition ?? 0,
+          },
+        },
+      )
+      .exec();
+  }
+
+  /**
+   * Take one place for a delegate who does not hold one, unless the event
+   * is full
+   */
+  private async takePlace(eventId: Types.ObjectId): Promise<boolean> {
+    await this.ensurePlaceCounters(eventId);
+    const event = await this.eventModel
+      .findOneAndUpdate(
+        {
+          _id: eventId,
+          $or: [
+            { $expr: { $lt: ['$placesHeld', '$maxAttendees'] } },
+            ...UNLIMITED_PLACES,
+          ],
+        },
+        { $inc: { placesHeld: 1 } },
+      )
+      .exec();
+    return event !== null;
+  }
+
+  private async freePlace(eventId: Types.ObjectId): Promise<void> {
+    await this.eventModel
+      .updateOne(
+        { _id: eventId, placesHeld: { $gt: 0 } },
+        { $inc: { placesHeld: -1 } },
+      )
+      .exec();
+  }
+
+  private async leaveWaitlist(eventId: Types.ObjectId): Promise<void> {
+    await this.eventModel
+      .updateOne(
+        { _id: eventId, waitlistCount: { $gt: 0 } },
+        { $inc: { waitlistCount: -1 } },
+      )
+      .exec();
+  }
+
+  private async adjustAttendeeCount(
+    eventId: Types.ObjectId,
+    delta: number,
+  ): Promise<void> {
+    // Never let the counter go negative
+    const filter =
+      delta < 0
+        ? { _id: eventId, currentAttendees: { $gte: -delta } }
+        : { _id: eventId };
+    await this.eventModel
+      .updateOne(filter, { $inc: { currentAttendees: delta } })
+      .exec();
+  }
+
+  /**
+   * Bookkeeping after a delegate leaves their previous status through
+   * rejection, suspension or deletion
+   */
+  private async releasePlace(
+    eventId: Types.ObjectId,
+    previousStatus: DelegateStatus,
+  ): Promise<void> {
+    if (ATTENDING_STATUSES.includes(previousStatus)) {
+      await this.adjustAttendeeCount(eventId, -1);
+    }
+
+    if (previousStatus === DelegateStatus.WAITLISTED) {
+      await this.leaveWaitlist(eventId);
+    } else if (SEAT_HOLDING_STATUSES.includes(previousStatus)) {
+      await this.freePlace(eventId);
+      await this.promoteFromWaitlist(eventId);
+    }
+  }
+
+  /**
+   * Move the first waitlisted delegate back into review once a place is free
+   */
+  private async promoteFromWaitlist(eventId: Types.ObjectId): Promise<void> {
+    const event = await this.eventModel.findById(eventId).exec();
+    if (!event || !(await this.takePlace(eventId))) {
+      return;
+    }
+
+    // Returns the pre-update document so the old position is known
+    const promoted = await this.delegateModel
+      .findOneAndUpdate(
+        { eventId, status: DelegateStatus.WAITLISTED },
+        {
+          $set: { status: DelegateStatus.PENDING },
+          $unset: { waitlistPosition: 1 },
+        },
+        { sort: { waitlistPosition: 1 } },
+      )
+      .exec();
+    if (!promoted) {
+      await this.freePlace(eventId);
+      return;
+    }
+    await this.leaveWaitlist(eventId);
+
+    await this.systemLogsService.createLog(
+      'Delegate Promoted From Waitlist',
+      `Delegate ${promoted.email} was promoted from waitlist position ${promoted.waitlistPosition} for event ${event.eventYear}`,
+      LogSeverity.INFO,
+    );
+
+    // --- Notifications ---
+    this.emailTemplatesService
+      .send(
+        promoted.email,
+        EmailTemplateKey.WAITLIST_PROMOTED,
+        { delegateName: this.formalName(promoted) },
+        this.emailOptions(promoted, REGISTRATION_EMAIL),
+      )
+      .catch((err) => {
+        this.logger.error(
+          `Failed to send waitlist promotion email to ${promoted.email}: ${err.message}`,
+          err.stack,
+        );
+      });
+
+    const pushTitle = 'Off the Waitlist!';
+    const pushBody = `Good news, ${promoted.firstName}! A place has opened up and your registration is now under review.`;
+    this.notificationService
+      .sendNotificationToDelegate(promoted._id.toString(), pushTitle, pushBody)
+      .catch((err) => {
+        this.logger.error(
+          `Failed to send waitlist promotion push notification to delegate ${promoted._id}: ${err.message}`,
+          err.stack,
+        );
+      });
+
+    this.logger.log(
+      `Delegate ${promoted._id} promoted from the waitlist for event ${eventId}`,
+    );
+  }
+
   // ===========================================================================
   // AUTH ACTIONS
   // ===========================================================================
@@ -784,9 +1420,20 @@ export class DelegatesService {
     req?: Request,
   ): Promise<AuthResponse> {
     try {
+      await this.lockoutService.assertLoginAllowed(
+        PrincipalType.DELEGATE,
+        loginUserDto.email,
+        req,
+      );
+
       const user = await this.findDelegateForAuth(loginUserDto.email);
       console.log(user);
       if (!user) {
+        await this.lockoutService.recordLoginFailure(
+          PrincipalType.DELEGATE,
+          loginUserDto.email,
+          req,
+        );
         await this.systemLogsService.createLog(
           'ShafDb Login Failed',
           `User not found with email: ${loginUserDto.email}`,
@@ -821,7 +1468,7 @@ export class DelegatesService {
           req,
         );
         throw new UnauthorizedException(
-          'ShafDb: You need to reset your password.',
+          'ShafDb: No password is set. Sign in with a one-time code or reset your password.',
         );
       }
       const isValidPassword = await bcrypt.compare(
@@ -829,6 +1476,11 @@ export class DelegatesService {
         user.password,
       );
       if (!isValidPassword) {
+        await this.lockoutService.recordLoginFailure(
+          PrincipalType.DELEGATE,
+          loginUserDto.email,
+          req,
+        );
         await this.systemLogsService.createLog(
           'ShafDb Invalid Password',
           `Invalid password for user: ${user.firstName} ${user.lastName} (${user.email})`,
@@ -841,7 +1493,15 @@ export class DelegatesService {
         );
       }
 
-      const token = await this.generateToken(user);
+      await this.lockoutService.recordLoginSuccess(
+        PrincipalType.DELEGATE,
+        loginUserDto.email,
+      );
+      const tokens = await this.sessionsService.issue(
+        PrincipalType.DELEGATE,
+        user as DelegateDocument,
+        req,
+      );
 
       await this.systemLogsService.createLog(
         'ShafDb User Login',
@@ -853,10 +1513,10 @@ export class DelegatesService {
 
       return {
         user: this.sanitizeUser(user),
-        token: token.token,
+        ...tokens,
       };
     } catch (error) {
-      if (!(error instanceof UnauthorizedException)) {
+      if (!(error instanceof HttpException)) {
         await this.systemLogsService.createLog(
           'Login Error',
           `Unexpected error during login: ${error.message}`,
@@ -898,10 +1558,11 @@ export class DelegatesService {
       user.resetPasswordExpires = expiryDate;
       await (user as DelegateDocument).save();
 
-      const resetMessage = `Your ShafDb password reset PIN is: ${resetPin}. This PIN will expire in 10 minutes. Please keep this PIN secure and do not share it with anyone.`;
-      await this.notificationService.sendRegistrationPassword(
+      await this.emailTemplatesService.send(
         user.email,
-        resetMessage,
+        EmailTemplateKey.PASSWORD_RESET_PIN,
+        { pin: resetPin, expiresInMinutes: 10 },
+        this.emailOptions(user as DelegateDocument, MUST_SEND_EMAIL),
       );
 
       await this.systemLogsService.createLog(
@@ -935,11 +1596,24 @@ export class DelegatesService {
     req?: Request,
   ): Promise<{ message: string }> {
     try {
+      await this.lockoutService.assertCodeAllowed(
+        AttemptScope.RESET_PIN,
+        PrincipalType.DELEGATE,
+        confirmPasswordResetDto.email,
+        req,
+      );
+
       const user = await this.findDelegateForAuth(
         confirmPasswordResetDto.email,
       );
 
       if (!user || !user.resetPasswordPin || !user.resetPasswordExpires) {
+        await this.lockoutService.recordCodeFailure(
+          AttemptScope.RESET_PIN,
+          PrincipalType.DELEGATE,
+          confirmPasswordResetDto.email,
+          req,
+        );
         throw new BadRequestException(
           'ShafDb: Invalid or expired password reset PIN.',
         );
@@ -959,9 +1633,26 @@ export class DelegatesService {
       }
 
       if (user.resetPasswordPin !== confirmPasswordResetDto.resetToken) {
+        const locked = await this.lockoutService.recordCodeFailure(
+          AttemptScope.RESET_PIN,
+          PrincipalType.DELEGATE,
+          confirmPasswordResetDto.email,
+          req,
+        );
+        if (locked) {
+          // Force a new PIN once the lock lifts
+          user.resetPasswordPin = undefined;
+          user.resetPasswordExpires = undefined;
+          await (user as DelegateDocument).save();
+        }
         throw new BadRequestException('ShafDb: Invalid password reset PIN.');
       }
 
+      await this.lockoutService.clearCodeFailures(
+        AttemptScope.RESET_PIN,
+        PrincipalType.DELEGATE,
+        confirmPasswordResetDto.email,
+      );
       const salt = await bcrypt.genSalt();
       user.password = await bcrypt.hash(
         confirmPasswordResetDto.newPassword,
@@ -970,6 +1661,11 @@ export class DelegatesService {
       user.resetPasswordPin = undefined;
       user.resetPasswordExpires = undefined;
       await (user as DelegateDocument).save();
+      await this.sessionsService.revokeAll(
+        PrincipalType.DELEGATE,
+        (user as DelegateDocument)._id.toString(),
+        'password reset',
+      );
 
       await this.systemLogsService.createLog(
         'ShafDb Password Reset Confirmed',
@@ -988,31 +1684,13 @@ export class DelegatesService {
         undefined,
         req,
       );
-      if (error instanceof BadRequestException) throw error;
+      if (error instanceof HttpException) throw error;
       throw new BadRequestException(
         'ShafDb: Could not reset password. Please try again.',
       );
     }
   }
 
-  private async generateToken(user: Delegate): Promise<TokenPayload> {
-    const payload: JwtPayload = {
-      sub: (user as DelegateDocument)._id.toString(),
-      email: user.email,
-      roles: [],
-    };
-
-    // For 1 year: 365 days * 24 hours * 60 minutes * 60 seconds
-    const token = this.jwtService.sign(payload, {
-      expiresIn: 365 * 24 * 60 * 60,
-    });
-
-    return {
-      token,
-      expiresIn: 365 * 24 * 60 * 60,
-    };
-  }
-
   async findById(id: string): Promise<Delegate | null> {
     const user = await this.delegateModel.findById(id).exec();
     if (!user) {
@@ -1023,15 +1701,13 @@ export class DelegatesService {
 
   // Remove sensitive information from user object
   sanitizeUser(user: Delegate | DelegateDocument): Partial<Delegate> {
-    const userObj = 'toObject' in user ? user.toObject() : user;
+    const sanitizedUser = {
+      ...('toObject' in user ? user.toObject() : user),
+    };
     // Ensure all sensitive fields are excluded
-    const {
-      password,
-      pin,
-      resetPasswordPin,
-      resetPasswordExpires,
-      ...sanitizedUser
-    } = userObj as any;
+    for (const field of SENSITIVE_DELEGATE_FIELDS) {
+      delete sanitizedUser[field];
+    }
     return sanitizedUser;
   }
 }
@@ -7,8 +7,22 @@ export enum DelegateStatus {
   REJECTED = 'rejected',
   SUSPENDED = 'suspended',
   CHECKED_IN = 'checked_in',
+  WAITLISTED = 'waitlisted',
 }
 
+// Statuses that hold one of the event's maxAttendees places
+export const SEAT_HOLDING_STATUSES = [
+  DelegateStatus.PENDING,
+  DelegateStatus.APPROVED,
+  DelegateStatus.CHECKED_IN,
+];
+
+// Statuses counted in Event.currentAttendees
+export const ATTENDING_STATUSES = [
+  DelegateStatus.APPROVED,
+  DelegateStatus.CHECKED_IN,
+];
+
 export enum AttendanceMode {
   PHYSICAL = 'physical',
   VIRTUAL = 'virtual',
@@ -113,6 +127,13 @@ export class Delegate {
   @Prop({ type: String, enum: DelegateStatus, default: DelegateStatus.PENDING })
   status: DelegateStatus;
 
+  @Prop({
+    type: Number,
+    comment:
+      'Order in the waitlist while the delegate is waitlisted; lower is served first. Numbers are not reused, so they can skip.',
+  })
+  waitlistPosition: number;
+
   @Prop({ type: Types.ObjectId, ref: 'User' })
   approvedBy: Types.ObjectId;
 
@@ -128,6 +149,15 @@ export class Delegate {
   @Prop({ type: Types.ObjectId, ref: 'User' })
   rejectedBy: Types.ObjectId;
 
+  @Prop()
+  suspensionReason: string;
+
+  @Prop()
+  suspensionDate: Date;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  suspendedBy: Types.ObjectId;
+
   @Prop()
   registrationDate: Date;
 
@@ -229,12 +259,27 @@ export class Delegate {
 
   @Prop({ select: false })
   passwordResetExpires?: Date;
+
+  // Passwordless login: SHA-256 hashes of the emailed/SMS code and of the
+  // magic link secret. Both are cleared when either is used.
+  @Prop({ select: false })
+  loginCodeHash?: string;
+
+  @Prop({ select: false })
+  loginLinkHash?: string;
+
+  @Prop({ type: Date, select: false })
+  loginCodeExpires?: Date;
+
+  @Prop({ type: Date, select: false })
+  loginCodeSentAt?: Date;
 }
 
 export type DelegateDocument = Delegate & Document;
 export const DelegateSchema = SchemaFactory.createForClass(Delegate);
 
 DelegateSchema.index({ eventId: 1, status: 1 });
+DelegateSchema.index({ eventId: 1, status: 1, waitlistPosition: 1 });
 DelegateSchema.index({ email: 1, eventId: 1 });
 DelegateSchema.index({ nationality: 1 });
 DelegateSchema.index({ organization: 1 });
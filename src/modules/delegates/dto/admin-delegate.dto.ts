@@ -31,6 +31,25 @@ export class RejectDelegateDto {
   rejectedBy: string;
 }
 
+// Suspend Delegate DTO
+export class SuspendDelegateDto {
+  @ApiProperty({
+    description: 'Reason for suspending the delegate',
+    example: 'Identity documents under verification.',
+  })
+  @IsString()
+  @IsNotEmpty()
+  suspensionReason: string;
+
+  @ApiProperty({
+    description: 'ID of the admin suspending the delegate',
+    example: '60d5ecb74f4d2c001f5e4b3b',
+  })
+  @IsMongoId()
+  @IsNotEmpty()
+  suspendedBy: string;
+}
+
 // Check-in Delegate DTO
 export class CheckInDelegateDto {
   @ApiPropertyOptional({
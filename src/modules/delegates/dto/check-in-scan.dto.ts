@@ -0,0 +1,106 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsMongoId,
+  IsNumber,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { DelegateStatus, DelegateType } from '../delegates.schema';
+
+export enum CheckInScanResult {
+  OK = 'ok',
+  ALREADY_CHECKED_IN = 'already_checked_in',
+  WRONG_EVENT = 'wrong_event',
+  NOT_APPROVED = 'not_approved',
+  FORGED = 'forged',
+}
+
+// Scan Check-in DTO
+export class ScanCheckInDto {
+  @ApiProperty({
+    description: 'Raw string read from the delegate badge QR code',
+    example:
+      '{"delegateId":"60d5ecb74f4d2c001f5e4b2a","eventYear":2025,"sig":"q1b0..."}',
+  })
+  @IsString()
+  @IsNotEmpty()
+  qrData: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Event year the scanner is checking in for. Defaults to the current year.',
+    example: 2025,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  eventYear?: number;
+
+  @ApiPropertyOptional({
+    description: 'Location of check-in',
+    example: 'Main Reception Desk A',
+  })
+  @IsOptional()
+  @IsString()
+  checkInLocation?: string;
+
+  @ApiPropertyOptional({
+    description: 'ID of the staff member scanning the badge',
+    example: '60d5ecb74f4d2c001f5e4b3b',
+  })
+  @IsOptional()
+  @IsMongoId()
+  checkedInBy?: string;
+}
+
+// Response DTOs for documentation
+export class DelegateCardDto {
+  @ApiProperty({ example: '60d5ecb74f4d2c001f5e4b2a' })
+  id: string;
+
+  @ApiProperty({ example: 'Dr.' })
+  title: string;
+
+  @ApiProperty({ example: 'John' })
+  firstName: string;
+
+  @ApiProperty({ example: 'Doe' })
+  lastName: string;
+
+  @ApiPropertyOptional({ example: 'Kenya Commercial Bank' })
+  organization?: string;
+
+  @ApiPropertyOptional({ example: 'Chief Executive Officer' })
+  position?: string;
+
+  @ApiProperty({ example: 'Kenyan' })
+  nationality: string;
+
+  @ApiProperty({ enum: DelegateType })
+  delegateType: DelegateType;
+
+  @ApiProperty({ enum: DelegateStatus })
+  status: DelegateStatus;
+
+  @ApiProperty({ example: 2025 })
+  eventYear: number;
+
+  @ApiPropertyOptional()
+  profilePicture?: string;
+
+  @ApiPropertyOptional({ example: '2025-06-15T08:12:00.000Z' })
+  checkInDate?: Date;
+}
+
+export class CheckInScanResponseDto {
+  @ApiProperty({ enum: CheckInScanResult, example: CheckInScanResult.OK })
+  result: CheckInScanResult;
+
+  @ApiProperty({ example: 'Delegate checked in successfully.' })
+  message: string;
+
+  @ApiPropertyOptional({ type: DelegateCardDto })
+  delegate?: DelegateCardDto;
+}
@@ -1,4 +1,9 @@
-import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  OmitType,
+  PartialType,
+} from '@nestjs/swagger';
 import {
   IsEmail,
   IsString,
@@ -499,4 +504,31 @@ export class CreateDelegateDto {
   password: string;
 }
 
-export class UpdateDelegateDto extends PartialType(CreateDelegateDto) {}
+// Passwords are only changed through the reset flow, which hashes them
+export class UpdateDelegateDto extends PartialType(
+  OmitType(CreateDelegateDto, ['password'] as const),
+) {}
+
+// Profile fields delegates may change themselves. Identity, registration
+// and badge fields stay with staff.
+export const DELEGATE_EDITABLE_FIELDS = [
+  'phoneNumber',
+  'organization',
+  'position',
+  'profilePicture',
+  'languagesSpoken',
+  'preferredLanguage',
+  'address',
+  'emergencyContact',
+  'hasAccommodation',
+  'accommodationDetails',
+  'requiresVisa',
+  'visaStatus',
+  'arrivalDate',
+  'departureDate',
+  'flightDetails',
+  'socialMedia',
+  'bio',
+  'consentToPhotography',
+  'consentToDataProcessing',
+] as const;
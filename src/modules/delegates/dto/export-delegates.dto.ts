@@ -0,0 +1,99 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsMongoId, IsOptional, IsString } from 'class-validator';
+import {
+  AttendanceMode,
+  DelegateStatus,
+  DelegateType,
+} from '../delegates.schema';
+
+export enum ExportFormat {
+  XLSX = 'xlsx',
+  CSV = 'csv',
+}
+
+// Column groups that can be requested; some expand to several columns
+export const DELEGATE_EXPORT_COLUMNS = [
+  'name',
+  'email',
+  'phoneNumber',
+  'nationality',
+  'organization',
+  'position',
+  'delegateType',
+  'attendanceMode',
+  'status',
+  'eventYear',
+  'registeredAt',
+  'languages',
+  'identification',
+  'address',
+  'emergencyContact',
+  'visa',
+  'flightDetails',
+  'accommodation',
+  'checkIn',
+] as const;
+
+export type DelegateExportColumn = (typeof DELEGATE_EXPORT_COLUMNS)[number];
+
+export const DEFAULT_EXPORT_COLUMNS: DelegateExportColumn[] = [
+  'name',
+  'email',
+  'phoneNumber',
+  'nationality',
+  'organization',
+  'position',
+  'delegateType',
+  'attendanceMode',
+  'status',
+  'eventYear',
+];
+
+// Export Delegates Query DTO
+export class ExportDelegatesQueryDto {
+  @ApiPropertyOptional({
+    enum: ExportFormat,
+    default: ExportFormat.XLSX,
+    description: 'File format',
+  })
+  @IsOptional()
+  @IsEnum(ExportFormat)
+  format?: ExportFormat;
+
+  @ApiPropertyOptional({
+    description: `Comma-separated columns. Available: ${DELEGATE_EXPORT_COLUMNS.join(', ')}`,
+    example: 'name,email,organization,flightDetails,accommodation,checkIn',
+  })
+  @IsOptional()
+  @IsString()
+  columns?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by event ID' })
+  @IsOptional()
+  @IsMongoId()
+  eventId?: string;
+
+  @ApiPropertyOptional({ enum: DelegateType })
+  @IsOptional()
+  @IsEnum(DelegateType)
+  delegateType?: DelegateType;
+
+  @ApiPropertyOptional({ enum: AttendanceMode })
+  @IsOptional()
+  @IsEnum(AttendanceMode)
+  attendanceMode?: AttendanceMode;
+
+  @ApiPropertyOptional({ description: 'Filter by event year', example: 2025 })
+  @IsOptional()
+  year?: number;
+
+  @ApiPropertyOptional({ enum: DelegateStatus })
+  @IsOptional()
+  @IsEnum(DelegateStatus)
+  status?: DelegateStatus;
+
+  @ApiPropertyOptional({ example: 'Kenyan' })
+  @IsOptional()
+  @IsString()
+  nationality?: string;
+}
@@ -0,0 +1,66 @@
+import { ApiProperty, ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { CreateDelegateDto } from './create-delegate.dto';
+
+export enum ImportRowStatus {
+  VALID = 'valid',
+  INVALID = 'invalid',
+  DUPLICATE = 'duplicate',
+  CREATED = 'created',
+  WAITLISTED = 'waitlisted',
+}
+
+// A spreadsheet row is validated like a registration, minus the password
+// (imported delegates set theirs through the password reset flow)
+export class ImportDelegateRowDto extends OmitType(CreateDelegateDto, [
+  'password',
+] as const) {}
+
+// Response DTOs for documentation
+export class ImportRowResultDto {
+  @ApiProperty({ description: 'Spreadsheet row number', example: 2 })
+  row: number;
+
+  @ApiPropertyOptional({ example: 'john.doe@example.com' })
+  email?: string;
+
+  @ApiProperty({ enum: ImportRowStatus, example: ImportRowStatus.VALID })
+  status: ImportRowStatus;
+
+  @ApiProperty({
+    type: [String],
+    example: ['delegateType: delegateType must be one of the following values'],
+  })
+  errors: string[];
+
+  @ApiPropertyOptional({ example: '60d5ecb74f4d2c001f5e4b2a' })
+  delegateId?: string;
+}
+
+export class ImportDelegatesReportDto {
+  @ApiProperty({ description: 'True when nothing was written', example: true })
+  dryRun: boolean;
+
+  @ApiProperty({ example: 120 })
+  totalRows: number;
+
+  @ApiProperty({ example: 115 })
+  validRows: number;
+
+  @ApiProperty({ example: 3 })
+  invalidRows: number;
+
+  @ApiProperty({ example: 2 })
+  duplicateRows: number;
+
+  @ApiProperty({ description: 'Delegates created (0 on dry run)', example: 0 })
+  created: number;
+
+  @ApiProperty({
+    description: 'Of the created delegates, how many joined the waitlist',
+    example: 0,
+  })
+  waitlisted: number;
+
+  @ApiProperty({ type: [ImportRowResultDto] })
+  rows: ImportRowResultDto[];
+}
@@ -0,0 +1,166 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsMongoId,
+  IsArray,
+  IsDateString,
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { DelegateStatus, DelegateType } from '../delegates.schema';
+import { OfflineCheckInOutcome } from '../offline-check-in.schema';
+
+// Offline scan record captured by a kiosk device
+export class OfflineCheckInRecordDto {
+  @ApiProperty({
+    description:
+      'Unique ID generated by the device for this scan. Re-uploading the same scanId is a no-op.',
+    example: 'kiosk-a-000123',
+  })
+  @IsString()
+  @IsNotEmpty()
+  scanId: string;
+
+  @ApiProperty({
+    description: 'ID of the scanned delegate',
+    example: '60d5ecb74f4d2c001f5e4b2a',
+  })
+  @IsMongoId()
+  delegateId: string;
+
+  @ApiProperty({
+    description: 'Time the badge was scanned on the device (ISO format)',
+    example: '2025-06-15T08:12:00.000Z',
+  })
+  @IsDateString()
+  scannedAt: string;
+
+  @ApiPropertyOptional({
+    description: 'Location of check-in',
+    example: 'Main Reception Desk A',
+  })
+  @IsOptional()
+  @IsString()
+  checkInLocation?: string;
+
+  @ApiPropertyOptional({
+    description: 'ID of the staff member operating the device',
+    example: '60d5ecb74f4d2c001f5e4b3b',
+  })
+  @IsOptional()
+  @IsMongoId()
+  checkedInBy?: string;
+}
+
+// Kiosk Sync DTO
+export class KioskSyncDto {
+  @ApiProperty({
+    description: 'Identifier of the uploading scanner device',
+    example: 'kiosk-a',
+  })
+  @IsString()
+  @IsNotEmpty()
+  deviceId: string;
+
+  @ApiProperty({
+    description: 'Event the scans belong to',
+    example: '60f7b3b3b3b3b3b3b3b3b3b3',
+  })
+  @IsMongoId()
+  eventId: string;
+
+  @ApiProperty({ type: [OfflineCheckInRecordDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(5000)
+  @ValidateNested({ each: true })
+  @Type(() => OfflineCheckInRecordDto)
+  records: OfflineCheckInRecordDto[];
+}
+
+// Response DTOs for documentation
+export class KioskManifestEntryDto {
+  @ApiProperty({ example: '60d5ecb74f4d2c001f5e4b2a' })
+  id: string;
+
+  @ApiProperty({ example: 'Dr.' })
+  title: string;
+
+  @ApiProperty({ example: 'John' })
+  firstName: string;
+
+  @ApiProperty({ example: 'Doe' })
+  lastName: string;
+
+  @ApiProperty({ enum: DelegateType })
+  delegateType: DelegateType;
+
+  @ApiProperty({ enum: DelegateStatus })
+  status: DelegateStatus;
+
+  @ApiProperty({
+    description: 'Badge signature, identical to the `sig` in the QR code',
+  })
+  sig: string;
+
+  @ApiPropertyOptional({ example: '2025-06-15T08:12:00.000Z' })
+  checkInDate?: Date;
+}
+
+export class KioskManifestDto {
+  @ApiProperty({ example: '60f7b3b3b3b3b3b3b3b3b3b3' })
+  eventId: string;
+
+  @ApiProperty({ example: 2025 })
+  eventYear: number;
+
+  @ApiProperty({ example: '2025-06-15T06:00:00.000Z' })
+  generatedAt: Date;
+
+  @ApiProperty({ type: [KioskManifestEntryDto] })
+  delegates: KioskManifestEntryDto[];
+}
+
+export class KioskSyncRecordResultDto {
+  @ApiProperty({ example: 'kiosk-a-000123' })
+  scanId: string;
+
+  @ApiProperty({ example: '60d5ecb74f4d2c001f5e4b2a' })
+  delegateId: string;
+
+  @ApiProperty({ enum: OfflineCheckInOutcome })
+  outcome: OfflineCheckInOutcome;
+
+  @ApiPropertyOptional({
+    description: 'Effective check-in time after reconciliation',
+    example: '2025-06-15T08:12:00.000Z',
+  })
+  checkInDate?: Date;
+
+  @ApiPropertyOptional({
+    example:
+      'Delegate was already checked in earlier at 2025-06-15T08:05:00.000Z',
+  })
+  conflict?: string;
+}
+
+export class KioskSyncResponseDto {
+  @ApiProperty({ example: 'kiosk-a' })
+  deviceId: string;
+
+  @ApiProperty({ example: 25 })
+  received: number;
+
+  @ApiProperty({ example: 22 })
+  applied: number;
+
+  @ApiProperty({ example: 3 })
+  conflicts: number;
+
+  @ApiProperty({ type: [KioskSyncRecordResultDto] })
+  results: KioskSyncRecordResultDto[];
+}
@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEmail,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+} from 'class-validator';
+
+export enum LoginCodeChannel {
+  EMAIL = 'email',
+  SMS = 'sms',
+}
+
+// Request Login Code DTO
+export class RequestLoginCodeDto {
+  @ApiProperty({ example: 'jane.wanjiku@example.com' })
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+
+  @ApiPropertyOptional({
+    enum: LoginCodeChannel,
+    default: LoginCodeChannel.EMAIL,
+    description:
+      'Email carries a code and a sign-in link; SMS carries the code only and falls back to email when no phone number is on file',
+  })
+  @IsOptional()
+  @IsEnum(LoginCodeChannel)
+  channel?: LoginCodeChannel;
+}
+
+// Login With Code DTO
+export class LoginWithCodeDto {
+  @ApiProperty({ example: 'jane.wanjiku@example.com' })
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+
+  @ApiProperty({ description: 'Six-digit code', example: '381204' })
+  @Matches(/^\d{6}$/, { message: 'code must be six digits' })
+  code: string;
+}
+
+// Login With Link DTO
+export class LoginWithLinkDto {
+  @ApiProperty({ description: 'token query parameter of the sign-in link' })
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
@@ -0,0 +1,82 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Req,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiParam,
+  ApiBody,
+  ApiOkResponse,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Request } from 'express';
+import { KioskService } from './kiosk.service';
+import {
+  KioskManifestDto,
+  KioskSyncDto,
+  KioskSyncResponseDto,
+} from './dto/kiosk-sync.dto';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../../common/enums/permission.enum';
+
+@ApiTags('Kiosk')
+@ApiBearerAuth()
+@Controller('kiosk')
+export class KioskController {
+  private readonly logger = new Logger(KioskController.name);
+
+  constructor(private readonly kioskService: KioskService) {}
+
+  @Get('manifest/:eventId')
+  @RequirePermissions(Permission.CHECK_IN)
+  @ApiOperation({
+    summary: 'Download the offline check-in manifest for an event',
+    description:
+      'Returns approved and checked-in delegates with their badge signatures so door scanners can validate badges without connectivity.',
+  })
+  @ApiParam({ name: 'eventId', description: 'Event ID' })
+  @ApiOkResponse({ description: 'Manifest generated', type: KioskManifestDto })
+  @ApiBadRequestResponse({ description: 'Invalid event ID format' })
+  @ApiNotFoundResponse({ description: 'Event not found' })
+  async getManifest(
+    @Param('eventId') eventId: string,
+  ): Promise<KioskManifestDto> {
+    this.logger.log(`GET /kiosk/manifest/${eventId} - Generating manifest`);
+    return this.kioskService.getManifest(eventId);
+  }
+
+  @Post('sync')
+  @RequirePermissions(Permission.CHECK_IN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Upload check-ins recorded while offline',
+    description:
+      'Reconciles a batch of timestamped scans. Re-uploading a scanId is a no-op, the earliest scan of a delegate wins, and each record reports its own outcome.',
+  })
+  @ApiBody({ type: KioskSyncDto })
+  @ApiOkResponse({
+    description: 'Batch reconciled',
+    type: KioskSyncResponseDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid input data' })
+  @ApiNotFoundResponse({ description: 'Event not found' })
+  async sync(
+    @Body() syncDto: KioskSyncDto,
+    @Req() req: Request,
+  ): Promise<KioskSyncResponseDto> {
+    this.logger.log(
+      `POST /kiosk/sync - Syncing ${syncDto.records.length} records from ${syncDto.deviceId}`,
+    );
+    return this.kioskService.sync(syncDto, req);
+  }
+}
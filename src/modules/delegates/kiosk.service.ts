@@ -0,0 +1,321 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Request } from 'express';
+import { Delegate, DelegateDocument, DelegateStatus } from './delegates.schema';
+import {
+  OfflineCheckIn,
+  OfflineCheckInDocument,
+  OfflineCheckInOutcome,
+} from './offline-check-in.schema';
+import {
+  KioskManifestDto,
+  KioskSyncDto,
+  KioskSyncRecordResultDto,
+  KioskSyncResponseDto,
+  OfflineCheckInRecordDto,
+} from './dto/kiosk-sync.dto';
+import { Event, EventDocument } from '../events/events.schema';
+import { BadgeSignatureService } from '../badge/badge-signature.service';
+import { SystemLogsService } from '../system-logs/services/system-logs.service';
+import { LogSeverity } from '../system-logs/schemas/system-log.schema';
+import { DelegatesService } from './delegate.service';
+
+// Scans stamped further than this into the future are treated as clock errors
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+@Injectable()
+export class KioskService {
+  private readonly logger = new Logger(KioskService.name);
+
+  constructor(
+    @InjectModel(Delegate.name)
+    private readonly delegateModel: Model<DelegateDocument>,
+    @InjectModel(Event.name)
+    private readonly eventModel: Model<EventDocument>,
+    @InjectModel(OfflineCheckIn.name)
+    private readonly offlineCheckInModel: Model<OfflineCheckInDocument>,
+    private readonly badgeSignatureService: BadgeSignatureService,
+    private readonly delegatesService: DelegatesService,
+    private readonly systemLogsService: SystemLogsService,
+  ) {}
+
+  /**
+   * Build the compact list of admissible delegates a scanner caches offline
+   */
+  async getManifest(eventId: string): Promise<KioskManifestDto> {
+    const event = await this.findEvent(eventId);
+
+    const delegates = await this.delegateModel
+      .find({
+        eventId: event._id,
+        status: { $in: [DelegateStatus.APPROVED, DelegateStatus.CHECKED_IN] },
+      })
+      .select(
+        'title firstName lastName delegateType status eventYear checkInDate',
+      )
+      .sort({ lastName: 1, firstName: 1 })
+      .lean()
+      .exec();
+
+    this.logger.log(
+      `Generated kiosk manifest for event ${eventId} with ${delegates.length} delegates`,
+    );
+
+    return {
+      eventId: event._id.toString(),
+      eventYear: event.eventYear,
+      generatedAt: new Date(),
+      delegates: delegates.map((delegate) => ({
+        id: delegate._id.toString(),
+        title: delegate.title,
+        firstName: delegate.firstName,
+        lastName: delegate.lastName,
+        delegateType: delegate.delegateType,
+        status: delegate.status,
+        sig: this.badgeSignatureService.sign({
+          delegateId: delegate._id.toString(),
+          eventYear: delegate.eventYear,
+        }),
+        checkInDate: delegate.checkInDate,
+      })),
+    };
+  }
+
+  /**
+   * Reconcile a batch of offline scans. Records are applied in scan order so
+   * the earliest scan of a delegate becomes their check-in time; re-uploaded
+   * scanIds return their stored outcome.
+   */
+  async sync(
+    syncDto: KioskSyncDto,
+    req?: Request,
+  ): Promise<KioskSyncResponseDto> {
+    const event = await this.findEvent(syncDto.eventId);
+
+    const previouslySynced = await this.offlineCheckInModel
+      .find({ scanId: { $in: syncDto.records.map((r) => r.scanId) } })
+      .lean()
+      .exec();
+    const syncedByScanId = new Map(
+      previouslySynced.map((record) => [record.scanId, record]),
+    );
+
+    const ordered = [...syncDto.records].sort(
+      (a, b) =>
+        new Date(a.scannedAt).getTime() - new Date(b.scannedAt).getTime() ||
+        a.scanId.localeCompare(b.scanId),
+    );
+
+    const resultsByScanId = new Map<string, KioskSyncRecordResultDto>();
+    for (const record of ordered) {
+      if (resultsByScanId.has(record.scanId)) {
+        continue;
+      }
+
+      const existing = syncedByScanId.get(record.scanId);
+      if (existing) {
+        resultsByScanId.set(record.scanId, {
+          scanId: record.scanId,
+          delegateId: existing.delegateId.toString(),
+          outcome: OfflineCheckInOutcome.ALREADY_SYNCED,
+          conflict: existing.conflict,
+        });
+        continue;
+      }
+
+      const result = await this.reconcile(record, event._id as Types.ObjectId);
+      resultsByScanId.set(
+        record.scanId,
+        await this.recordOutcome(syncDto.deviceId, event, record, result),
+      );
+    }
+
+    // Report in the order the device uploaded the records
+    const results = syncDto.records
+      .map((record) => resultsByScanId.get(record.scanId))
+      .filter(
+        (result, index, all) =>
+          all.findIndex((r) => r.scanId === result.scanId) === index,
+      );
+    const applied = results.filter(
+      (r) => r.outcome === OfflineCheckInOutcome.APPLIED,
+    ).length;
+    const conflicts = results.filter(
+      (r) =>
+        r.outcome === OfflineCheckInOutcome.SUPERSEDED ||
+        r.outcome === OfflineCheckInOutcome.REJECTED,
+    ).length;
+
+    await this.systemLogsService.createLog(
+      'Kiosk Sync',
+      `Device ${syncDto.deviceId} synced ${results.length} offline check-ins for event ${event.eventYear}: ${applied} applied, ${conflicts} conflicts`,
+      conflicts > 0 ? LogSeverity.WARNING : LogSeverity.INFO,
+      undefined,
+      req,
+    );
+
+    return {
+      deviceId: syncDto.deviceId,
+      received: results.length,
+      applied,
+      conflicts,
+      results,
+    };
+  }
+
+  private async reconcile(
+    record: OfflineCheckInRecordDto,
+    eventId: Types.ObjectId,
+  ): Promise<KioskSyncRecordResultDto> {
+    const base = { scanId: record.scanId, delegateId: record.delegateId };
+    const scannedAt = new Date(record.scannedAt);
+
+    if (scannedAt.getTime() > Date.now() + MAX_CLOCK_SKEW_MS) {
+      return {
+        ...base,
+        outcome: OfflineCheckInOutcome.REJECTED,
+        conflict: 'Scan time is in the future. Check the device clock.',
+      };
+    }
+
+    const delegate = await this.delegateModel
+      .findById(new Types.ObjectId(record.delegateId))
+      .exec();
+
+    if (!delegate || !delegate.eventId?.equals(eventId)) {
+      return {
+        ...base,
+        outcome: OfflineCheckInOutcome.REJECTED,
+        conflict: 'Delegate is not registered for this event.',
+      };
+    }
+
+    const checkInUpdate = {
+      checkInDate: scannedAt,
+      checkInLocation: record.checkInLocation,
+      checkedInBy: record.checkedInBy
+        ? new Types.ObjectId(record.checkedInBy)
+        : undefined,
+    };
+
+    if (delegate.status === DelegateStatus.APPROVED) {
+      const checkedIn = await this.delegateModel
+        .findOneAndUpdate(
+          { _id: delegate._id, status: DelegateStatus.APPROVED },
+          {
+            $set: {
+              ...checkInUpdate,
+              status: DelegateStatus.CHECKED_IN,
+              hasCheckedIn: true,
+            },
+          },
+          { new: true },
+        )
+        .exec();
+
+      if (checkedIn) {
+        this.delegatesService.sendCheckInConfirmation(checkedIn);
+        return {
+          ...base,
+          outcome: OfflineCheckInOutcome.APPLIED,
+          checkInDate: scannedAt,
+        };
+      }
+
+      // Checked in concurrently by another device; reconcile against that
+      return this.reconcile(record, eventId);
+    }
+
+    if (delegate.status === DelegateStatus.CHECKED_IN) {
+      const current = delegate.checkInDate;
+      if (current && current <= scannedAt) {
+        return {
+          ...base,
+          outcome: OfflineCheckInOutcome.SUPERSEDED,
+          checkInDate: current,
+          conflict: `Delegate was already checked in earlier at ${current.toISOString()}`,
+        };
+      }
+
+      // This scan predates the recorded check-in, so it wins
+      await this.delegateModel
+        .updateOne(
+          {
+            _id: delegate._id,
+            $or: [
+              { checkInDate: { $exists: false } },
+              { checkInDate: null },
+              { checkInDate: { $gt: scannedAt } },
+            ],
+          },
+          { $set: checkInUpdate },
+        )
+        .exec();
+
+      return {
+        ...base,
+        outcome: OfflineCheckInOutcome.APPLIED,
+        checkInDate: scannedAt,
+        conflict: current
+          ? `Replaced later check-in recorded at ${current.toISOString()}`
+          : undefined,
+      };
+    }
+
+    return {
+      ...base,
+      outcome: OfflineCheckInOutcome.REJECTED,
+      conflict: `Delegate cannot be checked in. Current status: ${delegate.status}`,
+    };
+  }
+
+  private async recordOutcome(
+    deviceId: string,
+    event: EventDocument,
+    record: OfflineCheckInRecordDto,
+    result: KioskSyncRecordResultDto,
+  ): Promise<KioskSyncRecordResultDto> {
+    try {
+      await this.offlineCheckInModel.create({
+        scanId: record.scanId,
+        deviceId,
+        eventId: event._id,
+        delegateId: new Types.ObjectId(record.delegateId),
+        scannedAt: new Date(record.scannedAt),
+        checkInLocation: record.checkInLocation,
+        checkedInBy: record.checkedInBy
+          ? new Types.ObjectId(record.checkedInBy)
+          : undefined,
+        outcome: result.outcome,
+        conflict: result.conflict,
+      });
+      return result;
+    } catch (error) {
+      // The same batch was uploaded concurrently; the other request owns it
+      if (error.code === 11000) {
+        return { ...result, outcome: OfflineCheckInOutcome.ALREADY_SYNCED };
+      }
+      throw error;
+    }
+  }
+
+  private async findEvent(eventId: string): Promise<EventDocument> {
+    if (!Types.ObjectId.isValid(eventId)) {
+      throw new BadRequestException('Invalid event ID format');
+    }
+
+    const event = await this.eventModel
+      .findById(new Types.ObjectId(eventId))
+      .exec();
+    if (!event) {
+      throw new NotFoundException(`Event with ID ${eventId} not found`);
+    }
+    return event;
+  }
+}
@@ -0,0 +1,53 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export enum OfflineCheckInOutcome {
+  APPLIED = 'applied',
+  ALREADY_SYNCED = 'already_synced',
+  SUPERSEDED = 'superseded',
+  REJECTED = 'rejected',
+}
+
+// Offline Check-in Schema
+// One document per scan uploaded by a kiosk device. The client-generated
+// scanId makes uploads idempotent: replaying a batch returns the stored
+// outcome instead of checking the delegate in again.
+@Schema({
+  timestamps: true,
+  collection: 'offline_check_ins',
+})
+export class OfflineCheckIn {
+  @Prop({ required: true, unique: true, trim: true })
+  scanId: string;
+
+  @Prop({ required: true, trim: true })
+  deviceId: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Event', required: true })
+  eventId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Delegate', required: true })
+  delegateId: Types.ObjectId;
+
+  @Prop({ required: true })
+  scannedAt: Date;
+
+  @Prop()
+  checkInLocation: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  checkedInBy: Types.ObjectId;
+
+  @Prop({ type: String, enum: OfflineCheckInOutcome, required: true })
+  outcome: OfflineCheckInOutcome;
+
+  @Prop()
+  conflict: string;
+}
+
+export type OfflineCheckInDocument = OfflineCheckIn & Document;
+export const OfflineCheckInSchema =
+  SchemaFactory.createForClass(OfflineCheckIn);
+
+OfflineCheckInSchema.index({ eventId: 1, deviceId: 1 });
+OfflineCheckInSchema.index({ delegateId: 1, scannedAt: 1 });
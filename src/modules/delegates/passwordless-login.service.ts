@@ -0,0 +1,316 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+import {
+  ATTENDING_STATUSES,
+  Delegate,
+  DelegateDocument,
+} from './delegates.schema';
+import {
+  LoginCodeChannel,
+  LoginWithCodeDto,
+  LoginWithLinkDto,
+  RequestLoginCodeDto,
+} from './dto/passwordless-login.dto';
+import { DelegatesService } from './delegate.service';
+import { AuthResponse } from '../auth/interfaces/auth.interface';
+import { NotificationService } from '../notifications/services/notification.service';
+import { EmailTemplatesService } from '../email-templates/email-templates.service';
+import { EmailTemplateKey } from '../email-templates/email-template.schema';
+import { SessionsService } from '../sessions/sessions.service';
+import { LockoutService } from '../lockout/lockout.service';
+import { AttemptScope } from '../lockout/login-attempt.schema';
+import { SystemLogsService } from '../system-logs/services/system-logs.service';
+import { LogSeverity } from '../system-logs/schemas/system-log.schema';
+import { PrincipalType } from '../../common/enums/principal-type.enum';
+
+const LOGIN_CODE_TTL_MINUTES = 10;
+
+// A new code is not sent while the previous one is this fresh
+const RESEND_COOLDOWN_SECONDS = 60;
+
+const LOGIN_CODE_FIELDS =
+  '+loginCodeHash +loginLinkHash +loginCodeExpires +loginCodeSentAt';
+
+const REQUEST_RESPONSE =
+  'ShafDb: If your email is registered, you will receive a sign-in code.';
+
+@Injectable()
+export class PasswordlessLoginService {
+  private readonly logger = new Logger(PasswordlessLoginService.name);
+
+  constructor(
+    @InjectModel(Delegate.name)
+    private readonly delegateModel: Model<DelegateDocument>,
+    private readonly delegatesService: DelegatesService,
+    private readonly notificationService: NotificationService,
+    private readonly emailTemplatesService: EmailTemplatesService,
+    private readonly sessionsService: SessionsService,
+    private readonly lockoutService: LockoutService,
+    private readonly systemLogsService: SystemLogsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Send a one-time code, plus a sign-in link when sent by email. The
+   * response is the same whether or not the email is registered.
+   */
+  async requestCode(
+    requestDto: RequestLoginCodeDto,
+    req?: Request,
+  ): Promise<{ message: string }> {
+    await this.lockoutService.assertCodeAllowed(
+      AttemptScope.LOGIN_CODE,
+      PrincipalType.DELEGATE,
+      requestDto.email,
+      req,
+    );
+
+    const delegate = await this.delegateModel
+      .findOne({ email: requestDto.email })
+      .select(LOGIN_CODE_FIELDS)
+      .exec();
+    if (!delegate || !ATTENDING_STATUSES.includes(delegate.status)) {
+      await this.systemLogsService.createLog(
+        'Delegate Login Code Request Failed',
+        `Sign-in code requested for unknown or inactive email: ${requestDto.email}`,
+        LogSeverity.WARNING,
+        undefined,
+        req,
+      );
+      return { message: REQUEST_RESPONSE };
+    }
+
+    const cooldownStart = Date.now() - RESEND_COOLDOWN_SECONDS * 1000;
+    if (delegate.loginCodeSentAt?.getTime() > cooldownStart) {
+      this.logger.log(`Sign-in code for ${delegate.email} sent too recently`);
+      return { message: REQUEST_RESPONSE };
+    }
+
+    const code = randomInt(0, 1000000).toString().padStart(6, '0');
+    const linkSecret = randomBytes(32).toString('base64url');
+    delegate.loginCodeHash = this.hash(code);
+    delegate.loginLinkHash = this.hash(linkSecret);
+    delegate.loginCodeExpires = new Date(
+      Date.now() + LOGIN_CODE_TTL_MINUTES * 60 * 1000,
+    );
+    delegate.loginCodeSentAt = new Date();
+    await delegate.save();
+
+    const useSms =
+      requestDto.channel === LoginCodeChannel.SMS && !!delegate.phoneNumber;
+    if (useSms) {
+      await this.notificationService.sendSMS(
+        delegate.phoneNumber,
+        `Your Shelter Afrique sign-in code is ${code}. It expires in ${LOGIN_CODE_TTL_MINUTES} minutes. Do not share it with anyone.`,
+      );
+    } else {
+      await this.emailTemplatesService.send(
+        delegate.email,
+        EmailTemplateKey.LOGIN_CODE,
+        {
+          firstName: delegate.firstName,
+          code,
+          expiresInMinutes: LOGIN_CODE_TTL_MINUTES,
+          loginLink: this.buildLoginLink(delegate, linkSecret) ?? undefined,
+        },
+        { language: delegate.preferredLanguage, eventId: delegate.eventId },
+      );
+    }
+
+    await this.systemLogsService.createLog(
+      'Delegate Login Code Sent',
+      `Sign-in code sent by ${useSms ? 'SMS' : 'email'} to ${delegate.firstName} ${delegate.lastName} (${delegate.email})`,
+      LogSeverity.INFO,
+      delegate.phoneNumber?.toString(),
+      req,
+    );
+    return { message: REQUEST_RESPONSE };
+  }
+
+  async loginWithCode(
+    loginDto: LoginWithCodeDto,
+    req?: Request,
+  ): Promise<AuthResponse> {
+    await this.lockoutService.assertCodeAllowed(
+      AttemptScope.LOGIN_CODE,
+      PrincipalType.DELEGATE,
+      loginDto.email,
+      req,
+    );
+
+    const delegate = await this.delegateModel
+      .findOne({ email: loginDto.email })
+      .select(LOGIN_CODE_FIELDS)
+      .exec();
+    const codeHash = this.hash(loginDto.code);
+    const valid =
+      !!delegate &&
+      this.isUnexpired(delegate) &&
+      this.matches(codeHash, delegate.loginCodeHash);
+
+    if (
+      !valid ||
+      !(await this.consume(delegate, { loginCodeHash: codeHash }))
+    ) {
+      const locked = await this.lockoutService.recordCodeFailure(
+        AttemptScope.LOGIN_CODE,
+        PrincipalType.DELEGATE,
+        loginDto.email,
+        req,
+      );
+      if (locked && delegate) {
+        // Force a new code once the lock lifts
+        await this.consume(delegate, {});
+      }
+      throw new UnauthorizedException(
+        'ShafDb: Invalid or expired sign-in code.',
+      );
+    }
+
+    await this.lockoutService.clearCodeFailures(
+      AttemptScope.LOGIN_CODE,
+      PrincipalType.DELEGATE,
+      loginDto.email,
+    );
+    return this.completeLogin(delegate, 'a one-time code', req);
+  }
+
+  async loginWithLink(
+    loginDto: LoginWithLinkDto,
+    req?: Request,
+  ): Promise<AuthResponse> {
+    const [delegateId, secret] = (loginDto.token || '').split('.');
+    if (!delegateId || !secret || !Types.ObjectId.isValid(delegateId)) {
+      throw new UnauthorizedException(
+        'ShafDb: Invalid or expired sign-in link.',
+      );
+    }
+
+    const delegate = await this.delegateModel
+      .findById(delegateId)
+      .select(LOGIN_CODE_FIELDS)
+      .exec();
+    if (!delegate) {
+      throw new UnauthorizedException(
+        'ShafDb: Invalid or expired sign-in link.',
+      );
+    }
+    await this.lockoutService.assertCodeAllowed(
+      AttemptScope.LOGIN_CODE,
+      PrincipalType.DELEGATE,
+      delegate.email,
+      req,
+    );
+
+    const linkHash = this.hash(secret);
+    const valid =
+      this.isUnexpired(delegate) &&
+      this.matches(linkHash, delegate.loginLinkHash);
+    if (
+      !valid ||
+      !(await this.consume(delegate, { loginLinkHash: linkHash }))
+    ) {
+      await this.lockoutService.recordCodeFailure(
+        AttemptScope.LOGIN_CODE,
+        PrincipalType.DELEGATE,
+        delegate.email,
+        req,
+      );
+      throw new UnauthorizedException(
+        'ShafDb: Invalid or expired sign-in link.',
+      );
+    }
+
+    await this.lockoutService.clearCodeFailures(
+      AttemptScope.LOGIN_CODE,
+      PrincipalType.DELEGATE,
+      delegate.email,
+    );
+    return this.completeLogin(delegate, 'a sign-in link', req);
+  }
+
+  // ======================================================
+  // HELPERS
+  // ======================================================
+
+  private async completeLogin(
+    delegate: DelegateDocument,
+    method: string,
+    req?: Request,
+  ): Promise<AuthResponse> {
+    if (!ATTENDING_STATUSES.includes(delegate.status)) {
+      throw new UnauthorizedException('Account is not active');
+    }
+
+    const tokens = await this.sessionsService.issue(
+      PrincipalType.DELEGATE,
+      delegate,
+      req,
+    );
+    await this.systemLogsService.createLog(
+      'ShafDb User Login',
+      `User ${delegate.firstName} ${delegate.lastName} (${delegate.email}) logged in with ${method}.`,
+      LogSeverity.INFO,
+      delegate.phoneNumber?.toString(),
+      req,
+    );
+
+    return {
+      user: this.delegatesService.sanitizeUser(delegate),
+      ...tokens,
+    };
+  }
+
+  /**
+   * Clear the outstanding code and link. The extra filter makes the first
+   * exchange win when the same code is presented twice at once.
+   */
+  private async consume(
+    delegate: DelegateDocument,
+    filter: Partial<Pick<Delegate, 'loginCodeHash' | 'loginLinkHash'>>,
+  ): Promise<boolean> {
+    const result = await this.delegateModel
+      .updateOne(
+        { _id: delegate._id, ...filter },
+        {
+          $unset: { loginCodeHash: 1, loginLinkHash: 1, loginCodeExpires: 1 },
+        },
+      )
+      .exec();
+    return result.modifiedCount === 1;
+  }
+
+  private isUnexpired(delegate: DelegateDocument): boolean {
+    return (
+      !!delegate.loginCodeExpires && delegate.loginCodeExpires > new Date()
+    );
+  }
+
+  private buildLoginLink(
+    delegate: DelegateDocument,
+    secret: string,
+  ): string | null {
+    const baseUrl = this.configService.get<string>('DELEGATE_LOGIN_URL');
+    if (!baseUrl) {
+      return null;
+    }
+    const token = `${delegate._id.toString()}.${secret}`;
+    return `${baseUrl}${baseUrl.includes('?') ? '&' : '?'}token=${encodeURIComponent(token)}`;
+  }
+
+  private hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex');
+  }
+
+  private matches(actualHash: string, expectedHash: string): boolean {
+    const actual = Buffer.from(actualHash, 'hex');
+    const expected = Buffer.from(expectedHash || '', 'hex');
+    return (
+      actual.length === expected.length && timingSafeEqual(actual, expected)
+    );
+  }
+}
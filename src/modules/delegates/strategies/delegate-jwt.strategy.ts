@@ -0,0 +1,52 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { ExtractJwt, Strategy } from 'passport-jwt';
+import { ConfigService } from '@nestjs/config';
+import { DelegatesService } from '../delegate.service';
+import { ATTENDING_STATUSES } from '../delegates.schema';
+import { SessionsService } from '../../sessions/sessions.service';
+import {
+  DELEGATE_JWT_AUDIENCE,
+  DELEGATE_JWT_STRATEGY,
+  JWT_ISSUER,
+} from '../../auth/auth.constants';
+import { PrincipalType } from '../../../common/enums/principal-type.enum';
+
+@Injectable()
+export class DelegateJwtStrategy extends PassportStrategy(
+  Strategy,
+  DELEGATE_JWT_STRATEGY,
+) {
+  constructor(
+    private configService: ConfigService,
+    private delegateService: DelegatesService,
+    private sessionsService: SessionsService,
+  ) {
+    super({
+      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      ignoreExpiration: false,
+      secretOrKey: configService.get<string>('JWT_SECRET'),
+      audience: DELEGATE_JWT_AUDIENCE,
+      issuer: JWT_ISSUER,
+      passReqToCallback: true,
+    });
+  }
+
+  async validate(req: any, payload: any) {
+    if (!(await this.sessionsService.isActive(payload.sid))) {
+      throw new UnauthorizedException('Session has expired or been revoked');
+    }
+    const user = await this.delegateService.findById(payload.sub);
+    if (!user) {
+      throw new UnauthorizedException('Delegate not found');
+    }
+    // Checked-in delegates keep using the app during the event
+    if (!ATTENDING_STATUSES.includes(user.status)) {
+      throw new UnauthorizedException('Delegate account is not approved');
+    }
+    req.principalType = PrincipalType.DELEGATE;
+    req.sessionId = payload.sid;
+    req.tokenExpiresAt = new Date(payload.exp * 1000);
+    return user;
+  }
+}
@@ -0,0 +1,231 @@
+import { EmailTemplateKey } from './email-template.schema';
+
+export interface EmailTemplateDefinition {
+  description: string;
+  // Variables the template may use, with sample values for previews
+  variables: Record<string, string>;
+  subject: string;
+  html: string;
+}
+
+const card = (
+  gradient: [string, string],
+  heading: string,
+  content: string,
+): string => `
+      <div style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.8; color: #333; max-width: 680px; margin: 20px auto; border: 1px solid #e0e0e0; border-radius: 12px; overflow: hidden; box-shadow: 0 8px 24px rgba(0,0,0,0.1);">
+        <div style="background: linear-gradient(135deg, ${gradient[0]} 0%, ${gradient[1]} 100%); color: white; padding: 30px; text-align: center;">
+          <h1 style="margin: 0; font-size: 28px; font-weight: 600;">${heading}</h1>
+        </div>
+        <div style="padding: 30px;">${content}
+          <p style="font-size: 16px; margin-top: 30px;">Best regards,<br><strong>The Event Team</strong></p>
+        </div>
+        <div style="background-color: #f8f9fa; color: #888; padding: 15px; text-align: center; font-size: 12px; border-top: 1px solid #e0e0e0;">
+          <p>This is an automated message. Please do not reply directly to this email.</p>
+        </div>
+      </div>
+    `;
+
+const notice = (heading: string, content: string): string => `
+          <div style="font-family: Arial, sans-serif; padding: 20px; color: #333;">
+            <h2 style="color: #2c3e50;">${heading}</h2>
+            <div style="padding: 20px; background-color: #f8f9fa; border-radius: 5px;">${content}
+            </div>
+            <p style="margin-top: 20px; font-size: 12px; color: #666;">
+              This is an automated message, please do not reply to this email.
+            </p>
+          </div>
+        `;
+
+const DELEGATE_NAME = { delegateName: 'Dr. Amina Otieno' };
+
+/**
+ * Built-in English emails. Admins can override them per language and per
+ * event; these are used whenever no override matches.
+ */
+export const DEFAULT_EMAIL_TEMPLATES: Record<
+  EmailTemplateKey,
+  EmailTemplateDefinition
+> = {
+  [EmailTemplateKey.REGISTRATION_RECEIVED]: {
+    description: 'Sent when a registration is received and awaits review',
+    variables: DELEGATE_NAME,
+    subject: 'Shelter Afrique - Registration Confirmation',
+    html: card(
+      ['#007bff', '#0056b3'],
+      'Registration Received',
+      `
+          <p style="font-size: 18px;">Dear {{delegateName}},</p>
+          <p style="font-size: 16px;">Thank you for registering for the upcoming event. We have successfully received your information, and it is now under review by our team.</p>
+          <p style="font-size: 16px;">You will receive another email notification once your registration has been approved. Please keep an eye on your inbox.</p>
+          <p style="font-size: 16px; margin-top: 30px;">We appreciate your patience.</p>`,
+    ),
+  },
+  [EmailTemplateKey.REGISTRATION_WAITLISTED]: {
+    description: 'Sent when a registration is placed on the waitlist',
+    variables: { ...DELEGATE_NAME, waitlistPosition: '4' },
+    subject: 'Shelter Afrique - Registration Waitlisted',
+    html: card(
+      ['#f0ad4e', '#d58512'],
+      "You're on the Waitlist",
+      `
+          <p style="font-size: 18px;">Dear {{delegateName}},</p>
+          <p style="font-size: 16px;">Thank you for registering for the upcoming event. The event has reached its maximum capacity, so your registration has been placed on the waitlist.</p>
+          <p style="font-size: 16px;"><strong>Your waitlist position:</strong> {{waitlistPosition}}</p>
+          <p style="font-size: 16px;">If a place becomes available, we will notify you immediately and your registration will move into review.</p>`,
+    ),
+  },
+  [EmailTemplateKey.WAITLIST_PROMOTED]: {
+    description: 'Sent when a waitlisted delegate is given a place',
+    variables: DELEGATE_NAME,
+    subject: 'A Place Has Opened Up for You',
+    html: card(
+      ['#007bff', '#0056b3'],
+      'A Place Has Opened Up',
+      `
+          <p style="font-size: 18px;">Dear {{delegateName}},</p>
+          <p style="font-size: 16px;">Good news! A place has become available at the event and your registration has been moved off the waitlist.</p>
+          <p style="font-size: 16px;">Your registration is now under review by our team. You will receive another email once it has been approved.</p>`,
+    ),
+  },
+  [EmailTemplateKey.REGISTRATION_APPROVED]: {
+    description:
+      'Sent on approval with the check-in QR code attached as cid:qr-code-badge',
+    variables: {
+      ...DELEGATE_NAME,
+      delegateType: 'Government',
+      eventYear: '2025',
+      badgeDownloadUrl:
+        'https://api.example.com/delegates/665f1c2ab4d3e8a1f0c9b123/badge',
+    },
+    subject: 'Your Registration has been Approved!',
+    html: card(
+      ['#004a99', '#002b5a'],
+      'Registration Approved!',
+      `
+          <p style="font-size: 18px;">Dear {{delegateName}},</p>
+          <p style="font-size: 16px;">We are delighted to inform you that your registration for the event has been approved. Please find your digital check-in badge below.</p>
+
+          <div style="border: 2px dashed #004a99; border-radius: 15px; padding: 25px; margin: 30px 0; background-color: #fdfdfd; text-align: center;">
+            <h2 style="color: #004a99; margin-top: 0; font-size: 22px; font-weight: 600;">EVENT CHECK-IN BADGE</h2>
+            <img src="cid:qr-code-badge" alt="QR Code for Check-in" style="max-width: 220px; margin-top: 20px; border: 5px solid white; border-radius: 8px; box-shadow: 0 4px 12px rgba(0,0,0,0.1);">
+            <h3 style="margin-top: 25px; margin-bottom: 8px; font-size: 24px; font-weight: 700; color: #333;">{{delegateName}}</h3>
+            <p style="margin: 8px 0; font-size: 16px;"><strong>Delegate Type:</strong> {{delegateType}}</p>
+            <p style="margin: 8px 0; font-size: 16px;"><strong>Event Year:</strong> {{eventYear}}</p>
+          </div>
+
+          <div style="text-align: center; margin-top: 30px;">
+            <a href="{{badgeDownloadUrl}}" download style="background-color: #004a99; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-size: 16px; font-weight: bold; display: inline-block; box-shadow: 0 4px 8px rgba(0,0,0,0.1); transition: background-color 0.3s ease;">Download for Print</a>
+          </div>
+
+          <p style="font-size: 16px; margin-top: 30px;">Please present this QR code at the registration desk for a quick and seamless check-in process. You can either print this email or show it on your mobile device.</p>
+          <p style="font-size: 16px;">We look forward to welcoming you to the event!</p>`,
+    ),
+  },
+  [EmailTemplateKey.REGISTRATION_REJECTED]: {
+    description: 'Sent when a registration is rejected',
+    variables: {
+      delegateName: 'Amina Otieno',
+      rejectionReason: 'Incomplete identification documents',
+    },
+    subject: 'Update on Your Registration Status',
+    html: '<p>Dear {{delegateName}},</p><p>We regret to inform you that your registration has been rejected. Reason: {{rejectionReason}}.</p><p>If you believe this is an error, please contact our support team.</p>',
+  },
+  [EmailTemplateKey.REGISTRATION_SUSPENDED]: {
+    description: 'Sent when a registration is suspended',
+    variables: {
+      delegateName: 'Amina Otieno',
+      suspensionReason: 'Duplicate registration under review',
+    },
+    subject: 'Your Registration has been Suspended',
+    html: '<p>Dear {{delegateName}},</p><p>Your event registration has been suspended. Reason: {{suspensionReason}}.</p><p>If you believe this is an error, please contact our support team.</p>',
+  },
+  [EmailTemplateKey.CHECK_IN_CONFIRMATION]: {
+    description: 'Sent once a delegate is checked in',
+    variables: DELEGATE_NAME,
+    subject: 'Welcome! You are Checked In',
+    html: card(
+      ['#28a745', '#218838'],
+      'Welcome to the Event!',
+      `
+          <p style="font-size: 18px;">Dear {{delegateName}},</p>
+          <p style="font-size: 16px;">This email confirms that you have been successfully checked in. We are thrilled to have you with us!</p>
+          <p style="font-size: 16px;">We hope you have an inspiring and productive time at the event. If you need any assistance, please do not hesitate to contact our staff.</p>
+          <p style="font-size: 16px; margin-top: 30px;">Enjoy the event!</p>`,
+    ),
+  },
+  [EmailTemplateKey.LOGIN_CODE]: {
+    description:
+      'One-time sign-in code for delegates; loginLink is empty when sign-in links are not configured',
+    variables: {
+      firstName: 'Amina',
+      code: '492039',
+      expiresInMinutes: '10',
+      loginLink: 'https://app.example.com/login?token=665f1c2a.secret',
+    },
+    subject: 'Shelter Afrique: Your sign-in code',
+    html: notice(
+      'Shelter Afrique Sign-in',
+      `
+              <p>Dear {{firstName}},</p>
+              <p>Your sign-in code is:</p>
+              <p style="font-size: 28px; font-weight: bold; letter-spacing: 6px; text-align: center;">{{code}}</p>{{#loginLink}}
+              <p>Or sign in directly on this device:</p>
+              <p style="text-align: center; margin: 24px 0;">
+                <a href="{{loginLink}}" style="background-color: #004a99; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; font-weight: bold; display: inline-block;">Sign in</a>
+              </p>{{/loginLink}}
+              <p>The code{{#loginLink}} and link expire{{/loginLink}}{{^loginLink}} expires{{/loginLink}} in {{expiresInMinutes}} minutes and can be used once. If you did not request it, you can ignore this email.</p>`,
+    ),
+  },
+  [EmailTemplateKey.PASSWORD_RESET_PIN]: {
+    description: 'Password reset PIN for staff and delegates',
+    variables: { pin: '581204', expiresInMinutes: '10' },
+    subject: 'Shelter Afrique: Password Reset',
+    html: notice(
+      'Shelter Afrique Notification',
+      `
+              Your ShafDb password reset PIN is: {{pin}}. This PIN will expire in {{expiresInMinutes}} minutes. Please keep this PIN secure and do not share it with anyone.`,
+    ),
+  },
+  [EmailTemplateKey.EVENT_CANCELLED]: {
+    description: 'Broadcast to every delegate of a cancelled event',
+    variables: {
+      eventTitle: 'Shelter Afrique AGM 2025',
+      cancellationReason: 'Venue unavailable',
+    },
+    subject: 'Event Cancelled: {{eventTitle}}',
+    html: card(
+      ['#dc3545', '#a71d2a'],
+      'Event Cancelled',
+      `
+          <p style="font-size: 18px;">Dear Delegate,</p>
+          <p style="font-size: 16px;">We regret to inform you that <strong>{{eventTitle}}</strong> has been cancelled.</p>
+          <div style="border-left: 4px solid #dc3545; padding: 10px 20px; margin: 25px 0; background-color: #fdf3f4;">
+            <p style="margin: 0; font-size: 16px;"><strong>Reason:</strong> {{cancellationReason}}</p>
+          </div>
+          <p style="font-size: 16px;">We sincerely apologise for any inconvenience. Our team will be in touch with further information.</p>`,
+    ),
+  },
+  [EmailTemplateKey.PASS_REISSUED]: {
+    description:
+      'Broadcast to attending delegates when event dates or venue change; venue may be empty',
+    variables: {
+      eventTitle: 'Shelter Afrique AGM 2025',
+      dates: '10 June 2025 - 12 June 2025',
+      venue: 'Kigali Convention Centre, Kigali',
+    },
+    subject: 'Updated Event Pass: {{eventTitle}}',
+    html: card(
+      ['#0D47A1', '#26A69A'],
+      'Your Event Pass Has Been Updated',
+      `
+          <p style="font-size: 18px;">Dear Delegate,</p>
+          <p style="font-size: 16px;">The details of <strong>{{eventTitle}}</strong> have changed. Your event pass has been re-issued with the new information.</p>
+          <div style="border-left: 4px solid #0D47A1; padding: 10px 20px; margin: 25px 0; background-color: #f1f6fd;">
+            <p style="margin: 0; font-size: 16px;"><strong>Dates:</strong> {{dates}}</p>{{#venue}}
+            <p style="margin: 0; font-size: 16px;"><strong>Venue:</strong> {{venue}}</p>{{/venue}}
+          </div>
+          <p style="font-size: 16px;">Please replace any saved copy of your pass with the updated one.</p>`,
+    ),
+  },
+};
@@ -0,0 +1,153 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEmail,
+  IsEnum,
+  IsMongoId,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { LanguageCode } from '../../../information/entities/information.entity';
+import { EmailTemplateKey } from '../email-template.schema';
+
+// Email Template Scope DTO
+export class EmailTemplateScopeDto {
+  @ApiPropertyOptional({ enum: LanguageCode, default: LanguageCode.EN })
+  @IsOptional()
+  @IsEnum(LanguageCode)
+  language?: LanguageCode;
+
+  @ApiPropertyOptional({
+    description: 'Event-specific template; omit for the default of every event',
+  })
+  @IsOptional()
+  @IsMongoId()
+  eventId?: string;
+}
+
+// Upsert Email Template DTO
+export class UpsertEmailTemplateDto {
+  @ApiProperty({ enum: LanguageCode, example: LanguageCode.FR })
+  @IsEnum(LanguageCode)
+  language: LanguageCode;
+
+  @ApiPropertyOptional({
+    description: 'Event-specific template; omit for the default of every event',
+  })
+  @IsOptional()
+  @IsMongoId()
+  eventId?: string;
+
+  @ApiProperty({
+    description: 'Plain text; may use {{variables}}',
+    example: 'Votre inscription a été approuvée !',
+  })
+  @IsString()
+  @IsNotEmpty()
+  subject: string;
+
+  @ApiProperty({
+    description:
+      'HTML body. {{name}} inserts an escaped variable; {{#name}}...{{/name}} is kept only when the variable is set and {{^name}}...{{/name}} only when it is not.',
+    example: '<p>Cher/Chère {{delegateName}},</p>',
+  })
+  @IsString()
+  @IsNotEmpty()
+  html: string;
+}
+
+// Preview Email Template DTO
+export class PreviewEmailTemplateDto extends EmailTemplateScopeDto {
+  @ApiPropertyOptional({
+    description: 'Draft subject to preview instead of the saved one',
+  })
+  @IsOptional()
+  @IsString()
+  subject?: string;
+
+  @ApiPropertyOptional({
+    description: 'Draft HTML to preview instead of the saved one',
+  })
+  @IsOptional()
+  @IsString()
+  html?: string;
+
+  @ApiPropertyOptional({
+    description: 'Values overriding the sample variables',
+    example: { delegateName: 'Mr. Kofi Mensah' },
+  })
+  @IsOptional()
+  @IsObject()
+  variables?: Record<string, string>;
+}
+
+// Test Send Email Template DTO
+export class TestSendEmailTemplateDto extends PreviewEmailTemplateDto {
+  @ApiProperty({ example: 'jane.wanjiku@example.com' })
+  @IsEmail()
+  to: string;
+}
+
+// Response DTOs for documentation
+export class EmailTemplateSummaryDto {
+  @ApiProperty({ enum: EmailTemplateKey })
+  key: EmailTemplateKey;
+
+  @ApiProperty({ example: 'Sent when a registration is rejected' })
+  description: string;
+
+  @ApiProperty({
+    description: 'Variables the template may use, with sample values',
+    example: { delegateName: 'Amina Otieno', rejectionReason: 'Incomplete' },
+  })
+  variables: Record<string, string>;
+
+  @ApiProperty({
+    description: 'Saved overrides of the built-in English template',
+    example: [{ language: 'fr', eventId: null }],
+  })
+  overrides: { language: LanguageCode; eventId: string | null }[];
+}
+
+export class ResolvedEmailTemplateDto {
+  @ApiProperty({ enum: EmailTemplateKey })
+  key: EmailTemplateKey;
+
+  @ApiProperty({
+    enum: LanguageCode,
+    description: 'Language actually used after falling back to English',
+  })
+  language: LanguageCode;
+
+  @ApiPropertyOptional({ type: String, nullable: true })
+  eventId: string | null;
+
+  @ApiProperty({
+    description: 'False when the built-in template is used',
+    example: true,
+  })
+  custom: boolean;
+
+  @ApiProperty()
+  subject: string;
+
+  @ApiProperty()
+  html: string;
+}
+
+export class RenderedEmailDto {
+  @ApiProperty({ enum: LanguageCode })
+  language: LanguageCode;
+
+  @ApiProperty({ example: 'Your Registration has been Approved!' })
+  subject: string;
+
+  @ApiProperty()
+  html: string;
+}
+
+export class TestSendResultDto {
+  @ApiProperty({ example: true })
+  sent: boolean;
+}
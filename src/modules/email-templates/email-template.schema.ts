@@ -0,0 +1,62 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Document, Types } from 'mongoose';
+import { LanguageCode } from '../../information/entities/information.entity';
+
+export enum EmailTemplateKey {
+  REGISTRATION_RECEIVED = 'registration_received',
+  REGISTRATION_WAITLISTED = 'registration_waitlisted',
+  WAITLIST_PROMOTED = 'waitlist_promoted',
+  REGISTRATION_APPROVED = 'registration_approved',
+  REGISTRATION_REJECTED = 'registration_rejected',
+  REGISTRATION_SUSPENDED = 'registration_suspended',
+  CHECK_IN_CONFIRMATION = 'check_in_confirmation',
+  LOGIN_CODE = 'login_code',
+  PASSWORD_RESET_PIN = 'password_reset_pin',
+  EVENT_CANCELLED = 'event_cancelled',
+  PASS_REISSUED = 'pass_reissued',
+}
+
+// Email Template Schema
+// An admin override of a built-in email for one language, either for every
+// event (eventId unset) or for a single event.
+@Schema({
+  timestamps: true,
+  collection: 'email_templates',
+})
+export class EmailTemplate {
+  @ApiProperty({ enum: EmailTemplateKey })
+  @Prop({ type: String, enum: EmailTemplateKey, required: true })
+  key: EmailTemplateKey;
+
+  @ApiProperty({ enum: LanguageCode })
+  @Prop({ type: String, enum: LanguageCode, required: true })
+  language: LanguageCode;
+
+  @ApiPropertyOptional({
+    type: String,
+    description: 'Event the override applies to; absent for every event',
+  })
+  @Prop({ type: Types.ObjectId, ref: 'Event', default: null })
+  eventId: Types.ObjectId | null;
+
+  @ApiProperty({ example: 'Your Registration has been Approved!' })
+  @Prop({ required: true })
+  subject: string;
+
+  @ApiProperty({ example: '<p>Dear {{delegateName}},</p>' })
+  @Prop({ required: true })
+  html: string;
+
+  @ApiPropertyOptional({ type: String })
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  updatedBy: Types.ObjectId;
+}
+
+export type EmailTemplateDocument = EmailTemplate & Document;
+export const EmailTemplateSchema = SchemaFactory.createForClass(EmailTemplate);
+
+EmailTemplateSchema.index(
+  { key: 1, language: 1, eventId: 1 },
+  { unique: true },
+);
@@ -0,0 +1,152 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Put,
+  Query,
+  Req,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiNoContentResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiParam,
+  ApiTags,
+} from '@nestjs/swagger';
+import { EmailTemplatesService } from './email-templates.service';
+import { EmailTemplate, EmailTemplateKey } from './email-template.schema';
+import {
+  EmailTemplateScopeDto,
+  EmailTemplateSummaryDto,
+  PreviewEmailTemplateDto,
+  RenderedEmailDto,
+  ResolvedEmailTemplateDto,
+  TestSendEmailTemplateDto,
+  TestSendResultDto,
+  UpsertEmailTemplateDto,
+} from './dto/email-template.dto';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../../common/enums/permission.enum';
+
+@ApiTags('Email Templates')
+@ApiBearerAuth()
+@RequirePermissions(Permission.EMAIL_TEMPLATES_MANAGE)
+@Controller('email-templates')
+export class EmailTemplatesController {
+  private readonly logger = new Logger(EmailTemplatesController.name);
+
+  constructor(private readonly emailTemplatesService: EmailTemplatesService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List email templates',
+    description:
+      'Every email the platform sends, its variables and the saved language and event overrides.',
+  })
+  @ApiOkResponse({ type: [EmailTemplateSummaryDto] })
+  async findAll(): Promise<EmailTemplateSummaryDto[]> {
+    this.logger.log(`GET /email-templates - Listing templates`);
+    return this.emailTemplatesService.findAll();
+  }
+
+  @Get(':key')
+  @ApiOperation({
+    summary: 'Get the template used for a language and event',
+    description:
+      'Falls back to the template for every event, then to English, then to the built-in template.',
+  })
+  @ApiParam({ name: 'key', enum: EmailTemplateKey })
+  @ApiOkResponse({ type: ResolvedEmailTemplateDto })
+  @ApiNotFoundResponse({ description: 'Unknown template' })
+  async findOne(
+    @Param('key') key: EmailTemplateKey,
+    @Query() scope: EmailTemplateScopeDto,
+  ): Promise<ResolvedEmailTemplateDto> {
+    this.logger.log(`GET /email-templates/${key} - Fetching template`);
+    return this.emailTemplatesService.findOne(key, scope);
+  }
+
+  @Put(':key')
+  @ApiOperation({ summary: 'Save a template for a language and event' })
+  @ApiParam({ name: 'key', enum: EmailTemplateKey })
+  @ApiOkResponse({ type: EmailTemplate })
+  @ApiBadRequestResponse({ description: 'Unknown variable in the template' })
+  @ApiNotFoundResponse({ description: 'Unknown template' })
+  async upsert(
+    @Param('key') key: EmailTemplateKey,
+    @Body() upsertDto: UpsertEmailTemplateDto,
+    @Req() req: any,
+  ): Promise<EmailTemplate> {
+    this.logger.log(
+      `PUT /email-templates/${key} - Saving ${upsertDto.language} template`,
+    );
+    return this.emailTemplatesService.upsert(
+      key,
+      upsertDto,
+      req.user._id.toString(),
+      req,
+    );
+  }
+
+  @Delete(':key')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete a saved template',
+    description: 'The next fallback is used again afterwards.',
+  })
+  @ApiParam({ name: 'key', enum: EmailTemplateKey })
+  @ApiNoContentResponse({ description: 'Template deleted' })
+  @ApiNotFoundResponse({ description: 'No saved template' })
+  async remove(
+    @Param('key') key: EmailTemplateKey,
+    @Query() scope: EmailTemplateScopeDto,
+    @Req() req: any,
+  ): Promise<void> {
+    this.logger.log(`DELETE /email-templates/${key} - Removing template`);
+    await this.emailTemplatesService.remove(key, scope, req);
+  }
+
+  @Post(':key/preview')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Preview a template',
+    description:
+      'Renders the saved template, or the draft subject and HTML, with sample variables.',
+  })
+  @ApiParam({ name: 'key', enum: EmailTemplateKey })
+  @ApiOkResponse({ type: RenderedEmailDto })
+  @ApiBadRequestResponse({ description: 'Unknown variable in the template' })
+  async preview(
+    @Param('key') key: EmailTemplateKey,
+    @Body() previewDto: PreviewEmailTemplateDto,
+  ): Promise<RenderedEmailDto> {
+    this.logger.log(`POST /email-templates/${key}/preview - Rendering preview`);
+    return this.emailTemplatesService.preview(key, previewDto);
+  }
+
+  @Post(':key/test')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Send a test email',
+    description: 'Sends the preview to one address with a [TEST] subject.',
+  })
+  @ApiParam({ name: 'key', enum: EmailTemplateKey })
+  @ApiOkResponse({ type: TestSendResultDto })
+  @ApiBadRequestResponse({ description: 'Unknown variable in the template' })
+  async testSend(
+    @Param('key') key: EmailTemplateKey,
+    @Body() testDto: TestSendEmailTemplateDto,
+  ): Promise<TestSendResultDto> {
+    this.logger.log(`POST /email-templates/${key}/test - Sending test email`);
+    return this.emailTemplatesService.testSend(key, testDto);
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { EmailTemplate, EmailTemplateSchema } from './email-template.schema';
+import { EmailTemplatesService } from './email-templates.service';
+import { EmailTemplatesController } from './email-templates.controller';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: EmailTemplate.name, schema: EmailTemplateSchema },
+    ]),
+    NotificationsModule,
+    AuditModule,
+  ],
+  controllers: [EmailTemplatesController],
+  providers: [EmailTemplatesService],
+  exports: [EmailTemplatesService],
+})
+export class EmailTemplatesModule {}
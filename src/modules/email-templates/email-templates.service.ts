@@ -0,0 +1,429 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Request } from 'express';
+import {
+  EmailTemplate,
+  EmailTemplateDocument,
+  EmailTemplateKey,
+} from './email-template.schema';
+import { DEFAULT_EMAIL_TEMPLATES } from './default-templates';
+import {
+  EmailTemplateScopeDto,
+  EmailTemplateSummaryDto,
+  PreviewEmailTemplateDto,
+  RenderedEmailDto,
+  ResolvedEmailTemplateDto,
+  TestSendEmailTemplateDto,
+  UpsertEmailTemplateDto,
+} from './dto/email-template.dto';
+import { LanguageCode } from '../../information/entities/information.entity';
+import {
+  EmailAttachment,
+  EmailRecipient,
+  NotificationService,
+} from '../notifications/services/notification.service';
+import { NotificationOptions } from '../notifications/services/notification-preferences.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit-entry.schema';
+
+export type TemplateVariables = Record<string, string | number | undefined>;
+
+export interface RenderOptions {
+  // Language code or name, e.g. a delegate's preferredLanguage
+  language?: string;
+  eventId?: string | Types.ObjectId;
+}
+
+export interface SendOptions extends RenderOptions {
+  attachments?: EmailAttachment[];
+  // Delegate whose preferences decide whether the email goes out; account
+  // emails to an address leave it out
+  delegate?: EmailRecipient;
+  notification?: NotificationOptions;
+}
+
+// Language names delegates enter as preferredLanguage
+const LANGUAGE_NAMES: Record<string, LanguageCode> = {
+  english: LanguageCode.EN,
+  french: LanguageCode.FR,
+  français: LanguageCode.FR,
+  francais: LanguageCode.FR,
+  portuguese: LanguageCode.PT,
+  português: LanguageCode.PT,
+  portugues: LanguageCode.PT,
+  arabic: LanguageCode.AR,
+  العربية: LanguageCode.AR,
+  swahili: LanguageCode.SW,
+  kiswahili: LanguageCode.SW,
+};
+
+const SECTION_PATTERN =
+  /\{\{([#^])\s*(\w+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g;
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const REFERENCE_PATTERN = /\{\{[#^/]?\s*(\w+)\s*\}\}/g;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+@Injectable()
+export class EmailTemplatesService {
+  private readonly logger = new Logger(EmailTemplatesService.name);
+
+  constructor(
+    @InjectModel(EmailTemplate.name)
+    private readonly templateModel: Model<EmailTemplateDocument>,
+    private readonly notificationService: NotificationService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  // ======================================================
+  // RENDERING
+  // ======================================================
+
+  /**
+   * Render an email in the requested language, preferring an override for
+   * the event, then the override for every event, then English
+   */
+  async render(
+    key: EmailTemplateKey,
+    variables: TemplateVariables,
+    options: RenderOptions = {},
+  ): Promise<RenderedEmailDto> {
+    const template = await this.resolve(
+      key,
+      this.resolveLanguage(options.language),
+      options.eventId?.toString(),
+    );
+    return {
+      language: template.language,
+      subject: this.interpolate(template.subject, variables, false),
+      html: this.interpolate(template.html, variables, true),
+    };
+  }
+
+  /**
+   * Render and send an email. Resolves to false when sending fails, like
+   * NotificationService.sendEmail, or when the delegate's preferences hold
+   * it back.
+   */
+  async send(
+    to: string,
+    key: EmailTemplateKey,
+    variables: TemplateVariables,
+    options: SendOptions = {},
+  ): Promise<boolean> {
+    const { subject, html } = await this.render(key, variables, options);
+    if (options.delegate) {
+      return this.notificationService.sendDelegateEmail(
+        options.delegate,
+        to,
+        subject,
+        html,
+        options.attachments,
+        options.notification,
+      );
+    }
+    return options.attachments?.length
+      ? this.notificationService.sendEmailWithAttachments(
+          to,
+          subject,
+          html,
+          options.attachments,
+        )
+      : this.notificationService.sendEmail(to, subject, html);
+  }
+
+  /**
+   * Map a language code or name to a supported language; anything else
+   * falls back to English
+   */
+  resolveLanguage(preferred?: string): LanguageCode {
+    const value = (preferred || '').trim().toLowerCase();
+    const code = value.split(/[-_]/)[0];
+    if (Object.values(LanguageCode).includes(code as LanguageCode)) {
+      return code as LanguageCode;
+    }
+    return LANGUAGE_NAMES[value] || LanguageCode.EN;
+  }
+
+  // ======================================================
+  // ADMINISTRATION
+  // ======================================================
+
+  async findAll(): Promise<EmailTemplateSummaryDto[]> {
+    const overrides = await this.templateModel
+      .find()
+      .select('key language eventId')
+      .sort({ key: 1, language: 1 })
+      .lean()
+      .exec();
+
+    return Object.values(EmailTemplateKey).map((key) => ({
+      key,
+      description: DEFAULT_EMAIL_TEMPLATES[key].description,
+      variables: DEFAULT_EMAIL_TEMPLATES[key].variables,
+      overrides: overrides
+        .filter((template) => template.key === key)
+        .map((template) => ({
+          language: template.language,
+          eventId: template.eventId?.toString() || null,
+        })),
+    }));
+  }
+
+  async findOne(
+    key: EmailTemplateKey,
+    scope: EmailTemplateScopeDto,
+  ): Promise<ResolvedEmailTemplateDto> {
+    this.assertKnown(key);
+    return this.resolve(key, scope.language || LanguageCode.EN, scope.eventId);
+  }
+
+  async upsert(
+    key: EmailTemplateKey,
+    upsertDto: UpsertEmailTemplateDto,
+    userId: string,
+    req?: Request,
+  ): Promise<EmailTemplate> {
+    this.assertKnown(key);
+    this.assertVariables(key, upsertDto.subject, upsertDto.html);
+
+    const filter = {
+      key,
+      language: upsertDto.language,
+      eventId: upsertDto.eventId ? new Types.ObjectId(upsertDto.eventId) : null,
+    };
+    const before = await this.templateModel.findOne(filter).lean().exec();
+    const template = await this.templateModel
+      .findOneAndUpdate(
+        filter,
+        {
+          $set: {
+            subject: upsertDto.subject,
+            html: upsertDto.html,
+            updatedBy: new Types.ObjectId(userId),
+          },
+        },
+        { upsert: true, new: true, runValidators: true },
+      )
+      .lean()
+      .exec();
+
+    await this.auditService.record(
+      {
+        entityType: AuditEntityType.EMAIL_TEMPLATE,
+        entityId: template._id,
+        action: before ? AuditAction.UPDATE : AuditAction.CREATE,
+        before,
+        after: template,
+      },
+      req,
+    );
+    this.logger.log(`Saved ${key} template (${upsertDto.language})`);
+    return template;
+  }
+
+  /**
+   * Delete an override so the next fallback applies again
+   */
+  async remove(
+    key: EmailTemplateKey,
+    scope: EmailTemplateScopeDto,
+    req?: Request,
+  ): Promise<void> {
+    this.assertKnown(key);
+    const template = await this.templateModel
+      .findOneAndDelete({
+        key,
+        language: scope.language || LanguageCode.EN,
+        eventId: scope.eventId ? new Types.ObjectId(scope.eventId) : null,
+      })
+      .lean()
+      .exec();
+    if (!template) {
+      throw new NotFoundException(
+        `No saved ${key} template for this language and event`,
+      );
+    }
+
+    await this.auditService.record(
+      {
+        entityType: AuditEntityType.EMAIL_TEMPLATE,
+        entityId: template._id,
+        action: AuditAction.DELETE,
+        before: template,
+      },
+      req,
+    );
+    this.logger.log(`Removed ${key} template (${template.language})`);
+  }
+
+  /**
+   * Render the saved template, or a draft, with sample variables
+   */
+  async preview(
+    key: EmailTemplateKey,
+    previewDto: PreviewEmailTemplateDto,
+  ): Promise<RenderedEmailDto> {
+    this.assertKnown(key);
+    const language = previewDto.language || LanguageCode.EN;
+    const saved = await this.resolve(key, language, previewDto.eventId);
+    const subject = previewDto.subject ?? saved.subject;
+    const html = previewDto.html ?? saved.html;
+    this.assertVariables(key, subject, html);
+
+    const variables = {
+      ...DEFAULT_EMAIL_TEMPLATES[key].variables,
+      ...previewDto.variables,
+    };
+    return {
+      language:
+        previewDto.subject !== undefined || previewDto.html !== undefined
+          ? language
+          : saved.language,
+      subject: this.interpolate(subject, variables, false),
+      html: this.interpolate(html, variables, true),
+    };
+  }
+
+  async testSend(
+    key: EmailTemplateKey,
+    testDto: TestSendEmailTemplateDto,
+  ): Promise<{ sent: boolean }> {
+    const { subject, html } = await this.preview(key, testDto);
+    const sent = await this.notificationService.sendEmail(
+      testDto.to,
+      `[TEST] ${subject}`,
+      html,
+    );
+    return { sent };
+  }
+
+  // ======================================================
+  // HELPERS
+  // ======================================================
+
+  private async resolve(
+    key: EmailTemplateKey,
+    language: LanguageCode,
+    eventId?: string,
+  ): Promise<ResolvedEmailTemplateDto> {
+    const scopedEventId =
+      eventId && Types.ObjectId.isValid(eventId) ? eventId : null;
+    const candidates = await this.templateModel
+      .find({
+        key,
+        language: { $in: [language, LanguageCode.EN] },
+        eventId: {
+          $in: scopedEventId
+            ? [new Types.ObjectId(scopedEventId), null]
+            : [null],
+        },
+      })
+      .lean()
+      .exec();
+
+    const order: [LanguageCode, string | null][] = [
+      [language, scopedEventId],
+      [language, null],
+      [LanguageCode.EN, scopedEventId],
+      [LanguageCode.EN, null],
+    ];
+    for (const [candidateLanguage, candidateEventId] of order) {
+      const match = candidates.find(
+        (template) =>
+          template.language === candidateLanguage &&
+          (template.eventId?.toString() || null) === candidateEventId,
+      );
+      if (match) {
+        return {
+          key,
+          language: match.language,
+          eventId: match.eventId?.toString() || null,
+          custom: true,
+          subject: match.subject,
+          html: match.html,
+        };
+      }
+    }
+
+    const builtIn = DEFAULT_EMAIL_TEMPLATES[key];
+    return {
+      key,
+      language: LanguageCode.EN,
+      eventId: null,
+      custom: false,
+      subject: builtIn.subject,
+      html: builtIn.html,
+    };
+  }
+
+  /**
+   * Replace {{name}} with the variable, HTML-escaped when escape is set.
+   * {{#name}}...{{/name}} is kept only when the variable is set and
+   * {{^name}}...{{/name}} only when it is not. Inserted values are never
+   * interpreted as template syntax.
+   */
+  private interpolate(
+    template: string,
+    variables: TemplateVariables,
+    escape: boolean,
+  ): string {
+    const isSet = (name: string) =>
+      variables[name] !== undefined &&
+      variables[name] !== null &&
+      variables[name] !== '';
+
+    return template
+      .replace(SECTION_PATTERN, (_, type, name, content) =>
+        (type === '#') === isSet(name) ? content : '',
+      )
+      .replace(VARIABLE_PATTERN, (_, name) => {
+        if (!isSet(name)) {
+          return '';
+        }
+        const value = String(variables[name]);
+        return escape
+          ? value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char])
+          : value;
+      });
+  }
+
+  private assertKnown(key: EmailTemplateKey): void {
+    if (!DEFAULT_EMAIL_TEMPLATES[key]) {
+      throw new NotFoundException(
+        `Unknown email template ${key}. Available: ${Object.values(EmailTemplateKey).join(', ')}`,
+      );
+    }
+  }
+
+  private assertVariables(
+    key: EmailTemplateKey,
+    subject: string,
+    html: string,
+  ): void {
+    const known = Object.keys(DEFAULT_EMAIL_TEMPLATES[key].variables);
+    const unknown = new Set<string>();
+    for (const [, name] of `${subject}\n${html}`.matchAll(REFERENCE_PATTERN)) {
+      if (!known.includes(name)) {
+        unknown.add(name);
+      }
+    }
+    if (unknown.size > 0) {
+      throw new BadRequestException(
+        `Unknown variables for ${key}: ${[...unknown].join(', ')}. Available: ${known.join(', ')}`,
+      );
+    }
+  }
+}
@@ -41,6 +41,10 @@ import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { Request as ExpressRequest } from 'express';
 import { Public } from '../auth/decorators/public.decorator';
 import { UsePipes, ValidationPipe } from '@nestjs/common';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../../common/enums/permission.enum';
+import { Principals } from '../../common/decorators/principals.decorator';
+import { PrincipalType } from '../../common/enums/principal-type.enum';
 
 @UsePipes(
   new ValidationPipe({
@@ -61,6 +65,7 @@ export class EventsController {
   private readonly logger = new Logger(EventsController.name);
 
   @Post()
+  @RequirePermissions(Permission.EVENTS_MANAGE)
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
   @ApiOperation({
@@ -345,7 +350,11 @@ export class EventsController {
         }
       }
       const createdBy = (req.user as any).id;
-      const event = await this.eventsService.create(createEventDto, createdBy);
+      const event = await this.eventsService.create(
+        createEventDto,
+        createdBy,
+        req,
+      );
       this.logger.log(`Event created successfully with ID: ${event.title}`);
       return event;
     } catch (error) {
@@ -538,6 +547,7 @@ export class EventsController {
   }
 
   @Get(':id')
+  @Principals(PrincipalType.STAFF, PrincipalType.DELEGATE)
   @UseGuards(JwtAuthGuard)
   @ApiOperation({
     summary: 'Get event by ID',
@@ -607,6 +617,7 @@ export class EventsController {
   }
 
   @Patch(':id')
+  @RequirePermissions(Permission.EVENTS_MANAGE)
   @UseGuards(JwtAuthGuard)
   @ApiOperation({
     summary: 'Update an existing event',
@@ -787,6 +798,7 @@ export class EventsController {
       eventImages?: Express.Multer.File[];
       brandingLogo?: Express.Multer.File[];
     },
+    @Req() req: ExpressRequest,
   ): Promise<Event> {
     try {
       if (!Types.ObjectId.isValid(id)) {
@@ -910,7 +922,11 @@ export class EventsController {
       }
 
       this.logger.log(`Updating event with ID: ${id}`);
-      const updatedEvent = await this.eventsService.update(id, updateEventDto);
+      const updatedEvent = await this.eventsService.update(
+        id,
+        updateEventDto,
+        req,
+      );
 
       this.logger.log(`Event ${id} updated successfully`);
       return updatedEvent;
@@ -947,6 +963,7 @@ export class EventsController {
   }
 
   @Patch(':id/cancel')
+  @RequirePermissions(Permission.EVENTS_CANCEL)
   @UseGuards(JwtAuthGuard)
   @ApiOperation({
     summary: 'Cancel event',
@@ -982,6 +999,7 @@ export class EventsController {
   async cancelEvent(
     @Param('id') id: string,
     @Body() cancelEventDto: CancelEventDto,
+    @Req() req: ExpressRequest,
   ): Promise<Event> {
     try {
       // Validate MongoDB ObjectId format
@@ -996,6 +1014,7 @@ export class EventsController {
       const cancelledEvent = await this.eventsService.cancelEvent(
         id,
         cancelEventDto.cancellationReason,
+        req,
       );
 
       if (!cancelledEvent) {
@@ -1017,6 +1036,7 @@ export class EventsController {
   }
 
   @Delete(':id')
+  @RequirePermissions(Permission.EVENTS_MANAGE)
   @UseGuards(JwtAuthGuard)
   @ApiOperation({
     summary: 'Delete event (Hard delete)',
@@ -1056,6 +1076,7 @@ export class EventsController {
   })
   async remove(
     @Param('id') id: string,
+    @Req() req: ExpressRequest,
   ): Promise<{ message: string; deletedEventId: string }> {
     try {
       // Validate MongoDB ObjectId format
@@ -1067,7 +1088,7 @@ export class EventsController {
       }
 
       this.logger.log(`Deleting event with ID: ${id}`);
-      const deleted = await this.eventsService.remove(id);
+      const deleted = await this.eventsService.remove(id, req);
 
       if (!deleted) {
         throw new HttpException(
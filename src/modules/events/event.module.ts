@@ -12,6 +12,8 @@ import { EventsService } from './event.service';
 import { EventsController } from './event.controller';
 import { PassportModule } from '@nestjs/passport';
 import { EventSchema } from './events.schema';
+import { BroadcastsModule } from '../broadcasts/broadcasts.module';
+import { AuditModule } from '../audit/audit.module';
 
 @Module({
   imports: [
@@ -31,6 +33,8 @@ import { EventSchema } from './events.schema';
         },
       }),
     }),
+    BroadcastsModule,
+    AuditModule,
   ],
   controllers: [EventsController],
   providers: [SystemLogsService, EventsService],
@@ -7,8 +7,12 @@ import {
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types, FilterQuery } from 'mongoose';
+import { Request } from 'express';
 import { Event, EventDocument, EventStatus } from './events.schema';
 import { CreateEventDto, UpdateEventDto } from './dto/event.dto';
+import { BroadcastsService } from '../broadcasts/broadcasts.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit-entry.schema';
 
 export interface FindAllOptions {
   page: number;
@@ -42,6 +46,8 @@ export class EventsService {
 
   constructor(
     @InjectModel(Event.name) private eventModel: Model<EventDocument>,
+    private readonly broadcastsService: BroadcastsService,
+    private readonly auditService: AuditService,
   ) {}
 
   /**
@@ -50,6 +56,7 @@ export class EventsService {
   async create(
     createEventDto: CreateEventDto,
     createdBy: string,
+    req?: Request,
   ): Promise<Event> {
     try {
       this.logger.debug(`Creating event: ${createEventDto.title}`);
@@ -84,6 +91,15 @@ export class EventsService {
       const savedEvent = await createdEvent.save();
 
       this.logger.log(`Event created successfully: ${savedEvent._id}`);
+      await this.auditService.record(
+        {
+          entityType: AuditEntityType.EVENT,
+          entityId: savedEvent._id,
+          action: AuditAction.CREATE,
+          after: savedEvent,
+        },
+        req,
+      );
       return savedEvent.toObject();
     } catch (error) {
       this.logger.error(
@@ -453,6 +469,7 @@ export class EventsService {
   async update(
     id: string,
     updateEventDto: UpdateEventDto,
+    req?: Request,
   ): Promise<Event | null> {
     try {
       this.logger.debug(`Updating event with ID: ${id}`);
@@ -485,6 +502,20 @@ export class EventsService {
 
       if (updatedEvent) {
         this.logger.log(`Event ${id} updated successfully`);
+        await this.auditService.record(
+          {
+            entityType: AuditEntityType.EVENT,
+            entityId: id,
+            action: AuditAction.UPDATE,
+            before: existingEvent,
+            after: updatedEvent,
+          },
+          req,
+        );
+
+        if (this.passDetailsChanged(existingEvent, updatedEvent)) {
+          await this.notifyPassReissue(updatedEvent);
+        }
       }
 
       return updatedEvent;
@@ -520,6 +551,7 @@ export class EventsService {
   async cancelEvent(
     id: string,
     cancellationReason: string,
+    req?: Request,
   ): Promise<Event | null> {
     try {
       this.logger.debug(`Cancelling event with ID: ${id}`);
@@ -578,7 +610,18 @@ export class EventsService {
 
       if (cancelledEvent) {
         this.logger.log(`Event ${id} cancelled successfully`);
-        // Here you could trigger notifications to attendees
+        await this.auditService.record(
+          {
+            entityType: AuditEntityType.EVENT,
+            entityId: id,
+            action: AuditAction.CANCEL,
+            before: existingEvent,
+            after: cancelledEvent,
+          },
+          req,
+        );
+        cancelledEvent.cancellationBroadcastId =
+          await this.notifyCancellation(cancelledEvent);
       }
 
       return cancelledEvent;
@@ -602,7 +645,7 @@ export class EventsService {
   /**
    * Delete an event with validation
    */
-  async remove(id: string): Promise<boolean> {
+  async remove(id: string, req?: Request): Promise<boolean> {
     try {
       this.logger.debug(`Deleting event with ID: ${id}`);
 
@@ -634,6 +677,15 @@ export class EventsService {
 
       if (result) {
         this.logger.log(`Event ${id} deleted successfully`);
+        await this.auditService.record(
+          {
+            entityType: AuditEntityType.EVENT,
+            entityId: id,
+            action: AuditAction.DELETE,
+            before: existingEvent,
+          },
+          req,
+        );
         return true;
       }
 
@@ -752,6 +804,68 @@ export class EventsService {
     }
   }
 
+  /**
+   * Queue the cancellation notice to every delegate of the event. The event
+   * stays cancelled even if queueing fails; the failure is logged.
+   */
+  private async notifyCancellation(
+    event: Pick<EventDocument, '_id' | 'title' | 'cancellationReason'>,
+  ): Promise<Types.ObjectId | undefined> {
+    try {
+      const broadcast =
+        await this.broadcastsService.broadcastEventCancellation(event);
+      await this.eventModel
+        .updateOne(
+          { _id: event._id },
+          { cancellationBroadcastId: broadcast._id },
+        )
+        .exec();
+      return broadcast._id as Types.ObjectId;
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue cancellation notices for event ${event._id}: ${error.message}`,
+        error.stack,
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Wallet passes carry the title, dates and venue, so any change to those
+   * on a live event means approved delegates need a new pass
+   */
+  private passDetailsChanged(before: EventDocument, after: Event): boolean {
+    if (
+      after.status !== EventStatus.PUBLISHED &&
+      after.status !== EventStatus.ONGOING
+    ) {
+      return false;
+    }
+    return (
+      before.title !== after.title ||
+      before.startDate?.getTime() !== after.startDate?.getTime() ||
+      before.endDate?.getTime() !== after.endDate?.getTime() ||
+      JSON.stringify(before.toObject().location) !==
+        JSON.stringify(after.location)
+    );
+  }
+
+  private async notifyPassReissue(
+    event: Pick<
+      EventDocument,
+      '_id' | 'title' | 'startDate' | 'endDate' | 'location'
+    >,
+  ): Promise<void> {
+    try {
+      await this.broadcastsService.broadcastPassReissue(event);
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue pass re-issue for event ${event._id}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
   /**
    * Validate capacity constraints
    */
@@ -182,6 +182,19 @@ export class Event {
   @Prop({ default: 0 })
   currentAttendees: number;
 
+  // Delegates holding one of the maxAttendees places (pending, approved or
+  // checked in). Taken and released atomically so concurrent registrations
+  // cannot overfill the event; seeded from the delegates when missing.
+  @Prop()
+  placesHeld?: number;
+
+  @Prop()
+  waitlistCount?: number;
+
+  // Last waitlist position handed out; positions are never reused
+  @Prop()
+  waitlistSequence?: number;
+
   @Prop()
   eventBanner: string;
 
@@ -334,6 +347,9 @@ export class Event {
   @Prop()
   cancellationReason: string;
 
+  @Prop({ type: Types.ObjectId, ref: 'Broadcast' })
+  cancellationBroadcastId: Types.ObjectId;
+
   @Prop()
   notes: string;
 }
@@ -0,0 +1,51 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEmail, IsEnum, IsIP, IsOptional } from 'class-validator';
+import { PrincipalType } from '../../../common/enums/principal-type.enum';
+import { AttemptScope } from '../login-attempt.schema';
+
+// Unlock DTO
+export class UnlockDto {
+  @ApiPropertyOptional({
+    enum: PrincipalType,
+    description: 'Account type; required with email',
+  })
+  @IsOptional()
+  @IsEnum(PrincipalType)
+  principalType?: PrincipalType;
+
+  @ApiPropertyOptional({ example: 'jane.wanjiku@example.com' })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiPropertyOptional({ example: '41.90.64.10' })
+  @IsOptional()
+  @IsIP()
+  ipAddress?: string;
+}
+
+// Response DTOs for documentation
+export class LockoutDto {
+  @ApiProperty({ enum: AttemptScope })
+  scope: AttemptScope;
+
+  @ApiPropertyOptional({ enum: PrincipalType })
+  principalType?: PrincipalType;
+
+  @ApiProperty({ example: 'jane.wanjiku@example.com' })
+  identifier: string;
+
+  @ApiProperty({ example: 10 })
+  failures: number;
+
+  @ApiProperty()
+  lockedAt: Date;
+
+  @ApiProperty()
+  blockedUntil: Date;
+}
+
+export class UnlockResultDto {
+  @ApiProperty({ description: 'Attempt records cleared', example: 2 })
+  unlocked: number;
+}
@@ -0,0 +1,62 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Post,
+  Req,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { LockoutService } from './lockout.service';
+import { LockoutDto, UnlockDto, UnlockResultDto } from './dto/lockout.dto';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../../common/enums/permission.enum';
+
+@ApiTags('Lockouts')
+@ApiBearerAuth()
+@RequirePermissions(Permission.ACCOUNTS_UNLOCK)
+@Controller('lockouts')
+export class LockoutController {
+  private readonly logger = new Logger(LockoutController.name);
+
+  constructor(private readonly lockoutService: LockoutService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List locked accounts and IP addresses',
+    description:
+      'Staff accounts, delegate accounts, password reset PINs and IP addresses currently locked after repeated failed attempts.',
+  })
+  @ApiOkResponse({ type: [LockoutDto] })
+  async findLocked(): Promise<LockoutDto[]> {
+    this.logger.log(`GET /lockouts - Listing active lockouts`);
+    return this.lockoutService.findLocked();
+  }
+
+  @Post('unlock')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Unlock an account or IP address',
+    description:
+      'Clears failed login and reset PIN attempts for the account and/or IP address, lifting any backoff or lockout.',
+  })
+  @ApiOkResponse({ type: UnlockResultDto })
+  @ApiBadRequestResponse({
+    description: 'Neither an email nor an IP address was provided',
+  })
+  async unlock(
+    @Body() unlockDto: UnlockDto,
+    @Req() req: any,
+  ): Promise<UnlockResultDto> {
+    this.logger.log(`POST /lockouts/unlock - Clearing failed attempts`);
+    return this.lockoutService.unlock(unlockDto, req.user._id.toString(), req);
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { LoginAttempt, LoginAttemptSchema } from './login-attempt.schema';
+import { LockoutService } from './lockout.service';
+import { LockoutController } from './lockout.controller';
+import { SystemLogsModule } from '../system-logs/system-logs.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: LoginAttempt.name, schema: LoginAttemptSchema },
+    ]),
+    SystemLogsModule,
+  ],
+  controllers: [LockoutController],
+  providers: [LockoutService],
+  exports: [LockoutService],
+})
+export class LockoutModule {}
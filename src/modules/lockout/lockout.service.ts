@@ -0,0 +1,355 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Request } from 'express';
+import {
+  AttemptScope,
+  LoginAttempt,
+  LoginAttemptDocument,
+} from './login-attempt.schema';
+import { LockoutDto, UnlockDto, UnlockResultDto } from './dto/lockout.dto';
+import { PrincipalType } from '../../common/enums/principal-type.enum';
+import { SystemLogsService } from '../system-logs/services/system-logs.service';
+import { LogSeverity } from '../system-logs/schemas/system-log.schema';
+
+interface AttemptPolicy {
+  // Failures allowed before backoff starts
+  freeAttempts: number;
+  // Failures that trigger a full lockout
+  lockAfter: number;
+  lockMinutes: number;
+}
+
+const POLICIES: Record<AttemptScope, AttemptPolicy> = {
+  [AttemptScope.ACCOUNT]: { freeAttempts: 3, lockAfter: 10, lockMinutes: 30 },
+  // Shared by every account behind one address (offices, venue Wi-Fi)
+  [AttemptScope.IP]: { freeAttempts: 20, lockAfter: 100, lockMinutes: 60 },
+  [AttemptScope.RESET_PIN]: { freeAttempts: 2, lockAfter: 5, lockMinutes: 30 },
+  [AttemptScope.LOGIN_CODE]: { freeAttempts: 2, lockAfter: 5, lockMinutes: 30 },
+};
+
+const MAX_BACKOFF_SECONDS = 15 * 60;
+
+// Counters reset after a day without failures
+const ATTEMPT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const LOCK_EVENTS: Record<AttemptScope, string> = {
+  [AttemptScope.ACCOUNT]: 'Account Locked',
+  [AttemptScope.IP]: 'IP Address Blocked',
+  [AttemptScope.RESET_PIN]: 'Password Reset Locked',
+  [AttemptScope.LOGIN_CODE]: 'Login Code Locked',
+};
+
+// Scopes for short codes sent by email or SMS
+export type OneTimeCodeScope = AttemptScope.RESET_PIN | AttemptScope.LOGIN_CODE;
+
+interface AttemptKey {
+  scope: AttemptScope;
+  principalType: PrincipalType | null;
+  identifier: string;
+}
+
+@Injectable()
+export class LockoutService {
+  private readonly logger = new Logger(LockoutService.name);
+
+  constructor(
+    @InjectModel(LoginAttempt.name)
+    private readonly attemptModel: Model<LoginAttemptDocument>,
+    private readonly systemLogsService: SystemLogsService,
+  ) {}
+
+  // ======================================================
+  // LOGIN
+  // ======================================================
+
+  /**
+   * Reject a login while the account or client IP is backing off or locked
+   */
+  async assertLoginAllowed(
+    principalType: PrincipalType,
+    email: string,
+    req?: Request,
+  ): Promise<void> {
+    await this.assertAllowed([
+      this.accountKey(principalType, email),
+      ...this.ipKeys(req),
+    ]);
+  }
+
+  async recordLoginFailure(
+    principalType: PrincipalType,
+    email: string,
+    req?: Request,
+  ): Promise<void> {
+    for (const key of [
+      this.accountKey(principalType, email),
+      ...this.ipKeys(req),
+    ]) {
+      await this.recordFailure(key, req);
+    }
+  }
+
+  /**
+   * A successful login clears the account counter. The IP counter is left
+   * alone so one valid account cannot be used to reset it.
+   */
+  async recordLoginSuccess(
+    principalType: PrincipalType,
+    email: string,
+  ): Promise<void> {
+    await this.attemptModel
+      .deleteOne(this.accountKey(principalType, email))
+      .exec();
+  }
+
+  // ======================================================
+  // ONE-TIME CODES (RESET PINS, LOGIN CODES)
+  // ======================================================
+
+  async assertCodeAllowed(
+    scope: OneTimeCodeScope,
+    principalType: PrincipalType,
+    email: string,
+    req?: Request,
+  ): Promise<void> {
+    await this.assertAllowed([
+      this.codeKey(scope, principalType, email),
+      ...this.ipKeys(req),
+    ]);
+  }
+
+  /**
+   * Returns true once the attempt limit is reached, so the caller can
+   * invalidate the outstanding code
+   */
+  async recordCodeFailure(
+    scope: OneTimeCodeScope,
+    principalType: PrincipalType,
+    email: string,
+    req?: Request,
+  ): Promise<boolean> {
+    const locked = await this.recordFailure(
+      this.codeKey(scope, principalType, email),
+      req,
+    );
+    for (const key of this.ipKeys(req)) {
+      await this.recordFailure(key, req);
+    }
+    return locked;
+  }
+
+  async clearCodeFailures(
+    scope: OneTimeCodeScope,
+    principalType: PrincipalType,
+    email: string,
+  ): Promise<void> {
+    await this.attemptModel
+      .deleteOne(this.codeKey(scope, principalType, email))
+      .exec();
+  }
+
+  // ======================================================
+  // ADMINISTRATION
+  // ======================================================
+
+  async findLocked(): Promise<LockoutDto[]> {
+    const attempts = await this.attemptModel
+      .find({ lockedAt: { $ne: null }, blockedUntil: { $gt: new Date() } })
+      .sort({ lockedAt: -1 })
+      .lean()
+      .exec();
+
+    return attempts.map((attempt) => ({
+      scope: attempt.scope,
+      principalType: attempt.principalType || undefined,
+      identifier: attempt.identifier,
+      failures: attempt.failures,
+      lockedAt: attempt.lockedAt,
+      blockedUntil: attempt.blockedUntil,
+    }));
+  }
+
+  async unlock(
+    unlockDto: UnlockDto,
+    adminUserId: string,
+    req?: Request,
+  ): Promise<UnlockResultDto> {
+    const { principalType, email, ipAddress } = unlockDto;
+    if (!email && !ipAddress) {
+      throw new BadRequestException('Provide an email or an IP address');
+    }
+    if (email && !principalType) {
+      throw new BadRequestException('principalType is required with email');
+    }
+
+    const keys: AttemptKey[] = [];
+    if (email) {
+      keys.push(
+        this.accountKey(principalType, email),
+        this.codeKey(AttemptScope.RESET_PIN, principalType, email),
+        this.codeKey(AttemptScope.LOGIN_CODE, principalType, email),
+      );
+    }
+    if (ipAddress) {
+      keys.push(this.ipKey(ipAddress));
+    }
+
+    let unlocked = 0;
+    for (const key of keys) {
+      const result = await this.attemptModel.deleteOne(key).exec();
+      unlocked += result.deletedCount;
+    }
+
+    const target = [email && `${principalType} ${email}`, ipAddress]
+      .filter(Boolean)
+      .join(' and ');
+    await this.systemLogsService.createLog(
+      'Account Unlocked',
+      `Failed attempt limits cleared for ${target} (${unlocked} record(s))`,
+      LogSeverity.INFO,
+      adminUserId,
+      req,
+    );
+    this.logger.log(`Unlocked ${target} by ${adminUserId}`);
+
+    return { unlocked };
+  }
+
+  // ======================================================
+  // HELPERS
+  // ======================================================
+
+  private async assertAllowed(keys: AttemptKey[]): Promise<void> {
+    const now = new Date();
+    const blocked = await this.attemptModel
+      .find({ $or: keys, blockedUntil: { $gt: now } })
+      .lean()
+      .exec();
+    if (blocked.length === 0) {
+      return;
+    }
+
+    const retryAfter = Math.ceil(
+      Math.max(
+        ...blocked.map((a) => a.blockedUntil.getTime() - now.getTime()),
+      ) / 1000,
+    );
+    const locked = blocked.some((attempt) => attempt.lockedAt);
+    throw new HttpException(
+      locked
+        ? `Too many failed attempts. Access is locked for ${Math.ceil(retryAfter / 60)} minute(s); contact an administrator to unlock it sooner.`
+        : `Too many failed attempts. Try again in ${retryAfter} second(s).`,
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  /**
+   * Count a failure and apply exponential backoff, or a lockout once the
+   * scope's limit is reached. Returns true when this failure caused a lock.
+   */
+  private async recordFailure(
+    key: AttemptKey,
+    req?: Request,
+  ): Promise<boolean> {
+    const now = new Date();
+    const attempt = await this.attemptModel
+      .findOneAndUpdate(
+        key,
+        {
+          $inc: { failures: 1 },
+          $set: {
+            lastFailureAt: now,
+            expiresAt: new Date(now.getTime() + ATTEMPT_WINDOW_MS),
+          },
+        },
+        { upsert: true, new: true, setDefaultsOnInsert: true },
+      )
+      .exec();
+
+    const policy = POLICIES[key.scope];
+    if (attempt.failures >= policy.lockAfter) {
+      const blockedUntil = new Date(
+        now.getTime() + policy.lockMinutes * 60 * 1000,
+      );
+      await this.attemptModel
+        .updateOne(
+          { _id: attempt._id },
+          { $set: { lockedAt: now, blockedUntil } },
+        )
+        .exec();
+
+      await this.systemLogsService.createLog(
+        LOCK_EVENTS[key.scope],
+        `${key.principalType ? `${key.principalType} ` : ''}${key.identifier} locked for ${policy.lockMinutes} minutes after ${attempt.failures} failed attempts`,
+        LogSeverity.WARNING,
+        undefined,
+        req,
+      );
+      this.logger.warn(
+        `${LOCK_EVENTS[key.scope]}: ${key.identifier} (${attempt.failures} failures)`,
+      );
+      return true;
+    }
+
+    if (attempt.failures > policy.freeAttempts) {
+      const delaySeconds = Math.min(
+        2 ** (attempt.failures - policy.freeAttempts - 1),
+        MAX_BACKOFF_SECONDS,
+      );
+      await this.attemptModel
+        .updateOne(
+          { _id: attempt._id },
+          {
+            $set: {
+              blockedUntil: new Date(now.getTime() + delaySeconds * 1000),
+            },
+          },
+        )
+        .exec();
+    }
+    return false;
+  }
+
+  private accountKey(principalType: PrincipalType, email: string): AttemptKey {
+    return {
+      scope: AttemptScope.ACCOUNT,
+      principalType,
+      identifier: this.normalizeEmail(email),
+    };
+  }
+
+  private codeKey(
+    scope: OneTimeCodeScope,
+    principalType: PrincipalType,
+    email: string,
+  ): AttemptKey {
+    return {
+      scope,
+      principalType,
+      identifier: this.normalizeEmail(email),
+    };
+  }
+
+  private ipKey(ipAddress: string): AttemptKey {
+    return {
+      scope: AttemptScope.IP,
+      principalType: null,
+      identifier: ipAddress,
+    };
+  }
+
+  private ipKeys(req?: Request): AttemptKey[] {
+    return req?.ip ? [this.ipKey(req.ip)] : [];
+  }
+
+  private normalizeEmail(email: string): string {
+    return (email || '').trim().toLowerCase();
+  }
+}
@@ -0,0 +1,56 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { PrincipalType } from '../../common/enums/principal-type.enum';
+
+export enum AttemptScope {
+  ACCOUNT = 'account',
+  IP = 'ip',
+  RESET_PIN = 'reset_pin',
+  LOGIN_CODE = 'login_code',
+}
+
+// Login Attempt Schema
+// Failed sign-in, reset PIN or login code attempts for one account or IP address. A
+// record is dropped after a successful login or once it has been quiet for
+// a day.
+@Schema({
+  timestamps: true,
+  collection: 'login_attempts',
+})
+export class LoginAttempt {
+  @Prop({ type: String, enum: AttemptScope, required: true })
+  scope: AttemptScope;
+
+  @Prop({ type: String, enum: PrincipalType })
+  principalType: PrincipalType;
+
+  // Lower-cased email address, or the IP address for the IP scope
+  @Prop({ required: true })
+  identifier: string;
+
+  @Prop({ default: 0 })
+  failures: number;
+
+  @Prop()
+  lastFailureAt: Date;
+
+  // No attempts are accepted before this time
+  @Prop()
+  blockedUntil: Date;
+
+  // Set when the failures reached the lockout limit
+  @Prop()
+  lockedAt: Date;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export type LoginAttemptDocument = LoginAttempt & Document;
+export const LoginAttemptSchema = SchemaFactory.createForClass(LoginAttempt);
+
+LoginAttemptSchema.index(
+  { scope: 1, principalType: 1, identifier: 1 },
+  { unique: true },
+);
+LoginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
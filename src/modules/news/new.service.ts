@@ -7,6 +7,7 @@ import {
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
+import { Request } from 'express';
 import {
   News,
   NewsDocument,
@@ -15,6 +16,8 @@ import {
   NewsPriority,
 } from './schema';
 import { CreateNewsDto, UpdateNewsDto } from './dto/create.dto';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit-entry.schema';
 
 export interface NewsQuery {
   page?: number;
@@ -51,12 +54,17 @@ export class NewsService {
 
   constructor(
     @InjectModel(News.name) private readonly newsModel: Model<NewsDocument>,
+    private readonly auditService: AuditService,
   ) {}
 
   /**
    * Create a new news article
    */
-  async create(createNewsDto: CreateNewsDto, userId?: string): Promise<News> {
+  async create(
+    createNewsDto: CreateNewsDto,
+    userId?: string,
+    req?: Request,
+  ): Promise<News> {
     try {
       // Check for duplicate slug
       if (createNewsDto.slug) {
@@ -83,6 +91,15 @@ export class NewsService {
       const savedNews = await news.save();
 
       this.logger.log(`News article created with ID: ${savedNews._id}`);
+      await this.auditService.record(
+        {
+          entityType: AuditEntityType.NEWS,
+          entityId: savedNews._id,
+          action: AuditAction.CREATE,
+          after: savedNews,
+        },
+        req,
+      );
       return savedNews.populate('relatedNews');
     } catch (error) {
       if (error instanceof ConflictException) {
@@ -246,6 +263,7 @@ export class NewsService {
     id: string,
     updateNewsDto: UpdateNewsDto,
     userId?: string,
+    req?: Request,
   ): Promise<News> {
     if (!Types.ObjectId.isValid(id)) {
       throw new BadRequestException('Invalid news ID format');
@@ -270,12 +288,15 @@ export class NewsService {
         updatedBy: userId ? new Types.ObjectId(userId) : undefined,
       };
 
+      const currentNews = await this.newsModel.findById(id).lean().exec();
+
       // Set publishedAt if status is being changed to published
-      if (updateNewsDto.status === NewsStatus.PUBLISHED) {
-        const currentNews = await this.newsModel.findById(id);
-        if (currentNews && currentNews.status !== NewsStatus.PUBLISHED) {
-          updateData.publishedAt = new Date();
-        }
+      if (
+        updateNewsDto.status === NewsStatus.PUBLISHED &&
+        currentNews &&
+        currentNews.status !== NewsStatus.PUBLISHED
+      ) {
+        updateData.publishedAt = new Date();
       }
 
       const news = await this.newsModel
@@ -288,6 +309,16 @@ export class NewsService {
       }
 
       this.logger.log(`News article updated with ID: ${id}`);
+      await this.auditService.record(
+        {
+          entityType: AuditEntityType.NEWS,
+          entityId: id,
+          action: AuditAction.UPDATE,
+          before: currentNews,
+          after: news,
+        },
+        req,
+      );
       return news;
     } catch (error) {
       if (
@@ -304,7 +335,7 @@ export class NewsService {
   /**
    * Delete a news article (soft delete)
    */
-  async remove(id: string, userId?: string): Promise<void> {
+  async remove(id: string, userId?: string, req?: Request): Promise<void> {
     if (!Types.ObjectId.isValid(id)) {
       throw new BadRequestException('Invalid news ID format');
     }
@@ -317,7 +348,7 @@ export class NewsService {
           archivedAt: new Date(),
           archivedBy: userId ? new Types.ObjectId(userId) : undefined,
         },
-        { new: true },
+        { new: false },
       );
 
       if (!news) {
@@ -325,6 +356,16 @@ export class NewsService {
       }
 
       this.logger.log(`News article archived with ID: ${id}`);
+      await this.auditService.record(
+        {
+          entityType: AuditEntityType.NEWS,
+          entityId: id,
+          action: AuditAction.ARCHIVE,
+          before: news,
+          after: await this.newsModel.findById(id).lean().exec(),
+        },
+        req,
+      );
     } catch (error) {
       if (
         error instanceof NotFoundException ||
@@ -340,7 +381,7 @@ export class NewsService {
   /**
    * Hard delete a news article (permanent deletion)
    */
-  async hardDelete(id: string): Promise<void> {
+  async hardDelete(id: string, req?: Request): Promise<void> {
     if (!Types.ObjectId.isValid(id)) {
       throw new BadRequestException('Invalid news ID format');
     }
@@ -352,6 +393,15 @@ export class NewsService {
       }
 
       this.logger.log(`News article permanently deleted with ID: ${id}`);
+      await this.auditService.record(
+        {
+          entityType: AuditEntityType.NEWS,
+          entityId: id,
+          action: AuditAction.DELETE,
+          before: result,
+        },
+        req,
+      );
     } catch (error) {
       if (
         error instanceof NotFoundException ||
@@ -518,15 +568,28 @@ export class NewsService {
   async bulkUpdate(
     ids: string[],
     updateData: Partial<UpdateNewsDto>,
+    req?: Request,
   ): Promise<number> {
     try {
       const objectIds = ids.map((id) => new Types.ObjectId(id));
-      const result = await this.newsModel.updateMany(
-        { _id: { $in: objectIds } },
-        updateData,
-      );
+      const filter = { _id: { $in: objectIds } };
+      const before = await this.newsModel.find(filter).lean().exec();
+      const result = await this.newsModel.updateMany(filter, updateData);
 
       this.logger.log(`Bulk updated ${result.modifiedCount} news articles`);
+      const after = await this.newsModel.find(filter).lean().exec();
+      for (const previous of before) {
+        await this.auditService.record(
+          {
+            entityType: AuditEntityType.NEWS,
+            entityId: previous._id,
+            action: AuditAction.UPDATE,
+            before: previous,
+            after: after.find((news) => news._id.equals(previous._id)),
+          },
+          req,
+        );
+      }
       return result.modifiedCount;
     } catch (error) {
       this.logger.error('Error in bulk update operation', error);
@@ -0,0 +1,170 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model } from 'mongoose';
+import { News, NewsDocument, NewsPriority, NewsStatus } from './schema';
+import { SystemLogsService } from '../system-logs/services/system-logs.service';
+import { LogSeverity } from '../system-logs/schemas/system-log.schema';
+import { NotificationService } from '../notifications/services/notification.service';
+import { NotificationCategory } from '../notifications/schemas/notification-preference.schema';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction, AuditEntityType } from '../audit/audit-entry.schema';
+
+export interface ScheduledNewsPreview {
+  id: string;
+  title: string;
+  slug: string;
+  priority: NewsPriority;
+  scheduledAt: Date;
+  overdue: boolean;
+  willNotifyDelegates: boolean;
+}
+
+const PUSH_PRIORITIES = [NewsPriority.HIGH, NewsPriority.URGENT];
+
+@Injectable()
+export class NewsPublisherService {
+  private readonly logger = new Logger(NewsPublisherService.name);
+  private isRunning = false;
+
+  constructor(
+    @InjectModel(News.name) private readonly newsModel: Model<NewsDocument>,
+    private readonly systemLogsService: SystemLogsService,
+    private readonly notificationService: NotificationService,
+    private readonly configService: ConfigService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * Publish scheduled articles whose scheduledAt has passed
+   */
+  @Cron(CronExpression.EVERY_MINUTE, { name: 'publish-scheduled-news' })
+  async publishDueArticles(): Promise<number> {
+    // Skip a tick if the previous run is still going
+    if (this.isRunning) {
+      return 0;
+    }
+    this.isRunning = true;
+
+    try {
+      const due = await this.newsModel
+        .find(this.scheduledFilter(new Date()))
+        .select('_id')
+        .sort({ scheduledAt: 1 })
+        .lean()
+        .exec();
+
+      let published = 0;
+      for (const { _id } of due) {
+        if (await this.publish(_id.toString())) {
+          published++;
+        }
+      }
+
+      if (published > 0) {
+        this.logger.log(`Published ${published} scheduled news articles`);
+      }
+      return published;
+    } catch (error) {
+      this.logger.error('Error publishing scheduled news', error);
+      return 0;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Dry run: list scheduled articles that will be published within the
+   * next `hours`, including any that are already overdue
+   */
+  async previewUpcoming(hours: number): Promise<ScheduledNewsPreview[]> {
+    const now = new Date();
+    const until = new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+    const upcoming = await this.newsModel
+      .find(this.scheduledFilter(until))
+      .select('title slug priority scheduledAt')
+      .sort({ scheduledAt: 1 })
+      .lean()
+      .exec();
+
+    return upcoming.map((news) => ({
+      id: news._id.toString(),
+      title: news.title,
+      slug: news.slug,
+      priority: news.priority,
+      scheduledAt: news.scheduledAt,
+      overdue: news.scheduledAt <= now,
+      willNotifyDelegates: this.shouldNotify(news.priority),
+    }));
+  }
+
+  private scheduledFilter(until: Date) {
+    return {
+      status: NewsStatus.SCHEDULED,
+      scheduledAt: { $lte: until },
+      deleted: { $ne: true },
+    };
+  }
+
+  private shouldNotify(priority: NewsPriority): boolean {
+    const pushEnabled =
+      this.configService.get<string>('NEWS_PUBLISH_PUSH_ENABLED') !== 'false';
+    return pushEnabled && PUSH_PRIORITIES.includes(priority);
+  }
+
+  private async publish(id: string): Promise<boolean> {
+    // Conditional update so concurrent instances never publish twice
+    const publishedAt = new Date();
+    const news = await this.newsModel
+      .findOneAndUpdate(
+        { _id: id, status: NewsStatus.SCHEDULED },
+        { $set: { status: NewsStatus.PUBLISHED, publishedAt } },
+        { new: true },
+      )
+      .exec();
+    if (!news) {
+      return false;
+    }
+
+    await this.auditService.record({
+      entityType: AuditEntityType.NEWS,
+      entityId: news._id,
+      action: AuditAction.PUBLISH,
+      before: { status: NewsStatus.SCHEDULED },
+      after: { status: NewsStatus.PUBLISHED, publishedAt },
+    });
+
+    await this.systemLogsService.createLog(
+      'News Published',
+      `Scheduled article "${news.title}" (${news._id}) was published`,
+      LogSeverity.INFO,
+    );
+
+    if (this.shouldNotify(news.priority)) {
+      this.notificationService
+        .sendNotificationToAllDelegates(
+          news.title,
+          news.excerpt || news.title,
+          {
+            newsId: news._id.toString(),
+            slug: news.slug,
+          },
+          {
+            category: NotificationCategory.NEWS,
+            // Urgent articles are emergency alerts
+            critical: news.priority === NewsPriority.URGENT,
+          },
+        )
+        .catch((err) => {
+          this.logger.error(
+            `Failed to send push for news ${news._id}: ${err.message}`,
+            err.stack,
+          );
+        });
+    }
+
+    return true;
+  }
+}
@@ -18,6 +18,8 @@ import {
   UsePipes,
   Logger,
   Req,
+  DefaultValuePipe,
+  BadRequestException,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -39,7 +41,15 @@ import {
 } from './dto/create.dto';
 import { News, NewsStatus, NewsCategory, NewsPriority } from './schema';
 import { NewsQuery, NewsService, PaginatedResponse } from './new.service';
+import {
+  NewsPublisherService,
+  ScheduledNewsPreview,
+} from './news-publisher.service';
 import { Public } from '../auth/decorators/public.decorator';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../../common/enums/permission.enum';
+import { Principals } from '../../common/decorators/principals.decorator';
+import { PrincipalType } from '../../common/enums/principal-type.enum';
 
 // Define interfaces for standardized responses
 interface ApiResponseDto<T> {
@@ -61,12 +71,16 @@ interface BulkUpdateRequestDto {
 export class NewsController {
   private readonly logger = new Logger(NewsController.name);
 
-  constructor(private readonly newsService: NewsService) {}
+  constructor(
+    private readonly newsService: NewsService,
+    private readonly newsPublisherService: NewsPublisherService,
+  ) {}
 
   /**
    * Create a new news article
    */
   @Post()
+  @RequirePermissions(Permission.NEWS_MANAGE)
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({
     summary: 'Create a new news article',
@@ -137,7 +151,11 @@ export class NewsController {
   ): Promise<ApiResponseDto<News>> {
     try {
       const userId = request.user?.['id'] || request.user?.['sub'];
-      const news = await this.newsService.create(createNewsDto, userId);
+      const news = await this.newsService.create(
+        createNewsDto,
+        userId,
+        request,
+      );
 
       this.logger.log(`News article created: ${news.title} (ID: ${news._id})`);
 
@@ -352,6 +370,7 @@ export class NewsController {
    * Get a specific news article by ID
    */
   @Get(':id')
+  @Principals(PrincipalType.STAFF, PrincipalType.DELEGATE)
   @ApiOperation({
     summary: 'Get news article by ID',
     description:
@@ -490,6 +509,7 @@ export class NewsController {
    * Update a news article
    */
   @Put(':id')
+  @RequirePermissions(Permission.NEWS_MANAGE)
   @ApiOperation({
     summary: 'Update news article',
     description:
@@ -536,7 +556,12 @@ export class NewsController {
   ): Promise<ApiResponseDto<News>> {
     try {
       const userId = request.user?.['id'] || request.user?.['sub'];
-      const news = await this.newsService.update(id, updateNewsDto, userId);
+      const news = await this.newsService.update(
+        id,
+        updateNewsDto,
+        userId,
+        request,
+      );
 
       this.logger.log(`News article updated: ${news.title} (ID: ${id})`);
 
@@ -556,6 +581,7 @@ export class NewsController {
    * Soft delete a news article (archive)
    */
   @Delete(':id')
+  @RequirePermissions(Permission.NEWS_MANAGE)
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({
     summary: 'Archive news article',
@@ -581,7 +607,7 @@ export class NewsController {
   ): Promise<void> {
     try {
       const userId = request.user?.['id'] || request.user?.['sub'];
-      await this.newsService.remove(id, userId);
+      await this.newsService.remove(id, userId, request);
 
       this.logger.log(`News article archived: ID ${id}`);
     } catch (error) {
@@ -594,6 +620,7 @@ export class NewsController {
    * Permanently delete a news article
    */
   @Delete(':id/permanent')
+  @RequirePermissions(Permission.NEWS_MANAGE)
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({
     summary: 'Permanently delete news article',
@@ -613,9 +640,12 @@ export class NewsController {
     status: HttpStatus.NOT_FOUND,
     description: 'News article not found',
   })
-  async hardDelete(@Param('id') id: string): Promise<void> {
+  async hardDelete(
+    @Param('id') id: string,
+    @Req() request: Request,
+  ): Promise<void> {
     try {
-      await this.newsService.hardDelete(id);
+      await this.newsService.hardDelete(id, request);
 
       this.logger.log(`News article permanently deleted: ID ${id}`);
     } catch (error) {
@@ -631,6 +661,7 @@ export class NewsController {
    * Get featured news articles
    */
   @Get('featured/articles')
+  @Principals(PrincipalType.STAFF, PrincipalType.DELEGATE)
   @ApiOperation({
     summary: 'Get featured news articles',
     description:
@@ -683,6 +714,7 @@ export class NewsController {
    * Get news articles by category
    */
   @Get('category/:category')
+  @Principals(PrincipalType.STAFF, PrincipalType.DELEGATE)
   @ApiOperation({
     summary: 'Get news articles by category',
     description:
@@ -747,6 +779,7 @@ export class NewsController {
    * Get related news articles
    */
   @Get(':id/related')
+  @Principals(PrincipalType.STAFF, PrincipalType.DELEGATE)
   @ApiOperation({
     summary: 'Get related news articles',
     description:
@@ -807,6 +840,7 @@ export class NewsController {
    * Get news statistics
    */
   @Get('admin/statistics')
+  @RequirePermissions(Permission.NEWS_MANAGE)
   @ApiOperation({
     summary: 'Get news statistics',
     description:
@@ -863,10 +897,74 @@ export class NewsController {
     }
   }
 
+  /**
+   * Preview scheduled publications (dry run)
+   */
+  @Get('admin/scheduled-preview')
+  @RequirePermissions(Permission.NEWS_MANAGE)
+  @ApiOperation({
+    summary: 'Preview scheduled publications',
+    description:
+      'Dry run of the scheduled publishing worker. Lists scheduled articles that will be published within the next N hours, including overdue ones, and whether each will trigger a push to delegates. Nothing is published.',
+  })
+  @ApiQuery({
+    name: 'hours',
+    required: false,
+    type: Number,
+    description: 'Look-ahead window in hours (default 24, max 720)',
+    example: 24,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Scheduled publications retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean', example: true },
+        message: {
+          type: 'string',
+          example: '3 articles scheduled in the next 24 hours',
+        },
+        data: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', example: '507f1f77bcf86cd799439011' },
+              title: { type: 'string', example: 'New Housing Fund Launched' },
+              slug: { type: 'string', example: 'new-housing-fund-launched' },
+              priority: { type: 'string', example: 'high' },
+              scheduledAt: { type: 'string', format: 'date-time' },
+              overdue: { type: 'boolean', example: false },
+              willNotifyDelegates: { type: 'boolean', example: true },
+            },
+          },
+        },
+        timestamp: { type: 'string', format: 'date-time' },
+      },
+    },
+  })
+  async previewScheduled(
+    @Query('hours', new DefaultValuePipe(24), ParseIntPipe) hours: number,
+  ): Promise<ApiResponseDto<ScheduledNewsPreview[]>> {
+    if (hours < 1 || hours > 720) {
+      throw new BadRequestException('hours must be between 1 and 720');
+    }
+
+    const preview = await this.newsPublisherService.previewUpcoming(hours);
+    return {
+      success: true,
+      message: `${preview.length} articles scheduled in the next ${hours} hours`,
+      data: preview,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
   /**
    * Bulk update news articles
    */
   @Put('admin/bulk-update')
+  @RequirePermissions(Permission.NEWS_MANAGE)
   @ApiOperation({
     summary: 'Bulk update news articles',
     description:
@@ -916,11 +1014,13 @@ export class NewsController {
   @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
   async bulkUpdate(
     @Body() bulkUpdateDto: BulkUpdateRequestDto,
+    @Req() request: Request,
   ): Promise<ApiResponseDto<{ modifiedCount: number }>> {
     try {
       const modifiedCount = await this.newsService.bulkUpdate(
         bulkUpdateDto.ids,
         bulkUpdateDto.updateData,
+        request,
       );
 
       this.logger.log(
@@ -10,6 +10,9 @@ import {
 } from '../system-logs/schemas/system-log.schema';
 import { PassportModule } from '@nestjs/passport';
 import { NewsService } from './new.service';
+import { NewsPublisherService } from './news-publisher.service';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { AuditModule } from '../audit/audit.module';
 import { NewsController } from './news.controller';
 import { NewsSchema } from './schema';
 import { News } from './schema';
@@ -32,8 +35,10 @@ import { News } from './schema';
         },
       }),
     }),
+    NotificationsModule,
+    AuditModule,
   ],
   controllers: [NewsController],
-  providers: [SystemLogsService, NewsService],
+  providers: [SystemLogsService, NewsService, NewsPublisherService],
 })
 export class NewsModule {}
@@ -0,0 +1,74 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBooleanString,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { Notification } from '../schemas/notification.schema';
+
+// Inbox Query DTO
+export class InboxQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'nextCursor from the previous page; stays stable while new notifications arrive',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiPropertyOptional({ default: 20, maximum: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'List archived notifications instead of the inbox',
+    default: 'false',
+  })
+  @IsOptional()
+  @IsBooleanString()
+  archived?: string;
+}
+
+// Notification Link DTO
+// Screen of the app to open when the notification is tapped. Sent to the
+// app as `data.link` in the push payload and the inbox record.
+export class NotificationLinkDto {
+  @ApiProperty({ example: 'session' })
+  @IsString()
+  @IsNotEmpty()
+  screen: string;
+
+  @ApiPropertyOptional({
+    type: Object,
+    example: { sessionId: '60f7b3b3b3b3b3b3b3b3b3b3' },
+  })
+  @IsOptional()
+  @IsObject()
+  params?: Record<string, string>;
+}
+
+// Response DTOs for documentation
+export class NotificationPageDto {
+  @ApiProperty({ type: [Notification] })
+  data: Notification[];
+
+  @ApiPropertyOptional({
+    description: 'Pass as cursor to fetch the next page; absent on the last',
+  })
+  nextCursor?: string;
+}
+
+export class UnreadCountDto {
+  @ApiProperty({ example: 3 })
+  count: number;
+}
@@ -0,0 +1,78 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsOptional,
+  Matches,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class ChannelPreferencesDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  email?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  push?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  sms?: boolean;
+}
+
+export class QuietHoursDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({ example: '22:00' })
+  @IsOptional()
+  @Matches(TIME_OF_DAY, { message: 'start must be a time in HH:mm format' })
+  start?: string;
+
+  @ApiPropertyOptional({ example: '07:00' })
+  @IsOptional()
+  @Matches(TIME_OF_DAY, { message: 'end must be a time in HH:mm format' })
+  end?: string;
+}
+
+// Update Notification Preferences DTO
+// Only the settings present are changed.
+export class UpdateNotificationPreferencesDto {
+  @ApiPropertyOptional({ type: ChannelPreferencesDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ChannelPreferencesDto)
+  logistics?: ChannelPreferencesDto;
+
+  @ApiPropertyOptional({ type: ChannelPreferencesDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ChannelPreferencesDto)
+  news?: ChannelPreferencesDto;
+
+  @ApiPropertyOptional({ type: ChannelPreferencesDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ChannelPreferencesDto)
+  agenda?: ChannelPreferencesDto;
+
+  @ApiPropertyOptional({ type: ChannelPreferencesDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ChannelPreferencesDto)
+  marketing?: ChannelPreferencesDto;
+
+  @ApiPropertyOptional({ type: QuietHoursDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => QuietHoursDto)
+  quietHours?: QuietHoursDto;
+}
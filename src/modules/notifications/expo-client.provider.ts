@@ -0,0 +1,21 @@
+import { ConfigService } from '@nestjs/config';
+import Expo from 'expo-server-sdk';
+
+export const EXPO_CLIENT = 'EXPO_CLIENT';
+
+// The parts of the Expo SDK used to send pushes and read their receipts.
+// Tests can provide a fake under EXPO_CLIENT instead of calling Expo.
+export type ExpoClient = Pick<
+  Expo,
+  | 'chunkPushNotifications'
+  | 'sendPushNotificationsAsync'
+  | 'chunkPushNotificationReceiptIds'
+  | 'getPushNotificationReceiptsAsync'
+>;
+
+export const ExpoClientProvider = {
+  provide: EXPO_CLIENT,
+  useFactory: (configService: ConfigService): ExpoClient =>
+    new Expo({ accessToken: configService.get<string>('EXPO_ACCESS_TOKEN') }),
+  inject: [ConfigService],
+};
@@ -9,7 +9,13 @@ import {
   Logger,
   Get,
   Patch,
+  Delete,
+  Query,
+  Sse,
+  MessageEvent,
+  Req,
 } from '@nestjs/common';
+import { Observable } from 'rxjs';
 import {
   ApiTags,
   ApiOperation,
@@ -18,14 +24,69 @@ import {
   ApiParam,
   ApiBody,
   ApiProperty,
+  ApiProduces,
 } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsEnum,
+  IsObject,
+  IsOptional,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { NotificationService } from './services/notification.service';
+import {
+  NotificationOptions,
+  NotificationPreferencesService,
+} from './services/notification-preferences.service';
+import { UpdateNotificationPreferencesDto } from './dto/notification-preferences.dto';
+import {
+  InboxQueryDto,
+  NotificationLinkDto,
+  NotificationPageDto,
+  UnreadCountDto,
+} from './dto/inbox.dto';
+import { Notification } from './schemas/notification.schema';
+import {
+  NotificationCategory,
+  NotificationPreference,
+} from './schemas/notification-preference.schema';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { SessionsService } from '../sessions/sessions.service';
 import { GetUser } from '../auth/decorators/get-user.decorator';
+import { AuthenticatedRequest } from '../auth/interfaces/auth.interface';
 import { DelegateDocument } from '../delegates/delegates.schema';
-import { Public } from '../auth/decorators/public.decorator';
+import { RequirePermissions } from '../../common/decorators/permissions.decorator';
+import { Permission } from '../../common/enums/permission.enum';
+import {
+  OwnDelegate,
+  Principals,
+} from '../../common/decorators/principals.decorator';
+import { PrincipalType } from '../../common/enums/principal-type.enum';
 
-class SendNotificationDto {
+class NotificationOptionsDto {
+  @ApiProperty({
+    enum: NotificationCategory,
+    description: 'Decides which delegate preferences apply',
+    default: NotificationCategory.LOGISTICS,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(NotificationCategory)
+  category?: NotificationCategory;
+
+  @ApiProperty({
+    description:
+      'Emergency alert; ignores delegate preferences and quiet hours',
+    default: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  critical?: boolean;
+}
+
+class SendNotificationDto extends NotificationOptionsDto {
   @ApiProperty({ description: 'Title of the notification' })
   title: string;
 
@@ -33,10 +94,22 @@ class SendNotificationDto {
   body: string;
 
   @ApiProperty({ description: 'Optional data payload (JSON)', required: false })
+  @IsOptional()
+  @IsObject()
   data?: Record<string, unknown>;
+
+  @ApiProperty({
+    type: NotificationLinkDto,
+    description: 'Screen to open when the notification is tapped',
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NotificationLinkDto)
+  link?: NotificationLinkDto;
 }
 
-class SendEmailDto {
+class SendEmailDto extends NotificationOptionsDto {
   @ApiProperty({ description: 'Title of the email' })
   title: string;
 
@@ -51,10 +124,15 @@ class SendEmailDto {
 export class NotificationsController {
   private readonly logger = new Logger(NotificationsController.name);
 
-  constructor(private readonly notificationService: NotificationService) {}
+  constructor(
+    private readonly notificationService: NotificationService,
+    private readonly preferencesService: NotificationPreferencesService,
+    private readonly sessionsService: SessionsService,
+  ) {}
 
   // --- Push Notifications ---
   @Post('push/delegate/:delegateId')
+  @RequirePermissions(Permission.NOTIFICATIONS_SEND)
   @ApiOperation({ summary: 'Send push notification to a specific delegate' })
   @ApiParam({ name: 'delegateId', description: 'ID of the delegate to notify' })
   @HttpCode(HttpStatus.ACCEPTED)
@@ -66,25 +144,29 @@ export class NotificationsController {
       delegateId,
       payload.title,
       payload.body,
-      payload.data,
+      this.toData(payload),
+      this.toOptions(payload),
     );
     return { message: 'Push notification queued for delegate.' };
   }
 
   @Post('push/all')
+  @RequirePermissions(Permission.NOTIFICATIONS_SEND)
   @ApiOperation({ summary: 'Send push notification to all delegates' })
   @HttpCode(HttpStatus.ACCEPTED)
   async sendPushToAll(@Body() payload: SendNotificationDto) {
     await this.notificationService.sendNotificationToAllDelegates(
       payload.title,
       payload.body,
-      payload.data,
+      this.toData(payload),
+      this.toOptions(payload),
     );
     return { message: 'Push notifications queued for all delegates.' };
   }
 
   // --- Email Notifications ---
   @Post('email/delegate/:delegateId')
+  @RequirePermissions(Permission.NOTIFICATIONS_SEND)
   @ApiOperation({ summary: 'Send an email to a specific delegate' })
   @ApiParam({ name: 'delegateId', description: 'ID of the delegate to email' })
   @HttpCode(HttpStatus.ACCEPTED)
@@ -96,35 +178,179 @@ export class NotificationsController {
       delegateId,
       payload.title,
       payload.body,
+      undefined,
+      this.toOptions(payload),
     );
     return { message: 'Email queued for delegate.' };
   }
 
-  @Post('email/all')
-  @ApiOperation({ summary: 'Send an email to all delegates' })
-  @HttpCode(HttpStatus.ACCEPTED)
-  async sendEmailToAll(@Body() payload: SendEmailDto) {
-    await this.notificationService.sendEmailToAllDelegates(
-      payload.title,
-      payload.body,
+  // --- Notification Preferences ---
+  @Get('preferences/:delegateId')
+  @Principals(PrincipalType.DELEGATE)
+  @OwnDelegate('delegateId')
+  @ApiOperation({
+    summary: "Get the authenticated delegate's notification preferences",
+  })
+  @ApiParam({ name: 'delegateId', description: 'ID of the delegate' })
+  @ApiResponse({ status: 200, type: NotificationPreference })
+  async getPreferences(@Param('delegateId') delegateId: string) {
+    return this.preferencesService.getForDelegate(delegateId);
+  }
+
+  @Patch('preferences/:delegateId')
+  @Principals(PrincipalType.DELEGATE)
+  @OwnDelegate('delegateId')
+  @ApiOperation({
+    summary:
+      'Choose channels per category and quiet hours for the authenticated delegate',
+    description:
+      "Quiet hours are in the event's time zone; push and SMS falling in them are sent when they end. Critical messages such as cancellations ignore these settings.",
+  })
+  @ApiParam({ name: 'delegateId', description: 'ID of the delegate' })
+  @ApiBody({ type: UpdateNotificationPreferencesDto })
+  @ApiResponse({ status: 200, type: NotificationPreference })
+  async updatePreferences(
+    @Param('delegateId') delegateId: string,
+    @Body() updateDto: UpdateNotificationPreferencesDto,
+  ) {
+    return this.preferencesService.update(delegateId, updateDto);
+  }
+
+  // --- Inbox ---
+  @Get('inbox')
+  @Principals(PrincipalType.DELEGATE)
+  @ApiOperation({
+    summary: "List the authenticated delegate's notifications, newest first",
+  })
+  @ApiResponse({ status: 200, type: NotificationPageDto })
+  async getInbox(
+    @GetUser() delegate: DelegateDocument,
+    @Query() query: InboxQueryDto,
+  ) {
+    return this.notificationService.getInbox(delegate._id.toString(), query);
+  }
+
+  @Get('inbox/unread-count')
+  @Principals(PrincipalType.DELEGATE)
+  @ApiOperation({ summary: 'Count unread notifications in the inbox' })
+  @ApiResponse({ status: 200, type: UnreadCountDto })
+  async getUnreadCount(@GetUser() delegate: DelegateDocument) {
+    return {
+      count: await this.notificationService.countUnread(
+        delegate._id.toString(),
+      ),
+    };
+  }
+
+  @Sse('inbox/stream')
+  @Principals(PrincipalType.DELEGATE)
+  @ApiOperation({
+    summary: 'Stream inbox changes as server-sent events',
+    description:
+      'Opens with an `unread-count` event. New notifications arrive as `notification` events and every change to the unread count as `unread-count`; `ping` is sent every 30 seconds. Send the delegate token in the Authorization header. The stream ends when the token expires or the session is revoked; reconnect with a fresh token.',
+  })
+  @ApiProduces('text/event-stream')
+  async streamInbox(
+    @GetUser() delegate: DelegateDocument,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<Observable<MessageEvent>> {
+    return this.notificationService.openInboxStream(delegate._id.toString(), {
+      expiresAt: req.tokenExpiresAt,
+      isActive: () => this.sessionsService.isActive(req.sessionId),
+    });
+  }
+
+  @Patch('inbox/read-all')
+  @Principals(PrincipalType.DELEGATE)
+  @ApiOperation({ summary: 'Mark every notification as read' })
+  async markInboxAsRead(@GetUser() delegate: DelegateDocument) {
+    return this.notificationService.markAllNotificationsAsRead(
+      delegate._id.toString(),
+    );
+  }
+
+  @Patch('inbox/:notificationId/read')
+  @Principals(PrincipalType.DELEGATE)
+  @ApiOperation({ summary: 'Mark a notification as read' })
+  @ApiParam({ name: 'notificationId', description: 'ID of the notification' })
+  @ApiResponse({ status: 200, type: Notification })
+  async markInboxNotificationAsRead(
+    @GetUser() delegate: DelegateDocument,
+    @Param('notificationId') notificationId: string,
+  ) {
+    return this.notificationService.markNotificationAsRead(
+      delegate._id.toString(),
+      notificationId,
+    );
+  }
+
+  @Patch('inbox/:notificationId/archive')
+  @Principals(PrincipalType.DELEGATE)
+  @ApiOperation({ summary: 'Move a notification out of the inbox' })
+  @ApiParam({ name: 'notificationId', description: 'ID of the notification' })
+  @ApiResponse({ status: 200, type: Notification })
+  async archiveNotification(
+    @GetUser() delegate: DelegateDocument,
+    @Param('notificationId') notificationId: string,
+  ) {
+    return this.notificationService.setArchived(
+      delegate._id.toString(),
+      notificationId,
+      true,
+    );
+  }
+
+  @Patch('inbox/:notificationId/unarchive')
+  @Principals(PrincipalType.DELEGATE)
+  @ApiOperation({ summary: 'Return an archived notification to the inbox' })
+  @ApiParam({ name: 'notificationId', description: 'ID of the notification' })
+  @ApiResponse({ status: 200, type: Notification })
+  async unarchiveNotification(
+    @GetUser() delegate: DelegateDocument,
+    @Param('notificationId') notificationId: string,
+  ) {
+    return this.notificationService.setArchived(
+      delegate._id.toString(),
+      notificationId,
+      false,
+    );
+  }
+
+  @Delete('inbox/:notificationId')
+  @Principals(PrincipalType.DELEGATE)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a notification' })
+  @ApiParam({ name: 'notificationId', description: 'ID of the notification' })
+  async deleteNotification(
+    @GetUser() delegate: DelegateDocument,
+    @Param('notificationId') notificationId: string,
+  ) {
+    await this.notificationService.deleteNotification(
+      delegate._id.toString(),
+      notificationId,
     );
-    return { message: 'Emails queued for all delegates.' };
   }
 
   // --- User-specific Notification Management ---
   @Get('my-notifications/:delegateId')
-  @Public()
+  @Principals(PrincipalType.DELEGATE)
+  @OwnDelegate('delegateId')
   @ApiOperation({
     summary: 'Get all notifications for the authenticated delegate',
+    description: 'Use GET /notifications/inbox instead.',
+    deprecated: true,
   })
   async getMyNotifications(@Param('delegateId') delegateId: string) {
     return this.notificationService.getNotificationsForDelegate(delegateId);
   }
 
   @Patch('read/all/:delegateId')
-  @Public()
+  @Principals(PrincipalType.DELEGATE)
+  @OwnDelegate('delegateId')
   @ApiOperation({
     summary: 'Mark all notifications as read for the authenticated delegate',
+    description: 'Use PATCH /notifications/inbox/read-all instead.',
+    deprecated: true,
   })
   @ApiParam({ name: 'delegateId', description: 'ID of the delegate' })
   async markAllAsRead(@Param('delegateId') delegateId: string) {
@@ -132,9 +358,12 @@ export class NotificationsController {
   }
 
   @Patch('read/:delegateId/:notificationId')
-  @Public()
+  @Principals(PrincipalType.DELEGATE)
+  @OwnDelegate('delegateId')
   @ApiOperation({
     summary: 'Mark a notification as read for the authenticated delegate',
+    description: 'Use PATCH /notifications/inbox/:notificationId/read instead.',
+    deprecated: true,
   })
   @ApiParam({ name: 'delegateId', description: 'ID of the delegate' })
   @ApiParam({
@@ -150,4 +379,21 @@ export class NotificationsController {
       notificationId,
     );
   }
+
+  // Deep links travel as data.link so the app finds them in the push payload
+  // and the inbox record alike
+  private toData(
+    payload: SendNotificationDto,
+  ): Record<string, unknown> | undefined {
+    return payload.link
+      ? { ...payload.data, link: payload.link }
+      : payload.data;
+  }
+
+  private toOptions(payload: NotificationOptionsDto): NotificationOptions {
+    return {
+      category: payload.category ?? NotificationCategory.LOGISTICS,
+      critical: payload.critical === true,
+    };
+  }
 }
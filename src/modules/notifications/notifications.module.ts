@@ -1,25 +1,54 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
+import { BullModule } from '@nestjs/bullmq';
 import { NotificationService } from './services/notification.service';
+import { PushReceiptsService } from './services/push-receipts.service';
+import { NotificationPreferencesService } from './services/notification-preferences.service';
+import { InboxStreamService } from './services/inbox-stream.service';
 import { NotificationsController } from './notifications.controller';
-import Expo from 'expo-server-sdk';
+import { ExpoClientProvider } from './expo-client.provider';
 import { Delegate, DelegateSchema } from '../delegates/delegates.schema';
 import {
   Notification,
   NotificationSchema,
 } from './schemas/notification.schema';
+import { PushTicket, PushTicketSchema } from './schemas/push-ticket.schema';
+import {
+  NotificationPreference,
+  NotificationPreferenceSchema,
+} from './schemas/notification-preference.schema';
+import { Event, EventSchema } from '../events/events.schema';
+import { SessionsModule } from '../sessions/sessions.module';
+import { NOTIFICATION_QUEUE } from '../queues/constants';
 
 @Module({
   imports: [
     ConfigModule,
+    SessionsModule,
+    // Registered here as well since QueuesModule imports this module
+    BullModule.registerQueue({
+      name: NOTIFICATION_QUEUE,
+    }),
     MongooseModule.forFeature([
       { name: Delegate.name, schema: DelegateSchema },
       { name: Notification.name, schema: NotificationSchema },
+      { name: PushTicket.name, schema: PushTicketSchema },
+      {
+        name: NotificationPreference.name,
+        schema: NotificationPreferenceSchema,
+      },
+      { name: Event.name, schema: EventSchema },
     ]),
   ],
   controllers: [NotificationsController],
-  providers: [NotificationService, { provide: Expo, useValue: new Expo() }],
+  providers: [
+    NotificationService,
+    PushReceiptsService,
+    NotificationPreferencesService,
+    InboxStreamService,
+    ExpoClientProvider,
+  ],
   exports: [NotificationService],
 })
 export class NotificationsModule {}
@@ -0,0 +1,86 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { ApiProperty } from '@nestjs/swagger';
+import { Document, Types } from 'mongoose';
+
+// What a message is about; delegates choose channels per category
+export enum NotificationCategory {
+  LOGISTICS = 'logistics',
+  NEWS = 'news',
+  AGENDA = 'agenda',
+  MARKETING = 'marketing',
+}
+
+@Schema({ _id: false })
+export class ChannelPreferences {
+  @ApiProperty({ default: true })
+  @Prop({ default: true })
+  email: boolean;
+
+  @ApiProperty({ default: true })
+  @Prop({ default: true })
+  push: boolean;
+
+  @ApiProperty({ default: true })
+  @Prop({ default: true })
+  sms: boolean;
+}
+
+@Schema({ _id: false })
+export class QuietHours {
+  @ApiProperty({ default: false })
+  @Prop({ default: false })
+  enabled: boolean;
+
+  @ApiProperty({
+    description: "Start of the quiet period, HH:mm in the event's time zone",
+    example: '22:00',
+  })
+  @Prop({ default: '22:00' })
+  start: string;
+
+  @ApiProperty({
+    description:
+      'End of the quiet period; earlier than start when it spans midnight',
+    example: '07:00',
+  })
+  @Prop({ default: '07:00' })
+  end: string;
+}
+
+// Notification Preference Schema
+// Which channels a delegate accepts for each category, and when push and SMS
+// must stay silent. Delegates without a record accept everything.
+@Schema({
+  timestamps: true,
+  collection: 'notification_preferences',
+})
+export class NotificationPreference {
+  @ApiProperty({ type: String })
+  @Prop({ type: Types.ObjectId, ref: 'Delegate', required: true, unique: true })
+  delegateId: Types.ObjectId;
+
+  @ApiProperty({ type: ChannelPreferences })
+  @Prop({ type: ChannelPreferences, default: () => ({}) })
+  logistics: ChannelPreferences;
+
+  @ApiProperty({ type: ChannelPreferences })
+  @Prop({ type: ChannelPreferences, default: () => ({}) })
+  news: ChannelPreferences;
+
+  @ApiProperty({ type: ChannelPreferences })
+  @Prop({ type: ChannelPreferences, default: () => ({}) })
+  agenda: ChannelPreferences;
+
+  @ApiProperty({ type: ChannelPreferences })
+  @Prop({ type: ChannelPreferences, default: () => ({}) })
+  marketing: ChannelPreferences;
+
+  @ApiProperty({ type: QuietHours })
+  @Prop({ type: QuietHours, default: () => ({}) })
+  quietHours: QuietHours;
+}
+
+export type NotificationPreferenceDocument = NotificationPreference & Document;
+export const NotificationPreferenceSchema = SchemaFactory.createForClass(
+  NotificationPreference,
+);
@@ -2,6 +2,7 @@ import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { ApiProperty } from '@nestjs/swagger';
 import { Document, Types } from 'mongoose';
 import { Delegate } from '../../delegates/delegates.schema';
+import { NotificationCategory } from './notification-preference.schema';
 
 export type NotificationDocument = Notification & Document;
 
@@ -13,6 +14,24 @@ export enum NotificationStatus {
 export enum NotificationType {
   PUSH = 'push',
   EMAIL = 'email',
+  SMS = 'sms',
+}
+
+// Push delivery as confirmed by Expo receipts
+export enum PushDeliveryStatus {
+  PENDING = 'pending',
+  DELIVERED = 'delivered',
+  FAILED = 'failed',
+}
+
+// Result of sending to one delegate over one channel; skipped means the
+// delegate has no address, phone number or device for it or opted out of
+// it, deferred that it waits for their quiet hours to end
+export enum DeliveryOutcome {
+  SENT = 'sent',
+  FAILED = 'failed',
+  SKIPPED = 'skipped',
+  DEFERRED = 'deferred',
 }
 
 @Schema({ timestamps: true })
@@ -36,6 +55,14 @@ export class Notification {
   @Prop({ type: String, enum: NotificationType, required: true })
   type: NotificationType;
 
+  @ApiProperty({
+    enum: NotificationCategory,
+    description: 'What the notification is about',
+    required: false,
+  })
+  @Prop({ type: String, enum: NotificationCategory })
+  category?: NotificationCategory;
+
   @ApiProperty({
     enum: NotificationStatus,
     description: 'Status of the notification',
@@ -56,6 +83,32 @@ export class Notification {
   })
   @Prop({ type: Object })
   data?: Record<string, unknown>;
+
+  @ApiProperty({
+    enum: PushDeliveryStatus,
+    description: "Push delivery to the delegate's devices, once known",
+    required: false,
+  })
+  @Prop({ type: String, enum: PushDeliveryStatus })
+  pushStatus?: PushDeliveryStatus;
+
+  @ApiProperty({
+    description: 'Expo error code when the push failed',
+    required: false,
+    example: 'DeviceNotRegistered',
+  })
+  @Prop()
+  pushError?: string;
+
+  @ApiProperty({
+    description: 'When the delegate archived it; archived ones leave the inbox',
+    required: false,
+  })
+  @Prop()
+  archivedAt?: Date;
 }
 
 export const NotificationSchema = SchemaFactory.createForClass(Notification);
+
+// Inbox pages: newest first per delegate
+NotificationSchema.index({ recipient: 1, createdAt: -1, _id: -1 });
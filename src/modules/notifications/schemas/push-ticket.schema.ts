@@ -0,0 +1,47 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { PushDeliveryStatus } from './notification.schema';
+
+// Push Ticket Schema
+// Expo's acknowledgement of one push to one device. Pending tickets are
+// checked against Expo receipts by PushReceiptsService.
+@Schema({
+  timestamps: true,
+  collection: 'push_tickets',
+})
+export class PushTicket {
+  @Prop({ type: Types.ObjectId, ref: 'Delegate', required: true })
+  delegateId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Notification', index: true })
+  notificationId?: Types.ObjectId;
+
+  @Prop({ required: true })
+  token: string;
+
+  // Receipt ID; absent when Expo rejected the message outright
+  @Prop()
+  ticketId?: string;
+
+  @Prop({
+    type: String,
+    enum: PushDeliveryStatus,
+    default: PushDeliveryStatus.PENDING,
+  })
+  status: PushDeliveryStatus;
+
+  // Expo error code, e.g. DeviceNotRegistered
+  @Prop()
+  error?: string;
+
+  @Prop({ default: Date.now })
+  sentAt: Date;
+
+  @Prop()
+  checkedAt?: Date;
+}
+
+export type PushTicketDocument = PushTicket & Document;
+export const PushTicketSchema = SchemaFactory.createForClass(PushTicket);
+
+PushTicketSchema.index({ status: 1, sentAt: 1 });
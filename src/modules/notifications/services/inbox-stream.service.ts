@@ -0,0 +1,103 @@
+import { Injectable, MessageEvent } from '@nestjs/common';
+import {
+  Observable,
+  Subject,
+  concatMap,
+  defer,
+  filter,
+  finalize,
+  from,
+  interval,
+  map,
+  merge,
+  share,
+  takeUntil,
+  timer,
+} from 'rxjs';
+
+export enum InboxEventType {
+  NOTIFICATION = 'notification',
+  UNREAD_COUNT = 'unread-count',
+  PING = 'ping',
+}
+
+interface InboxEvent {
+  delegateId: string;
+  type: InboxEventType;
+  data: object;
+}
+
+// Keeps idle connections from being closed by proxies
+const HEARTBEAT_MS = 30 * 1000;
+
+// The stream was authenticated once when it opened; it must not outlive the
+// token or the session behind it
+export interface StreamAccess {
+  expiresAt: Date;
+  isActive: () => Promise<boolean>;
+}
+
+/**
+ * Fans inbox changes out to the delegates' open server-sent event streams.
+ * Events only reach streams opened on this instance.
+ */
+@Injectable()
+export class InboxStreamService {
+  private readonly events = new Subject<InboxEvent>();
+  private readonly connections = new Map<string, number>();
+
+  publish(delegateId: string, type: InboxEventType, data: object): void {
+    this.events.next({ delegateId, type, data });
+  }
+
+  /**
+   * Whether the delegate has a stream open, so callers can skip work
+   * nobody will see
+   */
+  isConnected(delegateId: string): boolean {
+    return this.connections.has(delegateId);
+  }
+
+  /**
+   * Events for one delegate, starting with `initial`, plus a heartbeat.
+   * Completes when the token expires or, checked on each heartbeat, the
+   * session is revoked.
+   */
+  stream(
+    delegateId: string,
+    initial: MessageEvent[],
+    access: StreamAccess,
+  ): Observable<MessageEvent> {
+    return defer(() => {
+      this.connections.set(
+        delegateId,
+        (this.connections.get(delegateId) ?? 0) + 1,
+      );
+      const heartbeats = interval(HEARTBEAT_MS).pipe(
+        concatMap(() => access.isActive()),
+        share(),
+      );
+      const closed = merge(
+        heartbeats.pipe(filter((active) => !active)),
+        timer(access.expiresAt),
+      );
+      return merge(
+        from(initial),
+        this.events.pipe(
+          filter((event) => event.delegateId === delegateId),
+          map(({ type, data }) => ({ type, data })),
+        ),
+        heartbeats.pipe(map(() => ({ type: InboxEventType.PING, data: {} }))),
+      ).pipe(takeUntil(closed));
+    }).pipe(
+      finalize(() => {
+        const remaining = (this.connections.get(delegateId) ?? 1) - 1;
+        if (remaining > 0) {
+          this.connections.set(delegateId, remaining);
+        } else {
+          this.connections.delete(delegateId);
+        }
+      }),
+    );
+  }
+}
@@ -0,0 +1,251 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  NotificationCategory,
+  NotificationPreference,
+  NotificationPreferenceDocument,
+  QuietHours,
+} from '../schemas/notification-preference.schema';
+import { NotificationType } from '../schemas/notification.schema';
+import { Event, EventDocument } from '../../events/events.schema';
+import { UpdateNotificationPreferencesDto } from '../dto/notification-preferences.dto';
+
+export interface NotificationOptions {
+  category: NotificationCategory;
+  // Cancellations and emergency alerts ignore preferences and quiet hours
+  critical?: boolean;
+}
+
+// How to reach one delegate for a message
+export interface ChannelPlan {
+  // Channels to use now
+  channels: NotificationType[];
+  // Channels held back by quiet hours, to use at deferUntil
+  deferred: NotificationType[];
+  deferUntil?: Date;
+}
+
+// Channels held back during quiet hours; email is read when the delegate
+// chooses to
+const INTERRUPTING_CHANNELS = [NotificationType.PUSH, NotificationType.SMS];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const PREFERENCE_SECTIONS = [
+  ...Object.values(NotificationCategory),
+  'quietHours',
+] as const;
+
+@Injectable()
+export class NotificationPreferencesService {
+  private readonly logger = new Logger(NotificationPreferencesService.name);
+
+  constructor(
+    @InjectModel(NotificationPreference.name)
+    private readonly preferenceModel: Model<NotificationPreferenceDocument>,
+    @InjectModel(Event.name)
+    private readonly eventModel: Model<EventDocument>,
+  ) {}
+
+  // ======================================================
+  // DELEGATE PREFERENCES
+  // ======================================================
+
+  /**
+   * The delegate's preferences, or the defaults when they never saved any
+   */
+  async getForDelegate(delegateId: string): Promise<NotificationPreference> {
+    const id = this.toObjectId(delegateId);
+    const preference = await this.preferenceModel
+      .findOne({ delegateId: id })
+      .lean()
+      .exec();
+    return (
+      preference ?? new this.preferenceModel({ delegateId: id }).toObject()
+    );
+  }
+
+  /**
+   * Change the settings present in the DTO and keep the rest
+   */
+  async update(
+    delegateId: string,
+    updateDto: UpdateNotificationPreferencesDto,
+  ): Promise<NotificationPreferenceDocument> {
+    const id = this.toObjectId(delegateId);
+    const preference =
+      (await this.preferenceModel.findOne({ delegateId: id }).exec()) ??
+      new this.preferenceModel({ delegateId: id });
+
+    for (const section of PREFERENCE_SECTIONS) {
+      for (const [key, value] of Object.entries(updateDto[section] ?? {})) {
+        if (value !== undefined) {
+          preference.set(`${section}.${key}`, value);
+        }
+      }
+    }
+
+    await preference.save();
+    this.logger.log(
+      `Updated notification preferences of delegate ${delegateId}`,
+    );
+    return preference;
+  }
+
+  // ======================================================
+  // DELIVERY RULES
+  // ======================================================
+
+  /**
+   * Narrow `channels` to the ones each delegate accepts for the category,
+   * keyed by delegate ID. Push and SMS falling in the delegate's quiet hours
+   * at `now`, read in the time zone of their event, are deferred until the
+   * quiet hours end.
+   */
+  async planChannels(
+    delegates: { _id: unknown; eventId?: Types.ObjectId }[],
+    channels: NotificationType[],
+    options: NotificationOptions,
+    now = new Date(),
+  ): Promise<Map<string, ChannelPlan>> {
+    const plans = new Map<string, ChannelPlan>();
+    if (options.critical) {
+      for (const delegate of delegates) {
+        plans.set(String(delegate._id), { channels, deferred: [] });
+      }
+      return plans;
+    }
+
+    const preferences = await this.preferenceModel
+      .find({ delegateId: { $in: delegates.map((delegate) => delegate._id) } })
+      .lean()
+      .exec();
+    const byDelegate = new Map(
+      preferences.map((preference) => [
+        preference.delegateId.toString(),
+        preference,
+      ]),
+    );
+
+    const quietEventIds = delegates
+      .filter(
+        (delegate) =>
+          byDelegate.get(String(delegate._id))?.quietHours?.enabled &&
+          delegate.eventId,
+      )
+      .map((delegate) => delegate.eventId);
+    const timeZones = new Map<string, string>();
+    if (quietEventIds.length > 0) {
+      const events = await this.eventModel
+        .find({ _id: { $in: quietEventIds } })
+        .select('timeZone')
+        .lean()
+        .exec();
+      for (const event of events) {
+        timeZones.set(event._id.toString(), event.timeZone);
+      }
+    }
+
+    for (const delegate of delegates) {
+      const preference = byDelegate.get(String(delegate._id));
+      if (!preference) {
+        plans.set(String(delegate._id), { channels, deferred: [] });
+        continue;
+      }
+
+      const accepted = channels.filter(
+        (channel) => preference[options.category]?.[channel] !== false,
+      );
+      const quietMinutes = this.quietMinutesLeft(
+        preference.quietHours,
+        timeZones.get(delegate.eventId?.toString()),
+        now,
+      );
+      if (quietMinutes === 0) {
+        plans.set(String(delegate._id), { channels: accepted, deferred: [] });
+        continue;
+      }
+
+      plans.set(String(delegate._id), {
+        channels: accepted.filter(
+          (channel) => !INTERRUPTING_CHANNELS.includes(channel),
+        ),
+        deferred: accepted.filter((channel) =>
+          INTERRUPTING_CHANNELS.includes(channel),
+        ),
+        // Quiet hours end on a whole minute
+        deferUntil: new Date(
+          Math.floor(now.getTime() / 60_000 + quietMinutes) * 60_000,
+        ),
+      });
+    }
+    return plans;
+  }
+
+  async planChannelsFor(
+    delegate: { _id: unknown; eventId?: Types.ObjectId },
+    channels: NotificationType[],
+    options: NotificationOptions,
+  ): Promise<ChannelPlan> {
+    const plans = await this.planChannels([delegate], channels, options);
+    return plans.get(String(delegate._id));
+  }
+
+  // ======================================================
+  // HELPERS
+  // ======================================================
+
+  /**
+   * Minutes until the quiet hours end, or 0 outside them
+   */
+  private quietMinutesLeft(
+    quietHours: QuietHours | undefined,
+    timeZone: string | undefined,
+    now: Date,
+  ): number {
+    if (!quietHours?.enabled) {
+      return 0;
+    }
+
+    const start = this.toMinutes(quietHours.start);
+    const end = this.toMinutes(quietHours.end);
+    const current = this.minutesOfDay(now, timeZone);
+    // A window ending earlier than it starts runs past midnight
+    const quiet =
+      start <= end
+        ? current >= start && current < end
+        : current >= start || current < end;
+    return quiet ? (end - current + MINUTES_PER_DAY) % MINUTES_PER_DAY : 0;
+  }
+
+  private minutesOfDay(date: Date, timeZone: string | undefined): number {
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+      parts = new Intl.DateTimeFormat('en-GB', {
+        timeZone: timeZone || 'UTC',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      }).formatToParts(date);
+    } catch {
+      this.logger.warn(`Unknown event time zone "${timeZone}", using UTC`);
+      return date.getUTCHours() * 60 + date.getUTCMinutes();
+    }
+    const part = (type: string) =>
+      Number(parts.find((p) => p.type === type)?.value);
+    return part('hour') * 60 + part('minute');
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  private toObjectId(delegateId: string): Types.ObjectId {
+    if (!Types.ObjectId.isValid(delegateId)) {
+      throw new BadRequestException('Invalid delegate ID format');
+    }
+    return new Types.ObjectId(delegateId);
+  }
+}
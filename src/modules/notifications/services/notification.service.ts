@@ -1,17 +1,88 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  MessageEvent,
+  NotFoundException,
+} from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model, Types } from 'mongoose';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { FilterQuery, Model, Types } from 'mongoose';
+import { Observable } from 'rxjs';
 import * as nodemailer from 'nodemailer';
 import Expo, { ExpoPushMessage } from 'expo-server-sdk';
 import {
+  DeliveryOutcome,
   Notification,
   NotificationDocument,
   NotificationStatus,
   NotificationType,
+  PushDeliveryStatus,
 } from '../schemas/notification.schema';
 import { Delegate, DelegateDocument } from '../../delegates/delegates.schema';
 import axios from 'axios';
+import { EXPO_CLIENT, ExpoClient } from '../expo-client.provider';
+import { PushReceiptsService, PushRecipient } from './push-receipts.service';
+import {
+  ChannelPlan,
+  NotificationOptions,
+  NotificationPreferencesService,
+} from './notification-preferences.service';
+import { NotificationCategory } from '../schemas/notification-preference.schema';
+import {
+  InboxEventType,
+  InboxStreamService,
+  StreamAccess,
+} from './inbox-stream.service';
+import { InboxQueryDto, NotificationPageDto } from '../dto/inbox.dto';
+import { NOTIFICATION_QUEUE } from '../../queues/constants';
+
+export type DeliveryResult = Partial<Record<NotificationType, DeliveryOutcome>>;
+
+interface PushTarget {
+  delegateId: Types.ObjectId;
+  tokens: string[];
+  // Inbox record whose pushStatus follows the delivery
+  notificationId?: Types.ObjectId;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer | string;
+  cid?: string;
+  contentType?: string;
+}
+
+// Push and SMS held back by a delegate's quiet hours
+export interface DeferredDeliveryJobData {
+  delegateId: string;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+  channels: NotificationType[];
+  // Inbox record whose pushStatus follows the delivery
+  notificationId?: string;
+  options: NotificationOptions;
+}
+
+// A delegate an email goes to on their own account, subject to their
+// preferences
+export interface EmailRecipient {
+  _id: unknown;
+  eventId?: Types.ObjectId;
+}
+
+type NotificationRow = Notification & {
+  _id: Types.ObjectId;
+  createdAt: Date;
+};
+
+const DEFAULT_OPTIONS: NotificationOptions = {
+  category: NotificationCategory.LOGISTICS,
+};
 
 @Injectable()
 export class NotificationService {
@@ -24,7 +95,11 @@ export class NotificationService {
     private readonly delegateModel: Model<DelegateDocument>,
     @InjectModel(Notification.name)
     private readonly notificationModel: Model<NotificationDocument>,
-    private readonly expo: Expo,
+    @Inject(EXPO_CLIENT) private readonly expo: ExpoClient,
+    private readonly pushReceiptsService: PushReceiptsService,
+    private readonly preferencesService: NotificationPreferencesService,
+    private readonly inboxStream: InboxStreamService,
+    @InjectQueue(NOTIFICATION_QUEUE) private readonly notificationQueue: Queue,
   ) {
     this.transporter = nodemailer.createTransport({
       service: this.configService.get<string>('SMTP_SERVICE'),
@@ -40,15 +115,32 @@ export class NotificationService {
 
   private async _saveNotification(
     notificationDetails: Partial<Notification>,
-  ): Promise<void> {
+  ): Promise<NotificationDocument | null> {
+    let notification: NotificationDocument;
     try {
-      await this.notificationModel.create(notificationDetails);
+      notification = await this.notificationModel.create(notificationDetails);
     } catch (error) {
       this.logger.error(
         `Failed to save notification: ${error.message}`,
         error.stack,
       );
+      return null;
     }
+
+    const delegateId = notification.recipient.toString();
+    if (this.inboxStream.isConnected(delegateId)) {
+      this.inboxStream.publish(
+        delegateId,
+        InboxEventType.NOTIFICATION,
+        notification.toJSON(),
+      );
+      this.publishUnreadCount(delegateId).catch((error) => {
+        this.logger.error(
+          `Failed to publish unread count to delegate ${delegateId}: ${error.message}`,
+        );
+      });
+    }
+    return notification;
   }
 
   async sendSMS(phoneNumber: string, message: string): Promise<boolean> {
@@ -76,42 +168,6 @@ export class NotificationService {
     }
   }
 
-  async sendRegistrationPassword(
-    email: string,
-    message: string,
-    phoneNumber?: string,
-  ): Promise<boolean> {
-    try {
-      if (phoneNumber) {
-        await this.sendSMS(phoneNumber, message);
-      }
-      if (email) {
-        const emailHtml = `
-          <div style="font-family: Arial, sans-serif; padding: 20px; color: #333;">
-            <h2 style="color: #2c3e50;">Shelter Afrique Notification</h2>
-            <div style="padding: 20px; background-color: #f8f9fa; border-radius: 5px;">
-              ${message.replace(/\n/g, '<br>')}
-            </div>
-            <p style="margin-top: 20px; font-size: 12px; color: #666;">
-              This is an automated message, please do not reply to this email.
-            </p>
-          </div>
-        `;
-        await this.sendEmail(
-          email,
-          'Shelter Afrique: Password Reset',
-          emailHtml,
-        );
-      }
-      return true;
-    } catch (error) {
-      this.logger.error(
-        `Error sending registration password: ${error.message}`,
-      );
-      return false;
-    }
-  }
-
   async sendEmail(
     to: string,
     subject: string,
@@ -152,11 +208,7 @@ export class NotificationService {
     to: string,
     subject: string,
     html: string,
-    attachments?: {
-      filename: string;
-      content: Buffer | string;
-      cid: string;
-    }[],
+    attachments?: EmailAttachment[],
   ): Promise<boolean> {
     try {
       await this.transporter.verify();
@@ -188,11 +240,40 @@ export class NotificationService {
     }
   }
 
+  /**
+   * Send an email to a delegate's own address when their preferences accept
+   * the category. Resolves to false when held back or when sending fails.
+   */
+  async sendDelegateEmail(
+    delegate: EmailRecipient,
+    to: string,
+    subject: string,
+    html: string,
+    attachments?: EmailAttachment[],
+    options: NotificationOptions = DEFAULT_OPTIONS,
+  ): Promise<boolean> {
+    const plan = await this.preferencesService.planChannelsFor(
+      delegate,
+      [NotificationType.EMAIL],
+      options,
+    );
+    if (!plan.channels.includes(NotificationType.EMAIL)) {
+      this.logger.log(
+        `Delegate ${String(delegate._id)} does not accept ${options.category} emails.`,
+      );
+      return false;
+    }
+    return attachments?.length
+      ? this.sendEmailWithAttachments(to, subject, html, attachments)
+      : this.sendEmail(to, subject, html);
+  }
+
   async sendEmailToDelegate(
     delegateId: string,
     title: string,
     html: string,
     data?: Record<string, unknown>,
+    options: NotificationOptions = DEFAULT_OPTIONS,
   ): Promise<void> {
     const delegate = await this.delegateModel
       .findById(delegateId)
@@ -204,6 +285,18 @@ export class NotificationService {
         `Delegate with ID ${delegateId} not found or has no email.`,
       );
     }
+    const plan = await this.preferencesService.planChannelsFor(
+      delegate,
+      [NotificationType.EMAIL, NotificationType.PUSH],
+      options,
+    );
+    if (!plan.channels.includes(NotificationType.EMAIL)) {
+      this.logger.log(
+        `Delegate ${delegateId} does not accept ${options.category} emails.`,
+      );
+      return;
+    }
+
     const success = await this.sendEmail(delegate.email, title, html);
     if (success) {
       await this._saveNotification({
@@ -211,118 +304,35 @@ export class NotificationService {
         title,
         body: 'Email content sent, Please check your email.',
         type: NotificationType.EMAIL,
+        category: options.category,
         data,
       });
 
-      if (delegate.expoPushTokens && delegate.expoPushTokens.length > 0) {
-        await this._sendPushNotification(
-          delegate.expoPushTokens,
-          title,
-          'You have received a new email.',
-          data,
-        );
-      }
-    }
-  }
-
-  // Test email configuration
-  private readonly USE_TEST_EMAILS = true;
-  private readonly TEST_EMAILS = {
-    to: 'cmihunyo@strathmore.edu',
-    cc: [
-      // 'amoke@shelterafrique.org',
-      // 'mkimata@shelterafrique.org',
-      // 'skanje@shelterafrique.org',
-      // 'dkikok@shelterafrique.org',
-      // 'iishimwe@shelterafrique.org',
-      // 'nkoli@shelterafrique.org',
-      // 'itteam@shelterafrique.org',
-      // 'mhussein@shelterafrique.org',
-      // 'ptahinduka@shelterafrique.org',
-      // 'mgichure@strathmore.edu',
-      // 'jrarui@strathmore.edu',
-      'mwanikicharles226@gmail.com',
-      'mwanikicharles14700@gmail.com',
-    ],
-  };
-
-  async sendEmailToAllDelegates(
-    title: string,
-    html: string,
-    data?: Record<string, unknown>,
-  ): Promise<void> {
-    console.log(title, html);
-    if (this.USE_TEST_EMAILS) {
-      this.logger.log('Using test email recipients');
-      const success = await this.sendEmail(
-        this.TEST_EMAILS.to,
-        `[TEST] ${title}`,
-        html,
-        this.TEST_EMAILS.cc,
-        [], // empty array for BCC
-      );
-
-      if (success) {
-        this.logger.log('Test email sent to hardcoded recipients');
+      if (!delegate.expoPushTokens || delegate.expoPushTokens.length === 0) {
+        return;
       }
-      return;
-    }
-
-    // for production
-    const delegates = await this.delegateModel
-      .find({ email: { $exists: true, $ne: null } })
-      .select('+expoPushTokens')
-      .exec();
-
-    if (delegates.length === 0) {
-      this.logger.log('No delegates with emails found to send to.');
-      return;
-    }
-
-    this.logger.log(
-      `Queueing a single email for ${delegates.length} delegates.`,
-    );
-
-    const emails = delegates.map((d) => d.email);
-    const success = await this.sendEmail(
-      'cmihunyo@strathmore.edu',
-      title,
-      html,
-      [...emails],
-    );
-
-    if (success) {
-      this.logger.log(
-        `Email sent to all delegates. Saving notifications and sending pushes.`,
-      );
-
-      const allTokens = delegates.flatMap(
-        (delegate) => delegate.expoPushTokens || [],
+      await this.deferDelivery(
+        delegateId,
+        plan,
+        title,
+        'You have received a new email.',
+        data,
+        undefined,
+        options,
       );
-      const uniqueTokens = [...new Set(allTokens)];
-
-      if (uniqueTokens.length > 0) {
+      if (plan.channels.includes(NotificationType.PUSH)) {
         await this._sendPushNotification(
-          uniqueTokens,
+          [
+            {
+              delegateId: delegate._id as Types.ObjectId,
+              tokens: delegate.expoPushTokens,
+            },
+          ],
           title,
           'You have received a new email.',
           data,
         );
       }
-
-      for (const delegate of delegates) {
-        await this._saveNotification({
-          recipient: delegate._id as Types.ObjectId,
-          title,
-          body: 'Email content sent, Please check your email.',
-          type: NotificationType.EMAIL,
-          data,
-        });
-      }
-    } else {
-      this.logger.error(
-        `Failed to send mass email to delegates. No notifications will be saved.`,
-      );
     }
   }
 
@@ -346,31 +356,54 @@ export class NotificationService {
     return delegate;
   }
 
+  /**
+   * Push to every device of the targets, once per token, and hand Expo's
+   * tickets to PushReceiptsService so delivery can be confirmed later.
+   * Resolves to whether Expo accepted at least one message.
+   */
   private async _sendPushNotification(
-    tokens: string[],
+    targets: PushTarget[],
     title: string,
     body: string,
     data?: Record<string, unknown>,
-  ): Promise<void> {
-    const validTokens = tokens.filter((token) => Expo.isExpoPushToken(token));
-    if (validTokens.length === 0) return;
+  ): Promise<boolean> {
+    const seen = new Set<string>();
+    const recipients: PushRecipient[] = [];
+    for (const { tokens, ...target } of targets) {
+      for (const token of tokens) {
+        if (Expo.isExpoPushToken(token) && !seen.has(token)) {
+          seen.add(token);
+          recipients.push({ ...target, token });
+        }
+      }
+    }
+    if (recipients.length === 0) return false;
 
-    const messages: ExpoPushMessage[] = validTokens.map((pushToken) => ({
-      to: pushToken,
+    const messages: ExpoPushMessage[] = recipients.map(({ token }) => ({
+      to: token,
       sound: 'default',
       title,
       body,
       data,
     }));
 
-    const chunks = this.expo.chunkPushNotifications(messages);
-    for (const chunk of chunks) {
+    // Chunks keep the order of the messages, so tickets line up with
+    // recipients by position
+    let sent = false;
+    let offset = 0;
+    for (const chunk of this.expo.chunkPushNotifications(messages)) {
+      const chunkRecipients = recipients.slice(offset, offset + chunk.length);
+      offset += chunk.length;
       try {
-        await this.expo.sendPushNotificationsAsync(chunk);
+        const tickets = await this.expo.sendPushNotificationsAsync(chunk);
+        sent = sent || tickets.some((ticket) => ticket.status === 'ok');
+        await this.pushReceiptsService.recordTickets(chunkRecipients, tickets);
       } catch (error) {
         this.logger.error('Error sending push notification chunk', error);
+        await this.pushReceiptsService.recordTickets(chunkRecipients, []);
       }
     }
+    return sent;
   }
 
   async sendNotificationToDelegate(
@@ -378,6 +411,7 @@ export class NotificationService {
     title: string,
     body: string,
     data?: Record<string, unknown>,
+    options: NotificationOptions = DEFAULT_OPTIONS,
   ): Promise<void> {
     const delegate = await this.delegateModel
       .findById(delegateId)
@@ -390,25 +424,180 @@ export class NotificationService {
       this.logger.log(`Delegate ${delegateId} has no registered push tokens.`);
       return;
     }
+
+    // Held-back pushes still reach the in-app inbox
+    const plan = await this.preferencesService.planChannelsFor(
+      delegate,
+      [NotificationType.PUSH],
+      options,
+    );
+    const pushing = plan.channels.includes(NotificationType.PUSH);
+    const notification = await this._saveNotification({
+      recipient: delegate._id as Types.ObjectId,
+      title,
+      body,
+      data,
+      type: NotificationType.PUSH,
+      category: options.category,
+      pushStatus:
+        pushing || plan.deferred.length > 0
+          ? PushDeliveryStatus.PENDING
+          : undefined,
+    });
+    await this.deferDelivery(
+      delegateId,
+      plan,
+      title,
+      body,
+      data,
+      notification?._id as Types.ObjectId,
+      options,
+    );
+    if (!pushing) {
+      this.logger.log(
+        `Push to delegate ${delegateId} held back by their preferences.`,
+      );
+      return;
+    }
     await this._sendPushNotification(
-      delegate.expoPushTokens,
+      [
+        {
+          delegateId: delegate._id as Types.ObjectId,
+          tokens: delegate.expoPushTokens,
+          notificationId: notification?._id as Types.ObjectId,
+        },
+      ],
       title,
       body,
       data,
     );
-    await this._saveNotification({
+  }
+
+  /**
+   * Store one inbox record for a delegate and message them over the given
+   * channels they accept. Reports the outcome per channel instead of
+   * throwing so callers can track delivery progress.
+   */
+  async deliverToDelegate(
+    delegateId: string,
+    title: string,
+    body: string,
+    html: string,
+    data?: Record<string, unknown>,
+    attachments?: EmailAttachment[],
+    channels: NotificationType[] = [
+      NotificationType.EMAIL,
+      NotificationType.PUSH,
+    ],
+    options: NotificationOptions = DEFAULT_OPTIONS,
+  ): Promise<DeliveryResult> {
+    const delegate = await this.delegateModel
+      .findById(delegateId)
+      .select('+expoPushTokens')
+      .exec();
+    if (!delegate) {
+      throw new NotFoundException(`Delegate with ID ${delegateId} not found.`);
+    }
+
+    const plan = await this.preferencesService.planChannelsFor(
+      delegate,
+      channels,
+      options,
+    );
+    const allowed = plan.channels;
+    const hasTokens = delegate.expoPushTokens?.length > 0;
+    const pushing = allowed.includes(NotificationType.PUSH) && hasTokens;
+    const pushDeferred =
+      plan.deferred.includes(NotificationType.PUSH) && hasTokens;
+    const smsDeferred =
+      plan.deferred.includes(NotificationType.SMS) && !!delegate.phoneNumber;
+    const notification = await this._saveNotification({
       recipient: delegate._id as Types.ObjectId,
       title,
       body,
       data,
-      type: NotificationType.PUSH,
+      type:
+        pushing || pushDeferred
+          ? NotificationType.PUSH
+          : channels.includes(NotificationType.EMAIL)
+            ? NotificationType.EMAIL
+            : channels[0],
+      category: options.category,
+      pushStatus:
+        pushing || pushDeferred ? PushDeliveryStatus.PENDING : undefined,
     });
+    await this.deferDelivery(
+      delegateId,
+      {
+        ...plan,
+        deferred: plan.deferred.filter((channel) =>
+          channel === NotificationType.PUSH ? pushDeferred : smsDeferred,
+        ),
+      },
+      title,
+      body,
+      data,
+      notification?._id as Types.ObjectId,
+      options,
+    );
+
+    const outcome = (sent: boolean) =>
+      sent ? DeliveryOutcome.SENT : DeliveryOutcome.FAILED;
+    const result: DeliveryResult = {};
+
+    if (channels.includes(NotificationType.EMAIL)) {
+      result.email =
+        !delegate.email || !allowed.includes(NotificationType.EMAIL)
+          ? DeliveryOutcome.SKIPPED
+          : outcome(
+              attachments?.length
+                ? await this.sendEmailWithAttachments(
+                    delegate.email,
+                    title,
+                    html,
+                    attachments,
+                  )
+                : await this.sendEmail(delegate.email, title, html),
+            );
+    }
+
+    if (channels.includes(NotificationType.PUSH)) {
+      result.push = pushDeferred
+        ? DeliveryOutcome.DEFERRED
+        : !pushing
+          ? DeliveryOutcome.SKIPPED
+          : outcome(
+              await this._sendPushNotification(
+                [
+                  {
+                    delegateId: delegate._id as Types.ObjectId,
+                    tokens: delegate.expoPushTokens,
+                    notificationId: notification?._id as Types.ObjectId,
+                  },
+                ],
+                title,
+                body,
+                data,
+              ),
+            );
+    }
+
+    if (channels.includes(NotificationType.SMS)) {
+      result.sms = smsDeferred
+        ? DeliveryOutcome.DEFERRED
+        : !delegate.phoneNumber || !allowed.includes(NotificationType.SMS)
+          ? DeliveryOutcome.SKIPPED
+          : outcome(await this.sendSMS(delegate.phoneNumber, body));
+    }
+
+    return result;
   }
 
   async sendNotificationToAllDelegates(
     title: string,
     body: string,
     data?: Record<string, unknown>,
+    options: NotificationOptions = DEFAULT_OPTIONS,
   ): Promise<void> {
     const delegates = await this.delegateModel
       .find({ expoPushTokens: { $exists: true, $ne: [] } })
@@ -418,20 +607,152 @@ export class NotificationService {
       this.logger.log('No delegates with registered push tokens found.');
       return;
     }
-    const allTokens = delegates.flatMap((delegate) => delegate.expoPushTokens);
-    const uniqueTokens = [...new Set(allTokens)];
-
-    await this._sendPushNotification(uniqueTokens, title, body, data);
 
+    const plans = await this.preferencesService.planChannels(
+      delegates,
+      [NotificationType.PUSH],
+      options,
+    );
+    const targets: PushTarget[] = [];
     for (const delegate of delegates) {
-      await this._saveNotification({
+      const plan = plans.get(String(delegate._id));
+      const pushing = plan.channels.includes(NotificationType.PUSH);
+      const notification = await this._saveNotification({
         recipient: delegate._id as Types.ObjectId,
         title,
         body,
         data,
         type: NotificationType.PUSH,
+        category: options.category,
+        pushStatus:
+          pushing || plan.deferred.length > 0
+            ? PushDeliveryStatus.PENDING
+            : undefined,
+      });
+      await this.deferDelivery(
+        String(delegate._id),
+        plan,
+        title,
+        body,
+        data,
+        notification?._id as Types.ObjectId,
+        options,
+      );
+      if (!pushing) {
+        continue;
+      }
+      targets.push({
+        delegateId: delegate._id as Types.ObjectId,
+        tokens: delegate.expoPushTokens,
+        notificationId: notification?._id as Types.ObjectId,
       });
     }
+
+    await this._sendPushNotification(targets, title, body, data);
+  }
+
+  // ======================================================
+  // QUIET HOURS
+  // ======================================================
+
+  /**
+   * Send push and SMS that quiet hours held back, checking the delegate's
+   * preferences again in case they changed meanwhile
+   */
+  async deliverDeferred(job: DeferredDeliveryJobData): Promise<void> {
+    const delegate = await this.delegateModel
+      .findById(job.delegateId)
+      .select('+expoPushTokens')
+      .exec();
+    if (!delegate) {
+      this.logger.warn(
+        `Delegate ${job.delegateId} no longer exists; dropping deferred delivery.`,
+      );
+      return;
+    }
+
+    const plan = await this.preferencesService.planChannelsFor(
+      delegate,
+      job.channels,
+      job.options,
+    );
+    const notificationId = job.notificationId
+      ? new Types.ObjectId(job.notificationId)
+      : undefined;
+    await this.deferDelivery(
+      job.delegateId,
+      plan,
+      job.title,
+      job.body,
+      job.data,
+      notificationId,
+      job.options,
+    );
+
+    const pushing =
+      plan.channels.includes(NotificationType.PUSH) &&
+      delegate.expoPushTokens?.length > 0;
+    if (pushing) {
+      await this._sendPushNotification(
+        [
+          {
+            delegateId: delegate._id as Types.ObjectId,
+            tokens: delegate.expoPushTokens,
+            notificationId,
+          },
+        ],
+        job.title,
+        job.body,
+        job.data,
+      );
+    } else if (
+      notificationId &&
+      !plan.deferred.includes(NotificationType.PUSH)
+    ) {
+      // The push will not go out after all
+      await this.notificationModel
+        .updateOne({ _id: notificationId }, { $unset: { pushStatus: 1 } })
+        .exec();
+    }
+
+    if (plan.channels.includes(NotificationType.SMS) && delegate.phoneNumber) {
+      await this.sendSMS(delegate.phoneNumber, job.body);
+    }
+  }
+
+  /**
+   * Queue the plan's deferred channels for when the quiet hours end
+   */
+  private async deferDelivery(
+    delegateId: string,
+    plan: ChannelPlan,
+    title: string,
+    body: string,
+    data: Record<string, unknown> | undefined,
+    notificationId: Types.ObjectId | undefined,
+    options: NotificationOptions,
+  ): Promise<void> {
+    if (plan.deferred.length === 0) {
+      return;
+    }
+
+    const job: DeferredDeliveryJobData = {
+      delegateId,
+      title,
+      body,
+      data,
+      channels: plan.deferred,
+      notificationId: notificationId?.toString(),
+      options,
+    };
+    await this.notificationQueue.add('deliver-deferred', job, {
+      delay: Math.max(plan.deferUntil.getTime() - Date.now(), 0),
+      removeOnComplete: true,
+      removeOnFail: true,
+    });
+    this.logger.log(
+      `Deferred ${plan.deferred.join(', ')} for delegate ${delegateId} until ${plan.deferUntil.toISOString()}`,
+    );
   }
 
   async getNotificationsForDelegate(
@@ -449,8 +770,8 @@ export class NotificationService {
   ): Promise<NotificationDocument> {
     const notification = await this.notificationModel.findOneAndUpdate(
       {
-        _id: new Types.ObjectId(notificationId),
-        recipient: new Types.ObjectId(delegateId),
+        _id: this.toObjectId(notificationId, 'notification'),
+        recipient: this.toObjectId(delegateId, 'delegate'),
       },
       { status: NotificationStatus.READ },
       { new: true },
@@ -460,6 +781,7 @@ export class NotificationService {
         `Notification with ID ${notificationId} not found for delegate ${delegateId}.`,
       );
     }
+    await this.publishUnreadCount(delegateId);
     return notification;
   }
 
@@ -473,9 +795,167 @@ export class NotificationService {
       },
       { status: NotificationStatus.READ },
     );
+    await this.publishUnreadCount(delegateId);
     return {
       acknowledged: result.acknowledged,
       modifiedCount: result.modifiedCount,
     };
   }
+
+  // ======================================================
+  // INBOX
+  // ======================================================
+
+  /**
+   * Newest first. The cursor points past the last notification of the
+   * previous page, so new arrivals do not shift the results.
+   */
+  async getInbox(
+    delegateId: string,
+    query: InboxQueryDto,
+  ): Promise<NotificationPageDto> {
+    const limit = Math.min(Math.max(Number(query.limit) || 20, 1), 100);
+    const filter: FilterQuery<NotificationDocument> = {
+      recipient: this.toObjectId(delegateId, 'delegate'),
+      archivedAt: { $exists: query.archived === 'true' },
+    };
+    if (query.cursor) {
+      Object.assign(filter, this.afterCursor(query.cursor));
+    }
+
+    const notifications = await this.notificationModel
+      .find(filter)
+      .sort({ createdAt: -1, _id: -1 })
+      // One extra row tells us whether there is a next page
+      .limit(limit + 1)
+      .lean<NotificationRow[]>()
+      .exec();
+
+    const data = notifications.slice(0, limit);
+    return {
+      data,
+      nextCursor:
+        notifications.length > limit
+          ? this.encodeCursor(data[data.length - 1])
+          : undefined,
+    };
+  }
+
+  async countUnread(delegateId: string): Promise<number> {
+    return this.notificationModel.countDocuments({
+      recipient: this.toObjectId(delegateId, 'delegate'),
+      status: NotificationStatus.UNREAD,
+      archivedAt: { $exists: false },
+    });
+  }
+
+  /**
+   * Move a notification out of the inbox, or back when `archived` is false
+   */
+  async setArchived(
+    delegateId: string,
+    notificationId: string,
+    archived: boolean,
+  ): Promise<NotificationDocument> {
+    const notification = await this.notificationModel.findOneAndUpdate(
+      {
+        _id: this.toObjectId(notificationId, 'notification'),
+        recipient: this.toObjectId(delegateId, 'delegate'),
+      },
+      archived
+        ? { $set: { archivedAt: new Date() } }
+        : { $unset: { archivedAt: 1 } },
+      { new: true },
+    );
+    if (!notification) {
+      throw new NotFoundException(
+        `Notification with ID ${notificationId} not found for delegate ${delegateId}.`,
+      );
+    }
+    await this.publishUnreadCount(delegateId);
+    return notification;
+  }
+
+  async deleteNotification(
+    delegateId: string,
+    notificationId: string,
+  ): Promise<void> {
+    const result = await this.notificationModel.deleteOne({
+      _id: this.toObjectId(notificationId, 'notification'),
+      recipient: this.toObjectId(delegateId, 'delegate'),
+    });
+    if (result.deletedCount === 0) {
+      throw new NotFoundException(
+        `Notification with ID ${notificationId} not found for delegate ${delegateId}.`,
+      );
+    }
+    await this.publishUnreadCount(delegateId);
+  }
+
+  /**
+   * Server-sent events for the delegate's inbox, opening with the current
+   * unread count and ending when `access` no longer holds
+   */
+  async openInboxStream(
+    delegateId: string,
+    access: StreamAccess,
+  ): Promise<Observable<MessageEvent>> {
+    const count = await this.countUnread(delegateId);
+    return this.inboxStream.stream(
+      delegateId,
+      [{ type: InboxEventType.UNREAD_COUNT, data: { count } }],
+      access,
+    );
+  }
+
+  private async publishUnreadCount(delegateId: string): Promise<void> {
+    if (!this.inboxStream.isConnected(delegateId)) {
+      return;
+    }
+    this.inboxStream.publish(delegateId, InboxEventType.UNREAD_COUNT, {
+      count: await this.countUnread(delegateId),
+    });
+  }
+
+  private encodeCursor(notification: NotificationRow): string {
+    return Buffer.from(
+      JSON.stringify({
+        t: notification.createdAt,
+        id: notification._id.toString(),
+      }),
+    ).toString('base64url');
+  }
+
+  // Notifications that sort after the cursor: older, or same time with a
+  // lower ID
+  private afterCursor(cursor: string): FilterQuery<NotificationDocument> {
+    let createdAt: Date;
+    let id: string;
+    try {
+      const decoded = JSON.parse(
+        Buffer.from(cursor, 'base64url').toString('utf8'),
+      );
+      createdAt = new Date(decoded.t);
+      id = decoded.id;
+    } catch {
+      throw new BadRequestException('Invalid cursor');
+    }
+    if (isNaN(createdAt.getTime()) || !Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    return {
+      $or: [
+        { createdAt: { $lt: createdAt } },
+        { createdAt, _id: { $lt: new Types.ObjectId(id) } },
+      ],
+    };
+  }
+
+  private toObjectId(id: string, label: string): Types.ObjectId {
+    if (!Types.ObjectId.isValid(id)) {
+      throw new BadRequestException(`Invalid ${label} ID format`);
+    }
+    return new Types.ObjectId(id);
+  }
 }
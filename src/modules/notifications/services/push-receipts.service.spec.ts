@@ -0,0 +1,277 @@
+import { Test } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { ExpoPushReceipt } from 'expo-server-sdk';
+import { PushReceiptsService } from './push-receipts.service';
+import { EXPO_CLIENT, ExpoClient } from '../expo-client.provider';
+import { PushTicket } from '../schemas/push-ticket.schema';
+import {
+  Notification,
+  PushDeliveryStatus,
+} from '../schemas/notification.schema';
+import { Delegate } from '../../delegates/delegates.schema';
+
+type TicketRow = PushTicket & { _id: Types.ObjectId };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Just enough of the three models for the service's queries, backed by arrays
+function fakeModels() {
+  const tickets: TicketRow[] = [];
+  const notifications = new Map<string, Record<string, unknown>>();
+  const delegates = new Map<string, string[]>();
+
+  const pushTicketModel = {
+    insertMany: jest.fn(async (documents: Partial<PushTicket>[]) => {
+      for (const document of documents) {
+        tickets.push({
+          _id: new Types.ObjectId(),
+          status: PushDeliveryStatus.PENDING,
+          sentAt: new Date(),
+          ...document,
+        } as TicketRow);
+      }
+    }),
+    find: jest.fn((filter: { sentAt: { $lte: Date } }) => {
+      const rows = tickets.filter(
+        (ticket) =>
+          ticket.status === PushDeliveryStatus.PENDING &&
+          ticket.sentAt <= filter.sentAt.$lte,
+      );
+      const query = {
+        sort: () => query,
+        limit: () => query,
+        lean: () => query,
+        exec: async () => rows,
+      };
+      return query;
+    }),
+    bulkWrite: jest.fn(async (operations) => {
+      for (const { updateOne } of operations) {
+        const ticket = tickets.find((row) =>
+          row._id.equals(updateOne.filter._id),
+        );
+        Object.assign(ticket, updateOne.update.$set);
+      }
+    }),
+    aggregate: jest.fn(async ([{ $match }]) => {
+      const ids: string[] = $match.notificationId.$in.map(String);
+      return ids.map((id) => {
+        const own = tickets
+          .filter((ticket) => String(ticket.notificationId) === id)
+          .sort((a, b) => a.sentAt.getTime() - b.sentAt.getTime());
+        const count = (status: PushDeliveryStatus) =>
+          own.filter((ticket) => ticket.status === status).length;
+        return {
+          _id: new Types.ObjectId(id),
+          delivered: count(PushDeliveryStatus.DELIVERED),
+          pending: count(PushDeliveryStatus.PENDING),
+          error: own[own.length - 1]?.error,
+        };
+      });
+    }),
+  };
+
+  const notificationModel = {
+    bulkWrite: jest.fn(async (operations) => {
+      for (const { updateOne } of operations) {
+        const id = String(updateOne.filter._id);
+        const notification = { ...notifications.get(id) };
+        Object.assign(notification, updateOne.update.$set);
+        for (const key of Object.keys(updateOne.update.$unset ?? {})) {
+          delete notification[key];
+        }
+        notifications.set(id, notification);
+      }
+    }),
+  };
+
+  const delegateModel = {
+    updateMany: jest.fn((_, update) => ({
+      exec: async () => {
+        const removed: string[] = update.$pullAll.expoPushTokens;
+        for (const [id, tokens] of delegates) {
+          delegates.set(
+            id,
+            tokens.filter((token) => !removed.includes(token)),
+          );
+        }
+      },
+    })),
+  };
+
+  return {
+    tickets,
+    notifications,
+    delegates,
+    pushTicketModel,
+    notificationModel,
+    delegateModel,
+  };
+}
+
+describe('PushReceiptsService', () => {
+  let service: PushReceiptsService;
+  let models: ReturnType<typeof fakeModels>;
+  let receipts: Record<string, ExpoPushReceipt>;
+  let expo: jest.Mocked<ExpoClient>;
+
+  const delegateId = new Types.ObjectId();
+  const notificationId = new Types.ObjectId();
+
+  function addTicket(
+    ticketId: string,
+    token: string,
+    ageMs: number,
+  ): TicketRow {
+    const ticket = {
+      _id: new Types.ObjectId(),
+      delegateId,
+      notificationId,
+      token,
+      ticketId,
+      status: PushDeliveryStatus.PENDING,
+      sentAt: new Date(Date.now() - ageMs),
+    } as TicketRow;
+    models.tickets.push(ticket);
+    return ticket;
+  }
+
+  beforeEach(async () => {
+    models = fakeModels();
+    models.delegates.set(String(delegateId), [
+      'ExponentPushToken[a]',
+      'ExponentPushToken[b]',
+    ]);
+    receipts = {};
+    expo = {
+      chunkPushNotifications: jest.fn(),
+      sendPushNotificationsAsync: jest.fn(),
+      chunkPushNotificationReceiptIds: jest.fn((ids: string[]) => [ids]),
+      getPushNotificationReceiptsAsync: jest.fn<
+        Promise<Record<string, ExpoPushReceipt>>,
+        [string[]]
+      >(async () => receipts),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        PushReceiptsService,
+        {
+          provide: getModelToken(PushTicket.name),
+          useValue: models.pushTicketModel,
+        },
+        {
+          provide: getModelToken(Notification.name),
+          useValue: models.notificationModel,
+        },
+        {
+          provide: getModelToken(Delegate.name),
+          useValue: models.delegateModel,
+        },
+        { provide: EXPO_CLIENT, useValue: expo },
+      ],
+    }).compile();
+
+    service = moduleRef.get(PushReceiptsService);
+  });
+
+  describe('recordTickets', () => {
+    it('removes tokens Expo reports as not registered', async () => {
+      await service.recordTickets(
+        [
+          { delegateId, token: 'ExponentPushToken[a]', notificationId },
+          { delegateId, token: 'ExponentPushToken[b]', notificationId },
+        ],
+        [
+          { status: 'ok', id: 'ticket-a' },
+          {
+            status: 'error',
+            message: 'not registered',
+            details: { error: 'DeviceNotRegistered' },
+          },
+        ],
+      );
+
+      expect(models.delegates.get(String(delegateId))).toEqual([
+        'ExponentPushToken[a]',
+      ]);
+      expect(models.tickets.map((ticket) => ticket.status)).toEqual([
+        PushDeliveryStatus.PENDING,
+        PushDeliveryStatus.FAILED,
+      ]);
+      // The other device may still confirm it
+      expect(models.notifications.has(String(notificationId))).toBe(false);
+    });
+  });
+
+  describe('checkReceipts', () => {
+    it('removes tokens whose receipt says the device is not registered', async () => {
+      addTicket('ticket-b', 'ExponentPushToken[b]', HOUR_MS);
+      receipts['ticket-b'] = {
+        status: 'error',
+        message: 'not registered',
+        details: { error: 'DeviceNotRegistered' },
+      };
+
+      await expect(service.checkReceipts()).resolves.toBe(1);
+
+      expect(models.delegates.get(String(delegateId))).toEqual([
+        'ExponentPushToken[a]',
+      ]);
+      expect(models.notifications.get(String(notificationId))).toEqual({
+        pushStatus: PushDeliveryStatus.FAILED,
+        pushError: 'DeviceNotRegistered',
+      });
+    });
+
+    it('marks the notification delivered on an ok receipt', async () => {
+      const ticket = addTicket('ticket-a', 'ExponentPushToken[a]', HOUR_MS);
+      receipts['ticket-a'] = { status: 'ok' };
+
+      await expect(service.checkReceipts()).resolves.toBe(1);
+
+      expect(ticket.status).toBe(PushDeliveryStatus.DELIVERED);
+      expect(models.notifications.get(String(notificationId))).toEqual({
+        pushStatus: PushDeliveryStatus.DELIVERED,
+      });
+      expect(models.delegateModel.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('fails tickets still without a receipt after a day', async () => {
+      const ticket = addTicket(
+        'ticket-a',
+        'ExponentPushToken[a]',
+        25 * HOUR_MS,
+      );
+
+      await expect(service.checkReceipts()).resolves.toBe(1);
+
+      expect(ticket).toMatchObject({
+        status: PushDeliveryStatus.FAILED,
+        error: 'NoReceipt',
+      });
+      expect(models.notifications.get(String(notificationId))).toEqual({
+        pushStatus: PushDeliveryStatus.FAILED,
+        pushError: 'NoReceipt',
+      });
+    });
+
+    it('keeps waiting for receipts that are not ready yet', async () => {
+      const ticket = addTicket('ticket-a', 'ExponentPushToken[a]', HOUR_MS);
+
+      await expect(service.checkReceipts()).resolves.toBe(0);
+
+      expect(ticket.status).toBe(PushDeliveryStatus.PENDING);
+      expect(models.notifications.size).toBe(0);
+    });
+
+    it('leaves tickets younger than the receipt delay to a later run', async () => {
+      addTicket('ticket-a', 'ExponentPushToken[a]', 60 * 1000);
+
+      await expect(service.checkReceipts()).resolves.toBe(0);
+
+      expect(expo.getPushNotificationReceiptsAsync).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model, Types } from 'mongoose';
+import { ExpoPushReceipt, ExpoPushTicket } from 'expo-server-sdk';
+import { EXPO_CLIENT, ExpoClient } from '../expo-client.provider';
+import { PushTicket, PushTicketDocument } from '../schemas/push-ticket.schema';
+import {
+  Notification,
+  NotificationDocument,
+  PushDeliveryStatus,
+} from '../schemas/notification.schema';
+import { Delegate, DelegateDocument } from '../../delegates/delegates.schema';
+
+export interface PushRecipient {
+  delegateId: Types.ObjectId;
+  token: string;
+  notificationId?: Types.ObjectId;
+}
+
+// Expo asks clients to wait before fetching receipts, and keeps them for a
+// day; tickets still pending after that are given up on
+const RECEIPT_DELAY_MS = 15 * 60 * 1000;
+const RECEIPT_TTL_MS = 24 * 60 * 60 * 1000;
+
+const MAX_TICKETS_PER_RUN = 5000;
+
+// The app was uninstalled or the token expired
+const DEVICE_NOT_REGISTERED = 'DeviceNotRegistered';
+
+@Injectable()
+export class PushReceiptsService {
+  private readonly logger = new Logger(PushReceiptsService.name);
+
+  constructor(
+    @InjectModel(PushTicket.name)
+    private readonly pushTicketModel: Model<PushTicketDocument>,
+    @InjectModel(Notification.name)
+    private readonly notificationModel: Model<NotificationDocument>,
+    @InjectModel(Delegate.name)
+    private readonly delegateModel: Model<DelegateDocument>,
+    @Inject(EXPO_CLIENT) private readonly expo: ExpoClient,
+  ) {}
+
+  /**
+   * Store the tickets Expo returned for a chunk of pushes, in the same order
+   * as the recipients. Tokens Expo already reports as unregistered are
+   * removed straight away.
+   */
+  async recordTickets(
+    recipients: PushRecipient[],
+    tickets: ExpoPushTicket[],
+  ): Promise<void> {
+    const deadTokens = new Set<string>();
+    const documents: Partial<PushTicket>[] = recipients.map(
+      (recipient, index) => {
+        const ticket = tickets[index];
+        if (ticket?.status === 'ok') {
+          return { ...recipient, ticketId: ticket.id };
+        }
+
+        const error = ticket?.details?.error || ticket?.message || 'NoTicket';
+        if (error === DEVICE_NOT_REGISTERED) {
+          deadTokens.add(recipient.token);
+        }
+        return {
+          ...recipient,
+          status: PushDeliveryStatus.FAILED,
+          error,
+          checkedAt: new Date(),
+        };
+      },
+    );
+
+    try {
+      await this.pushTicketModel.insertMany(documents);
+      await this.pruneTokens([...deadTokens]);
+      await this.settleNotifications(
+        documents
+          .filter((document) => document.status === PushDeliveryStatus.FAILED)
+          .map((document) => document.notificationId),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to record push tickets: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Fetch Expo receipts for pending tickets, mark each ticket and its
+   * notification delivered or failed, and drop tokens of devices that are
+   * no longer registered
+   */
+  @Cron(CronExpression.EVERY_10_MINUTES, { name: 'check-push-receipts' })
+  async checkReceipts(): Promise<number> {
+    const now = Date.now();
+    const tickets = await this.pushTicketModel
+      .find({
+        status: PushDeliveryStatus.PENDING,
+        sentAt: { $lte: new Date(now - RECEIPT_DELAY_MS) },
+      })
+      .sort({ sentAt: 1 })
+      .limit(MAX_TICKETS_PER_RUN)
+      .lean()
+      .exec();
+    if (tickets.length === 0) {
+      return 0;
+    }
+
+    const receipts: Record<string, ExpoPushReceipt> = {};
+    const ticketIds = tickets.map((ticket) => ticket.ticketId);
+    for (const chunk of this.expo.chunkPushNotificationReceiptIds(ticketIds)) {
+      try {
+        Object.assign(
+          receipts,
+          await this.expo.getPushNotificationReceiptsAsync(chunk),
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to fetch push receipts: ${error.message}`,
+          error.stack,
+        );
+      }
+    }
+
+    const updates = [];
+    const deadTokens = new Set<string>();
+    const notificationIds: Types.ObjectId[] = [];
+    for (const ticket of tickets) {
+      const receipt = receipts[ticket.ticketId];
+      let update: Partial<PushTicket>;
+      if (receipt?.status === 'ok') {
+        update = { status: PushDeliveryStatus.DELIVERED };
+      } else if (receipt?.status === 'error') {
+        update = {
+          status: PushDeliveryStatus.FAILED,
+          error: receipt.details?.error || receipt.message,
+        };
+        if (update.error === DEVICE_NOT_REGISTERED) {
+          deadTokens.add(ticket.token);
+        }
+      } else if (ticket.sentAt.getTime() < now - RECEIPT_TTL_MS) {
+        update = { status: PushDeliveryStatus.FAILED, error: 'NoReceipt' };
+      } else {
+        continue;
+      }
+
+      updates.push({
+        updateOne: {
+          filter: { _id: ticket._id },
+          update: { $set: { ...update, checkedAt: new Date() } },
+        },
+      });
+      notificationIds.push(ticket.notificationId);
+    }
+
+    if (updates.length > 0) {
+      await this.pushTicketModel.bulkWrite(updates, { ordered: false });
+    }
+    await this.pruneTokens([...deadTokens]);
+    await this.settleNotifications(notificationIds);
+
+    this.logger.log(
+      `Checked ${updates.length} push receipts; removed ${deadTokens.size} unregistered tokens`,
+    );
+    return updates.length;
+  }
+
+  // ======================================================
+  // HELPERS
+  // ======================================================
+
+  private async pruneTokens(tokens: string[]): Promise<void> {
+    if (tokens.length === 0) {
+      return;
+    }
+    await this.delegateModel
+      .updateMany(
+        { expoPushTokens: { $in: tokens } },
+        { $pullAll: { expoPushTokens: tokens } },
+      )
+      .exec();
+  }
+
+  /**
+   * A notification is delivered once any of its devices confirms it, and
+   * failed once none is still pending
+   */
+  private async settleNotifications(
+    notificationIds: (Types.ObjectId | undefined)[],
+  ): Promise<void> {
+    const ids = [
+      ...new Set(notificationIds.filter(Boolean).map((id) => id.toString())),
+    ].map((id) => new Types.ObjectId(id));
+    if (ids.length === 0) {
+      return;
+    }
+
+    const summaries = await this.pushTicketModel.aggregate<{
+      _id: Types.ObjectId;
+      delivered: number;
+      pending: number;
+      error?: string;
+    }>([
+      { $match: { notificationId: { $in: ids } } },
+      { $sort: { sentAt: 1 } },
+      {
+        $group: {
+          _id: '$notificationId',
+          delivered: {
+            $sum: {
+              $cond: [{ $eq: ['$status', PushDeliveryStatus.DELIVERED] }, 1, 0],
+            },
+          },
+          pending: {
+            $sum: {
+              $cond: [{ $eq: ['$status', PushDeliveryStatus.PENDING] }, 1, 0],
+            },
+          },
+          error: { $last: '$error' },
+        },
+      },
+    ]);
+
+    const updates = summaries
+      .filter((summary) => summary.delivered > 0 || summary.pending === 0)
+      .map((summary) => ({
+        updateOne: {
+          filter: { _id: summary._id },
+          update:
+            summary.delivered > 0
+              ? {
+                  $set: { pushStatus: PushDeliveryStatus.DELIVERED },
+                  $unset: { pushError: 1 },
+                }
+              : {
+                  $set: {
+                    pushStatus: PushDeliveryStatus.FAILED,
+                    pushError: summary.error,
+                  },
+                },
+        },
+      }));
+    if (updates.length > 0) {
+      await this.notificationModel.bulkWrite(updates, { ordered: false });
+    }
+  }
+}
@@ -1 +1,3 @@
 export const NOTIFICATION_QUEUE = 'notificationQueue';
+export const BROADCAST_QUEUE = 'broadcastQueue';
+export const BADGE_PRINT_QUEUE = 'badgePrintQueue';
@@ -1,13 +1,18 @@
 import { Processor, WorkerHost, OnWorkerEvent } from '@nestjs/bullmq';
 import { Logger } from '@nestjs/common';
 import { Job } from 'bullmq';
-import { NotificationService } from '../notifications/services/notification.service';
+import {
+  DeferredDeliveryJobData,
+  NotificationService,
+} from '../notifications/services/notification.service';
+import { NotificationCategory } from '../notifications/schemas/notification-preference.schema';
 import { NOTIFICATION_QUEUE } from './constants';
 
 interface NotificationJobData {
   delegateId: string;
   title: string;
   body: string;
+  category?: NotificationCategory;
 }
 
 @Processor(NOTIFICATION_QUEUE)
@@ -18,17 +23,35 @@ export class NotificationProcessor extends WorkerHost {
     super();
   }
 
-  async process(job: Job<NotificationJobData>): Promise<void> {
+  async process(
+    job: Job<NotificationJobData | DeferredDeliveryJobData>,
+  ): Promise<void> {
+    if (job.name === 'deliver-deferred') {
+      this.logger.log(
+        `Processing deferred delivery job ${job.id} for delegate ${job.data.delegateId}`,
+      );
+      return this.notificationService.deliverDeferred(
+        job.data as DeferredDeliveryJobData,
+      );
+    }
+
     this.logger.log(
       `Processing notification job ${job.id} for delegate ${job.data.delegateId}`,
     );
-    const { delegateId, title, body } = job.data;
+    const {
+      delegateId,
+      title,
+      body,
+      category = NotificationCategory.LOGISTICS,
+    } = job.data as NotificationJobData;
 
     try {
       await this.notificationService.sendNotificationToDelegate(
         delegateId,
         title,
         body,
+        undefined,
+        { category },
       );
       this.logger.log(`Successfully sent push notification for job ${job.id}`);
     } catch (error) {
@@ -1,7 +1,11 @@
 import { Module } from '@nestjs/common';
 import { BullModule } from '@nestjs/bullmq';
 import { ConfigModule, ConfigService } from '@nestjs/config';
-import { NOTIFICATION_QUEUE } from './constants';
+import {
+  BADGE_PRINT_QUEUE,
+  BROADCAST_QUEUE,
+  NOTIFICATION_QUEUE,
+} from './constants';
 import { NotificationProcessor } from './notification.processor';
 import { NotificationsModule } from '../notifications/notifications.module';
 
@@ -21,6 +25,12 @@ import { NotificationsModule } from '../notifications/notifications.module';
     BullModule.registerQueue({
       name: NOTIFICATION_QUEUE,
     }),
+    BullModule.registerQueue({
+      name: BROADCAST_QUEUE,
+    }),
+    BullModule.registerQueue({
+      name: BADGE_PRINT_QUEUE,
+    }),
     NotificationsModule,
   ],
   providers: [NotificationProcessor],
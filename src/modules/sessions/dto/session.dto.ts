@@ -0,0 +1,59 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+// Refresh Session DTO
+export class RefreshSessionDto {
+  @ApiProperty({
+    description: 'Refresh token returned by login or the previous refresh',
+  })
+  @IsNotEmpty()
+  @IsString()
+  refreshToken: string;
+}
+
+// Response DTOs for documentation
+export class SessionTokensDto {
+  @ApiProperty({ description: 'Short-lived access token' })
+  token: string;
+
+  @ApiProperty({
+    description: 'Single-use refresh token; store the new one each time',
+  })
+  refreshToken: string;
+
+  @ApiProperty({
+    description: 'Access token lifetime in seconds',
+    example: 900,
+  })
+  expiresIn: number;
+}
+
+export class SessionDto {
+  @ApiProperty({ example: '60d5ecb74f4d2c001f5e4b5d' })
+  id: string;
+
+  @ApiPropertyOptional({ example: 'okhttp/4.9.2' })
+  userAgent?: string;
+
+  @ApiPropertyOptional({ example: '41.90.64.10' })
+  ipAddress?: string;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty()
+  lastUsedAt: Date;
+
+  @ApiProperty()
+  expiresAt: Date;
+
+  @ApiProperty({
+    description: 'Whether this is the session making the request',
+  })
+  current: boolean;
+}
+
+export class RevokedSessionsDto {
+  @ApiProperty({ example: 3 })
+  revoked: number;
+}
@@ -0,0 +1,46 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { PrincipalType } from '../../common/enums/principal-type.enum';
+
+// Session Schema
+// One signed-in device for a staff user or delegate. The refresh token is
+// rotated on every use and only its hash is stored.
+@Schema({
+  timestamps: true,
+  collection: 'sessions',
+})
+export class Session {
+  @Prop({ type: String, enum: PrincipalType, required: true })
+  principalType: PrincipalType;
+
+  @Prop({ type: Types.ObjectId, required: true })
+  principalId: Types.ObjectId;
+
+  @Prop({ required: true, select: false })
+  refreshTokenHash: string;
+
+  @Prop()
+  userAgent: string;
+
+  @Prop()
+  ipAddress: string;
+
+  @Prop({ default: Date.now })
+  lastUsedAt: Date;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop()
+  revokedAt: Date;
+
+  @Prop()
+  revokedReason: string;
+}
+
+export type SessionDocument = Session & Document;
+export const SessionSchema = SchemaFactory.createForClass(Session);
+
+SessionSchema.index({ principalType: 1, principalId: 1, revokedAt: 1 });
+// Expired sessions are removed by MongoDB
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,119 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Req,
+} from '@nestjs/common';
+import {
+  ApiBadRequestResponse,
+  ApiBearerAuth,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiParam,
+  ApiTags,
+  ApiUnauthorizedResponse,
+} from '@nestjs/swagger';
+import { Request } from 'express';
+import { SessionsService } from './sessions.service';
+import {
+  RefreshSessionDto,
+  RevokedSessionsDto,
+  SessionDto,
+  SessionTokensDto,
+} from './dto/session.dto';
+import { Public } from '../auth/decorators/public.decorator';
+import { Principals } from '../../common/decorators/principals.decorator';
+import { PrincipalType } from '../../common/enums/principal-type.enum';
+
+@ApiTags('Sessions')
+@ApiBearerAuth()
+@Principals(PrincipalType.STAFF, PrincipalType.DELEGATE)
+@Controller('sessions')
+export class SessionsController {
+  private readonly logger = new Logger(SessionsController.name);
+
+  constructor(private readonly sessionsService: SessionsService) {}
+
+  @Post('refresh')
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Refresh an access token',
+    description:
+      'Works for staff users and delegates. The refresh token is single use; the response carries its replacement.',
+  })
+  @ApiOkResponse({ type: SessionTokensDto })
+  @ApiUnauthorizedResponse({
+    description: 'Refresh token is invalid, reused, expired or revoked',
+  })
+  async refresh(
+    @Body() refreshDto: RefreshSessionDto,
+    @Req() req: Request,
+  ): Promise<SessionTokensDto> {
+    this.logger.log(`POST /sessions/refresh - Rotating refresh token`);
+    return this.sessionsService.refresh(refreshDto.refreshToken, req);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List my signed-in devices',
+    description: 'Active sessions for the calling staff user or delegate.',
+  })
+  @ApiOkResponse({ type: [SessionDto] })
+  async findMine(@Req() req: any): Promise<SessionDto[]> {
+    this.logger.log(`GET /sessions - Listing sessions`);
+    return this.sessionsService.findForPrincipal(
+      req.principalType,
+      req.user._id,
+      req.sessionId,
+    );
+  }
+
+  @Delete('current')
+  @ApiOperation({ summary: 'Log out this device' })
+  @ApiOkResponse({ type: RevokedSessionsDto })
+  async logout(@Req() req: any): Promise<RevokedSessionsDto> {
+    this.logger.log(`DELETE /sessions/current - Logging out`);
+    return this.sessionsService.revoke(
+      req.principalType,
+      req.user._id,
+      req.sessionId,
+    );
+  }
+
+  @Delete()
+  @ApiOperation({
+    summary: 'Log out everywhere',
+    description: 'Revokes every session of the caller, including this one.',
+  })
+  @ApiOkResponse({ type: RevokedSessionsDto })
+  async logoutEverywhere(@Req() req: any): Promise<RevokedSessionsDto> {
+    this.logger.log(`DELETE /sessions - Logging out everywhere`);
+    return this.sessionsService.revokeAll(
+      req.principalType,
+      req.user._id,
+      'signed out everywhere',
+    );
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Log out one of my devices' })
+  @ApiParam({ name: 'id', description: 'Session ID' })
+  @ApiOkResponse({ type: RevokedSessionsDto })
+  @ApiBadRequestResponse({ description: 'Invalid session ID format' })
+  @ApiNotFoundResponse({ description: 'Session not found' })
+  async revoke(
+    @Param('id') id: string,
+    @Req() req: any,
+  ): Promise<RevokedSessionsDto> {
+    this.logger.log(`DELETE /sessions/${id} - Revoking session`);
+    return this.sessionsService.revoke(req.principalType, req.user._id, id);
+  }
+}
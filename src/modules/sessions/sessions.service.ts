@@ -0,0 +1,362 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { Model, Types } from 'mongoose';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { Request } from 'express';
+import { Session, SessionDocument } from './session.schema';
+import { SessionDto, SessionTokensDto } from './dto/session.dto';
+import { PrincipalType } from '../../common/enums/principal-type.enum';
+import { User, UserDocument } from '../auth/schemas/user.schema';
+import {
+  ATTENDING_STATUSES,
+  Delegate,
+  DelegateDocument,
+} from '../delegates/delegates.schema';
+import { JwtPayload } from '../auth/interfaces/auth.interface';
+import {
+  DELEGATE_JWT_AUDIENCE,
+  JWT_ISSUER,
+  STAFF_JWT_AUDIENCE,
+} from '../auth/auth.constants';
+
+export interface SessionPrincipal {
+  _id: unknown;
+  email: string;
+  roles?: string[];
+}
+
+// 15 minutes; clients renew through POST /sessions/refresh
+const ACCESS_TOKEN_TTL = 15 * 60;
+
+// Refresh tokens slide forward on every use. Delegates stay signed in to the
+// mobile app for the whole event season.
+const REFRESH_TOKEN_TTL: Record<PrincipalType, number> = {
+  [PrincipalType.STAFF]: 30 * 24 * 60 * 60,
+  [PrincipalType.DELEGATE]: 365 * 24 * 60 * 60,
+};
+
+// However often it is refreshed, a session ends this long after sign-in
+const MAX_SESSION_AGE: Record<PrincipalType, number> = {
+  [PrincipalType.STAFF]: 90 * 24 * 60 * 60,
+  [PrincipalType.DELEGATE]: 365 * 24 * 60 * 60,
+};
+
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+
+  constructor(
+    @InjectModel(Session.name)
+    private readonly sessionModel: Model<SessionDocument>,
+    @InjectModel(User.name)
+    private readonly userModel: Model<UserDocument>,
+    @InjectModel(Delegate.name)
+    private readonly delegateModel: Model<DelegateDocument>,
+    private readonly jwtService: JwtService,
+  ) {}
+
+  // ======================================================
+  // ISSUING AND ROTATION
+  // ======================================================
+
+  /**
+   * Start a session for a freshly authenticated principal
+   */
+  async issue(
+    principalType: PrincipalType,
+    principal: SessionPrincipal,
+    req?: Request,
+  ): Promise<SessionTokensDto> {
+    const secret = this.generateSecret();
+    const session = await this.sessionModel.create({
+      principalType,
+      principalId: principal._id,
+      refreshTokenHash: this.hash(secret),
+      userAgent: req?.headers?.['user-agent'],
+      ipAddress: req?.ip,
+      lastUsedAt: new Date(),
+      expiresAt: this.refreshExpiry(principalType, new Date()),
+    });
+
+    return this.buildTokens(session, principal, secret);
+  }
+
+  /**
+   * Exchange a refresh token for a new access and refresh token pair.
+   * Presenting an already-rotated refresh token revokes the session, since
+   * it means the token was copied. Rotation only succeeds against the hash
+   * that was checked, so of two concurrent refreshes one is treated as reuse.
+   */
+  async refresh(
+    refreshToken: string,
+    req?: Request,
+  ): Promise<SessionTokensDto> {
+    const [sessionId, secret] = (refreshToken || '').split('.');
+    if (!sessionId || !secret || !Types.ObjectId.isValid(sessionId)) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const session = await this.sessionModel
+      .findById(sessionId)
+      .select('+refreshTokenHash')
+      .exec();
+    if (!session || session.revokedAt || session.expiresAt < new Date()) {
+      throw new UnauthorizedException('Session has expired or been revoked');
+    }
+
+    if (!this.matches(secret, session.refreshTokenHash)) {
+      await this.revokeSession(session, 'refresh token reused');
+      this.logger.warn(
+        `Refresh token reuse detected for session ${sessionId}; session revoked`,
+      );
+      throw new UnauthorizedException('Session has expired or been revoked');
+    }
+
+    const principal = await this.findActivePrincipal(
+      session.principalType,
+      session.principalId,
+    );
+    if (!principal) {
+      await this.revokeSession(session, 'account no longer active');
+      throw new UnauthorizedException('Account is not active');
+    }
+
+    const nextSecret = this.generateSecret();
+    const rotated = await this.sessionModel
+      .findOneAndUpdate(
+        {
+          _id: session._id,
+          refreshTokenHash: session.refreshTokenHash,
+          revokedAt: null,
+        },
+        {
+          $set: {
+            refreshTokenHash: this.hash(nextSecret),
+            lastUsedAt: new Date(),
+            expiresAt: this.refreshExpiry(
+              session.principalType,
+              session.get('createdAt'),
+            ),
+            userAgent: req?.headers?.['user-agent'] || session.userAgent,
+            ipAddress: req?.ip || session.ipAddress,
+          },
+        },
+        { new: true },
+      )
+      .exec();
+    if (!rotated) {
+      await this.revokeSession(session, 'refresh token reused');
+      this.logger.warn(
+        `Concurrent refresh detected for session ${sessionId}; session revoked`,
+      );
+      throw new UnauthorizedException('Session has expired or been revoked');
+    }
+
+    return this.buildTokens(rotated, principal, nextSecret);
+  }
+
+  /**
+   * Used by the JWT strategies so revoked sessions lose access immediately
+   * rather than when their access token expires
+   */
+  async isActive(sessionId: string): Promise<boolean> {
+    if (!sessionId || !Types.ObjectId.isValid(sessionId)) {
+      return false;
+    }
+    const session = await this.sessionModel
+      .findById(sessionId)
+      .select('revokedAt expiresAt')
+      .lean()
+      .exec();
+    return !!session && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  // ======================================================
+  // LISTING AND REVOCATION
+  // ======================================================
+
+  async findForPrincipal(
+    principalType: PrincipalType,
+    principalId: Types.ObjectId | string,
+    currentSessionId?: string,
+  ): Promise<SessionDto[]> {
+    const sessions = await this.sessionModel
+      .find({
+        principalType,
+        principalId: new Types.ObjectId(principalId.toString()),
+        revokedAt: null,
+        expiresAt: { $gt: new Date() },
+      })
+      .sort({ lastUsedAt: -1 })
+      .exec();
+
+    return sessions.map((session) => ({
+      id: session._id.toString(),
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.get('createdAt'),
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session._id.toString() === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke one of the principal's own sessions
+   */
+  async revoke(
+    principalType: PrincipalType,
+    principalId: Types.ObjectId | string,
+    sessionId: string,
+  ): Promise<{ revoked: number }> {
+    if (!Types.ObjectId.isValid(sessionId)) {
+      throw new BadRequestException('Invalid session ID format');
+    }
+
+    const session = await this.sessionModel
+      .findOne({
+        _id: new Types.ObjectId(sessionId),
+        principalType,
+        principalId: new Types.ObjectId(principalId.toString()),
+      })
+      .exec();
+    if (!session) {
+      throw new NotFoundException(`Session with ID ${sessionId} not found`);
+    }
+    if (session.revokedAt) {
+      return { revoked: 0 };
+    }
+
+    await this.revokeSession(session, 'signed out');
+    return { revoked: 1 };
+  }
+
+  /**
+   * Sign a principal out everywhere, optionally keeping one session
+   */
+  async revokeAll(
+    principalType: PrincipalType,
+    principalId: Types.ObjectId | string,
+    reason: string,
+    exceptSessionId?: string,
+  ): Promise<{ revoked: number }> {
+    const filter: Record<string, unknown> = {
+      principalType,
+      principalId: new Types.ObjectId(principalId.toString()),
+      revokedAt: null,
+    };
+    if (exceptSessionId && Types.ObjectId.isValid(exceptSessionId)) {
+      filter._id = { $ne: new Types.ObjectId(exceptSessionId) };
+    }
+
+    const result = await this.sessionModel
+      .updateMany(filter, {
+        $set: { revokedAt: new Date(), revokedReason: reason },
+      })
+      .exec();
+
+    this.logger.log(
+      `Revoked ${result.modifiedCount} ${principalType} session(s) for ${principalId}: ${reason}`,
+    );
+    return { revoked: result.modifiedCount };
+  }
+
+  // ======================================================
+  // HELPERS
+  // ======================================================
+
+  private buildTokens(
+    session: SessionDocument,
+    principal: SessionPrincipal,
+    secret: string,
+  ): SessionTokensDto {
+    const payload: JwtPayload = {
+      sub: String(principal._id),
+      email: principal.email,
+      roles: principal.roles || [],
+      sid: session._id.toString(),
+    };
+    const token = this.jwtService.sign(payload, {
+      expiresIn: ACCESS_TOKEN_TTL,
+      audience:
+        session.principalType === PrincipalType.STAFF
+          ? STAFF_JWT_AUDIENCE
+          : DELEGATE_JWT_AUDIENCE,
+      issuer: JWT_ISSUER,
+    });
+
+    return {
+      token,
+      refreshToken: `${session._id.toString()}.${secret}`,
+      expiresIn: ACCESS_TOKEN_TTL,
+    };
+  }
+
+  private async findActivePrincipal(
+    principalType: PrincipalType,
+    principalId: Types.ObjectId,
+  ): Promise<SessionPrincipal | null> {
+    if (principalType === PrincipalType.STAFF) {
+      const user = await this.userModel
+        .findById(principalId)
+        .select('email roles status')
+        .lean()
+        .exec();
+      return user && user.status === 'active' ? user : null;
+    }
+
+    const delegate = await this.delegateModel
+      .findById(principalId)
+      .select('email status')
+      .lean()
+      .exec();
+    return delegate && ATTENDING_STATUSES.includes(delegate.status)
+      ? delegate
+      : null;
+  }
+
+  private async revokeSession(
+    session: SessionDocument,
+    reason: string,
+  ): Promise<void> {
+    await this.sessionModel
+      .updateOne(
+        { _id: session._id },
+        { $set: { revokedAt: new Date(), revokedReason: reason } },
+      )
+      .exec();
+  }
+
+  // Slides forward on each refresh, up to the session's maximum age
+  private refreshExpiry(principalType: PrincipalType, signedInAt: Date): Date {
+    return new Date(
+      Math.min(
+        Date.now() + REFRESH_TOKEN_TTL[principalType] * 1000,
+        signedInAt.getTime() + MAX_SESSION_AGE[principalType] * 1000,
+      ),
+    );
+  }
+
+  private generateSecret(): string {
+    return randomBytes(32).toString('base64url');
+  }
+
+  private hash(secret: string): string {
+    return createHash('sha256').update(secret).digest('hex');
+  }
+
+  private matches(secret: string, expectedHash: string): boolean {
+    const actual = Buffer.from(this.hash(secret), 'hex');
+    const expected = Buffer.from(expectedHash || '', 'hex');
+    return (
+      actual.length === expected.length && timingSafeEqual(actual, expected)
+    );
+  }
+}
@@ -1,54 +1,75 @@
-import {
-  Controller,
-  Get,
-  Query,
-  UseGuards,
-  ParseIntPipe,
-  ParseEnumPipe,
-} from '@nestjs/common';
+import { Controller, Get, Query, Req, Res, UseGuards } from '@nestjs/common';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
-  ApiQuery,
+  ApiOkResponse,
+  ApiBadRequestResponse,
 } from '@nestjs/swagger';
+import { Response } from 'express';
 import { SystemLogsService } from '../services/system-logs.service';
-import { LogSeverity } from '../schemas/system-log.schema';
+import { SystemLogRetentionService } from '../services/system-log-retention.service';
+import {
+  ExportSystemLogsQueryDto,
+  LogRetentionDto,
+  SystemLogPageDto,
+  SystemLogQueryDto,
+} from '../dto/system-log-query.dto';
 import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RequirePermissions } from '../../../common/decorators/permissions.decorator';
+import { Permission } from '../../../common/enums/permission.enum';
 
 @ApiTags('System Logs')
+@RequirePermissions(Permission.SYSTEM_LOGS_READ)
 @Controller('system-logs')
 @ApiBearerAuth()
 @UseGuards(JwtAuthGuard)
 export class SystemLogsController {
-  constructor(private readonly systemLogsService: SystemLogsService) {}
+  constructor(
+    private readonly systemLogsService: SystemLogsService,
+    private readonly systemLogRetentionService: SystemLogRetentionService,
+  ) {}
 
   @Get()
-  @ApiOperation({ summary: 'Get system logs with pagination and filters' })
-  @ApiQuery({ name: 'page', required: false, type: Number })
-  @ApiQuery({ name: 'limit', required: false, type: Number })
-  @ApiQuery({ name: 'severity', required: false, enum: LogSeverity })
-  @ApiQuery({ name: 'startDate', required: false, type: String })
-  @ApiQuery({ name: 'endDate', required: false, type: String })
+  @ApiOperation({
+    summary: 'Get system logs with pagination and filters',
+    description:
+      'Newest first. Search event and details, filter by severity, user, IP and date range. Follow nextCursor to page through results.',
+  })
   @ApiResponse({
     status: 200,
     description: 'Returns paginated system logs',
+    type: SystemLogPageDto,
+  })
+  @ApiBadRequestResponse({ description: 'Invalid filter or cursor' })
+  async getLogs(@Query() query: SystemLogQueryDto): Promise<SystemLogPageDto> {
+    return this.systemLogsService.getLogs(query);
+  }
+
+  @Get('export')
+  @ApiOperation({
+    summary: 'Export system logs to CSV or NDJSON',
+    description:
+      'Streams every log matching the same filters as the list endpoint, newest first.',
+  })
+  @ApiOkResponse({ description: 'File download' })
+  async export(
+    @Query() query: ExportSystemLogsQueryDto,
+    @Req() req: any,
+    @Res() res: Response,
+  ): Promise<void> {
+    await this.systemLogsService.export(query, res, req.user._id.toString());
+  }
+
+  @Get('retention')
+  @ApiOperation({
+    summary: 'Get the log retention policy',
+    description:
+      'Days each severity is kept before the nightly purge. Configured with SYSTEM_LOG_RETENTION_INFO_DAYS, SYSTEM_LOG_RETENTION_WARNING_DAYS and SYSTEM_LOG_RETENTION_ERROR_DAYS.',
   })
-  async getLogs(
-    @Query('page', new ParseIntPipe({ optional: true })) page = 1,
-    @Query('limit', new ParseIntPipe({ optional: true })) limit = 10,
-    @Query('severity', new ParseEnumPipe(LogSeverity, { optional: true }))
-    severity?: LogSeverity,
-    @Query('startDate') startDate?: string,
-    @Query('endDate') endDate?: string,
-  ) {
-    return this.systemLogsService.getLogs(
-      page,
-      limit,
-      severity,
-      startDate ? new Date(startDate) : undefined,
-      endDate ? new Date(endDate) : undefined,
-    );
+  @ApiOkResponse({ type: LogRetentionDto })
+  getRetention(): LogRetentionDto {
+    return this.systemLogRetentionService.getRetention();
   }
 }
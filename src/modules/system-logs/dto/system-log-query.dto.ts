@@ -0,0 +1,123 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { LogSeverity, SystemLog } from '../schemas/system-log.schema';
+
+export enum LogExportFormat {
+  CSV = 'csv',
+  NDJSON = 'ndjson',
+}
+
+// System Log Filter DTO
+export class SystemLogFilterDto {
+  @ApiPropertyOptional({
+    description: 'Full-text search over event and details',
+    example: 'login failed',
+  })
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @ApiPropertyOptional({ enum: LogSeverity })
+  @IsOptional()
+  @IsEnum(LogSeverity)
+  severity?: LogSeverity;
+
+  @ApiPropertyOptional({ example: 'EMP-0042' })
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @ApiPropertyOptional({ example: '192.168.1.100' })
+  @IsOptional()
+  @IsString()
+  ipAddress?: string;
+
+  @ApiPropertyOptional({ example: '2025-05-01' })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({ example: '2025-05-31T23:59:59Z' })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
+
+// System Log Query DTO
+export class SystemLogQueryDto extends SystemLogFilterDto {
+  @ApiPropertyOptional({
+    description:
+      'nextCursor from the previous page. Takes precedence over page and stays stable while new logs arrive.',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ default: 50, maximum: 500 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+}
+
+// Export System Logs Query DTO
+export class ExportSystemLogsQueryDto extends SystemLogFilterDto {
+  @ApiPropertyOptional({
+    enum: LogExportFormat,
+    default: LogExportFormat.CSV,
+    description: 'File format',
+  })
+  @IsOptional()
+  @IsEnum(LogExportFormat)
+  format?: LogExportFormat;
+}
+
+// Response DTOs for documentation
+export class SystemLogPageDto {
+  @ApiProperty({ type: [SystemLog] })
+  data: SystemLog[];
+
+  @ApiProperty({ example: 1240 })
+  total: number;
+
+  @ApiProperty({ example: 1 })
+  page: number;
+
+  @ApiProperty({ example: 50 })
+  limit: number;
+
+  @ApiProperty({ example: 25 })
+  totalPages: number;
+
+  @ApiPropertyOptional({
+    description: 'Pass as cursor to fetch the next page; absent on the last',
+    example: 'eyJ0IjoiMjAyNS0wNS0xMlQwODozMDowMC4wMDBaIiwiaWQiOiI2NjQxIn0',
+  })
+  nextCursor?: string;
+}
+
+export class LogRetentionDto {
+  @ApiProperty({
+    description: 'Days each severity is kept; 0 keeps logs forever',
+    example: { info: 30, warning: 90, error: 365 },
+  })
+  retentionDays: Record<LogSeverity, number>;
+}
@@ -57,3 +57,9 @@ export class SystemLog {
 }
 
 export const SystemLogSchema = SchemaFactory.createForClass(SystemLog);
+
+SystemLogSchema.index({ event: 'text', details: 'text' });
+SystemLogSchema.index({ timestamp: -1, _id: -1 });
+SystemLogSchema.index({ severity: 1, timestamp: -1 });
+SystemLogSchema.index({ userId: 1, timestamp: -1 });
+SystemLogSchema.index({ ipAddress: 1, timestamp: -1 });
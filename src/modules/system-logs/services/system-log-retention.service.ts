@@ -0,0 +1,82 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Model } from 'mongoose';
+import {
+  LogSeverity,
+  SystemLog,
+  SystemLogDocument,
+} from '../schemas/system-log.schema';
+import { LogRetentionDto } from '../dto/system-log-query.dto';
+
+// Days to keep each severity unless overridden by
+// SYSTEM_LOG_RETENTION_<SEVERITY>_DAYS; 0 keeps logs forever
+const DEFAULT_RETENTION_DAYS: Record<LogSeverity, number> = {
+  [LogSeverity.INFO]: 30,
+  [LogSeverity.WARNING]: 90,
+  [LogSeverity.ERROR]: 365,
+};
+
+@Injectable()
+export class SystemLogRetentionService {
+  private readonly logger = new Logger(SystemLogRetentionService.name);
+
+  constructor(
+    @InjectModel(SystemLog.name)
+    private readonly systemLogModel: Model<SystemLogDocument>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  getRetention(): LogRetentionDto {
+    const retentionDays = {} as Record<LogSeverity, number>;
+    for (const severity of Object.values(LogSeverity)) {
+      retentionDays[severity] = this.retentionDays(severity);
+    }
+    return { retentionDays };
+  }
+
+  /**
+   * Delete logs older than their severity's retention period. Runs nightly;
+   * a change to the retention settings applies to existing logs on the next
+   * run.
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM, { name: 'purge-system-logs' })
+  async purgeExpired(): Promise<number> {
+    let purged = 0;
+    for (const severity of Object.values(LogSeverity)) {
+      const days = this.retentionDays(severity);
+      if (days === 0) {
+        continue;
+      }
+
+      try {
+        const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+        const result = await this.systemLogModel
+          .deleteMany({ severity, timestamp: { $lt: cutoff } })
+          .exec();
+        purged += result.deletedCount;
+      } catch (error) {
+        this.logger.error(
+          `Failed to purge ${severity} logs: ${error.message}`,
+          error.stack,
+        );
+      }
+    }
+
+    if (purged > 0) {
+      this.logger.log(`Purged ${purged} expired system logs`);
+    }
+    return purged;
+  }
+
+  private retentionDays(severity: LogSeverity): number {
+    const value = this.configService.get<string>(
+      `SYSTEM_LOG_RETENTION_${severity.toUpperCase()}_DAYS`,
+    );
+    const configured = Number(value);
+    return value?.trim() && Number.isInteger(configured) && configured >= 0
+      ? configured
+      : DEFAULT_RETENTION_DAYS[severity];
+  }
+}
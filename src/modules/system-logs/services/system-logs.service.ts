@@ -1,11 +1,37 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
-import { SystemLog, SystemLogDocument, LogSeverity } from '../schemas/system-log.schema';
-import { Request } from 'express';
+import { FilterQuery, Model, Types } from 'mongoose';
+import { once } from 'events';
+import { createArrayCsvStringifier } from 'csv-writer';
+import {
+  SystemLog,
+  SystemLogDocument,
+  LogSeverity,
+} from '../schemas/system-log.schema';
+import { Request, Response } from 'express';
+import {
+  ExportSystemLogsQueryDto,
+  LogExportFormat,
+  SystemLogFilterDto,
+  SystemLogPageDto,
+  SystemLogQueryDto,
+} from '../dto/system-log-query.dto';
+
+type SystemLogRow = SystemLog & { _id: Types.ObjectId };
+
+const EXPORT_FIELDS: (keyof SystemLog)[] = [
+  'timestamp',
+  'severity',
+  'event',
+  'details',
+  'userId',
+  'ipAddress',
+];
 
 @Injectable()
 export class SystemLogsService {
+  private readonly logger = new Logger(SystemLogsService.name);
+
   constructor(
     @InjectModel(SystemLog.name)
     private systemLogModel: Model<SystemLogDocument>,
@@ -30,41 +56,174 @@ export class SystemLogsService {
     return log.save();
   }
 
-  async getLogs(
-    page = 1,
-    limit = 2000,
-    severity?: LogSeverity,
-    startDate?: Date,
-    endDate?: Date,
-  ) {
-    const query: any = {};
+  /**
+   * Newest first. With a cursor, the page starts after the last log of the
+   * previous one, so logs written in the meantime do not shift the results.
+   */
+  async getLogs(query: SystemLogQueryDto): Promise<SystemLogPageDto> {
+    const page = Math.max(Number(query.page) || 1, 1);
+    const limit = Math.min(Math.max(Number(query.limit) || 50, 1), 500);
+    const filter = this.buildFilter(query);
 
-    if (severity) {
-      query.severity = severity;
-    }
-
-    if (startDate || endDate) {
-      query.timestamp = {};
-      if (startDate) query.timestamp.$gte = startDate;
-      if (endDate) query.timestamp.$lte = endDate;
-    }
+    const pageFilter: FilterQuery<SystemLogDocument> = query.cursor
+      ? { $and: [filter, this.afterCursor(query.cursor)] }
+      : filter;
 
     const [logs, total] = await Promise.all([
       this.systemLogModel
-        .find(query)
-        .sort({ timestamp: -1 })
-        .skip((page - 1) * limit)
-        .limit(limit)
+        .find(pageFilter)
+        .sort({ timestamp: -1, _id: -1 })
+        .skip(query.cursor ? 0 : (page - 1) * limit)
+        // One extra row tells us whether there is a next page
+        .limit(limit + 1)
+        .lean<SystemLogRow[]>()
         .exec(),
-      this.systemLogModel.countDocuments(query),
+      this.systemLogModel.countDocuments(filter),
     ]);
 
+    const data = logs.slice(0, limit);
     return {
-      data: logs,
+      data,
       total,
       page,
       limit,
       totalPages: Math.ceil(total / limit),
+      nextCursor:
+        logs.length > limit
+          ? this.encodeCursor(data[data.length - 1])
+          : undefined,
+    };
+  }
+
+  /**
+   * Stream the filtered logs to the response as csv or ndjson, reading
+   * through a cursor so large exports are never held in memory
+   */
+  async export(
+    query: ExportSystemLogsQueryDto,
+    res: Response,
+    userId?: string,
+  ): Promise<void> {
+    const format = query.format || LogExportFormat.CSV;
+    const cursor = this.systemLogModel
+      .find(this.buildFilter(query))
+      .sort({ timestamp: -1, _id: -1 })
+      .select(EXPORT_FIELDS.join(' '))
+      .lean<SystemLogRow>()
+      .cursor();
+
+    const filename = `system-logs-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader('Content-Disposition', `attachment; filename=${filename}`);
+
+    let exported = 0;
+    try {
+      if (format === LogExportFormat.NDJSON) {
+        res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+        for await (const log of cursor) {
+          const { _id, ...fields } = log;
+          await this.write(
+            res,
+            `${JSON.stringify({ id: _id.toString(), ...fields })}\n`,
+          );
+          exported++;
+        }
+      } else {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        const csv = createArrayCsvStringifier({ header: EXPORT_FIELDS });
+        await this.write(res, csv.getHeaderString());
+        for await (const log of cursor) {
+          const row = EXPORT_FIELDS.map((field) =>
+            log[field] instanceof Date
+              ? (log[field] as Date).toISOString()
+              : log[field],
+          );
+          await this.write(res, csv.stringifyRecords([row]));
+          exported++;
+        }
+      }
+      res.end();
+    } catch (error) {
+      this.logger.error(
+        `System log export failed after ${exported} rows: ${error.message}`,
+        error.stack,
+      );
+      // Headers are already sent, so the only option is to abort the download
+      res.destroy(error);
+      return;
+    } finally {
+      await cursor.close();
+    }
+
+    await this.createLog(
+      'System Logs Exported',
+      `Exported ${exported} system logs as ${format}`,
+      LogSeverity.INFO,
+      userId,
+      res.req,
+    );
+  }
+
+  private buildFilter(
+    query: SystemLogFilterDto,
+  ): FilterQuery<SystemLogDocument> {
+    const filter: FilterQuery<SystemLogDocument> = {};
+
+    if (query.search) {
+      filter.$text = { $search: query.search };
+    }
+    if (query.severity) {
+      filter.severity = query.severity;
+    }
+    if (query.userId) {
+      filter.userId = query.userId;
+    }
+    if (query.ipAddress) {
+      filter.ipAddress = query.ipAddress;
+    }
+    if (query.startDate || query.endDate) {
+      filter.timestamp = {};
+      if (query.startDate) filter.timestamp.$gte = new Date(query.startDate);
+      if (query.endDate) filter.timestamp.$lte = new Date(query.endDate);
+    }
+
+    return filter;
+  }
+
+  private encodeCursor(log: SystemLogRow): string {
+    return Buffer.from(
+      JSON.stringify({ t: log.timestamp, id: log._id.toString() }),
+    ).toString('base64url');
+  }
+
+  // Logs that sort after the cursor: older, or same time with a lower ID
+  private afterCursor(cursor: string): FilterQuery<SystemLogDocument> {
+    let timestamp: Date;
+    let id: string;
+    try {
+      const decoded = JSON.parse(
+        Buffer.from(cursor, 'base64url').toString('utf8'),
+      );
+      timestamp = new Date(decoded.t);
+      id = decoded.id;
+    } catch {
+      throw new BadRequestException('Invalid cursor');
+    }
+    if (isNaN(timestamp.getTime()) || !Types.ObjectId.isValid(id)) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    return {
+      $or: [
+        { timestamp: { $lt: timestamp } },
+        { timestamp, _id: { $lt: new Types.ObjectId(id) } },
+      ],
     };
   }
+
+  // Honour backpressure so a slow client doesn't buffer the whole file
+  private async write(res: Response, chunk: string): Promise<void> {
+    if (!res.write(chunk)) {
+      await once(res, 'drain');
+    }
+  }
 }
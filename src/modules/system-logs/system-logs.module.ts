@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { SystemLogsService } from './services/system-logs.service';
+import { SystemLogRetentionService } from './services/system-log-retention.service';
 import { SystemLogsController } from './controllers/system-logs.controller';
 import { SystemLog, SystemLogSchema } from './schemas/system-log.schema';
 
@@ -10,7 +11,7 @@ import { SystemLog, SystemLogSchema } from './schemas/system-log.schema';
       { name: SystemLog.name, schema: SystemLogSchema },
     ]),
   ],
-  providers: [SystemLogsService],
+  providers: [SystemLogsService, SystemLogRetentionService],
   controllers: [SystemLogsController],
   exports: [SystemLogsService],
 })
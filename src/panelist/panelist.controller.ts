@@ -15,8 +15,10 @@ import {
   UseInterceptors,
   UploadedFile,
   BadRequestException,
+  Req,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
+import { Request as ExpressRequest } from 'express';
 import {
   ApiTags,
   ApiOperation,
@@ -42,6 +44,10 @@ import {
 } from './panelist.schema';
 import { Public } from 'src/modules/auth/decorators/public.decorator';
 import { CloudinaryService } from '../modules/cloudinary/cloudinary.service';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { Permission } from '../common/enums/permission.enum';
+import { Principals } from '../common/decorators/principals.decorator';
+import { PrincipalType } from '../common/enums/principal-type.enum';
 
 @ApiTags('Panelists')
 @Controller('panelists')
@@ -57,6 +63,7 @@ export class PanelistController {
 
   // Creates a new panelist
   @Post()
+  @RequirePermissions(Permission.PANELISTS_MANAGE)
   @UseInterceptors(
     FileInterceptor('profilePicture', {
       limits: {
@@ -195,6 +202,7 @@ export class PanelistController {
   })
   async create(
     @Body() createPanelistDto: CreatePanelistDto,
+    @Req() req: ExpressRequest,
     @UploadedFile() profilePicture?: Express.Multer.File,
   ): Promise<any> {
     this.logger.log(
@@ -209,7 +217,7 @@ export class PanelistController {
       createPanelistDto.profileImageUrl = result.secure_url;
     }
 
-    return await this.panelistService.create(createPanelistDto);
+    return await this.panelistService.create(createPanelistDto, req);
   }
 
   // Retrieves all panelists with filtering and pagination
@@ -374,6 +382,7 @@ export class PanelistController {
 
   // Retrieves a single panelist by ID
   @Get(':id')
+  @Principals(PrincipalType.STAFF, PrincipalType.DELEGATE)
   @ApiOperation({
     summary: 'Get panelist by ID',
     description: 'Retrieves a specific panelist by their unique identifier',
@@ -399,6 +408,7 @@ export class PanelistController {
 
   // Updates an existing panelist
   @Patch(':id')
+  @RequirePermissions(Permission.PANELISTS_MANAGE)
   @ApiOperation({
     summary: 'Update panelist',
     description: 'Updates an existing panelist with partial data',
@@ -425,13 +435,15 @@ export class PanelistController {
   async update(
     @Param('id') id: string,
     @Body() updatePanelistDto: UpdatePanelistDto,
+    @Req() req: ExpressRequest,
   ): Promise<any> {
     this.logger.log(`Received request to update panelist: ${id}`);
-    return await this.panelistService.update(id, updatePanelistDto);
+    return await this.panelistService.update(id, updatePanelistDto, req);
   }
 
   // Confirms or unconfirms panelist participation
   @Patch(':id/confirm')
+  @RequirePermissions(Permission.PANELISTS_MANAGE)
   @ApiOperation({
     summary: 'Confirm panelist participation',
     description:
@@ -455,15 +467,17 @@ export class PanelistController {
   async confirmParticipation(
     @Param('id') id: string,
     @Body() confirmDto: ConfirmPanelistDto,
+    @Req() req: ExpressRequest,
   ): Promise<any> {
     this.logger.log(
       `Received request to confirm panelist participation: ${id}`,
     );
-    return await this.panelistService.confirmParticipation(id, confirmDto);
+    return await this.panelistService.confirmParticipation(id, confirmDto, req);
   }
 
   // Deactivates a panelist (soft delete)
   @Delete(':id')
+  @RequirePermissions(Permission.PANELISTS_MANAGE)
   @ApiOperation({
     summary: 'Deactivate panelist',
     description: 'Soft deletes a panelist by setting their status to inactive',
@@ -481,9 +495,12 @@ export class PanelistController {
     status: HttpStatus.BAD_REQUEST,
     description: 'Invalid ID format',
   })
-  async remove(@Param('id') id: string): Promise<{ message: string }> {
+  async remove(
+    @Param('id') id: string,
+    @Req() req: ExpressRequest,
+  ): Promise<{ message: string }> {
     this.logger.log(`Received request to deactivate panelist: ${id}`);
-    await this.panelistService.remove(id);
+    await this.panelistService.remove(id, req);
     return { message: 'Panelist deactivated successfully' };
   }
 }
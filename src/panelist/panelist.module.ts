@@ -4,6 +4,7 @@ import { PanelistController } from './panelist.controller';
 import { MongooseModule } from '@nestjs/mongoose';
 import { Panelist, PanelistSchema } from './panelist.schema';
 import { CloudinaryModule } from '../modules/cloudinary/cloudinary.module';
+import { AuditModule } from '../modules/audit/audit.module';
 
 @Module({
   controllers: [PanelistController],
@@ -13,6 +14,7 @@ import { CloudinaryModule } from '../modules/cloudinary/cloudinary.module';
       { name: Panelist.name, schema: PanelistSchema },
     ]),
     CloudinaryModule,
+    AuditModule,
   ],
   exports: [PanelistService],
 })
@@ -7,12 +7,18 @@ import {
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
+import { Request } from 'express';
 import { Panelist, PanelistRole, OrganizationType } from './panelist.schema';
 import {
   ConfirmPanelistDto,
   CreatePanelistDto,
   UpdatePanelistDto,
 } from './panelist.dto';
+import { AuditService } from '../modules/audit/audit.service';
+import {
+  AuditAction,
+  AuditEntityType,
+} from '../modules/audit/audit-entry.schema';
 
 // ============================
 // SERVICE CLASS
@@ -29,15 +35,20 @@ export class PanelistService {
   constructor(
     @InjectModel(Panelist.name)
     private readonly panelistModel: Model<Panelist>,
+    private readonly auditService: AuditService,
   ) {}
 
   /**
    * Creates a new panelist record
    * @param createPanelistDto - Panelist data for creation
+   * @param req - Request of the acting user, for the audit trail
    * @returns Promise<Panelist> - The created panelist
    * @throws ConflictException if panelist with email already exists
    */
-  async create(createPanelistDto: CreatePanelistDto): Promise<Panelist> {
+  async create(
+    createPanelistDto: CreatePanelistDto,
+    req?: Request,
+  ): Promise<Panelist> {
     try {
       this.logger.log(`Creating new panelist: ${createPanelistDto.email}`);
 
@@ -63,6 +74,15 @@ export class PanelistService {
       this.logger.log(
         `Successfully created panelist with ID: ${savedPanelist._id}`,
       );
+      await this.auditService.record(
+        {
+          entityType: AuditEntityType.PANELIST,
+          entityId: savedPanelist._id,
+          action: AuditAction.CREATE,
+          after: savedPanelist,
+        },
+        req,
+      );
 
       return savedPanelist;
     } catch (error) {
@@ -204,6 +224,7 @@ export class PanelistService {
   async update(
     id: string,
     updatePanelistDto: UpdatePanelistDto,
+    req?: Request,
   ): Promise<Panelist> {
     try {
       if (!Types.ObjectId.isValid(id)) {
@@ -247,6 +268,16 @@ export class PanelistService {
         .exec();
 
       this.logger.log(`Successfully updated panelist: ${id}`);
+      await this.auditService.record(
+        {
+          entityType: AuditEntityType.PANELIST,
+          entityId: id,
+          action: AuditAction.UPDATE,
+          before: existingPanelist,
+          after: updatedPanelist,
+        },
+        req,
+      );
       return updatedPanelist;
     } catch (error) {
       if (
@@ -274,6 +305,7 @@ export class PanelistService {
   async confirmParticipation(
     id: string,
     confirmDto: ConfirmPanelistDto,
+    req?: Request,
   ): Promise<Panelist> {
     try {
       if (!Types.ObjectId.isValid(id)) {
@@ -285,6 +317,10 @@ export class PanelistService {
         confirmedAt: confirmDto.isConfirmed ? new Date() : null,
       };
 
+      const existingPanelist = await this.panelistModel
+        .findById(id)
+        .lean()
+        .exec();
       const updatedPanelist = await this.panelistModel
         .findByIdAndUpdate(id, updateData, { new: true, runValidators: true })
         .lean()
@@ -296,6 +332,16 @@ export class PanelistService {
 
       const action = confirmDto.isConfirmed ? 'confirmed' : 'unconfirmed';
       this.logger.log(`Successfully ${action} panelist participation: ${id}`);
+      await this.auditService.record(
+        {
+          entityType: AuditEntityType.PANELIST,
+          entityId: id,
+          action: AuditAction.CONFIRM,
+          before: existingPanelist,
+          after: updatedPanelist,
+        },
+        req,
+      );
 
       return updatedPanelist;
     } catch (error) {
@@ -319,14 +365,14 @@ export class PanelistService {
    * @returns Promise<void>
    * @throws NotFoundException if panelist not found
    */
-  async remove(id: string): Promise<void> {
+  async remove(id: string, req?: Request): Promise<void> {
     try {
       if (!Types.ObjectId.isValid(id)) {
         throw new BadRequestException('Invalid panelist ID format');
       }
 
       const result = await this.panelistModel
-        .findByIdAndUpdate(id, { isActive: false }, { new: true })
+        .findByIdAndUpdate(id, { isActive: false }, { new: false })
         .lean()
         .exec();
 
@@ -335,6 +381,16 @@ export class PanelistService {
       }
 
       this.logger.log(`Successfully deactivated panelist: ${id}`);
+      await this.auditService.record(
+        {
+          entityType: AuditEntityType.PANELIST,
+          entityId: id,
+          action: AuditAction.ARCHIVE,
+          before: result,
+          after: { ...result, isActive: false },
+        },
+        req,
+      );
     } catch (error) {
       if (
         error instanceof NotFoundException ||
@@ -9,6 +9,7 @@ import {
   Query,
   UseGuards,
   Request,
+  Req,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
@@ -32,9 +33,14 @@ import {
   UpdateVideoDto,
   VideoQueryDto,
 } from './dto/create-video.dto';
+import { Request as ExpressRequest } from 'express';
 import { Video } from './entities/video.entity';
 import { VideoService } from './video.service';
 import { Public } from 'src/modules/auth/decorators/public.decorator';
+import { RequirePermissions } from '../common/decorators/permissions.decorator';
+import { Permission } from '../common/enums/permission.enum';
+import { Principals } from '../common/decorators/principals.decorator';
+import { PrincipalType } from '../common/enums/principal-type.enum';
 
 @ApiTags('Videos')
 @Controller('videos')
@@ -43,6 +49,7 @@ export class VideoController {
   constructor(private readonly videoService: VideoService) {}
 
   @Post()
+  @RequirePermissions(Permission.VIDEOS_MODERATE)
   @ApiOperation({
     summary: 'Upload a new video',
     description:
@@ -73,8 +80,11 @@ export class VideoController {
     type: CreateVideoDto,
     description: 'Video data to upload',
   })
-  async create(@Body() createVideoDto: CreateVideoDto) {
-    return this.videoService.create(createVideoDto);
+  async create(
+    @Body() createVideoDto: CreateVideoDto,
+    @Req() req: ExpressRequest,
+  ) {
+    return this.videoService.create(createVideoDto, req);
   }
 
   @Get()
@@ -105,6 +115,7 @@ export class VideoController {
   }
 
   @Get(':id')
+  @Principals(PrincipalType.STAFF, PrincipalType.DELEGATE)
   @ApiOperation({
     summary: 'Get video by ID',
     description: 'Retrieve a specific video by its unique identifier.',
@@ -134,6 +145,7 @@ export class VideoController {
   }
 
   @Patch(':id')
+  @RequirePermissions(Permission.VIDEOS_MODERATE)
   @ApiOperation({
     summary: 'Update video',
     description:
@@ -164,11 +176,13 @@ export class VideoController {
   async update(
     @Param('id') id: string,
     @Body() updateVideoDto: UpdateVideoDto,
+    @Req() req: ExpressRequest,
   ) {
-    return this.videoService.update(id, updateVideoDto);
+    return this.videoService.update(id, updateVideoDto, req);
   }
 
   @Delete(':id')
+  @RequirePermissions(Permission.VIDEOS_MODERATE)
   @ApiOperation({
     summary: 'Delete video',
     description: 'Delete a video entry. This action requires admin privileges.',
@@ -191,7 +205,7 @@ export class VideoController {
     description: 'Admin privileges required',
   })
   @HttpCode(HttpStatus.NO_CONTENT)
-  async remove(@Param('id') id: string) {
-    return this.videoService.remove(id);
+  async remove(@Param('id') id: string, @Req() req: ExpressRequest) {
+    return this.videoService.remove(id, req);
   }
 }
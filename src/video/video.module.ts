@@ -3,10 +3,12 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { VideoController } from './video.controller';
 import { VideoService } from './video.service';
 import { Video, VideoSchema } from './entities/video.entity';
+import { AuditModule } from '../modules/audit/audit.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([{ name: Video.name, schema: VideoSchema }]),
+    AuditModule,
   ],
   controllers: [VideoController],
   providers: [VideoService],
@@ -5,20 +5,27 @@ import {
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
+import { Request } from 'express';
 import {
   CreateVideoDto,
   UpdateVideoDto,
   VideoQueryDto,
 } from './dto/create-video.dto';
 import { Video, VideoDocument } from './entities/video.entity';
+import { AuditService } from '../modules/audit/audit.service';
+import {
+  AuditAction,
+  AuditEntityType,
+} from '../modules/audit/audit-entry.schema';
 
 @Injectable()
 export class VideoService {
   constructor(
     @InjectModel(Video.name) private videoModel: Model<VideoDocument>,
+    private readonly auditService: AuditService,
   ) {}
 
-  async create(createVideoDto: CreateVideoDto): Promise<Video> {
+  async create(createVideoDto: CreateVideoDto, req?: Request): Promise<Video> {
     const existingVideo = await this.videoModel.findOne({
       youtubeUrl: createVideoDto.youtubeUrl,
     });
@@ -34,7 +41,17 @@ export class VideoService {
       eventDate: new Date(createVideoDto.eventDate),
     });
 
-    return video.save();
+    const savedVideo = await video.save();
+    await this.auditService.record(
+      {
+        entityType: AuditEntityType.VIDEO,
+        entityId: savedVideo._id,
+        action: AuditAction.CREATE,
+        after: savedVideo,
+      },
+      req,
+    );
+    return savedVideo;
   }
 
   async findAll(query: VideoQueryDto) {
@@ -95,7 +112,12 @@ export class VideoService {
     return video;
   }
 
-  async update(id: string, updateVideoDto: UpdateVideoDto): Promise<Video> {
+  async update(
+    id: string,
+    updateVideoDto: UpdateVideoDto,
+    req?: Request,
+  ): Promise<Video> {
+    const existingVideo = await this.videoModel.findById(id).lean().exec();
     const video = await this.videoModel
       .findByIdAndUpdate(
         id,
@@ -108,14 +130,34 @@ export class VideoService {
       throw new NotFoundException('Video not found');
     }
 
+    await this.auditService.record(
+      {
+        entityType: AuditEntityType.VIDEO,
+        entityId: id,
+        action: AuditAction.UPDATE,
+        before: existingVideo,
+        after: video,
+      },
+      req,
+    );
     return video;
   }
 
-  async remove(id: string): Promise<void> {
+  async remove(id: string, req?: Request): Promise<void> {
     const result = await this.videoModel.findByIdAndDelete(id).exec();
     if (!result) {
       throw new NotFoundException('Video not found');
     }
+
+    await this.auditService.record(
+      {
+        entityType: AuditEntityType.VIDEO,
+        entityId: id,
+        action: AuditAction.DELETE,
+        before: result,
+      },
+      req,
+    );
   }
 
   async incrementViewCount(id: string): Promise<void> {